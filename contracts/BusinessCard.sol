@@ -5,11 +5,13 @@ pragma solidity ^0.8.4;
 import "@openzeppelin/contracts/access/Ownable.sol";
 import "@openzeppelin/contracts/utils/math/SafeMath.sol";
 import "@openzeppelin/contracts/token/ERC721/extensions/ERC721Enumerable.sol";
+import "@openzeppelin/contracts/token/common/ERC2981.sol";
 import "./DorsiaToken.sol";
 import "./interfaces/IBusinessCard.sol";
 import "./libs/Utils.sol";
+import "./PaymentLedger.sol";
 
-contract BusinessCard is IBusinessCard, ERC721Enumerable, Ownable {
+contract BusinessCard is IBusinessCard, ERC721Enumerable, ERC2981, Ownable, PaymentLedger {
     using StringUtils for bytes;
 
     /// @dev Gets a Business Card ID and returns the corresponding URI.
@@ -33,10 +35,19 @@ contract BusinessCard is IBusinessCard, ERC721Enumerable, Ownable {
     /// @dev Gets a request ID and returns wheter it was processed by the oracle.
     mapping(uint256 => bool) public requests;
 
+    /// @dev Gets a Business Card ID and returns the timestamp of its pending request.
+    mapping(uint256 => uint256) public requestTimestamps;
+
+    /// @dev Gets a Business Card ID and returns the oracle fee held for its pending request.
+    mapping(uint256 => uint256) private _requestFees;
+
+    // Oracle fees held until the oracle answers their request, or refunded if it gets cancelled.
+    uint256 public escrowedOracleFees;
+
     // Business Card Marketplace address.
     address public marketplaceAddress;
     // Dorsia Club Token contract.
-    DorsiaClubToken public DCT;
+    IDorsiaClubToken public override DCT;
 
     bool public saleStarted;
 
@@ -122,18 +133,33 @@ contract BusinessCard is IBusinessCard, ERC721Enumerable, Ownable {
         _cardStats[cardId1].name = _cardStats[cardId2].name;
         _cardStats[cardId2].name = name1;
 
-        // Requests now pending
+        // Requests now pending, the single oracle fee paid is held through the first Business Card
         requests[cardId1] = true;
         requests[cardId2] = true;
+        requestTimestamps[cardId1] = block.timestamp;
+        requestTimestamps[cardId2] = block.timestamp;
+        _escrowOracleFee(cardId1);
 
         // Emitting a single swap request to the oracle -- processed differently
         emit CardDataSwapRequest(cardId1, cardId2, _cardStats[cardId1].genes, _cardStats[cardId2].genes);
-
-        // Fund the server oracle with enough funds for the callback transaction
-        (bool success, ) = payable(oracleAddress).call{value: ORACLE_FEE}("");
-        if (!success) { revert ValueTransferFailed(); }
     }   
 
+    /// @dev See {IBusinessCard-cancelRequest}
+    function cancelRequest(uint256 cardId) external override {
+        if (!_isApprovedOrOwner(_msgSender(), cardId)) { revert CallerMustBeOwnerOrApproved(); }
+        if (!requests[cardId]) { revert RequestNotInPendingList(); }
+        if (block.timestamp < requestTimestamps[cardId] + REQUEST_TIMEOUT) { revert RequestNotTimedOut(); }
+
+        _cancelRequest(cardId);
+    }
+
+    /// @dev See {IBusinessCard-resetRequest}
+    function resetRequest(uint256 cardId) external override onlyOwner {
+        if (!requests[cardId]) { revert RequestNotInPendingList(); }
+
+        _cancelRequest(cardId);
+    }
+
     /// @dev See {IBusinessCard-startSale}
     function startSale() external override onlyOwner {
         if (oracleAddress == address(0)) { revert OracleIsNotDefined(); }
@@ -166,6 +192,17 @@ contract BusinessCard is IBusinessCard, ERC721Enumerable, Ownable {
         marketplaceAddress = _marketplaceAddress;
     }
     
+    /// @dev See {IBusinessCard-setRoyalty}
+    function setRoyalty(address receiver, uint96 royalty) external override onlyOwner {
+        if (receiver == address(0)) {
+            _deleteDefaultRoyalty();
+            return;
+        }
+        if (royalty > MAX_ROYALTY) { revert RoyaltyTooHigh(); }
+
+        _setDefaultRoyalty(receiver, royalty);
+    }
+    
     /// @dev See {IBusinessCard-setBaseURI}
     function setBaseURI(string memory _baseURI) external override onlyOwner {
         baseURI = _baseURI;
@@ -173,7 +210,7 @@ contract BusinessCard is IBusinessCard, ERC721Enumerable, Ownable {
 
     /// @dev See {IBusinessCard-devWorksHard}
     function devWorksHard() external override onlyOwner {
-        uint balance = address(this).balance;
+        uint balance = address(this).balance - escrowedOracleFees - totalPayments;
         (bool success, ) = payable(msg.sender).call{ value: balance }("");
 
         if (!success) { revert(); }
@@ -194,6 +231,11 @@ contract BusinessCard is IBusinessCard, ERC721Enumerable, Ownable {
         return _cardStats[cardId].genes;
     }
 
+    /// @dev See {IERC165-supportsInterface}
+    function supportsInterface(bytes4 interfaceId) public view override(IERC165, ERC721Enumerable, ERC2981) returns (bool) {
+        return super.supportsInterface(interfaceId);
+    }
+
     /// @dev See {IERC721Metadata-tokenURI}
     function tokenURI(uint256 cardId) public view override existingCards(cardId) returns (string memory) {
         string memory cardURI = _cardURIs[cardId];
@@ -226,10 +268,8 @@ contract BusinessCard is IBusinessCard, ERC721Enumerable, Ownable {
         // Calls for updating the token can only be made if it is not being processed already
         if (requests[cardId]) { revert RequestBeingProcessed(); }
         requests[cardId] = true;
-
-        // Fund the server oracle with enough funds for the callback transaction
-        (bool success, ) = payable(oracleAddress).call{value: ORACLE_FEE}("");
-        if (!success) { revert ValueTransferFailed(); }
+        requestTimestamps[cardId] = block.timestamp;
+        _escrowOracleFee(cardId);
         
         emit CardDataUpdateRequest(cardId, genes, cardName, cardProperties);
     }
@@ -240,8 +280,44 @@ contract BusinessCard is IBusinessCard, ERC721Enumerable, Ownable {
         if (!requests[cardId]) { revert RequestNotInPendingList(); }
 
         _cardURIs[cardId] = cardURI;
-        delete requests[cardId];
+        uint256 fee = _clearRequest(cardId);
 
         emit CardURIUpdated(cardId, string(abi.encodePacked(baseURI, cardURI)));
+
+        // Pay the server oracle for the callback transaction
+        if (fee > 0) {
+            (bool success, ) = payable(oracleAddress).call{ value: fee }("");
+            if (!success) { revert ValueTransferFailed(); }
+        }
+    }
+
+    /// @dev Removes the pending request of a Business Card, refunding the oracle fee held for it.
+    function _cancelRequest(uint256 cardId) internal {
+        uint256 refund = _clearRequest(cardId);
+
+        // The owner of the Business Card withdraws the fee, so that an owner rejecting ETH can still clear its request,
+        // and an approved operator cancelling on its behalf does not get it
+        if (refund > 0) {
+            _credit(ownerOf(cardId), refund);
+        }
+
+        emit RequestCancelled(cardId, refund);
+    }
+
+    /// @dev Holds the oracle fee of a pending request until the oracle answers it or the request gets cancelled.
+    function _escrowOracleFee(uint256 cardId) internal {
+        _requestFees[cardId] = ORACLE_FEE;
+        escrowedOracleFees += ORACLE_FEE;
+    }
+
+    /// @dev Removes the pending request of a Business Card.
+    /// @return fee Oracle fee that was held for the request, no longer escrowed.
+    function _clearRequest(uint256 cardId) internal returns (uint256 fee) {
+        fee = _requestFees[cardId];
+        escrowedOracleFees -= fee;
+
+        delete requests[cardId];
+        delete requestTimestamps[cardId];
+        delete _requestFees[cardId];
     }
 }
@@ -3,12 +3,19 @@ pragma solidity ^0.8.4;
 
 import "@openzeppelin/contracts/access/Ownable.sol";
 import "@openzeppelin/contracts/security/ReentrancyGuard.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
 import "@openzeppelin/contracts/utils/Counters.sol";
+import "@openzeppelin/contracts/utils/structs/EnumerableSet.sol";
+import "@openzeppelin/contracts/utils/cryptography/EIP712.sol";
+import "@openzeppelin/contracts/utils/cryptography/SignatureChecker.sol";
 import "./interfaces/IBusinessCard.sol";
 import "./interfaces/ICardMarketplace.sol";
+import "./PaymentLedger.sol";
 
-contract CardMarketplace is ICardMarketplace, Ownable, ReentrancyGuard {
+contract CardMarketplace is ICardMarketplace, Ownable, ReentrancyGuard, EIP712, PaymentLedger {
     using Counters for Counters.Counter;
+    using EnumerableSet for EnumerableSet.UintSet;
+    using SafeERC20 for IDorsiaClubToken;
     
     // Number of Business Cards that have been listed in the marketplace.
     uint256 public totalListings;
@@ -16,15 +23,70 @@ contract CardMarketplace is ICardMarketplace, Ownable, ReentrancyGuard {
     uint256 public filledListings;
     // Number of Business Card listings that have been cancelled.
     uint256 public cancelledListings;
+    // Number of offers that have been made for Business Cards.
+    uint256 public totalOffers;
+    // Number of Business Card auctions that have been created.
+    uint256 public totalAuctions;
+    // Amount escrowed by the offers that have not been accepted nor withdrawn, the highest bids of unsettled auctions and the deposits.
+    uint256 public escrowedAmount;
+
+    // Protocol fee, in basis points, charged on every sale.
+    uint96 public protocolFee;
+    // Protocol fees charged since the last withdrawal, the only funds the owner can withdraw.
+    uint256 public accruedFees;
+    // Protocol fees charged in DCT since the last withdrawal.
+    uint256 public accruedDCTFees;
+    // Address the accrued protocol fees are withdrawn to, which starts as the contract owner.
+    address public treasury;
     
     // Business Card smart contract.
     IBusinessCard immutable businessCard;
+    // Dorsia Club Token smart contract, the currency listings can be settled in besides ETH.
+    IDorsiaClubToken immutable dct;
 
     // Whether the trading of Business Cards is currently active, which starts as true.
     bool public marketplaceActive = true;
 
     /// @dev Gets a listing ID and returns the corresponding CardListing struct.
     mapping(uint256 => CardListing) private _idToCardListing;
+    /// @dev Gets a listing ID and returns how its price decays, which is only set for Dutch listings.
+    mapping(uint256 => PriceDecay) private _idToPriceDecay;
+    /// @dev Gets a listing ID and returns the IDs of its Business Cards, which is only set for bundle listings.
+    mapping(uint256 => uint256[]) private _idToBundleCardIds;
+    /// @dev Gets a listing ID and returns the timestamp from which it can no longer be bought, zero if it never expires.
+    mapping(uint256 => uint256) public listingExpiries;
+    /// @dev IDs of the public listings that are currently active, neither filled nor cancelled.
+    EnumerableSet.UintSet private _activeListingIds;
+    /// @dev Gets an address and returns the IDs of the listings it created.
+    mapping(address => uint256[]) private _sellerToListingIds;
+    /// @dev Gets an address and returns the IDs of the listings it closed, either by buying them or by cancelling its own.
+    mapping(address => uint256[]) private _buyerToListingIds;
+    /// @dev Gets a Business Card ID and returns the IDs of its listings, including the bundle listings it is part of.
+    mapping(uint256 => uint256[]) private _cardToListingIds;
+
+    /// @dev Gets an offer ID and returns the corresponding CardOffer struct.
+    mapping(uint256 => CardOffer) private _idToCardOffer;
+    /// @dev Gets a Business Card ID and returns the IDs of the offers made for it.
+    mapping(uint256 => uint256[]) private _cardToOfferIds;
+    /// @dev Gets an address and returns the IDs of the offers it made.
+    mapping(address => uint256[]) private _bidderToOfferIds;
+
+    /// @dev Gets an auction ID and returns the corresponding CardAuction struct.
+    mapping(uint256 => CardAuction) private _idToCardAuction;
+
+    /// @dev Gets an address and returns the nonce the orders it signs must have.
+    mapping(address => uint256) public nonces;
+    /// @dev Gets the hash of a signed order and returns whether it has been filled.
+    mapping(bytes32 => bool) public filledOrders;
+    /// @dev Gets the hash of a signed order and returns whether its signer has cancelled it.
+    mapping(bytes32 => bool) public cancelledOrders;
+    /// @dev Gets an address and returns the funds it deposited to pay for its buy orders.
+    mapping(address => uint256) public deposits;
+
+    bytes32 private constant SELL_ORDER_TYPEHASH =
+        keccak256("SellOrder(address seller,uint256 cardId,uint256 price,uint256 expiresAt,uint256 nonce,uint256 salt)");
+    bytes32 private constant BUY_ORDER_TYPEHASH =
+        keccak256("BuyOrder(address buyer,uint256 cardId,uint256 price,uint256 expiresAt,uint256 nonce,uint256 salt)");
 
     /// @dev Throws if the listing has been cancelled or filled.
     /// @param itemId: ID of the listing.
@@ -34,33 +96,72 @@ contract CardMarketplace is ICardMarketplace, Ownable, ReentrancyGuard {
         _;
     }
 
+    /// @dev Throws if the offer does not exist, has been accepted or has been withdrawn.
+    /// @param offerId: ID of the offer.
+    modifier activeOffer(uint256 offerId) {
+        if (_idToCardOffer[offerId].cardId == 0) { revert OfferDoesNotExist(); }
+        if (_idToCardOffer[offerId].isAccepted) { revert OfferWasAccepted(); }
+        if (_idToCardOffer[offerId].isWithdrawn) { revert OfferWasWithdrawn(); }
+        _;
+    }
+
     /// @dev Initializes the Card Marketplace smart contract.
     /// @param businessCardAddress: Address for the Business Card smart contract.
-    constructor(address businessCardAddress) {
+    constructor(address businessCardAddress) EIP712("CardMarketplace", "1") {
         businessCard = IBusinessCard(businessCardAddress);
+        dct = IBusinessCard(businessCardAddress).DCT();
+        treasury = _msgSender();
     }
 
     /// @dev See {ICardMarketplace-createCardListing}
     function createCardListing(uint256 cardId, uint256 price) external override nonReentrant {
-        if (!marketplaceActive) { revert MarketplaceIsPaused(); }
-        if (price < MIN_LISTING_PRICE) { revert PriceTooLow(); }
+        _createCardListing(cardId, price, Currency.ETH, address(0));
+    }
 
-        totalListings++;
+    /// @dev See {ICardMarketplace-createCardListingWithCurrency}
+    function createCardListingWithCurrency(uint256 cardId, uint256 price, Currency currency) external override nonReentrant {
+        _createCardListing(cardId, price, currency, address(0));
+    }
 
-        _idToCardListing[totalListings] = CardListing(
-            cardId,
-            _msgSender(),
-            address(0),  // No buyer for the item
-            price,
-            false,
-            false
-        );
+    /// @dev See {ICardMarketplace-createPrivateCardListing}
+    function createPrivateCardListing(uint256 cardId, uint256 price, Currency currency, address reservedBuyer) external override nonReentrant {
+        if (reservedBuyer == address(0) || reservedBuyer == _msgSender()) { revert ReservedBuyerNotValid(); }
 
-        businessCard.transferFrom(_msgSender(), address(this), cardId);
+        uint256 itemId = _createCardListing(cardId, price, currency, reservedBuyer);
+
+        emit PrivateCardListingCreated(itemId, reservedBuyer);
+    }
+
+    /// @dev See {ICardMarketplace-createDutchCardListing}
+    function createDutchCardListing(uint256 cardId, uint256 startPrice, uint256 floorPrice, uint256 duration) external override nonReentrant {
+        if (floorPrice < MIN_LISTING_PRICE) { revert PriceTooLow(); }
+        if (floorPrice >= startPrice || duration == 0) { revert PriceDecayNotValid(); }
 
-        emit CardListingCreated(totalListings, cardId, _msgSender(), price);
+        uint256 itemId = _createCardListing(cardId, startPrice, Currency.ETH, address(0));
+        _idToPriceDecay[itemId] = PriceDecay(floorPrice, block.timestamp, duration);
+
+        emit DutchCardListingCreated(itemId, startPrice, floorPrice, duration);
     }
     
+    /// @dev See {ICardMarketplace-createBundleListing}
+    function createBundleListing(uint256[] calldata cardIds, uint256 price, Currency currency) external override nonReentrant {
+        if (cardIds.length < 2 || cardIds.length > MAX_BUNDLE_SIZE) { revert BundleSizeNotValid(); }
+
+        uint256 itemId = _createCardListing(cardIds[0], price, currency, address(0));
+        _idToBundleCardIds[itemId] = cardIds;
+
+        emit CardBundled(itemId, cardIds[0]);
+
+        // Listing the same Business Card twice reverts, as the Marketplace already owns it
+        for (uint256 i = 1; i < cardIds.length; i++) {
+            _cardToListingIds[cardIds[i]].push(itemId);
+
+            businessCard.transferFrom(_msgSender(), address(this), cardIds[i]);
+
+            emit CardBundled(itemId, cardIds[i]);
+        }
+    }
+
     /// @dev See {ICardMarketplace-cancelCardListing}
     function cancelCardListing(uint256 itemId) external override activeListing(itemId) {
         uint256 cardId = _idToCardListing[itemId].cardId;
@@ -68,21 +169,86 @@ contract CardMarketplace is ICardMarketplace, Ownable, ReentrancyGuard {
         if (cardId == 0) { revert ListingDoesNotExist(); }
         if (_idToCardListing[itemId].seller != _msgSender()) { revert CallerIsNotTheSeller(); }
 
-        _idToCardListing[itemId].buyer = _msgSender();
+        _closeListing(itemId, _msgSender());
         _idToCardListing[itemId].isCancelled = true;
         cancelledListings++;
 
-        businessCard.transferFrom(address(this), _msgSender(), cardId);
+        _transferListedCards(itemId, _msgSender());
 
         emit CardListingCancelled(itemId, cardId);
     }
 
+    /// @dev See {ICardMarketplace-updateListingPrice}
+    function updateListingPrice(uint256 itemId, uint256 newPrice) external override activeListing(itemId) {
+        CardListing storage listing = _idToCardListing[itemId];
+
+        if (listing.cardId == 0) { revert ListingDoesNotExist(); }
+        if (listing.seller != _msgSender()) { revert CallerIsNotTheSeller(); }
+        if (newPrice < MIN_LISTING_PRICE) { revert PriceTooLow(); }
+
+        uint256 oldPrice = listing.price;
+        listing.price = newPrice;
+        delete _idToPriceDecay[itemId];
+
+        emit CardListingPriceUpdated(itemId, listing.cardId, oldPrice, newPrice);
+    }
+
+    /// @dev See {ICardMarketplace-setListingExpiry}
+    function setListingExpiry(uint256 itemId, uint256 expiresAt) external override activeListing(itemId) {
+        uint256 cardId = _idToCardListing[itemId].cardId;
+
+        if (cardId == 0) { revert ListingDoesNotExist(); }
+        if (_idToCardListing[itemId].seller != _msgSender()) { revert CallerIsNotTheSeller(); }
+        if (expiresAt != 0 && expiresAt <= block.timestamp) { revert ListingExpiryNotValid(); }
+
+        listingExpiries[itemId] = expiresAt;
+
+        emit CardListingExpirySet(itemId, cardId, expiresAt);
+    }
+
+    /// @dev See {ICardMarketplace-closeExpiredListing}
+    function closeExpiredListing(uint256 itemId) external override activeListing(itemId) {
+        uint256 cardId = _idToCardListing[itemId].cardId;
+
+        if (cardId == 0) { revert ListingDoesNotExist(); }
+        if (!_isListingExpired(itemId)) { revert ListingHasNotExpired(); }
+
+        address seller = _idToCardListing[itemId].seller;
+
+        _closeListing(itemId, seller);
+        _idToCardListing[itemId].isCancelled = true;
+        cancelledListings++;
+
+        _transferListedCards(itemId, seller);
+
+        emit CardListingExpired(itemId, cardId);
+    }
+
     /// @dev See {ICardMarketplace-buyListedCard}
     function buyListedCard(uint256 itemId) external payable override nonReentrant activeListing(itemId) {
         uint256 cardId = _idToCardListing[itemId].cardId;
-        uint256 price = _idToCardListing[itemId].price;
+        uint256 price = _getListingPrice(itemId);
         
-        _buyListedCard(itemId, cardId, price);
+        _buyListedCard(itemId, cardId, price, _getETHPrice(itemId, price));
+    }
+
+    /// @dev See {ICardMarketplace-buyListedCardWithPermit}
+    function buyListedCardWithPermit(
+        uint256 itemId,
+        uint256 deadline,
+        uint8 v,
+        bytes32 r,
+        bytes32 s
+    ) external override nonReentrant activeListing(itemId) {
+        uint256 cardId = _idToCardListing[itemId].cardId;
+        uint256 price = _getListingPrice(itemId);
+
+        if (_idToCardListing[itemId].currency != Currency.DCT) { revert CurrencyNotValid(); }
+
+        // A permit that was front-run has already set the allowance, transferFrom reverts if it has not
+        try dct.permit(_msgSender(), address(this), price, deadline, v, r, s) {} catch {}
+
+        _buyListedCard(itemId, cardId, price, 0);
     }
     
     /// @dev See {ICardMarketplace-buyListedCard}
@@ -92,65 +258,385 @@ contract CardMarketplace is ICardMarketplace, Ownable, ReentrancyGuard {
         CardProperties calldata newCardProperties
     ) external payable override nonReentrant activeListing(itemId) {
         uint256 cardId = _idToCardListing[itemId].cardId;
-        uint256 price = _idToCardListing[itemId].price;
+        uint256 price = _getListingPrice(itemId);
+        uint256 cost = _getETHPrice(itemId, price) + ORACLE_FEE + UPDATE_PRICE;
+
+        if (_idToBundleCardIds[itemId].length > 0) { revert ListingIsABundle(); }
+        // Checked before the update, which would otherwise revert with the errors of the Business Card first
+        _checkReservedBuyer(itemId);
 
-        // Buyer must pay the seller plus the oracle fee plus the update price
-        if (msg.value < price + ORACLE_FEE + UPDATE_PRICE) { revert PriceTooLow(); }
+        // Buyer must pay the seller plus the oracle fee plus the update price, the oracle fee and the update price are always paid in ETH
+        if (msg.value < cost) { revert PriceTooLow(); }
 
         // Business Card update
         businessCard.updateCardData{ value: ORACLE_FEE + UPDATE_PRICE }(cardId, newCardName, newCardProperties);
 
-        _buyListedCard(itemId, cardId, price);
+        _buyListedCard(itemId, cardId, price, cost);
     }
 
-    /// @dev See {ICardMarketplace-getMarketListings}
-    function getMarketListings() external view override returns (CardListing[] memory cardListings) {
-        uint256 availableItemsCount = totalListings - filledListings - cancelledListings;
-        cardListings = new CardListing[](availableItemsCount);
+    /// @dev See {ICardMarketplace-makeOffer}
+    function makeOffer(uint256 cardId, uint256 expiresAt) external payable override nonReentrant {
+        if (!marketplaceActive) { revert MarketplaceIsPaused(); }
+        if (msg.value < MIN_LISTING_PRICE) { revert PriceTooLow(); }
+        if (expiresAt <= block.timestamp) { revert OfferExpirationNotValid(); }
+
+        // Reverts if the Business Card does not exist
+        address owner = businessCard.ownerOf(cardId);
+
+        // Neither the owner of the Business Card nor the seller of its active listing can make an offer for it
+        if (owner == _msgSender()) { revert CallerIsTheCardOwner(); }
+        if (owner == address(this)) {
+            CardListing memory listing = _idToCardListing[_getLatestListingId(cardId)];
+            if (listing.seller == _msgSender() && !listing.isSold && !listing.isCancelled) { revert CallerIsTheCardOwner(); }
+        }
+
+        totalOffers++;
+
+        _idToCardOffer[totalOffers] = CardOffer(
+            totalOffers,
+            cardId,
+            _msgSender(),
+            msg.value,
+            expiresAt,
+            false,
+            false
+        );
+        _cardToOfferIds[cardId].push(totalOffers);
+        _bidderToOfferIds[_msgSender()].push(totalOffers);
+        escrowedAmount += msg.value;
+
+        emit CardOfferCreated(totalOffers, cardId, _msgSender(), msg.value, expiresAt);
+    }
 
-        uint256 listingIndex;
-        for(uint256 i = 0; i < totalListings; ++i) {
-            CardListing memory listing = _idToCardListing[i + 1];
+    /// @dev See {ICardMarketplace-withdrawOffer}
+    function withdrawOffer(uint256 offerId) external override nonReentrant activeOffer(offerId) {
+        CardOffer storage offer = _idToCardOffer[offerId];
 
-            if (listing.buyer != address(0)) continue;
+        if (offer.bidder != _msgSender()) { revert CallerIsNotTheBidder(); }
 
-            cardListings[listingIndex] = listing;
-            listingIndex++;
+        offer.isWithdrawn = true;
+        escrowedAmount -= offer.amount;
+
+        (bool success, ) = payable(_msgSender()).call{ value: offer.amount }("");
+        if (!success) { revert ValueTransferFailed(); }
+
+        emit CardOfferWithdrawn(offerId, offer.cardId);
+    }
+
+    /// @dev See {ICardMarketplace-acceptOffer}
+    function acceptOffer(uint256 offerId) external override nonReentrant activeOffer(offerId) {
+        if (!marketplaceActive) { revert MarketplaceIsPaused(); }
+
+        CardOffer storage offer = _idToCardOffer[offerId];
+        uint256 cardId = offer.cardId;
+
+        if (offer.expiresAt <= block.timestamp) { revert OfferHasExpired(); }
+
+        offer.isAccepted = true;
+        escrowedAmount -= offer.amount;
+
+        if (businessCard.ownerOf(cardId) == address(this)) {
+            // The Business Card is either listed or auctioned, only the seller of an active listing can accept the offer
+            uint256 itemId = _getLatestListingId(cardId);
+            CardListing memory listing = _idToCardListing[itemId];
+            if (listing.seller != _msgSender() || listing.isSold || listing.isCancelled) { revert CallerIsNotTheCardOwner(); }
+
+            _closeListing(itemId, _msgSender());
+            _idToCardListing[itemId].isCancelled = true;
+            cancelledListings++;
+
+            // The other Business Cards of a bundle go back to the seller
+            uint256[] memory cardIds = _getListingCardIds(itemId);
+            for (uint256 i = 0; i < cardIds.length; i++) {
+                businessCard.transferFrom(address(this), cardIds[i] == cardId ? offer.bidder : _msgSender(), cardIds[i]);
+            }
+
+            emit CardListingCancelled(itemId, listing.cardId);
+        } else {
+            if (businessCard.ownerOf(cardId) != _msgSender()) { revert CallerIsNotTheCardOwner(); }
+
+            businessCard.transferFrom(_msgSender(), offer.bidder, cardId);
         }
 
-        return cardListings;
+        _paySale(cardId, _msgSender(), offer.amount, Currency.ETH);
+
+        emit CardOfferAccepted(offerId, cardId, _msgSender(), offer.bidder, offer.amount);
     }
-    
-    /// @dev See {ICardMarketplace-getMarketListingsByAddress}
-    function getMarketListingsByAddress(address account, bool isSeller) external view override returns (CardListing[] memory cardListings) {
-        uint256 listingCount;
-        uint256 listingIndex;
 
-        for (uint256 i = 0; i < totalListings; i++) {
-            if ((isSeller ?  _idToCardListing[i + 1].seller :  _idToCardListing[i + 1].buyer) != account) continue;
-            listingCount++;
+    /// @dev See {ICardMarketplace-createAuction}
+    function createAuction(uint256 cardId, uint256 reservePrice, uint256 minBidIncrement, uint256 duration) external override nonReentrant {
+        if (!marketplaceActive) { revert MarketplaceIsPaused(); }
+        if (reservePrice < MIN_LISTING_PRICE) { revert PriceTooLow(); }
+        if (minBidIncrement == 0) { revert BidIncrementNotValid(); }
+        if (duration < MIN_AUCTION_DURATION || duration > MAX_AUCTION_DURATION) { revert AuctionDurationNotValid(); }
+
+        totalAuctions++;
+
+        _idToCardAuction[totalAuctions] = CardAuction(
+            totalAuctions,
+            cardId,
+            _msgSender(),
+            reservePrice,
+            minBidIncrement,
+            block.timestamp + duration,
+            address(0),  // No bids yet
+            0,
+            false
+        );
+
+        businessCard.transferFrom(_msgSender(), address(this), cardId);
+
+        emit CardAuctionCreated(totalAuctions, cardId, _msgSender(), reservePrice, minBidIncrement, block.timestamp + duration);
+    }
+
+    /// @dev See {ICardMarketplace-bid}
+    function bid(uint256 auctionId) external payable override nonReentrant {
+        CardAuction storage auction = _idToCardAuction[auctionId];
+
+        if (auction.cardId == 0) { revert AuctionDoesNotExist(); }
+        if (!marketplaceActive) { revert MarketplaceIsPaused(); }
+        if (block.timestamp >= auction.endTime) { revert AuctionHasEnded(); }
+
+        address previousBidder = auction.highestBidder;
+        uint256 previousBid = auction.highestBid;
+
+        if (previousBidder == address(0) ? msg.value < auction.reservePrice : msg.value < previousBid + auction.minBidIncrement) {
+            revert BidTooLow();
         }
 
-        cardListings = new CardListing[](listingCount);
+        auction.highestBidder = _msgSender();
+        auction.highestBid = msg.value;
+        escrowedAmount = escrowedAmount + msg.value - previousBid;
 
-        for (uint256 i = 0; i < totalListings; i++) {
-            if ((isSeller ?  _idToCardListing[i + 1].seller :  _idToCardListing[i + 1].buyer) != account) continue;
+        if (auction.endTime - block.timestamp < AUCTION_EXTENSION) {
+            auction.endTime = block.timestamp + AUCTION_EXTENSION;
+        }
+
+        // The previous bidder withdraws its bid, so that a bidder rejecting ETH cannot prevent others from outbidding it
+        if (previousBidder != address(0)) {
+            _credit(previousBidder, previousBid);
+        }
 
-            cardListings[listingIndex] =_idToCardListing[i + 1];
+        emit CardAuctionBid(auctionId, auction.cardId, _msgSender(), msg.value, auction.endTime);
+    }
 
-            listingIndex++;
+    /// @dev See {ICardMarketplace-settleAuction}
+    function settleAuction(uint256 auctionId) external override nonReentrant {
+        CardAuction storage auction = _idToCardAuction[auctionId];
+
+        if (auction.cardId == 0) { revert AuctionDoesNotExist(); }
+        if (auction.isSettled) { revert AuctionWasSettled(); }
+        if (block.timestamp < auction.endTime) { revert AuctionHasNotEnded(); }
+
+        auction.isSettled = true;
+
+        if (auction.highestBidder == address(0)) {
+            businessCard.transferFrom(address(this), auction.seller, auction.cardId);
+        } else {
+            escrowedAmount -= auction.highestBid;
+
+            _paySale(auction.cardId, auction.seller, auction.highestBid, Currency.ETH);
+
+            businessCard.transferFrom(address(this), auction.highestBidder, auction.cardId);
         }
+
+        emit CardAuctionSettled(auctionId, auction.cardId, auction.seller, auction.highestBidder, auction.highestBid);
+    }
+
+    /// @dev See {ICardMarketplace-fillSellOrder}
+    function fillSellOrder(SellOrder calldata order, bytes calldata signature) external payable override nonReentrant {
+        bytes32 orderHash = _hashSellOrder(order);
+
+        _validateOrder(orderHash, order.seller, order.price, order.expiresAt, order.nonce, signature);
+        if (msg.value < order.price) { revert PriceTooLow(); }
+
+        filledOrders[orderHash] = true;
+
+        // Reverts if the seller no longer owns the Business Card or has not approved the Marketplace
+        businessCard.transferFrom(order.seller, _msgSender(), order.cardId);
+
+        _paySale(order.cardId, order.seller, order.price, Currency.ETH);
+
+        if (msg.value > order.price) {
+            (bool success, ) = payable(_msgSender()).call{ value: msg.value - order.price }("");
+            if (!success) { revert ValueTransferFailed(); }
+        }
+
+        emit SignedOrderFilled(orderHash, order.cardId, order.seller, _msgSender(), order.price);
+    }
+
+    /// @dev See {ICardMarketplace-acceptBuyOrder}
+    function acceptBuyOrder(BuyOrder calldata order, bytes calldata signature) external override nonReentrant {
+        bytes32 orderHash = _hashBuyOrder(order);
+
+        _validateOrder(orderHash, order.buyer, order.price, order.expiresAt, order.nonce, signature);
+        if (deposits[order.buyer] < order.price) { revert DepositTooLow(); }
+        if (businessCard.ownerOf(order.cardId) != _msgSender()) { revert CallerIsNotTheCardOwner(); }
+
+        filledOrders[orderHash] = true;
+        deposits[order.buyer] -= order.price;
+        escrowedAmount -= order.price;
+
+        businessCard.transferFrom(_msgSender(), order.buyer, order.cardId);
+
+        _paySale(order.cardId, _msgSender(), order.price, Currency.ETH);
+
+        emit SignedOrderFilled(orderHash, order.cardId, _msgSender(), order.buyer, order.price);
+    }
+
+    /// @dev See {ICardMarketplace-cancelSellOrder}
+    function cancelSellOrder(SellOrder calldata order) external override {
+        if (order.seller != _msgSender()) { revert CallerIsNotTheSigner(); }
+
+        _cancelOrder(_hashSellOrder(order));
+    }
+
+    /// @dev See {ICardMarketplace-cancelBuyOrder}
+    function cancelBuyOrder(BuyOrder calldata order) external override {
+        if (order.buyer != _msgSender()) { revert CallerIsNotTheSigner(); }
+
+        _cancelOrder(_hashBuyOrder(order));
+    }
+
+    /// @dev See {ICardMarketplace-cancelAllOrders}
+    function cancelAllOrders() external override {
+        nonces[_msgSender()]++;
+
+        emit NonceIncremented(_msgSender(), nonces[_msgSender()]);
+    }
+
+    /// @dev See {ICardMarketplace-deposit}
+    function deposit() external payable override {
+        if (!marketplaceActive) { revert MarketplaceIsPaused(); }
+
+        deposits[_msgSender()] += msg.value;
+        escrowedAmount += msg.value;
+
+        emit Deposited(_msgSender(), msg.value);
+    }
+
+    /// @dev See {ICardMarketplace-withdrawDeposit}
+    function withdrawDeposit(uint256 amount) external override nonReentrant {
+        if (deposits[_msgSender()] < amount) { revert DepositTooLow(); }
+
+        deposits[_msgSender()] -= amount;
+        escrowedAmount -= amount;
+
+        (bool success, ) = payable(_msgSender()).call{ value: amount }("");
+        if (!success) { revert ValueTransferFailed(); }
+
+        emit DepositWithdrawn(_msgSender(), amount);
+    }
+
+    /// @dev See {ICardMarketplace-hashSellOrder}
+    function hashSellOrder(SellOrder calldata order) external view override returns (bytes32) {
+        return _hashSellOrder(order);
+    }
+
+    /// @dev See {ICardMarketplace-hashBuyOrder}
+    function hashBuyOrder(BuyOrder calldata order) external view override returns (bytes32) {
+        return _hashBuyOrder(order);
+    }
+
+    /// @dev See {ICardMarketplace-getAuction}
+    function getAuction(uint256 auctionId) external view override returns (CardAuction memory) {
+        if (_idToCardAuction[auctionId].cardId == 0) { revert AuctionDoesNotExist(); }
+
+        return _idToCardAuction[auctionId];
+    }
+
+    /// @dev See {ICardMarketplace-getOffer}
+    function getOffer(uint256 offerId) external view override returns (CardOffer memory) {
+        if (_idToCardOffer[offerId].cardId == 0) { revert OfferDoesNotExist(); }
+
+        return _idToCardOffer[offerId];
+    }
+
+    /// @dev See {ICardMarketplace-getOffersByCard}
+    function getOffersByCard(uint256 cardId) external view override returns (CardOffer[] memory) {
+        return _getOffers(_cardToOfferIds[cardId]);
+    }
+
+    /// @dev See {ICardMarketplace-getOffersByBidder}
+    function getOffersByBidder(address bidder) external view override returns (CardOffer[] memory) {
+        return _getOffers(_bidderToOfferIds[bidder]);
+    }
+
+    /// @dev See {ICardMarketplace-getListing}
+    function getListing(uint256 itemId) external view override returns (CardListing memory) {
+        if (_idToCardListing[itemId].cardId == 0) { revert ListingDoesNotExist(); }
+
+        return _idToCardListing[itemId];
+    }
+
+    /// @dev See {ICardMarketplace-getListingCardIds}
+    function getListingCardIds(uint256 itemId) external view override returns (uint256[] memory) {
+        if (_idToCardListing[itemId].cardId == 0) { revert ListingDoesNotExist(); }
+
+        return _getListingCardIds(itemId);
+    }
+
+    /// @dev See {ICardMarketplace-getListingPrice}
+    function getListingPrice(uint256 itemId) external view override returns (uint256) {
+        if (_idToCardListing[itemId].cardId == 0) { revert ListingDoesNotExist(); }
+
+        return _getListingPrice(itemId);
+    }
+
+    /// @dev See {ICardMarketplace-getMarketListings}
+    function getMarketListings() external view override returns (CardListing[] memory cardListings) {
+        (, cardListings, ) = _getActiveListingsPage(0, MAX_UNPAGINATED_LISTINGS);
+    }
+    
+    /// @dev See {ICardMarketplace-getMarketListingsByAddress}
+    function getMarketListingsByAddress(address account, bool isSeller) external view override returns (CardListing[] memory cardListings) {
+        uint256[] storage itemIds = isSeller ? _sellerToListingIds[account] : _buyerToListingIds[account];
+        (, cardListings, ) = _getListingsPage(itemIds, 0, MAX_UNPAGINATED_LISTINGS);
     }
     
     /// @dev See {ICardMarketplace-getLatestListingByCard}
     function getLatestListingByCard(uint256 cardId) external view override returns (CardListing memory cardListing) {
-        for (uint256 i = totalListings; i > 0; i--) {
-            cardListing = _idToCardListing[i];
-            if (cardListing.cardId != cardId) continue;
-            return cardListing;
-        }
+        uint256 itemId = _getLatestListingId(cardId);
+
+        if (itemId == 0) { revert CardWasNotListed(); }
 
-        revert CardWasNotListed();
+        return _idToCardListing[itemId];
+    }
+
+    /// @dev See {ICardMarketplace-getActiveListings}
+    function getActiveListings(uint256 offset, uint256 limit) external view override returns (
+        uint256[] memory itemIds,
+        CardListing[] memory cardListings,
+        uint256 total
+    ) {
+        return _getActiveListingsPage(offset, limit);
+    }
+
+    /// @dev See {ICardMarketplace-getListingsBySeller}
+    function getListingsBySeller(address seller, uint256 offset, uint256 limit) external view override returns (
+        uint256[] memory itemIds,
+        CardListing[] memory cardListings,
+        uint256 total
+    ) {
+        return _getListingsPage(_sellerToListingIds[seller], offset, limit);
+    }
+
+    /// @dev See {ICardMarketplace-getListingsByBuyer}
+    function getListingsByBuyer(address buyer, uint256 offset, uint256 limit) external view override returns (
+        uint256[] memory itemIds,
+        CardListing[] memory cardListings,
+        uint256 total
+    ) {
+        return _getListingsPage(_buyerToListingIds[buyer], offset, limit);
+    }
+
+    /// @dev See {ICardMarketplace-getListingsByCard}
+    function getListingsByCard(uint256 cardId, uint256 offset, uint256 limit) external view override returns (
+        uint256[] memory itemIds,
+        CardListing[] memory cardListings,
+        uint256 total
+    ) {
+        return _getListingsPage(_cardToListingIds[cardId], offset, limit);
     }
     
     /// @dev See {ICardMarketplace-startMarketplace}
@@ -165,36 +651,330 @@ contract CardMarketplace is ICardMarketplace, Ownable, ReentrancyGuard {
     
     /// @dev See {ICardMarketplace-withdraw}
     function withdraw() external override onlyOwner {
-        uint balance = address(this).balance;
-        (bool success, ) = payable(msg.sender).call{ value: balance }("");
+        uint256 fees = accruedFees;
+        uint256 dctFees = accruedDCTFees;
+        accruedFees = 0;
+        accruedDCTFees = 0;
+
+        (bool success, ) = payable(treasury).call{ value: fees }("");
+        if (!success) { revert ValueTransferFailed(); }
+
+        dct.safeTransfer(treasury, dctFees);
+
+        emit FeesWithdrawn(treasury, fees, dctFees);
+    }
+
+    /// @dev See {ICardMarketplace-setProtocolFee}
+    function setProtocolFee(uint96 fee) external override onlyOwner {
+        if (fee > MAX_PROTOCOL_FEE) { revert ProtocolFeeTooHigh(); }
+
+        protocolFee = fee;
+    }
+
+    /// @dev See {ICardMarketplace-setTreasury}
+    function setTreasury(address _treasury) external override onlyOwner {
+        if (_treasury == address(0)) { revert TreasuryNotValid(); }
+
+        treasury = _treasury;
+    }
+
+    /// @dev Lists a Business Card on the Marketplace.
+    /// @param cardId: ID of the Business Card that is being listed.
+    /// @param price: Price the Business Card is being listed for.
+    /// @param currency: Currency the listing is settled in.
+    /// @param reservedBuyer: Only address that can buy the listing, zero for public listings.
+    /// @return itemId: ID of the listing.
+    function _createCardListing(uint256 cardId, uint256 price, Currency currency, address reservedBuyer) internal returns (uint256) {
+        if (!marketplaceActive) { revert MarketplaceIsPaused(); }
+        if (price < MIN_LISTING_PRICE) { revert PriceTooLow(); }
+
+        totalListings++;
+
+        _idToCardListing[totalListings] = CardListing(
+            cardId,
+            _msgSender(),
+            reservedBuyer,  // No buyer for the item, unless it is reserved
+            price,
+            false,
+            false,
+            currency
+        );
+        // Private listings are not advertised
+        if (reservedBuyer == address(0)) {
+            _activeListingIds.add(totalListings);
+        }
+        _sellerToListingIds[_msgSender()].push(totalListings);
+        _cardToListingIds[cardId].push(totalListings);
+
+        businessCard.transferFrom(_msgSender(), address(this), cardId);
+
+        emit CardListingCreated(totalListings, cardId, _msgSender(), price, currency);
+
+        return totalListings;
+    }
+
+    /// @dev Closes an active listing, removing it from the active listings if public and recording who closed it.
+    /// The callers mark the listing as filled or cancelled.
+    /// @param itemId: ID of the listing.
+    /// @param closedBy: Address that bought the listing, or the seller when it gets cancelled or expires.
+    function _closeListing(uint256 itemId, address closedBy) internal {
+        _idToCardListing[itemId].buyer = closedBy;
+        _activeListingIds.remove(itemId);
+        _buyerToListingIds[closedBy].push(itemId);
+    }
+
+    /// @dev Gets the ID of the latest listing of a Business Card, zero if it was never listed.
+    /// @param cardId: ID of the Business Card.
+    function _getLatestListingId(uint256 cardId) internal view returns (uint256) {
+        uint256[] storage itemIds = _cardToListingIds[cardId];
+
+        return itemIds.length == 0 ? 0 : itemIds[itemIds.length - 1];
+    }
+
+    /// @dev Gets the IDs of the Business Cards of a listing, a single one unless it is a bundle listing.
+    /// @param itemId: ID of the listing.
+    function _getListingCardIds(uint256 itemId) internal view returns (uint256[] memory cardIds) {
+        if (_idToBundleCardIds[itemId].length > 0) { return _idToBundleCardIds[itemId]; }
+
+        cardIds = new uint256[](1);
+        cardIds[0] = _idToCardListing[itemId].cardId;
+    }
+
+    /// @dev Transfers every Business Card of a listing out of the Marketplace.
+    /// @param itemId: ID of the listing.
+    /// @param to: Address the Business Cards are transferred to.
+    function _transferListedCards(uint256 itemId, address to) internal {
+        uint256[] memory cardIds = _getListingCardIds(itemId);
+
+        for (uint256 i = 0; i < cardIds.length; i++) {
+            businessCard.transferFrom(address(this), to, cardIds[i]);
+        }
+    }
+
+    /// @dev Gets the number of items in a page, which is smaller than the limit for the last page and zero past it.
+    /// @param total: Number of items in every page.
+    /// @param offset: Index of the first item of the page.
+    /// @param limit: Maximum number of items in the page.
+    function _getPageSize(uint256 total, uint256 offset, uint256 limit) internal pure returns (uint256) {
+        if (offset >= total) { return 0; }
+
+        return total - offset < limit ? total - offset : limit;
+    }
 
-        if (!success) { revert(); }
+    /// @dev Gets a page of the public listings that are currently active.
+    /// @param offset: Index of the first listing of the page.
+    /// @param limit: Maximum number of listings in the page.
+    function _getActiveListingsPage(uint256 offset, uint256 limit) internal view returns (
+        uint256[] memory itemIds,
+        CardListing[] memory cardListings,
+        uint256 total
+    ) {
+        total = _activeListingIds.length();
+        uint256 count = _getPageSize(total, offset, limit);
+
+        itemIds = new uint256[](count);
+        cardListings = new CardListing[](count);
+
+        for (uint256 i = 0; i < count; i++) {
+            itemIds[i] = _activeListingIds.at(offset + i);
+            cardListings[i] = _idToCardListing[itemIds[i]];
+        }
+    }
+
+    /// @dev Gets a page of the listings with the given IDs.
+    /// @param ids: IDs of the listings, in the order they are paginated in.
+    /// @param offset: Index of the first listing of the page.
+    /// @param limit: Maximum number of listings in the page.
+    function _getListingsPage(uint256[] storage ids, uint256 offset, uint256 limit) internal view returns (
+        uint256[] memory itemIds,
+        CardListing[] memory cardListings,
+        uint256 total
+    ) {
+        total = ids.length;
+        uint256 count = _getPageSize(total, offset, limit);
+
+        itemIds = new uint256[](count);
+        cardListings = new CardListing[](count);
+
+        for (uint256 i = 0; i < count; i++) {
+            itemIds[i] = ids[offset + i];
+            cardListings[i] = _idToCardListing[itemIds[i]];
+        }
+    }
+
+    /// @dev Gets the current price of a listing, decaying linearly down to the floor price for Dutch listings.
+    /// @param itemId: ID of the listing.
+    function _getListingPrice(uint256 itemId) internal view returns (uint256) {
+        uint256 startPrice = _idToCardListing[itemId].price;
+        PriceDecay memory decay = _idToPriceDecay[itemId];
+
+        if (decay.duration == 0) { return startPrice; }
+
+        uint256 elapsed = block.timestamp - decay.startTime;
+        if (elapsed >= decay.duration) { return decay.floorPrice; }
+
+        return startPrice - (startPrice - decay.floorPrice) * elapsed / decay.duration;
     }
 
-    /// @dev Purchases a listed Business Card from the Marketplace.
+    /// @dev Throws if the listing is private and the msg.sender is not its reserved buyer.
+    /// @param itemId: ID of the listing.
+    function _checkReservedBuyer(uint256 itemId) internal view {
+        address reservedBuyer = _idToCardListing[itemId].buyer;
+
+        if (reservedBuyer != address(0) && reservedBuyer != _msgSender()) { revert CallerIsNotTheReservedBuyer(); }
+    }
+
+    /// @dev Returns whether the listing has an expiry that has passed.
+    /// @param itemId: ID of the listing.
+    function _isListingExpired(uint256 itemId) internal view returns (bool) {
+        uint256 expiresAt = listingExpiries[itemId];
+
+        return expiresAt != 0 && block.timestamp >= expiresAt;
+    }
+
+    /// @dev Gets the part of the price of a listing that is paid in ETH, none of it for listings settled in DCT.
+    /// @param itemId: ID of the listing.
+    /// @param price: Current price of the listing.
+    function _getETHPrice(uint256 itemId, uint256 price) internal view returns (uint256) {
+        return _idToCardListing[itemId].currency == Currency.ETH ? price : 0;
+    }
+
+    /// @dev Pays the proceeds of a sale, held by the marketplace, splitting them between the seller and the royalty receiver
+    /// of the Business Card, and accrues the protocol fee.
+    /// @param cardId: ID of the Business Card that was sold.
+    /// @param seller: Address that sold the Business Card.
+    /// @param price: Price the Business Card was sold for.
+    /// @param currency: Currency the price is paid in.
+    function _paySale(uint256 cardId, address seller, uint256 price, Currency currency) internal {
+        (address receiver, uint256 royalty) = businessCard.royaltyInfo(cardId, price);
+
+        if (royalty > 0) {
+            _pay(receiver, royalty, currency);
+
+            emit RoyaltyPaid(cardId, receiver, royalty, currency);
+        }
+
+        uint256 fee = price * protocolFee / 10000;
+
+        if (fee > 0) {
+            if (currency == Currency.ETH) {
+                accruedFees += fee;
+            } else {
+                accruedDCTFees += fee;
+            }
+
+            emit ProtocolFeeCharged(cardId, fee, currency);
+        }
+
+        _pay(seller, price - royalty - fee, currency);
+    }
+
+    /// @dev Pays funds held by the marketplace, crediting ETH so that a payee rejecting it cannot block the sale.
+    /// @param to: Address the funds are owed to.
+    /// @param amount: Amount paid.
+    /// @param currency: Currency of the amount.
+    function _pay(address to, uint256 amount, Currency currency) internal {
+        if (currency == Currency.DCT) {
+            dct.safeTransfer(to, amount);
+            return;
+        }
+
+        _credit(to, amount);
+    }
+
+    /// @dev Purchases a listed Business Card from the Marketplace, refunding whatever msg.value exceeds its cost.
     /// @param itemId: ID of the listing that is to be bought.
-    /// @param cardId: ID of the Business Card that was listed.
-    /// @param price: Price the Business Card was listed for.
-    function _buyListedCard(uint256 itemId, uint256 cardId, uint256 price) internal {
+    /// @param cardId: ID of the Business Card that was listed, the first one for bundle listings.
+    /// @param price: Price the Business Card is bought for, in the currency of the listing.
+    /// @param cost: Total amount the buyer must pay in ETH, the price unless it is paid in DCT, plus the update costs if any.
+    function _buyListedCard(uint256 itemId, uint256 cardId, uint256 price, uint256 cost) internal {
         if (cardId == 0) { revert ListingDoesNotExist(); }
         if (_idToCardListing[itemId].isSold) { revert ListingWasFilled(); }
         if (_idToCardListing[itemId].isCancelled) { revert ListingWasCancelled(); }
         if (!marketplaceActive) { revert MarketplaceIsPaused(); }
+        if (_isListingExpired(itemId)) { revert ListingHasExpired(); }
+        _checkReservedBuyer(itemId);
 
         // Buyer must pay the seller
-        if (msg.value < price) { revert PriceTooLow(); }
+        if (msg.value < cost) { revert PriceTooLow(); }
 
+        _closeListing(itemId, _msgSender());
         _idToCardListing[itemId].isSold = true;
-        _idToCardListing[itemId].buyer = _msgSender();
         filledListings++;
 
         address seller = _idToCardListing[itemId].seller;
+        Currency currency = _idToCardListing[itemId].currency;
 
-        (bool success, ) = payable(seller).call{ value: price }("");
-        if (!success) { revert ValueTransferFailed(); }
+        if (currency == Currency.DCT) {
+            dct.safeTransferFrom(_msgSender(), address(this), price);
+        }
 
-        businessCard.transferFrom(address(this), _msgSender(), cardId);
+        _paySale(cardId, seller, price, currency);
 
-        emit CardListingFilled(itemId, cardId, seller, _msgSender(), price);
+        if (msg.value > cost) {
+            (bool success, ) = payable(_msgSender()).call{ value: msg.value - cost }("");
+            if (!success) { revert ValueTransferFailed(); }
+        }
+
+        _transferListedCards(itemId, _msgSender());
+
+        emit CardListingFilled(itemId, cardId, seller, _msgSender(), price, currency);
+    }
+
+    /// @dev Gets the EIP-712 hash of a sell order.
+    /// @param order: Sell order.
+    function _hashSellOrder(SellOrder calldata order) internal view returns (bytes32) {
+        return _hashTypedDataV4(keccak256(abi.encode(SELL_ORDER_TYPEHASH, order)));
+    }
+
+    /// @dev Gets the EIP-712 hash of a buy order.
+    /// @param order: Buy order.
+    function _hashBuyOrder(BuyOrder calldata order) internal view returns (bytes32) {
+        return _hashTypedDataV4(keccak256(abi.encode(BUY_ORDER_TYPEHASH, order)));
+    }
+
+    /// @dev Throws if a signed order cannot be filled.
+    /// @param orderHash: EIP-712 hash of the order.
+    /// @param signer: Address that must have signed the order, its seller or buyer.
+    /// @param price: Price of the order.
+    /// @param expiresAt: Timestamp from which the order can no longer be filled.
+    /// @param nonce: Nonce of the signer when signing the order.
+    /// @param signature: Signature of the order, either an ECDSA signature or an EIP-1271 one for smart contract signers.
+    function _validateOrder(
+        bytes32 orderHash,
+        address signer,
+        uint256 price,
+        uint256 expiresAt,
+        uint256 nonce,
+        bytes calldata signature
+    ) internal view {
+        if (!marketplaceActive) { revert MarketplaceIsPaused(); }
+        if (filledOrders[orderHash]) { revert OrderWasFilled(); }
+        if (cancelledOrders[orderHash]) { revert OrderWasCancelled(); }
+        if (nonce != nonces[signer]) { revert OrderNonceNotValid(); }
+        if (expiresAt <= block.timestamp) { revert OrderHasExpired(); }
+        if (price < MIN_LISTING_PRICE) { revert PriceTooLow(); }
+        if (!SignatureChecker.isValidSignatureNow(signer, orderHash, signature)) { revert SignatureNotValid(); }
+    }
+
+    /// @dev Cancels a signed order, once the caller has been checked to be its signer.
+    /// @param orderHash: EIP-712 hash of the order.
+    function _cancelOrder(bytes32 orderHash) internal {
+        if (filledOrders[orderHash]) { revert OrderWasFilled(); }
+        if (cancelledOrders[orderHash]) { revert OrderWasCancelled(); }
+
+        cancelledOrders[orderHash] = true;
+
+        emit SignedOrderCancelled(orderHash, _msgSender());
+    }
+
+    /// @dev Gets the offers for the given IDs.
+    /// @param offerIds: IDs of the offers.
+    function _getOffers(uint256[] storage offerIds) internal view returns (CardOffer[] memory cardOffers) {
+        cardOffers = new CardOffer[](offerIds.length);
+
+        for (uint256 i = 0; i < offerIds.length; i++) {
+            cardOffers[i] = _idToCardOffer[offerIds[i]];
+        }
     }
 }
@@ -5,10 +5,13 @@ pragma solidity ^0.8.4;
 import "@openzeppelin/contracts/access/Ownable.sol";
 import "./interfaces/IBusinessCard.sol";
 import "./interfaces/IMeetingRoom.sol";
-import "./libs/CardMaestro.sol";
+import "./interfaces/IRandomnessCoordinator.sol";
+import "./libs/WinningChances.sol";
+import "./PaymentLedger.sol";
 
-contract MeetingRoom is IMeetingRoom, Ownable {
-    using CardMaestro for uint256;
+contract MeetingRoom is IMeetingRoom, Ownable, PaymentLedger {
+    using WinningChances for uint256;
+    using WinningChances for uint256[];
 
     /// Business Card smart contract.
     IBusinessCard immutable businessCardContract;
@@ -16,12 +19,21 @@ contract MeetingRoom is IMeetingRoom, Ownable {
     /// Total number of meeting rooms that have been created.
     uint256 public totalMeetingRooms;
 
+    /// Funds staked in the meetings that are not finished yet, which cannot be withdrawn by the owner.
+    uint256 public lockedStakes;
+
     /// @dev Gets a meeting room ID and returns the corresponding `Meeting` struct.
     mapping(uint256 => Meeting) private _meetingRooms;
 
     /// @dev Gets a meeting room ID and an address and returns its card commitment.
     mapping(uint256 => mapping(address => uint256)) public cardCommitments;
 
+    /// Coordinator random words are requested from when finishing meetings, none to draw from the revealed salts only.
+    IRandomnessCoordinator public randomnessCoordinator;
+
+    /// @dev Gets a randomness coordinator and a request ID and returns the meeting room ID the request was made for.
+    mapping(address => mapping(uint256 => uint256)) private _randomnessRequests;
+
     /// @dev Initializes the Meeting Room smart contract.
     /// @param businessCardAddress: Address for the Business Card smart contract.
     constructor(address businessCardAddress) {
@@ -51,6 +63,8 @@ contract MeetingRoom is IMeetingRoom, Ownable {
         _meetingRooms[totalMeetingRooms].betAmount = msg.value;
         _meetingRooms[totalMeetingRooms].participants++;
 
+        lockedStakes += msg.value;
+
         emit MeetingRoomCreated(totalMeetingRooms, msg.value, startTime, endTime, cardCommitment, _msgSender());
     }
 
@@ -64,6 +78,8 @@ contract MeetingRoom is IMeetingRoom, Ownable {
 
         _meetingRooms[roomId].participants++;
 
+        lockedStakes += msg.value;
+
         emit MeetingRoomJoined(roomId, cardCommitment, _msgSender());
     }
 
@@ -72,95 +88,102 @@ contract MeetingRoom is IMeetingRoom, Ownable {
         if (cardCommitments[roomId][_msgSender()] != cardCommitment) { revert CardCommitmentDoesNotMatch(); }
         if (cardCommitment != uint256(keccak256(abi.encodePacked(cardId, salt)))) { revert RevealedCardDoesNotMatch(); }
         if (businessCardContract.ownerOf(cardId) != _msgSender()) { revert CallerDoesNotOwnCard(); }
+        // Salts are only revealed once every card was committed, so that no one can pick theirs knowing the others
+        if (block.timestamp <= _meetingRooms[roomId].meetingStart) { revert MeetingNotStarted(); }
+        if (block.timestamp >= _meetingRooms[roomId].meetingEnd) { revert MeetingHasEnded(); }
 
         uint nRevealed = _meetingRooms[roomId].cardIds.length;
+        uint256 genes = businessCardContract.getCardGenes(cardId);
 
-        if (nRevealed == 0) {  // first reveal
-            _meetingRooms[roomId].cardIds.push(cardId);
-            _meetingRooms[roomId].winningChances.push(1);
-        } else {
-            uint256 winningChance = 1; 
+        // Every card gets weighted by its chances against each of its rivals, see {WinningChances}
+        uint256 winningChance = 1;
 
-            for (uint256 i; i < nRevealed; ) {
-                uint256 rivalCardId = _meetingRooms[roomId].cardIds[i];
+        for (uint256 i; i < nRevealed; ) {
+            uint256 rivalCardId = _meetingRooms[roomId].cardIds[i];
 
-                if (rivalCardId == cardId) { revert CardAlreadyRevealed(); }
+            if (rivalCardId == cardId) { revert CardAlreadyRevealed(); }
 
-                uint256 chanceAgainst = businessCardContract.getCardGenes(cardId).getWinningChanceAgainst(
-                    businessCardContract.getCardGenes(rivalCardId)
-                );
+            uint256 chanceAgainst = genes.getChanceAgainst(businessCardContract.getCardGenes(rivalCardId));
 
-                _meetingRooms[roomId].winningChances[i] *= (PRECISION - chanceAgainst) / PRECISION;
-                winningChance *= chanceAgainst / PRECISION;
-                
-                unchecked {
-                    i++;
-                }
-            }
+            _meetingRooms[roomId].winningChances[i] *= PRECISION - chanceAgainst;
+            winningChance *= chanceAgainst;
 
-            _meetingRooms[roomId].cardIds.push(cardId);
-            _meetingRooms[roomId].winningChances.push(winningChance);
+            unchecked {
+                i++;
+            }
         }
 
-        emit CardRevealed(roomId, cardCommitment, cardId);
+        _meetingRooms[roomId].cardIds.push(cardId);
+        _meetingRooms[roomId].revealers.push(_msgSender());
+        _meetingRooms[roomId].winningChances.push(winningChance);
+
+        _meetingRooms[roomId].entropy = uint256(keccak256(abi.encodePacked(_meetingRooms[roomId].entropy, salt)));
+
+        emit CardRevealed(roomId, cardCommitment, cardId, salt, _msgSender());
     }
 
     /// @dev See {IMeetingRoom-finishMeeting}
     function finishMeeting(uint256 roomId) external override {
         if (block.timestamp < _meetingRooms[roomId].meetingEnd) { revert MeetingOngoing(); }
         if (_meetingRooms[roomId].winner != address(0)) { revert MeetingFinished(); }
+        if (
+            _meetingRooms[roomId].randomnessPending &&
+            block.timestamp < _meetingRooms[roomId].randomnessRequestedAt + RANDOMNESS_TIMEOUT
+        ) { revert WinnerBeingDrawn(); }
 
-        uint nRevealed = _meetingRooms[roomId].cardIds.length;
-
-        if (nRevealed == 0) {
+        if (_meetingRooms[roomId].cardIds.length == 0) {
             // No one revealed their cards in time and thus no winner can be drawn, the funds get locked inside the smart contract
             _meetingRooms[roomId].winner = address(this);
+            lockedStakes -= _meetingRooms[roomId].betAmount * _meetingRooms[roomId].participants;
 
             emit WinnerDrawn(roomId, address(this));
+        } else if (address(randomnessCoordinator) == address(0)) {
+            // Also the fallback for requests that timed out once the coordinator was removed
+            _drawWinner(roomId, 0);
         } else {
-            uint256 scale;
+            // Requests that timed out are made again, superseding the previous one
+            uint256 requestId = randomnessCoordinator.requestRandomness();
 
-            for (uint256 i; i < nRevealed; ) {
-                scale += _meetingRooms[roomId].winningChances[i];
+            _meetingRooms[roomId].randomnessRequestId = requestId;
+            _meetingRooms[roomId].randomnessPending = true;
+            _meetingRooms[roomId].randomnessCoordinator = address(randomnessCoordinator);
+            _meetingRooms[roomId].randomnessRequestedAt = block.timestamp;
+            _randomnessRequests[address(randomnessCoordinator)][requestId] = roomId;
 
-                unchecked {
-                    i++;
-                }
-            }
-            
-            uint256 randomNumber = uint256(keccak256(abi.encodePacked(
-                block.timestamp + ((uint256(keccak256(abi.encodePacked(tx.gasprice)))) /
-                (block.timestamp)) + ((uint256(keccak256(abi.encodePacked(tx.origin)))) /
-                (block.timestamp)) + block.number + tx.gasprice
-            ))) % PRECISION;
-
-            uint256 chanceSum;
-
-            for (uint256 i; i < nRevealed; ) {
-                chanceSum += _meetingRooms[roomId].winningChances[i] * PRECISION / scale;
-
-                if (randomNumber < chanceSum) {
-                    _meetingRooms[roomId].winner = businessCardContract.ownerOf(_meetingRooms[roomId].cardIds[i]);
-                    break;
-                }
-
-                unchecked {
-                    i++;
-                }
-            }
+            emit RandomnessRequested(roomId, requestId);
+        }
+    }
 
-            uint256 prize = _meetingRooms[roomId].betAmount * _meetingRooms[roomId].participants;
-            (bool success, ) = payable(_meetingRooms[roomId].winner).call{ value: prize }("");
+    /// @dev See {IRandomnessConsumer-fulfillRandomness}
+    function fulfillRandomness(uint256 requestId, uint256 randomWord) external override {
+        // Requests are looked up by the coordinator they were made to, which may have been replaced since
+        uint256 roomId = _randomnessRequests[_msgSender()][requestId];
 
-            if (!success) { revert(); }
+        if (roomId == 0) { revert CallerIsNotTheCoordinator(); }
 
-            emit WinnerDrawn(roomId, _meetingRooms[roomId].winner);
-        }
+        Meeting storage meeting = _meetingRooms[roomId];
+
+        // Requests that were already fulfilled or superseded by a new one after timing out are no longer valid
+        if (
+            !meeting.randomnessPending ||
+            meeting.randomnessCoordinator != _msgSender() ||
+            meeting.randomnessRequestId != requestId
+        ) { revert RandomnessRequestNotValid(); }
+
+        _drawWinner(roomId, randomWord);
+    }
+
+    /// @dev See {IMeetingRoom-setRandomnessCoordinator}
+    function setRandomnessCoordinator(address coordinator) external override onlyOwner {
+        randomnessCoordinator = IRandomnessCoordinator(coordinator);
+
+        emit RandomnessCoordinatorSet(coordinator);
     }
 
     /// @dev See {IMeetingRoom-withdraw}
     function withdraw() external override onlyOwner {
-        uint balance = address(this).balance;
+        // The prizes that were not withdrawn yet and the stakes of the meetings that are not finished are kept
+        uint balance = address(this).balance - totalPayments - lockedStakes;
         (bool success, ) = payable(msg.sender).call{ value: balance }("");
 
         if (!success) { revert(); }
@@ -170,4 +193,36 @@ contract MeetingRoom is IMeetingRoom, Ownable {
     function getMeetingRoom(uint256 roomId) external view override returns (Meeting memory) {
         return _meetingRooms[roomId];
     }
+
+    /// @dev See {IMeetingRoom-getWinningProbabilities}
+    function getWinningProbabilities(uint256 roomId) external view override returns (uint256[] memory) {
+        return _meetingRooms[roomId].winningChances.toProbabilities();
+    }
+
+    /// @dev Draws the winner of a meeting among the revealed cards, weighted by their winning chances, and credits them the staked funds.
+    /// The random number only depends on the logged inputs of {IMeetingRoom-DrawSeeded}, so that any draw can be audited.
+    /// @param roomId: ID of the Meeting Room.
+    /// @param randomWord: Random word from the randomness coordinator, zero if there is none.
+    function _drawWinner(uint256 roomId, uint256 randomWord) private {
+        Meeting storage meeting = _meetingRooms[roomId];
+
+        meeting.randomnessPending = false;
+
+        uint256 randomNumber = uint256(keccak256(abi.encodePacked(roomId, meeting.entropy, randomWord))) % PRECISION;
+
+        emit DrawSeeded(roomId, meeting.entropy, randomWord, randomNumber);
+
+        uint256 winningCard = meeting.winningChances.toProbabilities().pick(randomNumber);
+
+        // The card may have changed hands since it was revealed, the prize goes to whoever revealed it and staked for it
+        meeting.winner = meeting.revealers[winningCard];
+
+        uint256 prize = meeting.betAmount * meeting.participants;
+        lockedStakes -= prize;
+
+        // The winner withdraws the prize, so that a winner rejecting ETH cannot prevent the meeting from finishing
+        _credit(meeting.winner, prize);
+
+        emit WinnerDrawn(roomId, meeting.winner);
+    }
 }
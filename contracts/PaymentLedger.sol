@@ -0,0 +1,45 @@
+//SPDX-License-Identifier: Unlicense
+pragma solidity ^0.8.4;
+
+import "@openzeppelin/contracts/utils/Context.sol";
+import "./interfaces/IPaymentLedger.sol";
+
+/// @dev Records the ETH owed to the payees of a contract, who withdraw it themselves, so that a payee rejecting ETH
+/// cannot block the payouts of the contract.
+abstract contract PaymentLedger is IPaymentLedger, Context {
+    // Payments credited and not withdrawn yet, which the contract must always hold.
+    uint256 public totalPayments;
+
+    /// @dev Gets an address and returns the payments credited to it.
+    mapping(address => uint256) private _payments;
+
+    /// @dev See {IPaymentLedger-withdrawPayments}
+    function withdrawPayments() external override {
+        uint256 amount = _payments[_msgSender()];
+
+        if (amount == 0) { revert NoPaymentsToWithdraw(); }
+
+        _payments[_msgSender()] = 0;
+        totalPayments -= amount;
+
+        (bool success, ) = payable(_msgSender()).call{ value: amount }("");
+        if (!success) { revert PaymentWithdrawalFailed(); }
+
+        emit PaymentWithdrawn(_msgSender(), amount);
+    }
+
+    /// @dev See {IPaymentLedger-payments}
+    function payments(address payee) external view override returns (uint256) {
+        return _payments[payee];
+    }
+
+    /// @dev Credits a payment to an address, out of the ETH held by the contract.
+    /// @param payee: Address the payment is owed to.
+    /// @param amount: Amount credited.
+    function _credit(address payee, uint256 amount) internal {
+        _payments[payee] += amount;
+        totalPayments += amount;
+
+        emit PaymentCredited(payee, amount);
+    }
+}
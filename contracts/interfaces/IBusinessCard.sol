@@ -4,12 +4,14 @@ pragma solidity ^0.8.4;
 
 import "@openzeppelin/contracts/interfaces/IERC721.sol";
 import "@openzeppelin/contracts/interfaces/IERC721Enumerable.sol";
+import "@openzeppelin/contracts/interfaces/IERC2981.sol";
+import "./IDorsiaClubToken.sol";
 import { Card, CardProperties } from "../libs/Structs.sol";
-import { MAX_SUPPLY, MINT_PRICE, UPDATE_PRICE, ORACLE_FEE, DCT_AIRDROP } from "../libs/Constants.sol";
+import { MAX_SUPPLY, MINT_PRICE, UPDATE_PRICE, ORACLE_FEE, REQUEST_TIMEOUT, MAX_ROYALTY, DCT_AIRDROP } from "../libs/Constants.sol";
 
 /// @title Business Card interface.
 /// @dev Interface of the NFT Business Card smart contract.
-interface IBusinessCard is IERC721Enumerable {
+interface IBusinessCard is IERC2981, IERC721Enumerable {
     error SaleNotActive();
     error SaleHasEnded();
     error PriceTooLow();
@@ -27,11 +29,14 @@ interface IBusinessCard is IERC721Enumerable {
     error UpdatePriceMustCoverOracleFee();
     error CallerMustBeOracle();
     error RequestNotInPendingList();
+    error RequestNotTimedOut();
 
     error ValueTransferFailed();
 
     error CardDoesNotExist();
 
+    error RoyaltyTooHigh();
+
     /// @dev Emitted when a new request is made to the oracle to change a Business Card's URI.
     /// @param cardId: ID of the Business Card.
     /// @param genes: Random integer encoding the characteristics of this Business Card.
@@ -51,6 +56,11 @@ interface IBusinessCard is IERC721Enumerable {
     /// @param newCardURI: New URI for this Business Card.
     event CardURIUpdated(uint256 cardId, string newCardURI);
 
+    /// @dev Emitted when a pending request is cancelled, either by the owner of the Business Card after the timeout or by the contract owner.
+    /// @param cardId: ID of the Business Card whose request was cancelled.
+    /// @param refund: Oracle fee credited to the owner of the Business Card, who withdraws it with withdrawPayments.
+    event RequestCancelled(uint256 cardId, uint256 refund);
+
     /// @dev Mints a new NFT Business Card to the msg.sender.
     /// @param cardName: Unique name assigned to this Business Card.
     /// @param cardProperties: External values for the Business Card.
@@ -67,18 +77,27 @@ interface IBusinessCard is IERC721Enumerable {
     /// @param cardId2: ID of the second Business Card.
     function swapCardData(uint256 cardId1, uint256 cardId2) external payable;
 
+    /// @dev Cancels a request the oracle did not process within REQUEST_TIMEOUT, crediting the oracle fee paid for it to the owner of the Business Card.
+    /// For swaps, the fee is refunded when cancelling the request of the first Business Card.
+    /// @param cardId: ID of the Business Card with the pending request.
+    function cancelRequest(uint256 cardId) external;
+
+    /// @dev Clears a pending request regardless of the timeout, crediting the oracle fee paid for it to the owner of the Business Card.
+    /// @param cardId: ID of the Business Card with the pending request.
+    function resetRequest(uint256 cardId) external;
+
     /// @dev Starts the sale, allowing for the minting of Business Cards.
     function startSale() external;
 
     /// @dev Pauses the sale.
     function pauseSale() external;
 
-    /// @dev Callback function for the oracle to update a Business Card URI.
+    /// @dev Callback function for the oracle to update a Business Card URI, paying it the oracle fee held for the request.
     /// @param cardId: ID of the Business Card to be updated.
     /// @param cardURI: New URI for this Business Card.
     function updateCallback(uint256 cardId, string memory cardURI) external;
 
-    /// @dev Callback function for the oracle to update two Business Card URIs by swapping their properties.
+    /// @dev Callback function for the oracle to update two Business Card URIs by swapping their properties, paying it the oracle fee held for the request.
     /// @param cardId1: ID of the first Business Card.
     /// @param cardId2: ID of the second Business Card.
     /// @param cardURI1: New URI for the first Business Card.
@@ -93,11 +112,16 @@ interface IBusinessCard is IERC721Enumerable {
     /// @param marketplaceAddress: New address of the marketplace.
     function setMarketplace(address marketplaceAddress) external;
 
+    /// @dev Sets the royalty paid on every sale of a Business Card, see {IERC2981-royaltyInfo}.
+    /// @param receiver: Address receiving the royalties, zero to stop charging them.
+    /// @param royalty: Royalty in basis points, at most MAX_ROYALTY.
+    function setRoyalty(address receiver, uint96 royalty) external;
+
     /// @dev Sets the base URI for all Business Cards.
     /// @param baseURI: New base URI for all Business Cards.
     function setBaseURI(string memory baseURI) external;
 
-    /// @dev Withdraw balance from this contract to fund the dev's tungsten cube collection.
+    /// @dev Withdraw balance from this contract to fund the dev's tungsten cube collection, leaving the oracle fees held for pending requests and the refunds not withdrawn yet.
     function devWorksHard() external;
 
     /// @dev Returns wheter the given name is reserved.
@@ -114,4 +138,8 @@ interface IBusinessCard is IERC721Enumerable {
     /// @param cardId: ID of the Business Card.
     /// @return genes: Genes of the Business Card.
     function getCardGenes(uint256 cardId) external view returns (uint256);
+
+    /// @dev Returns the Dorsia Club Token smart contract, deployed along with the Business Card smart contract.
+    /// @return dct: Dorsia Club Token smart contract.
+    function DCT() external view returns (IDorsiaClubToken);
 }
@@ -1,8 +1,8 @@
 //SPDX-License-Identifier: Unlicense
 pragma solidity ^0.8.4;
 
-import { CardProperties, CardListing } from "../libs/Structs.sol";
-import { MIN_LISTING_PRICE, ORACLE_FEE, UPDATE_PRICE } from "../libs/Constants.sol";
+import { CardProperties, CardListing, Currency, CardOffer, CardAuction, PriceDecay, SellOrder, BuyOrder } from "../libs/Structs.sol";
+import { MIN_LISTING_PRICE, MAX_PROTOCOL_FEE, MIN_AUCTION_DURATION, MAX_AUCTION_DURATION, AUCTION_EXTENSION, MAX_BUNDLE_SIZE, MAX_UNPAGINATED_LISTINGS, ORACLE_FEE, UPDATE_PRICE } from "../libs/Constants.sol";
 
 interface ICardMarketplace {
     error MarketplaceIsPaused();
@@ -14,69 +14,449 @@ interface ICardMarketplace {
     error CallerIsNotTheSeller();
 
     error ValueTransferFailed();
+    error CurrencyNotValid();
+
+    error ProtocolFeeTooHigh();
+    error TreasuryNotValid();
 
     error CardWasNotListed();
+    error PriceDecayNotValid();
+    error ListingExpiryNotValid();
+    error ListingHasExpired();
+    error ListingHasNotExpired();
+    error BundleSizeNotValid();
+    error ListingIsABundle();
+    error ReservedBuyerNotValid();
+    error CallerIsNotTheReservedBuyer();
+
+    error OfferDoesNotExist();
+    error OfferWasAccepted();
+    error OfferWasWithdrawn();
+    error OfferHasExpired();
+    error OfferExpirationNotValid();
+    error CallerIsNotTheBidder();
+    error CallerIsNotTheCardOwner();
+    error CallerIsTheCardOwner();
+
+    error AuctionDoesNotExist();
+    error AuctionDurationNotValid();
+    error BidIncrementNotValid();
+    error BidTooLow();
+    error AuctionHasEnded();
+    error AuctionHasNotEnded();
+    error AuctionWasSettled();
+
+    error OrderHasExpired();
+    error OrderWasFilled();
+    error OrderWasCancelled();
+    error OrderNonceNotValid();
+    error SignatureNotValid();
+    error CallerIsNotTheSigner();
+    error DepositTooLow();
 
     /// @dev Emitted when a new Business Card is listed in the marketplace.
     /// @param itemId: ID of the listing that is being created.
     /// @param cardId: ID of the Business Card that is being listed.
     /// @param seller: Address that is listing the Business Card.
     /// @param price: Price the Business Card is being listed for.
-    event CardListingCreated(uint256 indexed itemId, uint256 indexed cardId, address seller, uint256 price);
+    /// @param currency: Currency the listing is settled in.
+    event CardListingCreated(uint256 indexed itemId, uint256 indexed cardId, address seller, uint256 price, Currency currency);
+
+    /// @dev Emitted along with CardListingCreated when the listing is a Dutch listing.
+    /// @param itemId: ID of the listing that is being created.
+    /// @param startPrice: Price the listing starts at.
+    /// @param floorPrice: Price the listing ends at.
+    /// @param duration: Time, in seconds, over which the price decays from the start price to the floor price.
+    event DutchCardListingCreated(uint256 indexed itemId, uint256 startPrice, uint256 floorPrice, uint256 duration);
+
+    /// @dev Emitted along with CardListingCreated when the listing is a private listing.
+    /// @param itemId: ID of the listing that is being created.
+    /// @param reservedBuyer: Only address that can buy the listing.
+    event PrivateCardListingCreated(uint256 indexed itemId, address indexed reservedBuyer);
+
+    /// @dev Emitted along with CardListingCreated for every Business Card of a bundle listing, including the first one,
+    /// which is the Business Card of the listing in the other events.
+    /// @param itemId: ID of the listing that is being created.
+    /// @param cardId: ID of the Business Card that is being bundled.
+    event CardBundled(uint256 indexed itemId, uint256 indexed cardId);
 
     /// @dev Emitted when a Business Card listing gets cancelled.
     /// @param itemId: ID of the listing that was cancelled.
     /// @param cardId: ID of the Business Card.
     event CardListingCancelled(uint256 indexed itemId, uint256 indexed cardId);
 
+    /// @dev Emitted when the seller updates the price of a Business Card listing.
+    /// @param itemId: ID of the listing.
+    /// @param cardId: ID of the Business Card.
+    /// @param oldPrice: Price the Business Card was listed for, the start price for Dutch listings.
+    /// @param newPrice: Price the Business Card is now listed for.
+    event CardListingPriceUpdated(uint256 indexed itemId, uint256 indexed cardId, uint256 oldPrice, uint256 newPrice);
+
+    /// @dev Emitted when the seller sets or removes the expiry of a Business Card listing.
+    /// @param itemId: ID of the listing.
+    /// @param cardId: ID of the Business Card.
+    /// @param expiresAt: Timestamp from which the listing can no longer be bought, zero if it never expires.
+    event CardListingExpirySet(uint256 indexed itemId, uint256 indexed cardId, uint256 expiresAt);
+
+    /// @dev Emitted when an expired Business Card listing gets closed, returning the Business Card to the seller.
+    /// @param itemId: ID of the listing.
+    /// @param cardId: ID of the Business Card.
+    event CardListingExpired(uint256 indexed itemId, uint256 indexed cardId);
+
     /// @dev Emitted when a Business Card listing gets filled.
     /// @param itemId: ID of the listing.
     /// @param cardId: ID of the Business Card that was transacted.
     /// @param seller: Address that listed the Business Card.
     /// @param buyer: Address that bought the Business Card listing.
     /// @param price: Price the Business Card was purchased for.
-    event CardListingFilled(uint256 indexed itemId, uint256 indexed cardId, address seller, address buyer, uint256 price);
+    /// @param currency: Currency the price was paid in.
+    event CardListingFilled(uint256 indexed itemId, uint256 indexed cardId, address seller, address buyer, uint256 price, Currency currency);
+
+    /// @dev Emitted when an offer is made for a Business Card.
+    /// @param offerId: ID of the offer that is being created.
+    /// @param cardId: ID of the Business Card the offer is made for.
+    /// @param bidder: Address that is making the offer.
+    /// @param amount: Amount escrowed by the offer.
+    /// @param expiresAt: Timestamp from which the offer can no longer be accepted.
+    event CardOfferCreated(uint256 indexed offerId, uint256 indexed cardId, address indexed bidder, uint256 amount, uint256 expiresAt);
+
+    /// @dev Emitted when an offer gets withdrawn by its bidder.
+    /// @param offerId: ID of the offer that was withdrawn.
+    /// @param cardId: ID of the Business Card.
+    event CardOfferWithdrawn(uint256 indexed offerId, uint256 indexed cardId);
+
+    /// @dev Emitted when an offer gets accepted by the owner of the Business Card.
+    /// @param offerId: ID of the offer.
+    /// @param cardId: ID of the Business Card that was transacted.
+    /// @param seller: Address that accepted the offer.
+    /// @param bidder: Address that made the offer.
+    /// @param amount: Amount the Business Card was sold for.
+    event CardOfferAccepted(uint256 indexed offerId, uint256 indexed cardId, address seller, address bidder, uint256 amount);
+
+    /// @dev Emitted when part of a sale, whether of a listing, an offer or an auction, is paid as royalty.
+    /// The seller receives the price minus the royalty. Amounts in ETH are credited, see {IPaymentLedger-withdrawPayments}.
+    /// @param cardId: ID of the Business Card that was sold.
+    /// @param receiver: Address receiving the royalty, see {IERC2981-royaltyInfo}.
+    /// @param amount: Royalty paid.
+    /// @param currency: Currency the royalty was paid in.
+    event RoyaltyPaid(uint256 indexed cardId, address receiver, uint256 amount, Currency currency);
+
+    /// @dev Emitted when part of a sale is kept by the marketplace as protocol fee.
+    /// @param cardId: ID of the Business Card that was sold.
+    /// @param amount: Protocol fee accrued.
+    /// @param currency: Currency the protocol fee was charged in.
+    event ProtocolFeeCharged(uint256 indexed cardId, uint256 amount, Currency currency);
+
+    /// @dev Emitted when the accrued protocol fees are sent to the treasury.
+    /// @param treasury: Address the fees were sent to.
+    /// @param amount: Fees withdrawn in ETH.
+    /// @param dctAmount: Fees withdrawn in DCT.
+    event FeesWithdrawn(address treasury, uint256 amount, uint256 dctAmount);
+
+    /// @dev Emitted when a Business Card is put up for auction.
+    /// @param auctionId: ID of the auction that is being created.
+    /// @param cardId: ID of the Business Card that is being auctioned.
+    /// @param seller: Address that is auctioning the Business Card.
+    /// @param reservePrice: Minimum amount of the first bid.
+    /// @param minBidIncrement: Minimum amount by which every following bid must exceed the highest bid.
+    /// @param endTime: Timestamp from which no more bids are accepted.
+    event CardAuctionCreated(uint256 indexed auctionId, uint256 indexed cardId, address seller, uint256 reservePrice, uint256 minBidIncrement, uint256 endTime);
+
+    /// @dev Emitted when a bid is placed in an auction.
+    /// @param auctionId: ID of the auction.
+    /// @param cardId: ID of the Business Card that is being auctioned.
+    /// @param bidder: Address that placed the bid.
+    /// @param amount: Amount of the bid.
+    /// @param endTime: Timestamp from which no more bids are accepted, which may have been extended by this bid.
+    event CardAuctionBid(uint256 indexed auctionId, uint256 indexed cardId, address bidder, uint256 amount, uint256 endTime);
+
+    /// @dev Emitted when an auction gets settled.
+    /// @param auctionId: ID of the auction.
+    /// @param cardId: ID of the Business Card that was auctioned.
+    /// @param seller: Address that auctioned the Business Card.
+    /// @param winner: Address that won the auction, zero if there were no bids.
+    /// @param amount: Amount the Business Card was sold for.
+    event CardAuctionSettled(uint256 indexed auctionId, uint256 indexed cardId, address seller, address winner, uint256 amount);
+
+    /// @dev Emitted when a signed sell or buy order gets filled.
+    /// @param orderHash: EIP-712 hash of the order.
+    /// @param cardId: ID of the Business Card that was transacted.
+    /// @param seller: Address that sold the Business Card.
+    /// @param buyer: Address that bought the Business Card.
+    /// @param price: Price the Business Card was sold for.
+    event SignedOrderFilled(bytes32 indexed orderHash, uint256 indexed cardId, address seller, address buyer, uint256 price);
+
+    /// @dev Emitted when the signer of an order cancels it.
+    /// @param orderHash: EIP-712 hash of the order.
+    /// @param signer: Address that signed the order.
+    event SignedOrderCancelled(bytes32 indexed orderHash, address indexed signer);
+
+    /// @dev Emitted when an address increments its nonce, cancelling every order it signed before.
+    /// @param account: Address that incremented its nonce.
+    /// @param nonce: Nonce the orders signed from now on must have.
+    event NonceIncremented(address indexed account, uint256 nonce);
+
+    /// @dev Emitted when an address deposits funds to pay for its buy orders.
+    /// @param account: Address that made the deposit.
+    /// @param amount: Amount deposited.
+    event Deposited(address indexed account, uint256 amount);
+
+    /// @dev Emitted when an address withdraws funds from its deposit.
+    /// @param account: Address that withdrew the funds.
+    /// @param amount: Amount withdrawn.
+    event DepositWithdrawn(address indexed account, uint256 amount);
 
     /// @dev Lists a Business Card on the Marketplace.
     /// @param cardId: ID of the Business Card that is being listed.
     /// @param price: Price the Business Card is being listed for.
     function createCardListing(uint256 cardId, uint256 price) external;
 
+    /// @dev Lists a Business Card on the Marketplace, settled in the given currency.
+    /// @param cardId: ID of the Business Card that is being listed.
+    /// @param price: Price the Business Card is being listed for, in the given currency.
+    /// @param currency: Currency the listing is settled in, listings settled in DCT are bought with transferFrom.
+    function createCardListingWithCurrency(uint256 cardId, uint256 price, Currency currency) external;
+
+    /// @dev Lists a Business Card on the Marketplace at a price that decays linearly from `startPrice` to `floorPrice` over `duration`.
+    /// @param cardId: ID of the Business Card that is being listed.
+    /// @param startPrice: Price the listing starts at.
+    /// @param floorPrice: Price the listing ends at, and stays at once the duration has elapsed.
+    /// @param duration: Time, in seconds, over which the price decays.
+    function createDutchCardListing(uint256 cardId, uint256 startPrice, uint256 floorPrice, uint256 duration) external;
+
+    /// @dev Lists a Business Card on the Marketplace that only `reservedBuyer` can buy, which is left out of the active listings.
+    /// @param cardId: ID of the Business Card that is being listed.
+    /// @param price: Price the Business Card is being listed for, in the given currency.
+    /// @param currency: Currency the listing is settled in.
+    /// @param reservedBuyer: Only address that can buy the listing, neither the zero address nor the msg.sender.
+    function createPrivateCardListing(uint256 cardId, uint256 price, Currency currency, address reservedBuyer) external;
+
+    /// @dev Lists several Business Cards on the Marketplace as a single listing, bought and cancelled all at once.
+    /// The first Business Card is the one the listing, its events and its royalty refer to.
+    /// @param cardIds: IDs of the Business Cards that are being listed, between 2 and MAX_BUNDLE_SIZE of them.
+    /// @param price: Price the whole bundle is being listed for, in the given currency.
+    /// @param currency: Currency the listing is settled in.
+    function createBundleListing(uint256[] calldata cardIds, uint256 price, Currency currency) external;
+
     /// @dev Cancels a Business Card listing.
     /// @param itemId: ID of the listing that is to be cancelled.
     function cancelCardListing(uint256 itemId) external;
 
-    /// @dev Purchases a listed Business Card from the Marketplace.
+    /// @dev Updates the price of an active listing in place, turning Dutch listings into fixed price listings.
+    /// @param itemId: ID of the listing.
+    /// @param newPrice: Price the Business Card is now listed for.
+    function updateListingPrice(uint256 itemId, uint256 newPrice) external;
+
+    /// @dev Sets the timestamp from which an active listing can no longer be bought.
+    /// @param itemId: ID of the listing.
+    /// @param expiresAt: Timestamp from which the listing can no longer be bought, zero so that it never expires.
+    function setListingExpiry(uint256 itemId, uint256 expiresAt) external;
+
+    /// @dev Closes an expired listing, returning the Business Cards to the seller. Can be called by anyone.
+    /// @param itemId: ID of the listing.
+    function closeExpiredListing(uint256 itemId) external;
+
+    /// @dev Purchases a listed Business Card from the Marketplace at its current price, refunding the excess msg.value.
+    /// The price of listings settled in DCT is transferred from the msg.sender, who must have approved the Marketplace.
+    /// Private listings can only be bought by their reserved buyer.
     /// @param itemId: ID of the listing that is to be bought.
     function buyListedCard(uint256 itemId) external payable;
 
-    /// @dev Purchases a listed Business Card from the Marketplace and updates their parameters.
+    /// @dev Purchases a Business Card listed in DCT, approving the Marketplace to transfer the price with an EIP-2612 permit first.
+    /// @param itemId: ID of the listing that is to be bought.
+    /// @param deadline: Timestamp until which the permit is valid.
+    /// @param v: Recovery byte of the permit signature.
+    /// @param r: First half of the permit signature.
+    /// @param s: Second half of the permit signature.
+    function buyListedCardWithPermit(uint256 itemId, uint256 deadline, uint8 v, bytes32 r, bytes32 s) external;
+
+    /// @dev Purchases a listed Business Card from the Marketplace at its current price and updates their parameters, refunding the excess msg.value.
+    /// Bundle listings cannot be bought this way, and private listings can only be bought by their reserved buyer.
     /// @param itemId: ID of the listing that is to be bought.
     /// @param newCardName: New name that will be assigned to the Business Card after purchase.
     /// @param newCardProperties: New properties that will be assigned to the Business Card after purchase.
     function buyAndUpdateListedCard(uint256 itemId, string calldata newCardName, CardProperties calldata newCardProperties) external payable;
 
-    /// @dev Gets the Business Card listings that are currently active in the Marketplace.
-    /// @return cardListings: listings that are currently active.
+    /// @dev Makes an offer for a Business Card, listed or not, escrowing the msg.value until it is accepted or withdrawn.
+    /// Neither the owner of the Business Card nor the seller of its active listing can make an offer for it.
+    /// @param cardId: ID of the Business Card the offer is made for.
+    /// @param expiresAt: Timestamp from which the offer can no longer be accepted.
+    function makeOffer(uint256 cardId, uint256 expiresAt) external payable;
+
+    /// @dev Withdraws an offer, refunding its amount to the bidder. Expired offers must be withdrawn to be refunded.
+    /// @param offerId: ID of the offer that is to be withdrawn.
+    function withdrawOffer(uint256 offerId) external;
+
+    /// @dev Accepts an offer, transferring the Business Card to the bidder and its amount to the msg.sender.
+    /// The msg.sender must either own the Business Card, having approved the Marketplace, or be the seller of its active listing, which gets cancelled.
+    /// When that listing is a bundle, the other Business Cards of the bundle are returned to the seller.
+    /// @param offerId: ID of the offer that is to be accepted.
+    function acceptOffer(uint256 offerId) external;
+
+    /// @dev Gets an offer by its ID.
+    /// @param offerId: ID of the offer.
+    /// @return cardOffer: Offer with this ID.
+    function getOffer(uint256 offerId) external view returns (CardOffer memory);
+
+    /// @dev Gets every offer made for a Business Card, in the order they were made.
+    /// @param cardId: ID of the Business Card.
+    /// @return cardOffers: Offers made for this Business Card.
+    function getOffersByCard(uint256 cardId) external view returns (CardOffer[] memory);
+
+    /// @dev Gets every offer made by an address, in the order they were made.
+    /// @param bidder: Address of interest.
+    /// @return cardOffers: Offers made by this address.
+    function getOffersByBidder(address bidder) external view returns (CardOffer[] memory);
+
+    /// @dev Puts a Business Card up for auction, transferring it to the Marketplace until the auction is settled.
+    /// @param cardId: ID of the Business Card that is being auctioned.
+    /// @param reservePrice: Minimum amount of the first bid.
+    /// @param minBidIncrement: Minimum amount by which every following bid must exceed the highest bid.
+    /// @param duration: Time, in seconds, during which bids are accepted.
+    function createAuction(uint256 cardId, uint256 reservePrice, uint256 minBidIncrement, uint256 duration) external;
+
+    /// @dev Places a bid of msg.value in an auction, crediting the bid of the previous highest bidder back to it.
+    /// Bids placed within AUCTION_EXTENSION of the end of the auction extend it to AUCTION_EXTENSION from the bid.
+    /// @param auctionId: ID of the auction.
+    function bid(uint256 auctionId) external payable;
+
+    /// @dev Settles an auction that has ended, transferring the Business Card to the highest bidder and the highest bid to the seller,
+    /// or the Business Card back to the seller if there were no bids. Can be called by anyone.
+    /// @param auctionId: ID of the auction.
+    function settleAuction(uint256 auctionId) external;
+
+    /// @dev Gets an auction by its ID.
+    /// @param auctionId: ID of the auction.
+    /// @return cardAuction: Auction with this ID.
+    function getAuction(uint256 auctionId) external view returns (CardAuction memory);
+
+    /// @dev Fills a sell order signed off-chain, transferring the Business Card from the seller, who must have approved
+    /// the Marketplace, to the msg.sender and refunding the excess msg.value.
+    /// @param order: Sell order that is to be filled.
+    /// @param signature: EIP-712 signature of the order by its seller.
+    function fillSellOrder(SellOrder calldata order, bytes calldata signature) external payable;
+
+    /// @dev Accepts a buy order signed off-chain, transferring the Business Card from the msg.sender, who must own it and
+    /// have approved the Marketplace, to the buyer, and paying the msg.sender from the deposit of the buyer.
+    /// @param order: Buy order that is to be accepted.
+    /// @param signature: EIP-712 signature of the order by its buyer.
+    function acceptBuyOrder(BuyOrder calldata order, bytes calldata signature) external;
+
+    /// @dev Cancels a sell order, which only its seller can do.
+    /// @param order: Sell order that is to be cancelled.
+    function cancelSellOrder(SellOrder calldata order) external;
+
+    /// @dev Cancels a buy order, which only its buyer can do.
+    /// @param order: Buy order that is to be cancelled.
+    function cancelBuyOrder(BuyOrder calldata order) external;
+
+    /// @dev Increments the nonce of the msg.sender, cancelling every order it signed with the previous nonce.
+    function cancelAllOrders() external;
+
+    /// @dev Deposits msg.value to pay for the buy orders of the msg.sender. Deposits are escrowed like offers.
+    function deposit() external payable;
+
+    /// @dev Withdraws funds from the deposit of the msg.sender, which is allowed even while the Marketplace is paused.
+    /// @param amount: Amount that is to be withdrawn.
+    function withdrawDeposit(uint256 amount) external;
+
+    /// @dev Gets the EIP-712 hash of a sell order, the one its seller signs.
+    /// @param order: Sell order.
+    /// @return orderHash: Hash of the order.
+    function hashSellOrder(SellOrder calldata order) external view returns (bytes32);
+
+    /// @dev Gets the EIP-712 hash of a buy order, the one its buyer signs.
+    /// @param order: Buy order.
+    /// @return orderHash: Hash of the order.
+    function hashBuyOrder(BuyOrder calldata order) external view returns (bytes32);
+
+    /// @dev Gets a listing by its ID.
+    /// @param itemId: ID of the listing.
+    /// @return cardListing: Listing with this ID.
+    function getListing(uint256 itemId) external view returns (CardListing memory);
+
+    /// @dev Gets the Business Cards of a listing, several for bundle listings and a single one otherwise.
+    /// @param itemId: ID of the listing.
+    /// @return cardIds: IDs of the Business Cards of the listing.
+    function getListingCardIds(uint256 itemId) external view returns (uint256[] memory);
+
+    /// @dev Gets the current price of a listing, which only changes over time for Dutch listings.
+    /// @param itemId: ID of the listing.
+    /// @return price: Price the listing can be bought for.
+    function getListingPrice(uint256 itemId) external view returns (uint256);
+
+    /// @dev Deprecated, see getActiveListings to paginate the active listings.
+    /// Gets the first MAX_UNPAGINATED_LISTINGS public Business Card listings that are currently active in the Marketplace.
+    /// Private listings are left out, see getListingsBySeller to find them.
+    /// The price of Dutch listings is the price they started at, see getListingPrice for their current price.
+    /// @return cardListings listings that are currently active.
     function getMarketListings() external view returns(CardListing[] memory);
     
-    /// @dev Gets the Business Card listings related to an address either as a buyer or a seller.
+    /// @dev Deprecated, see getListingsBySeller and getListingsByBuyer to paginate the listings of an address.
+    /// Gets the first MAX_UNPAGINATED_LISTINGS Business Card listings related to an address either as a buyer or a seller.
+    /// Sellers are the buyers of the listings they cancelled.
     /// @param account: Address of interest.
     /// @param isSeller: Boolean value indicating whether to find the listings for this address as a seller or as a buyer.
-    /// @return cardListings: Business Card listings related to this address.
+    /// @return cardListings Business Card listings related to this address.
     function getMarketListingsByAddress(address account, bool isSeller) external view returns (CardListing[] memory);
 
-    /// @dev Gets the latest listing in the marketplace for a Business Card. Reverts if the card was never listed.
+    /// @dev Gets the latest listing in the marketplace for a Business Card, which may be a bundle listing whose first
+    /// Business Card is another one. Reverts if the card was never listed.
     /// @param cardId: ID of the Business Card.
     /// @return cardListing: Last Marketplace listing for this Business Card.
     function getLatestListingByCard(uint256 cardId) external view returns (CardListing memory);
 
+    /// @dev Gets a page of the public listings that are currently active. Closing a listing moves the last active listing in its
+    /// place, so pages fetched while listings get closed can miss or repeat listings.
+    /// @param offset: Index of the first listing of the page.
+    /// @param limit: Maximum number of listings in the page.
+    /// @return itemIds IDs of the listings in the page.
+    /// @return cardListings Listings in the page.
+    /// @return total Number of active public listings.
+    function getActiveListings(uint256 offset, uint256 limit) external view returns (uint256[] memory itemIds, CardListing[] memory cardListings, uint256 total);
+
+    /// @dev Gets a page of the listings created by an address, in the order they were created.
+    /// @param seller: Address of interest.
+    /// @param offset: Index of the first listing of the page.
+    /// @param limit: Maximum number of listings in the page.
+    /// @return itemIds IDs of the listings in the page.
+    /// @return cardListings Listings in the page.
+    /// @return total Number of listings created by this address.
+    function getListingsBySeller(address seller, uint256 offset, uint256 limit) external view returns (uint256[] memory itemIds, CardListing[] memory cardListings, uint256 total);
+
+    /// @dev Gets a page of the listings closed by an address, either bought or cancelled as their seller, in the order they were closed.
+    /// @param buyer: Address of interest.
+    /// @param offset: Index of the first listing of the page.
+    /// @param limit: Maximum number of listings in the page.
+    /// @return itemIds IDs of the listings in the page.
+    /// @return cardListings Listings in the page.
+    /// @return total Number of listings closed by this address.
+    function getListingsByBuyer(address buyer, uint256 offset, uint256 limit) external view returns (uint256[] memory itemIds, CardListing[] memory cardListings, uint256 total);
+
+    /// @dev Gets a page of the listings of a Business Card, bundle listings included, in the order they were created.
+    /// @param cardId: ID of the Business Card.
+    /// @param offset: Index of the first listing of the page.
+    /// @param limit: Maximum number of listings in the page.
+    /// @return itemIds IDs of the listings in the page.
+    /// @return cardListings Listings in the page.
+    /// @return total Number of listings of this Business Card.
+    function getListingsByCard(uint256 cardId, uint256 offset, uint256 limit) external view returns (uint256[] memory itemIds, CardListing[] memory cardListings, uint256 total);
+
     /// @dev Starts the Business Card Marketplace.
     function startMarketplace() external;
 
     /// @dev Pauses the Business Card Marketplace.
     function pauseMarketplace() external;
 
-    /// @dev Withdraw balance from this contract to fund the dev's tungsten cube collection.
+    /// @dev Sets the protocol fee charged on every sale, on top of the royalty, which the seller pays.
+    /// @param fee: Protocol fee in basis points, at most MAX_PROTOCOL_FEE.
+    function setProtocolFee(uint96 fee) external;
+
+    /// @dev Sets the address the accrued protocol fees are withdrawn to.
+    /// @param treasury: Address of the treasury.
+    function setTreasury(address treasury) external;
+
+    /// @dev Sends the accrued protocol fees, in ETH and DCT, to the treasury. Escrowed offers and bids, and the payments
+    /// credited to sellers, royalty receivers and outbid bidders, are never withdrawn.
     function withdraw() external;
 }
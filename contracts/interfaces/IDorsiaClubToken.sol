@@ -1,9 +1,10 @@
 //SPDX-License-Identifier: Unlicense
 pragma solidity ^0.8.4;
 
-import "@openzeppelin/contracts/interfaces/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/extensions/IERC20Metadata.sol";
+import "@openzeppelin/contracts/token/ERC20/extensions/draft-IERC20Permit.sol";
 import { MAX_DCT_SUPPLY, DCT_AIRDROP_SUPPLY, MAX_SUPPLY } from "../libs/Constants.sol";
 
-interface IDorsiaClubToken is IERC20 {
+interface IDorsiaClubToken is IERC20Metadata, IERC20Permit {
 
 }
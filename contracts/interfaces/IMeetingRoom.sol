@@ -3,16 +3,18 @@
 pragma solidity ^0.8.4;
 
 import { Meeting } from "../libs/Structs.sol";
+import "./IRandomnessConsumer.sol";
 import { 
     MAXIMUM_MEETING_PARTICIPANTS,
     MINIMUM_TIME_TO_MEETING_START,
     MAXIMUM_TIME_TO_MEETING_START,
     MINIMUM_MEETING_DURATION,
     MAXIMUM_MEETING_DURATION,
+    RANDOMNESS_TIMEOUT,
     PRECISION
 } from "../libs/Constants.sol";
 
-interface IMeetingRoom {
+interface IMeetingRoom is IRandomnessConsumer {
     error InvalidBetLimits();
     error InvalidBetAmount();
     error InvalidTimeToMeetingStart();
@@ -21,6 +23,12 @@ interface IMeetingRoom {
     error MeetingOngoing();
     error MeetingFull();
     error MeetingFinished();
+    error MeetingNotStarted();
+    error MeetingHasEnded();
+    error WinnerBeingDrawn();
+
+    error CallerIsNotTheCoordinator();
+    error RandomnessRequestNotValid();
 
     error CardCommitmentDoesNotMatch();
     error CardAlreadyRevealed();
@@ -46,13 +54,31 @@ interface IMeetingRoom {
     /// @param roomId: ID of the Meeting Room.
     /// @param cardCommitment: Card commitment that is being revealed.
     /// @param cardId: ID of the Business Card that is being revealed.
-    event CardRevealed(uint256 indexed roomId, uint256 cardCommitment, uint256 cardId);
+    /// @param salt: Salt of the card commitment, which gets mixed into the entropy of the meeting.
+    /// @param revealer: Address that revealed the card, which wins the meeting if the card gets drawn.
+    event CardRevealed(uint256 indexed roomId, uint256 cardCommitment, uint256 cardId, uint256 salt, address revealer);
+
+    /// @dev Emitted when the random word of a meeting gets requested from the randomness coordinator.
+    /// @param roomId: ID of the Meeting Room.
+    /// @param requestId: ID of the request made to the coordinator.
+    event RandomnessRequested(uint256 indexed roomId, uint256 requestId);
+
+    /// @dev Emitted right before the winner of a meeting is drawn, with every input of the draw.
+    /// @param roomId: ID of the Meeting Room.
+    /// @param entropy: Entropy accumulated from the salts of the revealed cards, in the order they were revealed.
+    /// @param randomWord: Random word from the randomness coordinator, zero if there was none.
+    /// @param randomNumber: Number the winner was drawn with, see {MeetingRoom-_drawWinner}.
+    event DrawSeeded(uint256 indexed roomId, uint256 entropy, uint256 randomWord, uint256 randomNumber);
     
     /// @dev Emitted when the winner of a meeting is drawn.
     /// @param roomId: ID of the Meeting Room.
-    /// @param winner: Address that won the meeting.
+    /// @param winner: Address that revealed the drawn card and won the meeting.
     event WinnerDrawn(uint256 indexed roomId, address winner);
 
+    /// @dev Emitted when the randomness coordinator gets set.
+    /// @param coordinator: Address of the coordinator, the zero address to draw from the revealed salts only.
+    event RandomnessCoordinatorSet(address coordinator);
+
     /// @dev Creates a new Meeting Room.
     /// @param cardCommitment: Initial card commitment from the Meeting Room chairman.
     /// @param timeToMeetingStart: Time, in minutes, until the meeting starts.
@@ -65,21 +91,41 @@ interface IMeetingRoom {
     function joinMeetingRoom(uint256 roomId, uint256 cardCommitment) external payable;
 
     /// @dev Allows the `msg.sender` to reveal their committed Business Card, giving them a chance to win the staked funds.
+    /// Cards can only be revealed while the meeting is ongoing, once no one can join it anymore, and their salts are
+    /// mixed into the entropy the winner gets drawn with.
     /// @param roomId: ID of the Meeting Room.
     /// @param cardCommitment: Card commitment that is being revealed.
     /// @param cardId: ID of the Business Card that was committed.
     /// @param salt: Random integer that was used to generate the card commitment.
     function revealCard(uint256 roomId, uint256 cardCommitment, uint256 cardId, uint256 salt) external;
 
-    /// @dev Initiates the end of a meeting. If no eligible winner is found, the staked funds get locked inside the smart contract.
+    /// @dev Initiates the end of a meeting, crediting the staked funds to the winner, who withdraws them with withdrawPayments.
+    /// The winner is the address that revealed the drawn card, even if the card has changed hands since.
+    /// If no eligible winner is found, the staked funds get locked inside the smart contract.
+    /// Without a randomness coordinator, the winner is drawn right away from the entropy of the revealed salts. The last
+    /// participant to reveal can still withhold their card if they dislike the outcome, which a coordinator prevents:
+    /// the winner is then drawn once it fulfills the request, from both the entropy and its random word.
+    /// If the request is not fulfilled within RANDOMNESS_TIMEOUT, finishing the meeting again requests a new random word
+    /// from the current coordinator, or draws the winner from the entropy only if there is no coordinator anymore.
     /// @param roomId: ID of the Meeting Room.
     function finishMeeting(uint256 roomId) external;
 
-    /// @dev Withdraw balance from this contract to fund the dev's tungsten cube collection.
+    /// @dev Sets the coordinator random words are requested from when finishing meetings. Requests still pending with
+    /// the previous coordinator can still be fulfilled by it, until they time out and get made again.
+    /// @param coordinator: Address of the coordinator, the zero address to draw from the revealed salts only.
+    function setRandomnessCoordinator(address coordinator) external;
+
+    /// @dev Withdraw balance from this contract, except the prizes owed to the winners and the stakes of the meetings that
+    /// are not finished yet, to fund the dev's tungsten cube collection.
     function withdraw() external;
 
     /// @dev Gets the information about a Meeting Room.
     /// @param roomId: ID of the Meeting Room.
     /// @return meetingRoom: Information about the Meeting Room.
     function getMeetingRoom(uint256 roomId) external view returns (Meeting memory);
+
+    /// @dev Gets the probability each revealed card of a Meeting Room has of winning, in the order they were revealed.
+    /// @param roomId: ID of the Meeting Room.
+    /// @return probabilities Probabilities summing to `PRECISION`, empty if no card was revealed.
+    function getWinningProbabilities(uint256 roomId) external view returns (uint256[] memory probabilities);
 }
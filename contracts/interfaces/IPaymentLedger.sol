@@ -0,0 +1,25 @@
+//SPDX-License-Identifier: Unlicense
+pragma solidity ^0.8.4;
+
+interface IPaymentLedger {
+    error NoPaymentsToWithdraw();
+    error PaymentWithdrawalFailed();
+
+    /// @dev Emitted when a payment is credited to an address instead of being sent to it.
+    /// @param payee: Address the payment is owed to.
+    /// @param amount: Amount credited.
+    event PaymentCredited(address indexed payee, uint256 amount);
+
+    /// @dev Emitted when an address withdraws the payments credited to it.
+    /// @param payee: Address that withdrew its payments.
+    /// @param amount: Amount withdrawn.
+    event PaymentWithdrawn(address indexed payee, uint256 amount);
+
+    /// @dev Sends every payment credited to the msg.sender to it.
+    function withdrawPayments() external;
+
+    /// @dev Gets the payments credited to an address that it has not withdrawn yet.
+    /// @param payee: Address of interest.
+    /// @return amount: Amount the address can withdraw.
+    function payments(address payee) external view returns (uint256);
+}
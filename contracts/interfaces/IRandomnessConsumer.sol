@@ -0,0 +1,11 @@
+// SPDX-License-Identifier: MIT
+
+pragma solidity ^0.8.4;
+
+/// @dev Contracts requesting random words from an {IRandomnessCoordinator}.
+interface IRandomnessConsumer {
+    /// @dev Receives the random word of a request, can only be called by the coordinator the request was made to.
+    /// @param requestId: ID of the request being fulfilled.
+    /// @param randomWord: Random word generated for the request.
+    function fulfillRandomness(uint256 requestId, uint256 randomWord) external;
+}
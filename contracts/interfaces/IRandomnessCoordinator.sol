@@ -0,0 +1,11 @@
+// SPDX-License-Identifier: MIT
+
+pragma solidity ^0.8.4;
+
+/// @dev Adapter for a VRF-style randomness coordinator, which fulfills every request asynchronously by calling
+/// {IRandomnessConsumer-fulfillRandomness} on the contract that made it.
+interface IRandomnessCoordinator {
+    /// @dev Requests a random word for the `msg.sender`.
+    /// @return requestId ID of the request, passed back along with the random word.
+    function requestRandomness() external returns (uint256 requestId);
+}
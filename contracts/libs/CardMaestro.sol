@@ -5,20 +5,60 @@ pragma solidity ^0.8.4;
 import { PRECISION } from "../libs/Constants.sol";
 
 /// @dev Functions for computing winning chances between cards.
+/// Every trait of a card scores points, rarer variants scoring more and damaged cards losing some, and the cards
+/// Patrick Bateman and his colleagues compare get a bonus on top. A card wins against another in proportion to its score.
 library CardMaestro {
+    // Number of digits of the genes, which are always read zero-padded
+    uint256 constant GENES_DIGITS = 30;
+    // Score every card starts from, above the sum of all penalties so that no score is ever zero
+    uint256 constant BASE_SCORE = 25;
+    // Phone number of Patrick Bateman, (212) 555-6342
+    uint256 constant BATEMAN_PHONE_NUMBER = 6342;
+
+    // Cumulative upper bounds of the variants of every trait but the last, which ends at 100, one byte each from the lowest
+    uint256 constant BACKGROUND_BOUNDS = 0x5A4B371E;  // 30, 55, 75, 90
+    uint256 constant PAPER_TYPE_BOUNDS = 0x554128;  // 40, 65, 85
+    uint256 constant PAPER_COLOR_BOUNDS = 0x5A4E3C23;  // 35, 60, 78, 90
+    uint256 constant FONT_BOUNDS = 0x5A4E3C23;  // 35, 60, 78, 90
+    uint256 constant ADDRESS_BOUNDS = 0x5A4B32;  // 50, 75, 90
+    uint256 constant CRANBERRY_JUICE_BOUNDS = 0x5F50;  // 80, 95
+    uint256 constant SHADOW_TYPE_BOUNDS = 0x5A4628;  // 40, 70, 90
+    uint256 constant WATERMARK_BOUNDS = 0x5A46;  // 70, 90
+    uint256 constant FOOTPRINT_BOUNDS = 0x5A;  // 90
+    uint256 constant DEFACED_BOUNDS = 0x625C;  // 92, 98
+    uint256 constant LETTERING_BOUNDS = 0x5532;  // 50, 85
+    uint256 constant GOLD_EDGES_BOUNDS = 0x55;  // 85
+    uint256 constant WASHED_BOUNDS = 0x5A;  // 90
+
     /// @dev Computes the winning chance that player A has against player B.
     /// @param genesA: Player A's Business Card genes.
     /// @param genesB: Player B's Business Card genes.
-    /// @return winningChance: Chance that Player A's Business Card would win against player B's Business Card to 6 significant figures. 
+    /// @return winningChance: Chance that Player A's Business Card would win against player B's Business Card to 6 significant figures,
+    /// which sums to `PRECISION` with the chance player B has against player A.
     function getWinningChanceAgainst(uint256 genesA, uint256 genesB) internal pure returns (uint256) {
-        /* 
+        uint256 scoreA = getScore(genesA);
+        uint256 scoreB = getScore(genesB);
+
+        // Only the chance of the weaker card gets rounded down, so that both chances always sum to PRECISION
+        if (scoreA <= scoreB) {
+            return scoreA * PRECISION / (scoreA + scoreB);
+        }
+
+        return PRECISION - scoreB * PRECISION / (scoreA + scoreB);
+    }
+
+    /// @dev Computes the score of a Business Card from its traits.
+    /// @param genes: Business Card genes.
+    /// @return score: Score of the Business Card, never zero.
+    function getScore(uint256 genes) internal pure returns (uint256) {
+        /*
          *  genes: integer, characteristics that make up the NFT, a 30 digit number,
          *  00.00.00.00.00.00.00.00.00.00.00.00.00.0000:
          *      [0:2]: background
          *      [2:4]: type of paper
          *      [4:6]: paper color
          *      [6:8]: font used
-         *      [8:10]: address 
+         *      [8:10]: address
          *      [10:12]: cranberry juice
          *      [12:14]: shadow type
          *      [14:16]: watermark
@@ -28,10 +68,73 @@ library CardMaestro {
          *      [22:24]: gold edges
          *      [24:26]: washed
          *      [26:30]: phone number
+         *
+         *  Two digit segments map to the variants of their trait, from most to least common, as the metadata does.
         */
+        return BASE_SCORE + _getTraitPoints(genes) + _getBatemanBonus(genes) - _getPenalty(genes);
+    }
+
+    /// @dev Scores the traits that make a Business Card stand out, rarer variants scoring more.
+    function _getTraitPoints(uint256 genes) private pure returns (uint256 points) {
+        points += _points(genes, 0, BACKGROUND_BOUNDS, 0x0604030201);  // background: 1, 2, 3, 4, 6
+        points += _points(genes, 2, PAPER_TYPE_BOUNDS, 0x05030201);  // type of paper: 1, 2, 3, 5
+        points += _points(genes, 4, PAPER_COLOR_BOUNDS, 0x0605040301);  // paper color: 1, 3, 4, 5, 6
+        points += _points(genes, 6, FONT_BOUNDS, 0x0605030201);  // font used: 1, 2, 3, 5, 6
+        points += _points(genes, 8, ADDRESS_BOUNDS, 0x05030200);  // address: 0, 2, 3, 5
+        points += _points(genes, 12, SHADOW_TYPE_BOUNDS, 0x03020100);  // shadow type: 0, 1, 2, 3
+        points += _points(genes, 14, WATERMARK_BOUNDS, 0x050300);  // watermark: 0, 3, 5
+        points += _points(genes, 20, LETTERING_BOUNDS, 0x040300);  // lettering: 0, 3, 4
+        points += _points(genes, 22, GOLD_EDGES_BOUNDS, 0x0400);  // gold edges: 0, 4
+    }
 
+    /// @dev Scores the traits that damage a Business Card, at most 22 points so that scores never reach zero.
+    function _getPenalty(uint256 genes) private pure returns (uint256 penalty) {
+        penalty += _points(genes, 10, CRANBERRY_JUICE_BOUNDS, 0x060300);  // cranberry juice: 0, 3, 6
+        penalty += _points(genes, 16, FOOTPRINT_BOUNDS, 0x0400);  // footprint: 0, 4
+        penalty += _points(genes, 18, DEFACED_BOUNDS, 0x080300);  // defaced: 0, 3, 8
+        penalty += _points(genes, 24, WASHED_BOUNDS, 0x0400);  // washed: 0, 4
+    }
+
+    /// @dev Scores the Business Cards compared in the boardroom scene, and Patrick Bateman's phone number.
+    function _getBatemanBonus(uint256 genes) private pure returns (uint256 bonus) {
+        uint256 paperType = _variant(_segment(genes, 2, 4), PAPER_TYPE_BOUNDS);
+        uint256 paperColor = _variant(_segment(genes, 4, 6), PAPER_COLOR_BOUNDS);
+        uint256 font = _variant(_segment(genes, 6, 8), FONT_BOUNDS);
+
+        // "Bone. And the lettering is something called Silian Rail."
+        if (paperColor == 4 && font == 4) { bonus += 10; }
+        // "Eggshell with Romalian type."
+        if (paperColor == 2 && font == 3) { bonus += 8; }
+        // "Raised lettering, pale nimbus."
+        if (paperColor == 3 && _variant(_segment(genes, 20, 22), LETTERING_BOUNDS) == 1) { bonus += 8; }
+        // "Look at that subtle off-white coloring. The tasteful thickness of it. Oh my God, it even has a watermark."
+        if (paperColor == 1 && paperType == 3 && _variant(_segment(genes, 14, 16), WATERMARK_BOUNDS) != 0) { bonus += 12; }
+
+        if (_segment(genes, 26, 30) == BATEMAN_PHONE_NUMBER) { bonus += 10; }
+    }
+
+    /// @dev Reads the points scored by the variant of the trait stored in the digits [start, start + 2) of the genes.
+    /// @param bounds: Cumulative upper bounds of the variants, packed as in `_variant`.
+    /// @param points: Points of every variant, one byte each from the lowest.
+    function _points(uint256 genes, uint256 start, uint256 bounds, uint256 points) private pure returns (uint256) {
+        return uint8(points >> (8 * _variant(_segment(genes, start, start + 2), bounds)));
+    }
+
+    /// @dev Reads the digits [start, end) of the genes, zero-padded to `GENES_DIGITS` digits.
+    function _segment(uint256 genes, uint256 start, uint256 end) private pure returns (uint256) {
+        // Powers of 10 up to 10 ** GENES_DIGITS cannot overflow
+        unchecked {
+            return (genes / 10 ** (GENES_DIGITS - end)) % 10 ** (end - start);
+        }
+    }
 
-        // TODO: how to compute these in a bretty good gamified model?
-        return uint256(keccak256(abi.encodePacked(genesA, genesB))) % PRECISION;  // temporary solution
+    /// @dev Maps a two digit segment value to the index of its variant.
+    /// @param value: Segment value, below 100.
+    /// @param bounds: Cumulative upper bound of every variant but the last, one byte each from the lowest.
+    function _variant(uint256 value, uint256 bounds) private pure returns (uint256 index) {
+        while (bounds != 0 && value >= uint8(bounds)) {
+            bounds >>= 8;
+            index++;
+        }
     }
 }
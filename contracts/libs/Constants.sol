@@ -9,6 +9,10 @@ uint256 constant MINT_PRICE = 0.01 ether;
 uint256 constant UPDATE_PRICE = 0.002 ether;
 // Oracle update transaction gas price
 uint256 constant ORACLE_FEE = 0.0005 ether;
+// Time after which a request the oracle did not process can be cancelled by the owner of the Business Card
+uint256 constant REQUEST_TIMEOUT = 1 days;
+// Maximum royalty, in basis points, on the sales of Business Cards
+uint96 constant MAX_ROYALTY = 1000;
 
 // Maximum supply of $DCT tokens
 uint256 constant MAX_DCT_SUPPLY = 212_555_6342;
@@ -19,6 +23,18 @@ uint256 constant DCT_AIRDROP_SUPPLY = DCT_AIRDROP * MAX_SUPPLY;
 
 // Minimum listing price for a Business Card in the marketplace
 uint256 constant MIN_LISTING_PRICE = 0.001 ether;
+// Maximum protocol fee, in basis points, charged by the marketplace on every sale
+uint96 constant MAX_PROTOCOL_FEE = 500;
+// Minimum duration of a Business Card auction
+uint256 constant MIN_AUCTION_DURATION = 1 hours;
+// Maximum duration of a Business Card auction
+uint256 constant MAX_AUCTION_DURATION = 30 days;
+// Bids placed this close to the end of an auction extend it by as much, so as to prevent sniping
+uint256 constant AUCTION_EXTENSION = 10 minutes;
+// Maximum number of Business Cards in a bundle listing, which are all transferred when it gets bought or cancelled
+uint256 constant MAX_BUNDLE_SIZE = 20;
+// Maximum number of listings returned by the unpaginated listing views of the marketplace
+uint256 constant MAX_UNPAGINATED_LISTINGS = 100;
 
 // Maximum meeting participants; limitation arises from having to loop through an array when revealing cards
 uint256 constant MAXIMUM_MEETING_PARTICIPANTS = 10;
@@ -30,5 +46,7 @@ uint256 constant MAXIMUM_TIME_TO_MEETING_START = 10;
 uint256 constant MINIMUM_MEETING_DURATION = 1;
 // Maximum duration, in minutes, that a meeting can take
 uint256 constant MAXIMUM_MEETING_DURATION = 10;
+// Time after which a random word the randomness coordinator did not provide can be requested again
+uint256 constant RANDOMNESS_TIMEOUT = 1 hours;
 // Significant figures used to compute chances
 uint256 constant PRECISION = 1e6;
@@ -19,14 +19,79 @@ struct CardProperties {
     string website;
 }
 
+/// @dev Defines the currencies Business Card listings can be settled in.
+enum Currency {
+    ETH,
+    /// Dorsia Club Token, pulled from the buyer with transferFrom.
+    DCT
+}
+
 /// @dev Defines a Business Card listing in the marketplace. 
 struct CardListing {
     uint256 cardId;
     address seller;
+    /// Reserved buyer while a private listing is active, then the address that bought or cancelled the listing.
     address buyer;
+    /// Price in the currency of the listing.
     uint256 price;
     bool isSold;
     bool isCancelled;
+    Currency currency;
+}
+
+/// @dev Defines how the price of a Dutch listing decays linearly, from its listing price down to its floor price.
+struct PriceDecay {
+    uint256 floorPrice;
+    uint256 startTime;
+    uint256 duration;
+}
+
+/// @dev Defines an offer for a Business Card in the marketplace, with its amount escrowed by the marketplace.
+struct CardOffer {
+    uint256 offerId;
+    uint256 cardId;
+    address bidder;
+    uint256 amount;
+    uint256 expiresAt;
+    bool isAccepted;
+    bool isWithdrawn;
+}
+
+/// @dev Defines an English auction for a Business Card in the marketplace, with the highest bid escrowed by the marketplace.
+struct CardAuction {
+    uint256 auctionId;
+    uint256 cardId;
+    address seller;
+    uint256 reservePrice;
+    uint256 minBidIncrement;
+    uint256 endTime;
+    address highestBidder;
+    uint256 highestBid;
+    bool isSettled;
+}
+
+/// @dev Defines a sell order signed off-chain by the owner of a Business Card, who keeps it until the order is filled.
+struct SellOrder {
+    address seller;
+    uint256 cardId;
+    uint256 price;
+    uint256 expiresAt;
+    /// Nonce of the seller when signing, see {ICardMarketplace-cancelAllOrders}.
+    uint256 nonce;
+    /// Random value so that otherwise identical orders have different hashes.
+    uint256 salt;
+}
+
+/// @dev Defines a buy order signed off-chain by a bidder, paid from their deposit in the marketplace when accepted.
+struct BuyOrder {
+    address buyer;
+    uint256 cardId;
+    uint256 price;
+    uint256 expiresAt;
+    /// Nonce of the buyer when signing, see {ICardMarketplace-cancelAllOrders}.
+    uint256 nonce;
+    /// Random value so that otherwise identical orders have different hashes.
+    uint256 salt;
 }
 
 /// @dev Defines a Business Card meeting
@@ -36,6 +101,19 @@ struct Meeting {
     uint256 betAmount;
     uint256 participants;
     uint256[] cardIds;
+    /// Address that revealed each card, which wins the meeting if its card gets drawn.
+    address[] revealers;
+    /// Weight of each revealed card, which the winning probabilities are normalised from, see {WinningChances}.
     uint256[] winningChances;
     address winner;
+    /// Hash chain of the salts of the revealed cards, in the order they were revealed.
+    uint256 entropy;
+    /// Request made to the randomness coordinator while the winner is being drawn.
+    uint256 randomnessRequestId;
+    /// Whether the random word of the request is still awaited, request IDs being possibly zero.
+    bool randomnessPending;
+    /// Coordinator the request was made to, which can still fulfill it after being replaced.
+    address randomnessCoordinator;
+    /// Time the request was made at, after which it can be made again once RANDOMNESS_TIMEOUT has passed.
+    uint256 randomnessRequestedAt;
 }
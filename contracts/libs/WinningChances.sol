@@ -0,0 +1,78 @@
+// SPDX-License-Identifier: MIT
+
+pragma solidity ^0.8.4;
+
+import { PRECISION } from "./Constants.sol";
+import "./CardMaestro.sol";
+
+/// @dev Fixed-point model of the chances each revealed card has of winning a meeting.
+/// Every card gets a weight, the product of its chances against each of its rivals, so that the weights of a meeting
+/// all have as many factors and can be normalised into probabilities summing to `PRECISION`. Chances are kept
+/// within ]0, PRECISION[ so that no weight is ever zero, and with at most `MAXIMUM_MEETING_PARTICIPANTS` cards a
+/// weight is below PRECISION ** 9, far from overflowing.
+library WinningChances {
+    /// @dev Computes the chance that card A has against card B, strictly between 0 and `PRECISION`.
+    /// @param genesA: Card A's genes.
+    /// @param genesB: Card B's genes.
+    /// @return chance Chance that card A wins against card B, card B's chance being `PRECISION - chance`.
+    function getChanceAgainst(uint256 genesA, uint256 genesB) internal pure returns (uint256 chance) {
+        chance = CardMaestro.getWinningChanceAgainst(genesA, genesB);
+
+        if (chance == 0) { return 1; }
+        if (chance >= PRECISION) { return PRECISION - 1; }
+    }
+
+    /// @dev Normalises the weights of the revealed cards into probabilities summing to exactly `PRECISION`. The
+    /// cumulative weights get rounded down rather than every weight, so that the last cumulative probability is
+    /// `PRECISION`, with each probability within one unit of its exact value.
+    /// @param weights: Weights of the revealed cards, not all zero.
+    /// @return probabilities Probability each card has of winning.
+    function toProbabilities(uint256[] memory weights) internal pure returns (uint256[] memory probabilities) {
+        uint256 nCards = weights.length;
+        uint256 scale;
+
+        for (uint256 i; i < nCards; ) {
+            scale += weights[i];
+
+            unchecked {
+                i++;
+            }
+        }
+
+        probabilities = new uint256[](nCards);
+
+        uint256 cumulativeWeight;
+        uint256 cumulativeProbability;
+
+        for (uint256 i; i < nCards; ) {
+            cumulativeWeight += weights[i];
+
+            uint256 nextCumulativeProbability = cumulativeWeight * PRECISION / scale;
+
+            probabilities[i] = nextCumulativeProbability - cumulativeProbability;
+            cumulativeProbability = nextCumulativeProbability;
+
+            unchecked {
+                i++;
+            }
+        }
+    }
+
+    /// @dev Picks the card a random number falls on, each card covering as many numbers as its probability.
+    /// @param probabilities: Probabilities summing to `PRECISION`, see {toProbabilities}.
+    /// @param randomNumber: Random number below `PRECISION`.
+    /// @return index Index of the card that was picked.
+    function pick(uint256[] memory probabilities, uint256 randomNumber) internal pure returns (uint256 index) {
+        uint256 cumulativeProbability;
+
+        for (; index < probabilities.length - 1; ) {
+            cumulativeProbability += probabilities[index];
+
+            if (randomNumber < cumulativeProbability) { break; }
+
+            unchecked {
+                index++;
+            }
+        }
+    }
+}
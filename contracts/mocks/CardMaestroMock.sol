@@ -0,0 +1,16 @@
+// SPDX-License-Identifier: MIT
+
+pragma solidity ^0.8.4;
+
+import "../libs/CardMaestro.sol";
+
+/// @dev Exposes the CardMaestro library so that its off-chain port can be tested against it.
+contract CardMaestroMock {
+    function getScore(uint256 genes) external pure returns (uint256) {
+        return CardMaestro.getScore(genes);
+    }
+
+    function getWinningChanceAgainst(uint256 genesA, uint256 genesB) external pure returns (uint256) {
+        return CardMaestro.getWinningChanceAgainst(genesA, genesB);
+    }
+}
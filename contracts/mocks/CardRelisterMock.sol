@@ -0,0 +1,18 @@
+// SPDX-License-Identifier: MIT
+
+pragma solidity ^0.8.4;
+
+import "@openzeppelin/contracts/token/ERC721/IERC721.sol";
+import "../CardMarketplace.sol";
+
+/// @dev Lists and cancels the same Business Card over and over, so that tests can build a long listing history in a few transactions.
+contract CardRelisterMock {
+    function relist(CardMarketplace cardMarketplace, IERC721 businessCard, uint256 cardId, uint256 price, uint256 times) external {
+        businessCard.setApprovalForAll(address(cardMarketplace), true);
+
+        for (uint256 i = 0; i < times; i++) {
+            cardMarketplace.createCardListing(cardId, price);
+            cardMarketplace.cancelCardListing(cardMarketplace.totalListings());
+        }
+    }
+}
@@ -0,0 +1,28 @@
+// SPDX-License-Identifier: MIT
+
+pragma solidity ^0.8.4;
+
+import "../interfaces/IRandomnessConsumer.sol";
+import "../interfaces/IRandomnessCoordinator.sol";
+
+/// @dev Local stand-in for a VRF coordinator, fulfilling requests with the random words picked by tests.
+contract RandomnessCoordinatorMock is IRandomnessCoordinator {
+    uint256 public totalRequests;
+
+    /// @dev Gets a request ID and returns the contract that made the request.
+    mapping(uint256 => address) public consumers;
+
+    event RandomnessRequested(uint256 indexed requestId, address consumer);
+
+    /// @dev Request IDs start from zero, which consumers must handle like any other.
+    function requestRandomness() external override returns (uint256 requestId) {
+        requestId = totalRequests++;
+        consumers[requestId] = msg.sender;
+
+        emit RandomnessRequested(requestId, msg.sender);
+    }
+
+    function fulfillRandomness(uint256 requestId, uint256 randomWord) external {
+        IRandomnessConsumer(consumers[requestId]).fulfillRandomness(requestId, randomWord);
+    }
+}
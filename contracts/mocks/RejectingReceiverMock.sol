@@ -0,0 +1,26 @@
+// SPDX-License-Identifier: MIT
+
+pragma solidity ^0.8.4;
+
+/// @dev Forwards calls to other contracts and rejects ETH until told otherwise, so that tests can check that a payee
+/// rejecting ETH does not block the contracts paying it.
+contract RejectingReceiverMock {
+    bool public accepting;
+
+    function setAccepting(bool accepting_) external {
+        accepting = accepting_;
+    }
+
+    function execute(address target, bytes calldata data) external payable {
+        (bool success, bytes memory result) = target.call{ value: msg.value }(data);
+
+        if (!success) {
+            // Bubbles up the revert reason, custom errors included
+            assembly { revert(add(result, 32), mload(result)) }
+        }
+    }
+
+    receive() external payable {
+        require(accepting, "RejectingReceiverMock: ETH rejected");
+    }
+}
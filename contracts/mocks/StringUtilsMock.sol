@@ -0,0 +1,22 @@
+// SPDX-License-Identifier: MIT
+
+pragma solidity ^0.8.4;
+
+import "../libs/Utils.sol";
+
+/// @dev Exposes the StringUtils library so that off-chain validators can be tested against it.
+contract StringUtilsMock {
+    using StringUtils for bytes;
+
+    function validateName(string calldata name) external pure returns (bool) {
+        return bytes(name).validateName();
+    }
+
+    function validatePosition(string calldata position) external pure returns (bool) {
+        return bytes(position).validatePosition();
+    }
+
+    function toLower(string calldata str) external pure returns (string memory) {
+        return bytes(str).toLower();
+    }
+}
@@ -0,0 +1,43 @@
+// SPDX-License-Identifier: MIT
+
+pragma solidity ^0.8.4;
+
+import "../libs/WinningChances.sol";
+
+/// @dev Exposes the WinningChances library so that the off-chain reference implementation can be tested against it.
+contract WinningChancesMock {
+    using WinningChances for uint256;
+    using WinningChances for uint256[];
+
+    function getChanceAgainst(uint256 genesA, uint256 genesB) external pure returns (uint256) {
+        return genesA.getChanceAgainst(genesB);
+    }
+
+    /// @dev Weights cards with the given genes the way `MeetingRoom.revealCard` does when they get revealed in order.
+    function getWeights(uint256[] calldata genes) public pure returns (uint256[] memory weights) {
+        weights = new uint256[](genes.length);
+
+        for (uint256 i; i < genes.length; i++) {
+            weights[i] = 1;
+
+            for (uint256 j; j < i; j++) {
+                uint256 chanceAgainst = genes[i].getChanceAgainst(genes[j]);
+
+                weights[j] *= PRECISION - chanceAgainst;
+                weights[i] *= chanceAgainst;
+            }
+        }
+    }
+
+    function getProbabilities(uint256[] calldata genes) external pure returns (uint256[] memory) {
+        return getWeights(genes).toProbabilities();
+    }
+
+    function toProbabilities(uint256[] calldata weights) external pure returns (uint256[] memory) {
+        return weights.toProbabilities();
+    }
+
+    function pick(uint256[] calldata probabilities, uint256 randomNumber) external pure returns (uint256) {
+        return probabilities.pick(randomNumber);
+    }
+}
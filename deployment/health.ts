@@ -0,0 +1,112 @@
+import { BigNumber, constants, utils } from "ethers"
+import type { BusinessCard, CardMarketplace, DorsiaClubToken } from "../typechain-types"
+import { DCT_AIRDROP, DCT_AIRDROP_SUPPLY, findStuckRequests } from "../sdk"
+
+export type HealthCheck = {
+    name: string
+    ok: boolean
+    details: { [key: string]: unknown }
+}
+
+export type HealthReport = {
+    ok: boolean
+    /** Block the checks were run against. */
+    blockNumber: number
+    checks: HealthCheck[]
+}
+
+export type HealthCheckOptions = {
+    /** Block the Business Card smart contract was deployed at, the request events are queried from there. */
+    fromBlock?: number
+    expectSaleStarted?: boolean
+    expectMarketplaceActive?: boolean
+    /** Minimum balance, in wei, the oracle needs to send the callbacks. */
+    minOracleBalance?: BigNumber
+    /** Time, in seconds, after which a pending request is considered stuck. */
+    maxPendingTime?: number
+}
+
+export type DeployedContracts = {
+    businessCard: BusinessCard
+    cardMarketplace: CardMarketplace
+    dct: DorsiaClubToken
+}
+
+/**
+ * Checks the invariants a healthy deployment of the Dorsia Club smart contracts must hold.
+ */
+export const checkDeployment = async (
+    { businessCard, cardMarketplace, dct }: DeployedContracts,
+    {
+        fromBlock = 0,
+        expectSaleStarted = true,
+        expectMarketplaceActive = true,
+        minOracleBalance = utils.parseEther("0.01"),
+        maxPendingTime = 3600
+    }: HealthCheckOptions = {}
+): Promise<HealthReport> => {
+    const provider = businessCard.provider
+    const block = await provider.getBlock("latest")
+    const blockTag = block.number
+
+    const marketplaceAddress = await businessCard.marketplaceAddress({ blockTag })
+    const oracleAddress = await businessCard.oracleAddress({ blockTag })
+    const oracleBalance = await provider.getBalance(oracleAddress, blockTag)
+    const saleStarted = await businessCard.saleStarted({ blockTag })
+    const marketplaceActive = await cardMarketplace.marketplaceActive({ blockTag })
+
+    const unit = BigNumber.from(10).pow(await dct.decimals())
+    const totalSupply = await businessCard.totalSupply({ blockTag })
+    const airdropped = (await dct.queryFilter(dct.filters.Transfer(businessCard.address), fromBlock, blockTag))
+        .reduce((sum, { args }) => sum.add(args.value), BigNumber.from(0))
+    const dctBalance = await dct.balanceOf(businessCard.address, { blockTag })
+    const expectedDctBalance = unit.mul(DCT_AIRDROP_SUPPLY).sub(airdropped)
+
+    const stuckRequests = await findStuckRequests(businessCard, fromBlock, maxPendingTime, blockTag)
+
+    const checks: HealthCheck[] = [
+        {
+            name: "marketplaceAddress",
+            ok: marketplaceAddress === cardMarketplace.address,
+            details: { expected: cardMarketplace.address, actual: marketplaceAddress }
+        },
+        {
+            name: "oracleAddress",
+            ok: oracleAddress !== constants.AddressZero,
+            details: { oracleAddress }
+        },
+        {
+            name: "oracleBalance",
+            ok: oracleBalance.gte(minOracleBalance),
+            details: { balance: oracleBalance.toString(), minimum: minOracleBalance.toString() }
+        },
+        {
+            name: "saleStarted",
+            ok: saleStarted === expectSaleStarted,
+            details: { expected: expectSaleStarted, actual: saleStarted }
+        },
+        {
+            name: "marketplaceActive",
+            ok: marketplaceActive === expectMarketplaceActive,
+            details: { expected: expectMarketplaceActive, actual: marketplaceActive }
+        },
+        {
+            name: "dctAirdropBalance",
+            // Every minted card gets airdropped exactly DCT_AIRDROP
+            ok: dctBalance.eq(expectedDctBalance) && airdropped.eq(unit.mul(DCT_AIRDROP).mul(totalSupply)),
+            details: {
+                expected: expectedDctBalance.toString(),
+                actual: dctBalance.toString(),
+                airdropped: airdropped.toString(),
+                mintedCards: totalSupply.toNumber()
+            }
+        },
+        {
+            name: "pendingRequests",
+            ok: stuckRequests.length === 0,
+            details: { maxPendingTime, stuckRequests }
+        }
+    ]
+
+    return { ok: checks.every(({ ok }) => ok), blockNumber: block.number, checks }
+}
@@ -0,0 +1,36 @@
+import { promises as fs } from "fs"
+import { dirname, join } from "path"
+import { readJsonIfExists } from "../oracle/utils"
+
+export type DeployedContractName = "BusinessCard" | "DorsiaClubToken" | "CardMarketplace" | "MeetingRoom"
+
+export type DeployedContract = {
+    address: string
+    /** Transaction that deployed the contract. For the DCT, the one that deployed the Business Card. */
+    transactionHash: string
+    blockNumber: number
+    constructorArgs: unknown[]
+}
+
+/**
+ * Contracts deployed to a network by `deploy:all`.
+ */
+export type DeploymentManifest = {
+    network: string
+    chainId: number
+    contracts: { [name in DeployedContractName]?: DeployedContract }
+}
+
+export const getManifestPath = (directory: string, network: string): string => join(directory, `${network}.json`)
+
+/**
+ * @returns The manifest stored at `path`, undefined if there is none.
+ */
+export const loadManifest = async (path: string): Promise<DeploymentManifest | undefined> =>
+    readJsonIfExists<DeploymentManifest>(path)
+
+export const saveManifest = async (path: string, manifest: DeploymentManifest): Promise<void> => {
+    await fs.mkdir(dirname(path), { recursive: true })
+    await fs.writeFile(`${path}.tmp`, `${JSON.stringify(manifest, null, 4)}\n`)
+    await fs.rename(`${path}.tmp`, path)
+}
@@ -14,8 +14,16 @@ import { resolve } from "path"
 import { config } from "./package.json"
 
 import "./tasks/accounts.ts"
+import "./tasks/card-maestro.ts"
+import "./tasks/check-deployment.ts"
+import "./tasks/deploy-all.ts"
 import "./tasks/deploy-business-card.ts"
 import "./tasks/deploy-meeting-room.ts"
+import "./tasks/indexer.ts"
+import "./tasks/meeting-room.ts"
+import "./tasks/names.ts"
+import "./tasks/oracle.ts"
+import "./tasks/requests.ts"
 
 dotenvConfig({ path: resolve(__dirname, "../../.env") })
 
@@ -0,0 +1,373 @@
+import { promises as fs } from "fs"
+import { dirname } from "path"
+import { utils } from "ethers"
+import { Currency } from "../sdk"
+import initSqlJs from "sql.js"
+import { readFileIfExists } from "../oracle/utils"
+import { EVENT_TABLES, IndexedEventName, SCHEMA } from "./schema"
+
+export type IndexedEvent = {
+    name: IndexedEventName
+    blockNumber: number
+    blockHash: string
+    logIndex: number
+    transactionHash: string
+    /** Event arguments, with numbers as decimal strings. */
+    args: { [arg: string]: string }
+}
+
+export type ListingStatus = "active" | "filled" | "cancelled" | "expired"
+
+export type IndexedListing = {
+    itemId: string
+    /** ID of the Business Card of the listing, the first one for bundle listings. */
+    cardId: string
+    /** IDs of every Business Card of a bundle listing, undefined for other listings. */
+    cardIds?: string[]
+    seller: string
+    /** Latest price the seller set, the start price for Dutch listings. */
+    price: string
+    /** Currency the price is in. */
+    currency: keyof typeof Currency
+    status: ListingStatus
+    /** Only address that can buy a private listing, undefined for public listings. */
+    reservedBuyer?: string
+    buyer?: string
+    /** Timestamp from which the listing can no longer be bought, undefined if it never expires. */
+    expiresAt?: number
+    /** Block the listing was created at. */
+    blockNumber: number
+}
+
+export type ListingFilter = {
+    seller?: string
+    buyer?: string
+    cardId?: string
+    status?: ListingStatus
+    offset?: number
+    limit?: number
+}
+
+export type OwnershipChange = {
+    cardId: string
+    from: string
+    to: string
+    blockNumber: number
+    timestamp: number
+    transactionHash: string
+}
+
+export type MeetingParticipant = {
+    address: string
+    cardCommitment: string
+    /** ID of the revealed Business Card, undefined if it was not revealed. */
+    cardId?: string
+}
+
+export type MeetingResult = {
+    roomId: string
+    bet: string
+    startTime: number
+    endTime: number
+    participants: MeetingParticipant[]
+    /** Undefined until the meeting is finished. The Meeting Room address itself if no card was revealed. */
+    winner?: string
+}
+
+export type MeetingFilter = {
+    participant?: string
+    finished?: boolean
+    offset?: number
+    limit?: number
+}
+
+type Row = { [column: string]: string | number | null }
+
+const LISTINGS_QUERY = `
+    SELECT * FROM (
+        SELECT
+            created.item_id AS itemId,
+            created.card_id AS cardId,
+            created.seller AS seller,
+            COALESCE((
+                SELECT updated.new_price FROM listings_price_updated updated
+                WHERE updated.item_id = created.item_id
+                ORDER BY updated.block_number DESC, updated.log_index DESC LIMIT 1
+            ), created.price) AS price,
+            created.currency AS currency,
+            (
+                SELECT GROUP_CONCAT(card_id) FROM (
+                    SELECT bundled.card_id FROM listings_bundled bundled
+                    WHERE bundled.item_id = created.item_id
+                    ORDER BY bundled.block_number, bundled.log_index
+                )
+            ) AS cardIds,
+            reserved.reserved_buyer AS reservedBuyer,
+            filled.buyer AS buyer,
+            (
+                SELECT CAST(expiry.expires_at AS INTEGER) FROM listings_expiry_set expiry
+                WHERE expiry.item_id = created.item_id
+                ORDER BY expiry.block_number DESC, expiry.log_index DESC LIMIT 1
+            ) AS expiresAt,
+            created.block_number AS blockNumber,
+            CASE
+                WHEN filled.item_id IS NOT NULL THEN 'filled'
+                WHEN cancelled.item_id IS NOT NULL THEN 'cancelled'
+                WHEN expired.item_id IS NOT NULL THEN 'expired'
+                ELSE 'active'
+            END AS status
+        FROM listings_created created
+        LEFT JOIN listings_reserved reserved ON reserved.item_id = created.item_id
+        LEFT JOIN listings_filled filled ON filled.item_id = created.item_id
+        LEFT JOIN listings_cancelled cancelled ON cancelled.item_id = created.item_id
+        LEFT JOIN listings_expired expired ON expired.item_id = created.item_id
+    )
+    WHERE (:itemId IS NULL OR itemId = :itemId)
+        AND (:seller IS NULL OR seller = :seller)
+        AND (:buyer IS NULL OR buyer = :buyer)
+        AND (:cardId IS NULL OR cardId = :cardId OR EXISTS (
+            SELECT 1 FROM listings_bundled bundled WHERE bundled.item_id = itemId AND bundled.card_id = :cardId
+        ))
+        AND (:status IS NULL OR status = :status)`
+
+const MEETINGS_QUERY = `
+    SELECT
+        created.room_id AS roomId,
+        created.bet AS bet,
+        created.start_time AS startTime,
+        created.end_time AS endTime,
+        winner.winner AS winner
+    FROM meetings_created created
+    LEFT JOIN winners_drawn winner ON winner.room_id = created.room_id
+    WHERE (:roomId IS NULL OR created.room_id = :roomId)
+        AND (:finished IS NULL OR (winner.winner IS NOT NULL) = :finished)
+        AND (:participant IS NULL OR created.chairman = :participant OR EXISTS (
+            SELECT 1 FROM meetings_joined joined WHERE joined.room_id = created.room_id AND joined.participant = :participant
+        ))
+    ORDER BY CAST(created.room_id AS INTEGER)
+    LIMIT :limit OFFSET :offset`
+
+const toAddressParam = (address?: string): string | null => address === undefined ? null : utils.getAddress(address)
+
+const toListing = ({ buyer, reservedBuyer, expiresAt, currency, cardIds, ...listing }: Row): IndexedListing => ({
+    ...listing,
+    currency: Currency[Number(currency)],
+    ...(cardIds !== null ? { cardIds: String(cardIds).split(",") } : {}),
+    ...(reservedBuyer !== null ? { reservedBuyer } : {}),
+    ...(buyer !== null ? { buyer } : {}),
+    // Setting the expiry to zero removes it
+    ...(expiresAt ? { expiresAt } : {})
+} as IndexedListing)
+
+/**
+ * SQLite database, kept in memory and written to a file on `save`, holding the indexed events.
+ */
+export class IndexerDatabase {
+    private constructor(private readonly db: initSqlJs.Database, readonly path?: string) {}
+
+    /**
+     * Opens the database stored at `path`, creating it if it does not exist, or an in-memory one if no path is given.
+     */
+    static async open(path?: string): Promise<IndexerDatabase> {
+        const SQL = await initSqlJs()
+
+        const data = path ? await readFileIfExists(path) : undefined
+
+        const db = new SQL.Database(data)
+        db.exec(SCHEMA)
+
+        return new IndexerDatabase(db, path)
+    }
+
+    async save(): Promise<void> {
+        if (!this.path) return
+
+        await fs.mkdir(dirname(this.path), { recursive: true })
+        await fs.writeFile(`${this.path}.tmp`, this.db.export())
+        await fs.rename(`${this.path}.tmp`, this.path)
+    }
+
+    close(): void {
+        this.db.close()
+    }
+
+    /**
+     * Runs `fn` in a transaction, rolling every change back if it throws.
+     */
+    transaction<T>(fn: () => T): T {
+        this.db.exec("BEGIN")
+
+        try {
+            const result = fn()
+            this.db.exec("COMMIT")
+            return result
+        } catch (error) {
+            this.db.exec("ROLLBACK")
+            throw error
+        }
+    }
+
+    /**
+     * @returns The last block whose events have all been indexed, undefined if nothing was indexed yet.
+     */
+    getCheckpoint(): number | undefined {
+        return this.get("SELECT block_number FROM checkpoint")?.block_number as number | undefined
+    }
+
+    setCheckpoint(blockNumber: number): void {
+        this.db.run("INSERT OR REPLACE INTO checkpoint (id, block_number) VALUES (0, ?)", [blockNumber])
+    }
+
+    /**
+     * @returns The hashes of the indexed blocks, from the highest to the lowest.
+     */
+    getBlocks(): { number: number, hash: string }[] {
+        return this.all("SELECT number, hash FROM blocks ORDER BY number DESC") as { number: number, hash: string }[]
+    }
+
+    insertBlock(number: number, hash: string, timestamp: number): void {
+        this.db.run("INSERT OR REPLACE INTO blocks (number, hash, timestamp) VALUES (?, ?, ?)", [number, hash, timestamp])
+    }
+
+    insertEvent({ name, blockNumber, logIndex, transactionHash, args }: IndexedEvent): void {
+        const { table, columns } = EVENT_TABLES[name]
+
+        this.db.run(
+            `INSERT OR REPLACE INTO ${table} (${Object.keys(columns).join(", ")}, block_number, log_index, transaction_hash)
+            VALUES (${Object.keys(columns).map(() => "?").join(", ")}, ?, ?, ?)`,
+            [...Object.values(columns).map((arg) => args[arg]), blockNumber, logIndex, transactionHash]
+        )
+    }
+
+    /**
+     * Deletes every block and event above `blockNumber`, and moves the checkpoint back to it.
+     */
+    rollback(blockNumber: number): void {
+        this.transaction(() => {
+            for (const table of ["blocks", ...Object.values(EVENT_TABLES).map(({ table }) => table)]) {
+                this.db.run(`DELETE FROM ${table} WHERE ${table === "blocks" ? "number" : "block_number"} > ?`, [blockNumber])
+            }
+
+            this.setCheckpoint(blockNumber)
+        })
+    }
+
+    getListings({ seller, buyer, cardId, status, offset = 0, limit = 100 }: ListingFilter = {}): IndexedListing[] {
+        return this.all(`${LISTINGS_QUERY} ORDER BY CAST(itemId AS INTEGER) LIMIT :limit OFFSET :offset`, {
+            ":itemId": null,
+            ":seller": toAddressParam(seller),
+            ":buyer": toAddressParam(buyer),
+            ":cardId": cardId ?? null,
+            ":status": status ?? null,
+            ":limit": limit,
+            ":offset": offset
+        }).map(toListing)
+    }
+
+    getListing(itemId: string): IndexedListing | undefined {
+        const row = this.get(LISTINGS_QUERY, {
+            ":itemId": itemId,
+            ":seller": null,
+            ":buyer": null,
+            ":cardId": null,
+            ":status": null
+        })
+
+        return row && toListing(row)
+    }
+
+    /**
+     * Equivalent of `CardMarketplace.getLatestListingByCard`, bundle listings included.
+     */
+    getLatestListingByCard(cardId: string): IndexedListing | undefined {
+        return this.getListings({ cardId, limit: -1 }).pop()
+    }
+
+    getOwnershipHistory(cardId: string): OwnershipChange[] {
+        return this.all(`
+            SELECT
+                transfers.card_id AS cardId,
+                transfers.from_address AS "from",
+                transfers.to_address AS "to",
+                transfers.block_number AS blockNumber,
+                blocks.timestamp AS timestamp,
+                transfers.transaction_hash AS transactionHash
+            FROM transfers
+            JOIN blocks ON blocks.number = transfers.block_number
+            WHERE transfers.card_id = ?
+            ORDER BY transfers.block_number, transfers.log_index`,
+            [cardId]
+        ) as OwnershipChange[]
+    }
+
+    getOwner(cardId: string): string | undefined {
+        return this.getOwnershipHistory(cardId).pop()?.to
+    }
+
+    getCardURI(cardId: string): string | undefined {
+        return this.get(
+            "SELECT uri FROM card_uris WHERE card_id = ? ORDER BY block_number DESC, log_index DESC LIMIT 1",
+            [cardId]
+        )?.uri as string | undefined
+    }
+
+    getMeeting(roomId: string): MeetingResult | undefined {
+        return this.queryMeetings({ roomId }).pop()
+    }
+
+    getMeetings({ participant, finished, offset = 0, limit = 100 }: MeetingFilter = {}): MeetingResult[] {
+        return this.queryMeetings({ participant, finished, offset, limit })
+    }
+
+    private queryMeetings({ roomId, participant, finished, offset = 0, limit = -1 }: MeetingFilter & { roomId?: string }): MeetingResult[] {
+        const meetings = this.all(MEETINGS_QUERY, {
+            ":roomId": roomId ?? null,
+            ":participant": toAddressParam(participant),
+            ":finished": finished === undefined ? null : Number(finished),
+            ":limit": limit,
+            ":offset": offset
+        })
+
+        return meetings.map(({ roomId, bet, startTime, endTime, winner }) => ({
+            roomId: roomId as string,
+            bet: bet as string,
+            startTime: Number(startTime),
+            endTime: Number(endTime),
+            participants: this.all(`
+                SELECT participants.address AS address, participants.card_commitment AS cardCommitment, revealed.card_id AS cardId
+                FROM (
+                    SELECT chairman AS address, card_commitment, block_number, log_index FROM meetings_created WHERE room_id = :roomId
+                    UNION ALL
+                    SELECT participant, card_commitment, block_number, log_index FROM meetings_joined WHERE room_id = :roomId
+                ) participants
+                LEFT JOIN cards_revealed revealed
+                    ON revealed.room_id = :roomId AND revealed.card_commitment = participants.card_commitment
+                ORDER BY participants.block_number, participants.log_index`,
+                { ":roomId": roomId }
+            ).map(({ cardId, ...participant }) => ({
+                ...participant,
+                ...(cardId !== null ? { cardId } : {})
+            }) as MeetingParticipant),
+            ...(winner !== null ? { winner: winner as string } : {})
+        }))
+    }
+
+    private all(sql: string, params?: initSqlJs.BindParams): Row[] {
+        const statement = this.db.prepare(sql, params)
+        const rows: Row[] = []
+
+        try {
+            while (statement.step()) {
+                rows.push(statement.getAsObject() as Row)
+            }
+        } finally {
+            statement.free()
+        }
+
+        return rows
+    }
+
+    private get(sql: string, params?: initSqlJs.BindParams): Row | undefined {
+        return this.all(sql, params)[0]
+    }
+}
@@ -0,0 +1,194 @@
+import { BigNumber, providers, utils } from "ethers"
+import type { BusinessCard, CardMarketplace, MeetingRoom } from "../typechain-types"
+import { retry, sleep } from "../oracle/utils"
+import { IndexedEvent, IndexerDatabase } from "./database"
+import { EVENT_TABLES, IndexedEventName } from "./schema"
+
+export type IndexedContracts = {
+    businessCard: BusinessCard
+    cardMarketplace?: CardMarketplace
+    meetingRoom?: MeetingRoom
+}
+
+export type EventIndexerOptions = {
+    /** Block to start indexing from when there is no checkpoint. */
+    startBlock?: number
+    /** Number of blocks an event must be buried under before it gets indexed. */
+    confirmations?: number
+    /** Maximum number of blocks queried at once. */
+    maxBlockRange?: number
+    /** Time, in milliseconds, between polls for new blocks. */
+    pollInterval?: number
+    /** Number of times a failing query is retried. */
+    retries?: number
+    /** Time, in milliseconds, waited before the first retry. */
+    retryDelay?: number
+    logs?: boolean
+}
+
+/**
+ * Indexes the events of the Business Card, Card Marketplace and Meeting Room smart contracts into an `IndexerDatabase`.
+ * The hash of every indexed block is kept, so that the events of the blocks dropped by a reorg get rolled back.
+ */
+export class EventIndexer {
+    private running = false
+
+    private readonly options: Required<EventIndexerOptions>
+
+    constructor(readonly contracts: IndexedContracts, readonly db: IndexerDatabase, options: EventIndexerOptions = {}) {
+        this.options = {
+            startBlock: 0,
+            confirmations: 0,
+            maxBlockRange: 2000,
+            pollInterval: 4000,
+            retries: 3,
+            retryDelay: 1000,
+            logs: false,
+            ...options
+        }
+    }
+
+    private get provider(): providers.Provider {
+        return this.contracts.businessCard.provider
+    }
+
+    /**
+     * Polls for new blocks until `stop` is called.
+     */
+    async start(): Promise<void> {
+        this.running = true
+
+        while (this.running) {
+            try {
+                await this.poll()
+            } catch (error) {
+                console.error("Indexer poll failed:", error)
+            }
+
+            if (this.running) await sleep(this.options.pollInterval)
+        }
+    }
+
+    stop(): void {
+        this.running = false
+    }
+
+    /**
+     * Rolls back the blocks dropped by a reorg, if any, then indexes every event up to the latest confirmed block.
+     * @returns The number of events that were indexed.
+     */
+    async poll(): Promise<number> {
+        let checkpoint = await this.rollbackReorg()
+        const latestBlock = await this.retry(() => this.provider.getBlockNumber()) - this.options.confirmations
+
+        let indexed = 0
+
+        while (checkpoint < latestBlock) {
+            const fromBlock = checkpoint + 1
+            const toBlock = Math.min(latestBlock, fromBlock + this.options.maxBlockRange - 1)
+
+            const events = await this.getEvents(fromBlock, toBlock)
+            const blocks = await Promise.all([
+                ...new Set(events.map(({ blockHash }) => blockHash))
+            ].map((hash) => this.retry(() => this.provider.getBlock(hash))))
+            const lastBlock = await this.retry(() => this.provider.getBlock(toBlock))
+
+            this.db.transaction(() => {
+                for (const { number, hash, timestamp } of [...blocks, lastBlock]) {
+                    this.db.insertBlock(number, hash, timestamp)
+                }
+
+                for (const event of events) {
+                    this.db.insertEvent(event)
+                }
+
+                this.db.setCheckpoint(toBlock)
+            })
+            await this.db.save()
+
+            if (this.options.logs && events.length > 0) {
+                console.log(`Indexed ${events.length} events from blocks ${fromBlock} to ${toBlock}`)
+            }
+
+            indexed += events.length
+            checkpoint = toBlock
+        }
+
+        return indexed
+    }
+
+    /**
+     * Compares the indexed block hashes with the chain, from the highest one, and rolls back to the first one that matches.
+     * @returns The checkpoint after the rollback.
+     */
+    private async rollbackReorg(): Promise<number> {
+        const checkpoint = this.db.getCheckpoint()
+
+        if (checkpoint === undefined) return this.options.startBlock - 1
+
+        for (const { number, hash } of this.db.getBlocks()) {
+            const block = await this.retry(() => this.provider.getBlock(number))
+
+            if (block?.hash === hash) {
+                if (number < checkpoint) {
+                    this.db.rollback(number)
+                    await this.db.save()
+
+                    if (this.options.logs) {
+                        console.warn(`Reorg detected, rolled back from block ${checkpoint} to ${number}`)
+                    }
+                }
+
+                return number
+            }
+        }
+
+        // Every indexed block was dropped
+        this.db.rollback(this.options.startBlock - 1)
+        await this.db.save()
+
+        return this.options.startBlock - 1
+    }
+
+    private async getEvents(fromBlock: number, toBlock: number): Promise<IndexedEvent[]> {
+        const contracts = [this.contracts.businessCard, this.contracts.cardMarketplace, this.contracts.meetingRoom]
+
+        const events = await Promise.all(contracts.map(async (contract) => {
+            if (!contract) return []
+
+            const logs = await this.retry(() => this.provider.getLogs({ address: contract.address, fromBlock, toBlock }))
+
+            return logs.flatMap((log): IndexedEvent[] => {
+                let parsed: utils.LogDescription
+
+                try {
+                    parsed = contract.interface.parseLog(log)
+                } catch {
+                    return []
+                }
+
+                if (!(parsed.name in EVENT_TABLES)) return []
+
+                const args = Object.fromEntries(parsed.eventFragment.inputs.map(({ name }, i) => [
+                    name,
+                    BigNumber.isBigNumber(parsed.args[i]) ? parsed.args[i].toString() : String(parsed.args[i])
+                ]))
+
+                return [{
+                    name: parsed.name as IndexedEventName,
+                    blockNumber: log.blockNumber,
+                    blockHash: log.blockHash,
+                    logIndex: log.logIndex,
+                    transactionHash: log.transactionHash,
+                    args
+                }]
+            })
+        }))
+
+        return events.flat().sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex)
+    }
+
+    private retry<T>(fn: () => Promise<T>): Promise<T> {
+        return retry(fn, this.options.retries, this.options.retryDelay)
+    }
+}
@@ -0,0 +1,3 @@
+export * from "./database"
+export * from "./event-indexer"
+export * from "./schema"
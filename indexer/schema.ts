@@ -0,0 +1,105 @@
+/**
+ * Events consumed by the indexer, with the table each one is stored in and the event argument behind every column.
+ * Every table also gets the `block_number`, `log_index` and `transaction_hash` of the event, so that a reorg can
+ * be rolled back by deleting the rows above the common ancestor.
+ */
+export const EVENT_TABLES = {
+    Transfer: {
+        table: "transfers",
+        columns: { card_id: "tokenId", from_address: "from", to_address: "to" }
+    },
+    CardURIUpdated: {
+        table: "card_uris",
+        columns: { card_id: "cardId", uri: "newCardURI" }
+    },
+    CardListingCreated: {
+        table: "listings_created",
+        columns: { item_id: "itemId", card_id: "cardId", seller: "seller", price: "price", currency: "currency" }
+    },
+    PrivateCardListingCreated: {
+        table: "listings_reserved",
+        columns: { item_id: "itemId", reserved_buyer: "reservedBuyer" }
+    },
+    CardBundled: {
+        table: "listings_bundled",
+        columns: { item_id: "itemId", card_id: "cardId" }
+    },
+    CardListingFilled: {
+        table: "listings_filled",
+        columns: { item_id: "itemId", card_id: "cardId", seller: "seller", buyer: "buyer", price: "price" }
+    },
+    CardListingCancelled: {
+        table: "listings_cancelled",
+        columns: { item_id: "itemId", card_id: "cardId" }
+    },
+    CardListingPriceUpdated: {
+        table: "listings_price_updated",
+        columns: { item_id: "itemId", card_id: "cardId", old_price: "oldPrice", new_price: "newPrice" }
+    },
+    CardListingExpirySet: {
+        table: "listings_expiry_set",
+        columns: { item_id: "itemId", card_id: "cardId", expires_at: "expiresAt" }
+    },
+    CardListingExpired: {
+        table: "listings_expired",
+        columns: { item_id: "itemId", card_id: "cardId" }
+    },
+    MeetingRoomCreated: {
+        table: "meetings_created",
+        columns: {
+            room_id: "roomId",
+            bet: "bet",
+            start_time: "startTime",
+            end_time: "endTime",
+            card_commitment: "cardCommitment",
+            chairman: "chairman"
+        }
+    },
+    MeetingRoomJoined: {
+        table: "meetings_joined",
+        columns: { room_id: "roomId", card_commitment: "cardCommitment", participant: "participant" }
+    },
+    CardRevealed: {
+        table: "cards_revealed",
+        columns: { room_id: "roomId", card_commitment: "cardCommitment", card_id: "cardId" }
+    },
+    WinnerDrawn: {
+        table: "winners_drawn",
+        columns: { room_id: "roomId", winner: "winner" }
+    }
+} as const
+
+export type IndexedEventName = keyof typeof EVENT_TABLES
+
+export const SCHEMA = [
+    `CREATE TABLE IF NOT EXISTS checkpoint (
+        id INTEGER PRIMARY KEY CHECK (id = 0),
+        block_number INTEGER NOT NULL
+    )`,
+    `CREATE TABLE IF NOT EXISTS blocks (
+        number INTEGER PRIMARY KEY,
+        hash TEXT NOT NULL,
+        timestamp INTEGER NOT NULL
+    )`,
+    ...Object.values(EVENT_TABLES).map(({ table, columns }) => `CREATE TABLE IF NOT EXISTS ${table} (
+        ${Object.keys(columns).map((column) => `${column} TEXT NOT NULL,`).join("\n        ")}
+        block_number INTEGER NOT NULL,
+        log_index INTEGER NOT NULL,
+        transaction_hash TEXT NOT NULL,
+        PRIMARY KEY (block_number, log_index)
+    )`),
+    "CREATE INDEX IF NOT EXISTS transfers_card_id ON transfers (card_id)",
+    "CREATE INDEX IF NOT EXISTS card_uris_card_id ON card_uris (card_id)",
+    "CREATE INDEX IF NOT EXISTS listings_created_item_id ON listings_created (item_id)",
+    "CREATE INDEX IF NOT EXISTS listings_reserved_item_id ON listings_reserved (item_id)",
+    "CREATE INDEX IF NOT EXISTS listings_bundled_item_id ON listings_bundled (item_id)",
+    "CREATE INDEX IF NOT EXISTS listings_bundled_card_id ON listings_bundled (card_id)",
+    "CREATE INDEX IF NOT EXISTS listings_filled_item_id ON listings_filled (item_id)",
+    "CREATE INDEX IF NOT EXISTS listings_cancelled_item_id ON listings_cancelled (item_id)",
+    "CREATE INDEX IF NOT EXISTS listings_price_updated_item_id ON listings_price_updated (item_id)",
+    "CREATE INDEX IF NOT EXISTS listings_expiry_set_item_id ON listings_expiry_set (item_id)",
+    "CREATE INDEX IF NOT EXISTS listings_expired_item_id ON listings_expired (item_id)",
+    "CREATE INDEX IF NOT EXISTS meetings_joined_room_id ON meetings_joined (room_id)",
+    "CREATE INDEX IF NOT EXISTS cards_revealed_room_id ON cards_revealed (room_id)",
+    "CREATE INDEX IF NOT EXISTS winners_drawn_room_id ON winners_drawn (room_id)"
+].join(";\n")
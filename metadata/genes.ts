@@ -0,0 +1,52 @@
+import { BigNumber, BigNumberish } from "ethers"
+
+export const GENES_DIGITS = 30
+
+/**
+ * Gene segments, as documented in `CardMaestro.getScore`: [start, end) digit positions
+ * within the genes zero-padded to `GENES_DIGITS` digits.
+ */
+export const GENE_SEGMENTS = {
+    background: [0, 2],
+    paperType: [2, 4],
+    paperColor: [4, 6],
+    font: [6, 8],
+    address: [8, 10],
+    cranberryJuice: [10, 12],
+    shadowType: [12, 14],
+    watermark: [14, 16],
+    footprint: [16, 18],
+    defaced: [18, 20],
+    lettering: [20, 22],
+    goldEdges: [22, 24],
+    washed: [24, 26],
+    phoneNumber: [26, 30]
+} as const
+
+export type GeneSegment = keyof typeof GENE_SEGMENTS
+
+export type GeneValues = { [segment in GeneSegment]: number }
+
+/**
+ * Genes are generated as a number of up to `GENES_DIGITS` digits, and are always rendered with leading zeros.
+ */
+export const formatGenes = (genes: BigNumberish): string => {
+    const digits = BigNumber.from(genes).toString()
+
+    if (digits.length > GENES_DIGITS) {
+        throw new RangeError(`Genes cannot have more than ${GENES_DIGITS} digits`)
+    }
+
+    return digits.padStart(GENES_DIGITS, "0")
+}
+
+/**
+ * Splits the genes into the numeric value of each of their segments.
+ */
+export const splitGenes = (genes: BigNumberish): GeneValues => {
+    const digits = formatGenes(genes)
+
+    return Object.fromEntries(
+        Object.entries(GENE_SEGMENTS).map(([segment, [start, end]]) => [segment, Number(digits.slice(start, end))])
+    ) as GeneValues
+}
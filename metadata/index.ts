@@ -0,0 +1,4 @@
+export * from "./genes"
+export * from "./metadata"
+export * from "./svg"
+export * from "./traits"
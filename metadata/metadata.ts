@@ -0,0 +1,67 @@
+import { BigNumberish } from "ethers"
+import { formatGenes } from "./genes"
+import { TRAIT_NAMES, decodeTraits } from "./traits"
+
+/**
+ * Off-chain values of a Business Card, as sent to the oracle through `CardDataUpdateRequest`.
+ */
+export type CardData = {
+    name: string
+    position: string
+    twitterAccount: string
+    telegramAccount: string
+    githubAccount: string
+    website: string
+}
+
+export type MetadataAttribute = {
+    trait_type: string
+    value: string
+}
+
+export type CardMetadata = {
+    name: string
+    description: string
+    image: string
+    genes: string
+    attributes: MetadataAttribute[]
+}
+
+/**
+ * Builds the ERC-721 metadata of a Business Card. Empty social handles are left out of the attributes.
+ * @param cardId ID of the Business Card.
+ * @param genes Genes of the Business Card.
+ * @param card Off-chain values of the Business Card.
+ * @param image URI of the rendered Business Card image.
+ */
+export const getCardMetadata = (cardId: BigNumberish, genes: BigNumberish, card: CardData, image: string): CardMetadata => {
+    const traits = decodeTraits(genes)
+
+    const properties: MetadataAttribute[] = [
+        { trait_type: "Position", value: card.position },
+        { trait_type: "Twitter", value: card.twitterAccount },
+        { trait_type: "Telegram", value: card.telegramAccount },
+        { trait_type: "GitHub", value: card.githubAccount },
+        { trait_type: "Website", value: card.website }
+    ]
+
+    return {
+        name: card.name,
+        description: `Business Card #${cardId.toString()} of the Dorsia Club.`,
+        image,
+        genes: formatGenes(genes),
+        attributes: [
+            ...(Object.keys(TRAIT_NAMES) as (keyof typeof TRAIT_NAMES)[]).map((segment) => ({
+                trait_type: TRAIT_NAMES[segment],
+                value: traits[segment]
+            })),
+            ...properties.filter(({ value }) => value.length > 0)
+        ]
+    }
+}
+
+/**
+ * Renders the ERC-721 metadata JSON of a Business Card. See `getCardMetadata`.
+ */
+export const renderMetadata = (cardId: BigNumberish, genes: BigNumberish, card: CardData, image: string): string =>
+    JSON.stringify(getCardMetadata(cardId, genes, card, image), null, 4)
@@ -0,0 +1,202 @@
+import { BigNumberish } from "ethers"
+import { splitGenes } from "./genes"
+import { CardData } from "./metadata"
+import { CardTraits, decodeTraits } from "./traits"
+
+const WIDTH = 1050
+const HEIGHT = 600
+
+// Card placement within the image
+const CARD_X = 75
+const CARD_Y = 45
+const CARD_WIDTH = 900
+const CARD_HEIGHT = 510
+
+const BACKGROUND_COLORS: { [background: string]: string } = {
+    "Office Desk": "#5b3a29",
+    "Conference Table": "#2f2f2f",
+    "Pierce & Pierce Lobby": "#8c8c84",
+    "Harry's Bar": "#3d1f1a",
+    "Dorsia": "#101820"
+}
+
+const PAPER_COLORS: { [paperColor: string]: string } = {
+    "White": "#ffffff",
+    "Off-White": "#faf8f0",
+    "Eggshell": "#f0ead6",
+    "Pale Nimbus": "#eef0f2",
+    "Bone": "#e3dac9"
+}
+
+const FONT_FAMILIES: { [font: string]: string } = {
+    "Helvetica": "Helvetica, Arial, sans-serif",
+    "Garamond": "Garamond, 'Times New Roman', serif",
+    "Copperplate": "Copperplate, 'Copperplate Gothic Light', serif",
+    "Romalian": "Didot, 'Bodoni MT', serif",
+    "Silian Rail": "'Silian Rail', Optima, Candara, sans-serif"
+}
+
+const ADDRESSES: { [address: string]: string } = {
+    "Wall Street": "358 Exchange Place, New York, N.Y. 10005",
+    "Upper West Side": "55 West 81st Street, New York, N.Y. 10024",
+    "American Gardens Building": "American Gardens Building, West 81st Street"
+}
+
+const SHADOWS: { [shadowType: string]: [number, number, number] } = {
+    "Soft": [6, 8, 12],
+    "Hard": [10, 10, 0],
+    "Long": [28, 24, 4]
+}
+
+/**
+ * Escapes a string so it can be embedded as SVG text: names and positions can contain `&`, `<`, `>`, `"` and `'`.
+ */
+export const escapeXml = (text: string): string => text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;")
+
+const renderDefs = (traits: CardTraits): string => {
+    const defs: string[] = []
+
+    if (traits.shadowType !== "None") {
+        const [dx, dy, blur] = SHADOWS[traits.shadowType]
+
+        defs.push(`<filter id="shadow" x="-10%" y="-10%" width="130%" height="130%"><feDropShadow dx="${dx}" dy="${dy}" stdDeviation="${blur}" flood-opacity="0.5"/></filter>`)
+    }
+
+    if (traits.paperType === "Linen") {
+        defs.push(`<pattern id="texture" width="6" height="6" patternUnits="userSpaceOnUse"><path d="M0 3H6M3 0V6" stroke="#000000" stroke-opacity="0.04"/></pattern>`)
+    } else if (traits.paperType === "Cotton") {
+        defs.push(`<pattern id="texture" width="8" height="8" patternUnits="userSpaceOnUse"><circle cx="4" cy="4" r="1" fill="#000000" fill-opacity="0.04"/></pattern>`)
+    }
+
+    return defs.length > 0 ? `<defs>${defs.join("")}</defs>` : ""
+}
+
+const renderPaper = (traits: CardTraits): string => {
+    const shadow = traits.shadowType !== "None" ? ` filter="url(#shadow)"` : ""
+    const border = traits.goldEdges === "Gold Edges"
+        ? ` stroke="#d4af37" stroke-width="8"`
+        : ` stroke="#000000" stroke-opacity="0.1" stroke-width="${traits.paperType === "Heavy Stock" ? 4 : 1}"`
+
+    let paper = `<rect x="${CARD_X}" y="${CARD_Y}" width="${CARD_WIDTH}" height="${CARD_HEIGHT}" rx="6" fill="${PAPER_COLORS[traits.paperColor]}"${border}${shadow}/>`
+
+    if (traits.paperType === "Linen" || traits.paperType === "Cotton") {
+        paper += `<rect x="${CARD_X}" y="${CARD_Y}" width="${CARD_WIDTH}" height="${CARD_HEIGHT}" rx="6" fill="url(#texture)"/>`
+    }
+
+    return paper
+}
+
+const renderWatermark = (traits: CardTraits, fontFamily: string): string => {
+    if (traits.watermark === "None") return ""
+
+    const opacity = traits.watermark === "Embossed" ? 0.12 : 0.05
+
+    return `<text x="${WIDTH / 2}" y="${HEIGHT / 2 + 70}" font-family="${fontFamily}" font-size="220" text-anchor="middle" fill="#000000" fill-opacity="${opacity}">DC</text>`
+}
+
+/**
+ * Renders a line of text with the lettering style of the Business Card.
+ */
+const renderText = (
+    traits: CardTraits,
+    text: string,
+    x: number,
+    y: number,
+    size: number,
+    attributes: string
+): string => {
+    const content = escapeXml(text)
+    const base = `x="${x}" y="${y}" font-size="${size}" ${attributes}`
+
+    if (traits.lettering === "Raised") {
+        return `<text ${base} dx="1.5" dy="1.5" fill="#000000" fill-opacity="0.25">${content}</text><text ${base} fill="#1a1a1a">${content}</text>`
+    } else if (traits.lettering === "Engraved") {
+        return `<text ${base} dx="-1" dy="-1" fill="#ffffff" fill-opacity="0.6">${content}</text><text ${base} fill="#3a3a3a">${content}</text>`
+    }
+
+    return `<text ${base} fill="#1a1a1a">${content}</text>`
+}
+
+const renderBlemishes = (traits: CardTraits, seed: number): string => {
+    const blemishes: string[] = []
+
+    // The phone number digits place the blemishes, so two cards with the same traits still look different
+    const offsetX = CARD_X + 120 + (seed % 100) * 6
+    const offsetY = CARD_Y + 90 + Math.floor(seed / 100) * 3
+
+    if (traits.cranberryJuice !== "None") {
+        const radius = traits.cranberryJuice === "Soaked" ? 120 : 45
+
+        blemishes.push(`<ellipse cx="${offsetX}" cy="${offsetY}" rx="${radius}" ry="${Math.round(radius * 0.8)}" fill="#9b1b30" fill-opacity="0.35"/>`)
+    }
+
+    if (traits.footprint === "Footprint") {
+        blemishes.push(`<g fill="#4a4a4a" fill-opacity="0.18"><ellipse cx="${WIDTH - offsetX}" cy="${HEIGHT / 2}" rx="70" ry="160"/><ellipse cx="${WIDTH - offsetX}" cy="${HEIGHT / 2 + 190}" rx="55" ry="60"/></g>`)
+    }
+
+    if (traits.defaced === "Scratched") {
+        blemishes.push(`<path d="M${offsetX} ${CARD_Y + 40}L${offsetX + 260} ${CARD_Y + CARD_HEIGHT - 60}M${offsetX + 30} ${CARD_Y + 30}L${offsetX + 300} ${CARD_Y + CARD_HEIGHT - 90}" stroke="#555555" stroke-width="2" stroke-opacity="0.5"/>`)
+    } else if (traits.defaced === "Torn") {
+        const right = CARD_X + CARD_WIDTH
+        const bottom = CARD_Y + CARD_HEIGHT
+
+        blemishes.push(`<path d="M${right - 140} ${bottom}L${right - 90} ${bottom - 50}L${right - 60} ${bottom - 40}L${right} ${bottom - 110}V${bottom}Z" fill="${BACKGROUND_COLORS[traits.background]}"/>`)
+    }
+
+    if (traits.washed === "Washed") {
+        blemishes.push(`<rect x="${CARD_X}" y="${CARD_Y}" width="${CARD_WIDTH}" height="${CARD_HEIGHT}" rx="6" fill="#ffffff" fill-opacity="0.3"/>`)
+    }
+
+    return blemishes.join("")
+}
+
+/**
+ * Renders the SVG image of a Business Card. The output only depends on the inputs, so the same card always renders to the same bytes.
+ * @param genes Genes of the Business Card.
+ * @param card Off-chain values of the Business Card.
+ */
+export const renderCardSvg = (genes: BigNumberish, card: CardData): string => {
+    const traits = decodeTraits(genes)
+    const fontFamily = FONT_FAMILIES[traits.font]
+    const textAttributes = `font-family="${fontFamily}"`
+
+    const left = CARD_X + 50
+    const right = CARD_X + CARD_WIDTH - 50
+    const bottom = CARD_Y + CARD_HEIGHT - 50
+
+    const contact = [
+        renderText(traits, traits.phoneNumber, left, bottom - (traits.address !== "None" ? 34 : 0), 22, textAttributes)
+    ]
+    if (traits.address !== "None") {
+        contact.push(renderText(traits, ADDRESSES[traits.address], left, bottom, 22, textAttributes))
+    }
+
+    const socials = [
+        card.twitterAccount && `Twitter @${card.twitterAccount}`,
+        card.telegramAccount && `Telegram @${card.telegramAccount}`,
+        card.githubAccount && `GitHub ${card.githubAccount}`,
+        card.website
+    ]
+        .filter((line) => line)
+        .reverse()
+        .map((line, i) => renderText(traits, line, right, bottom - i * 30, 20, `${textAttributes} text-anchor="end"`))
+
+    return [
+        `<svg xmlns="http://www.w3.org/2000/svg" width="${WIDTH}" height="${HEIGHT}" viewBox="0 0 ${WIDTH} ${HEIGHT}">`,
+        renderDefs(traits),
+        `<rect width="${WIDTH}" height="${HEIGHT}" fill="${BACKGROUND_COLORS[traits.background]}"/>`,
+        renderPaper(traits),
+        renderWatermark(traits, fontFamily),
+        renderText(traits, card.name.toUpperCase(), WIDTH / 2, HEIGHT / 2 - 10, 44, `${textAttributes} text-anchor="middle" letter-spacing="6"`),
+        renderText(traits, card.position, WIDTH / 2, HEIGHT / 2 + 40, 26, `${textAttributes} text-anchor="middle" font-style="italic"`),
+        ...contact,
+        ...socials,
+        renderBlemishes(traits, splitGenes(genes).phoneNumber),
+        `</svg>`
+    ].join("")
+}
@@ -0,0 +1,137 @@
+import { BigNumberish } from "ethers"
+import { GeneSegment, splitGenes } from "./genes"
+
+export type Trait = Exclude<GeneSegment, "phoneNumber">
+
+/**
+ * A possible value for a trait. `weight` is how many of the 100 values of its two digit gene segment map to it.
+ */
+export type TraitVariant = {
+    name: string
+    weight: number
+}
+
+/**
+ * Variants for every trait, from most to least common. Segment values are mapped to variants in order,
+ * so that `[{ weight: 60 }, { weight: 40 }]` maps 00-59 to the first variant and 60-99 to the second.
+ */
+export const TRAIT_VARIANTS: { [trait in Trait]: TraitVariant[] } = {
+    background: [
+        { name: "Office Desk", weight: 30 },
+        { name: "Conference Table", weight: 25 },
+        { name: "Pierce & Pierce Lobby", weight: 20 },
+        { name: "Harry's Bar", weight: 15 },
+        { name: "Dorsia", weight: 10 }
+    ],
+    paperType: [
+        { name: "Standard", weight: 40 },
+        { name: "Linen", weight: 25 },
+        { name: "Cotton", weight: 20 },
+        { name: "Heavy Stock", weight: 15 }
+    ],
+    paperColor: [
+        { name: "White", weight: 35 },
+        { name: "Off-White", weight: 25 },
+        { name: "Eggshell", weight: 18 },
+        { name: "Pale Nimbus", weight: 12 },
+        { name: "Bone", weight: 10 }
+    ],
+    font: [
+        { name: "Helvetica", weight: 35 },
+        { name: "Garamond", weight: 25 },
+        { name: "Copperplate", weight: 18 },
+        { name: "Romalian", weight: 12 },
+        { name: "Silian Rail", weight: 10 }
+    ],
+    address: [
+        { name: "None", weight: 50 },
+        { name: "Wall Street", weight: 25 },
+        { name: "Upper West Side", weight: 15 },
+        { name: "American Gardens Building", weight: 10 }
+    ],
+    cranberryJuice: [
+        { name: "None", weight: 80 },
+        { name: "Splash", weight: 15 },
+        { name: "Soaked", weight: 5 }
+    ],
+    shadowType: [
+        { name: "None", weight: 40 },
+        { name: "Soft", weight: 30 },
+        { name: "Hard", weight: 20 },
+        { name: "Long", weight: 10 }
+    ],
+    watermark: [
+        { name: "None", weight: 70 },
+        { name: "Faint", weight: 20 },
+        { name: "Embossed", weight: 10 }
+    ],
+    footprint: [
+        { name: "None", weight: 90 },
+        { name: "Footprint", weight: 10 }
+    ],
+    defaced: [
+        { name: "None", weight: 92 },
+        { name: "Scratched", weight: 6 },
+        { name: "Torn", weight: 2 }
+    ],
+    lettering: [
+        { name: "Flat", weight: 50 },
+        { name: "Raised", weight: 35 },
+        { name: "Engraved", weight: 15 }
+    ],
+    goldEdges: [
+        { name: "None", weight: 85 },
+        { name: "Gold Edges", weight: 15 }
+    ],
+    washed: [
+        { name: "None", weight: 90 },
+        { name: "Washed", weight: 10 }
+    ]
+}
+
+/**
+ * Names under which every trait is displayed in the metadata attributes.
+ */
+export const TRAIT_NAMES: { [segment in GeneSegment]: string } = {
+    background: "Background",
+    paperType: "Paper Type",
+    paperColor: "Paper Color",
+    font: "Font",
+    address: "Address",
+    cranberryJuice: "Cranberry Juice",
+    shadowType: "Shadow",
+    watermark: "Watermark",
+    footprint: "Footprint",
+    defaced: "Defaced",
+    lettering: "Lettering",
+    goldEdges: "Gold Edges",
+    washed: "Washed",
+    phoneNumber: "Phone Number"
+}
+
+export type CardTraits = { [segment in GeneSegment]: string }
+
+/**
+ * Returns the index of the variant a two digit gene segment value maps to.
+ */
+export const getVariantIndex = (trait: Trait, value: number): number => {
+    let upperBound = 0
+
+    return TRAIT_VARIANTS[trait].findIndex(({ weight }) => value < (upperBound += weight))
+}
+
+/**
+ * Decodes the genes of a Business Card into its named traits.
+ */
+export const decodeTraits = (genes: BigNumberish): CardTraits => {
+    const values = splitGenes(genes)
+
+    const traits = Object.fromEntries(
+        (Object.keys(TRAIT_VARIANTS) as Trait[]).map((trait) => [trait, TRAIT_VARIANTS[trait][getVariantIndex(trait, values[trait])].name])
+    )
+
+    return {
+        ...traits,
+        phoneNumber: `(212) 555-${values.phoneNumber.toString().padStart(4, "0")}`
+    } as CardTraits
+}
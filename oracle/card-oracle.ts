@@ -0,0 +1,262 @@
+import { BigNumber, ContractTransaction } from "ethers"
+import type { BusinessCard } from "../typechain-types"
+import type { CardDataSwapRequestEvent, CardDataUpdateRequestEvent } from "../typechain-types/contracts/BusinessCard"
+import { CardData, renderCardSvg, renderMetadata } from "../metadata"
+import { EventPointer, FileStateStore, OracleState, eventKey, isEventProcessed } from "./state"
+import { MetadataStore } from "./store"
+import { retry, sleep } from "./utils"
+
+export type CardOracleOptions = {
+    /** Block to start scanning from when there is no persisted state. */
+    startBlock?: number
+    /** Number of blocks a request must be buried under before it gets processed. */
+    confirmations?: number
+    /** Maximum number of blocks queried at once. */
+    maxBlockRange?: number
+    /** Time, in milliseconds, between polls for new requests. */
+    pollInterval?: number
+    /** Number of times a failing store write or transaction is retried. */
+    retries?: number
+    /** Time, in milliseconds, waited before the first retry. */
+    retryDelay?: number
+    logs?: boolean
+}
+
+type RequestEvent = CardDataUpdateRequestEvent | CardDataSwapRequestEvent
+
+const emptyCardData: CardData = {
+    name: "",
+    position: "",
+    twitterAccount: "",
+    telegramAccount: "",
+    githubAccount: "",
+    website: ""
+}
+
+/**
+ * Answers the `CardDataUpdateRequest` and `CardDataSwapRequest` events emitted by the Business Card smart contract:
+ * renders the new metadata, publishes it to the store and submits the corresponding callback.
+ */
+export class CardOracle {
+    private state?: OracleState
+    private running = false
+
+    private readonly options: Required<CardOracleOptions>
+
+    /**
+     * @param businessCard Business Card smart contract, connected to the oracle signer.
+     * @param store Where the rendered metadata gets published.
+     * @param stateStore Where the cursor and card data get persisted between restarts.
+     */
+    constructor(
+        readonly businessCard: BusinessCard,
+        readonly store: MetadataStore,
+        readonly stateStore: FileStateStore,
+        options: CardOracleOptions = {}
+    ) {
+        this.options = {
+            startBlock: 0,
+            confirmations: 0,
+            maxBlockRange: 2000,
+            pollInterval: 4000,
+            retries: 3,
+            retryDelay: 1000,
+            logs: false,
+            ...options
+        }
+    }
+
+    /**
+     * Polls for new requests until `stop` is called. Failed requests are retried on the next poll.
+     */
+    async start(): Promise<void> {
+        this.running = true
+
+        while (this.running) {
+            try {
+                await this.poll()
+            } catch (error) {
+                console.error("Oracle poll failed:", error)
+            }
+
+            if (this.running) await sleep(this.options.pollInterval)
+        }
+    }
+
+    stop(): void {
+        this.running = false
+    }
+
+    /**
+     * Processes every request up to the latest confirmed block.
+     * @returns The number of requests that were processed.
+     */
+    async poll(): Promise<number> {
+        const state = await this.loadState()
+        const latestBlock = await this.businessCard.provider.getBlockNumber() - this.options.confirmations
+
+        let processed = 0
+
+        while (state.fromBlock <= latestBlock) {
+            const toBlock = Math.min(latestBlock, state.fromBlock + this.options.maxBlockRange - 1)
+
+            for (const event of await this.getRequests(state.fromBlock, toBlock)) {
+                if (isEventProcessed(state, event)) continue
+
+                await this.processRequest(state, event)
+
+                state.lastEvent = { blockNumber: event.blockNumber, logIndex: event.logIndex }
+                await this.stateStore.save(state)
+
+                processed++
+            }
+
+            state.fromBlock = toBlock + 1
+            state.lastEvent = undefined
+            await this.stateStore.save(state)
+        }
+
+        return processed
+    }
+
+    private async loadState(): Promise<OracleState> {
+        if (!this.state) {
+            this.state = await this.stateStore.load(this.options.startBlock)
+        }
+
+        return this.state
+    }
+
+    private async getRequests(fromBlock: number, toBlock: number): Promise<RequestEvent[]> {
+        const [updates, swaps] = await Promise.all([
+            this.retry(() => this.businessCard.queryFilter(this.businessCard.filters.CardDataUpdateRequest(), fromBlock, toBlock)),
+            this.retry(() => this.businessCard.queryFilter(this.businessCard.filters.CardDataSwapRequest(), fromBlock, toBlock))
+        ])
+
+        return [...updates, ...swaps].sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex)
+    }
+
+    private async processRequest(state: OracleState, event: RequestEvent): Promise<void> {
+        if (event.event === "CardDataUpdateRequest") {
+            await this.processUpdate(state, event as CardDataUpdateRequestEvent)
+        } else {
+            await this.processSwap(state, event as CardDataSwapRequestEvent)
+        }
+    }
+
+    private async processUpdate(state: OracleState, event: CardDataUpdateRequestEvent): Promise<void> {
+        const { cardId, genes, cardName, cardProperties } = event.args
+        const previous = state.cards[cardId.toString()]
+
+        // An empty name or position means the previous one is kept
+        const card: CardData = {
+            name: cardName || previous?.name || await this.getCardName(cardId, event.blockNumber),
+            position: cardProperties.position || previous?.position || "",
+            twitterAccount: cardProperties.twitterAccount,
+            telegramAccount: cardProperties.telegramAccount,
+            githubAccount: cardProperties.githubAccount,
+            website: cardProperties.website
+        }
+
+        const cardURI = await this.publish(cardId, genes, card)
+
+        await this.submitCallback(state, event, [cardId], () => this.businessCard.updateCallback(cardId, cardURI))
+
+        state.cards[cardId.toString()] = card
+
+        this.log(`Card #${cardId} updated to ${cardURI}`)
+    }
+
+    private async processSwap(state: OracleState, event: CardDataSwapRequestEvent): Promise<void> {
+        const { cardId1, cardId2, genes1, genes2 } = event.args
+
+        // Names are swapped on-chain by the time the request is emitted, position and properties are swapped here
+        const card1: CardData = {
+            ...(state.cards[cardId2.toString()] ?? emptyCardData),
+            name: await this.getCardName(cardId1, event.blockNumber)
+        }
+        const card2: CardData = {
+            ...(state.cards[cardId1.toString()] ?? emptyCardData),
+            name: await this.getCardName(cardId2, event.blockNumber)
+        }
+
+        const cardURI1 = await this.publish(cardId1, genes1, card1)
+        const cardURI2 = await this.publish(cardId2, genes2, card2)
+
+        await this.submitCallback(
+            state,
+            event,
+            [cardId1, cardId2],
+            () => this.businessCard.swapCallback(cardId1, cardId2, cardURI1, cardURI2)
+        )
+
+        state.cards[cardId1.toString()] = card1
+        state.cards[cardId2.toString()] = card2
+
+        this.log(`Cards #${cardId1} and #${cardId2} swapped to ${cardURI1} and ${cardURI2}`)
+    }
+
+    /**
+     * Renders and stores the image and metadata of a Business Card.
+     * @returns The URI of the metadata, relative to the Business Card base URI.
+     */
+    private async publish(cardId: BigNumber, genes: BigNumber, card: CardData): Promise<string> {
+        const imageURI = await this.retry(() => this.store.put(renderCardSvg(genes, card)))
+        const baseURI = await this.retry(() => this.businessCard.baseURI())
+
+        return this.retry(() => this.store.put(renderMetadata(cardId, genes, card, baseURI + imageURI)))
+    }
+
+    /**
+     * Sends the callback for a request and waits for it to be mined. The transaction hash is persisted before waiting,
+     * so that a restart waits for the same transaction instead of sending the callback twice.
+     */
+    private async submitCallback(
+        state: OracleState,
+        event: EventPointer,
+        cardIds: BigNumber[],
+        send: () => Promise<ContractTransaction>
+    ): Promise<void> {
+        const key = eventKey(event)
+        let hash = state.sentCallbacks[key]
+
+        if (!hash) {
+            const { timestamp } = await this.retry(() => this.businessCard.provider.getBlock(event.blockNumber))
+            const requestTimestamps = await Promise.all(cardIds.map((cardId) => this.retry(() => this.businessCard.requestTimestamps(cardId))))
+
+            // The callback was already mined before the oracle got to persist its progress, or the request was cancelled
+            if (!requestTimestamps.every((requestTimestamp) => requestTimestamp.eq(timestamp))) {
+                this.log(`Request ${key} is no longer pending, skipping`)
+                return
+            }
+
+            hash = (await this.retry(send)).hash
+
+            state.sentCallbacks[key] = hash
+            await this.stateStore.save(state)
+        }
+
+        const receipt = await this.retry(() => this.businessCard.provider.waitForTransaction(hash))
+
+        delete state.sentCallbacks[key]
+
+        if (receipt.status !== 1) {
+            await this.stateStore.save(state)
+            throw new Error(`Callback transaction ${hash} for request ${key} reverted`)
+        }
+    }
+
+    private async getCardName(cardId: BigNumber, blockTag: number): Promise<string> {
+        return (await this.retry(() => this.businessCard.getCardStats(cardId, { blockTag }))).name
+    }
+
+    private retry<T>(fn: () => Promise<T>): Promise<T> {
+        return retry(fn, this.options.retries, this.options.retryDelay)
+    }
+
+    private log(message: string): void {
+        if (this.options.logs) {
+            console.log(message)
+        }
+    }
+}
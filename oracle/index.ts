@@ -0,0 +1,4 @@
+export * from "./card-oracle"
+export * from "./state"
+export * from "./store"
+export * from "./utils"
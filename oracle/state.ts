@@ -0,0 +1,53 @@
+import { promises as fs } from "fs"
+import { dirname } from "path"
+import { CardData } from "../metadata"
+import { readJsonIfExists } from "./utils"
+
+/**
+ * Position of a request event within the chain.
+ */
+export type EventPointer = {
+    blockNumber: number
+    logIndex: number
+}
+
+/**
+ * Everything the oracle needs to resume after a restart without losing or double-processing requests.
+ */
+export type OracleState = {
+    /** Next block to be scanned for requests. */
+    fromBlock: number
+    /** Last request that was fully processed, within the block range that is currently being scanned. */
+    lastEvent?: EventPointer
+    /** Callback transactions that were sent for a request, by request key, and may not have been mined yet. */
+    sentCallbacks: { [eventKey: string]: string }
+    /** Latest off-chain values of every Business Card, needed to render swapped cards. */
+    cards: { [cardId: string]: CardData }
+}
+
+export const eventKey = ({ blockNumber, logIndex }: EventPointer): string => `${blockNumber}:${logIndex}`
+
+export const isEventProcessed = (state: OracleState, { blockNumber, logIndex }: EventPointer): boolean => {
+    if (blockNumber < state.fromBlock) return true
+    if (!state.lastEvent) return false
+
+    return blockNumber < state.lastEvent.blockNumber ||
+        (blockNumber === state.lastEvent.blockNumber && logIndex <= state.lastEvent.logIndex)
+}
+
+/**
+ * Persists the oracle state as a JSON file. Writes go through a temporary file so a crash never leaves a corrupted cursor behind.
+ */
+export class FileStateStore {
+    constructor(readonly path: string) {}
+
+    async load(startBlock: number): Promise<OracleState> {
+        return (await readJsonIfExists<OracleState>(this.path)) ?? { fromBlock: startBlock, sentCallbacks: {}, cards: {} }
+    }
+
+    async save(state: OracleState): Promise<void> {
+        await fs.mkdir(dirname(this.path), { recursive: true })
+        await fs.writeFile(`${this.path}.tmp`, JSON.stringify(state, null, 4))
+        await fs.rename(`${this.path}.tmp`, this.path)
+    }
+}
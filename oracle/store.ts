@@ -0,0 +1,40 @@
+import { promises as fs } from "fs"
+import { join } from "path"
+import { utils } from "ethers"
+import { readFileIfExists } from "./utils"
+
+/**
+ * Storage backend where the oracle publishes rendered Business Card data.
+ */
+export interface MetadataStore {
+    /**
+     * Persists the given content and returns the URI it can be retrieved at, relative to the Business Card base URI.
+     */
+    put(content: string): Promise<string>
+
+    /**
+     * Retrieves previously stored content, or undefined if nothing was stored under this URI.
+     */
+    get(uri: string): Promise<string | undefined>
+}
+
+/**
+ * Local filesystem stand-in for IPFS: content is stored under its keccak256 hash,
+ * so the same content always maps to the same URI.
+ */
+export class FileSystemStore implements MetadataStore {
+    constructor(readonly directory: string) {}
+
+    async put(content: string): Promise<string> {
+        const uri = utils.keccak256(utils.toUtf8Bytes(content)).slice(2)
+
+        await fs.mkdir(this.directory, { recursive: true })
+        await fs.writeFile(join(this.directory, uri), content)
+
+        return uri
+    }
+
+    async get(uri: string): Promise<string | undefined> {
+        return (await readFileIfExists(join(this.directory, uri)))?.toString("utf8")
+    }
+}
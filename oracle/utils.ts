@@ -0,0 +1,40 @@
+import { promises as fs } from "fs"
+
+export const sleep = (ms: number): Promise<void> => new Promise((resolve) => setTimeout(resolve, ms))
+
+/**
+ * Calls `fn` until it succeeds, waiting `delay` milliseconds after the first failure and doubling it after each one.
+ */
+export const retry = async <T>(fn: () => Promise<T>, retries: number, delay: number): Promise<T> => {
+    for (let attempt = 0; ; attempt++) {
+        try {
+            return await fn()
+        } catch (error) {
+            if (attempt >= retries) throw error
+
+            await sleep(delay * 2 ** attempt)
+        }
+    }
+}
+
+/**
+ * Reads a file, resolving to undefined instead of throwing if it does not exist.
+ */
+export const readFileIfExists = async (path: string): Promise<Buffer | undefined> => {
+    try {
+        return await fs.readFile(path)
+    } catch (error) {
+        if (error instanceof Error && (error as NodeJS.ErrnoException).code === "ENOENT") return undefined
+
+        throw error
+    }
+}
+
+/**
+ * Reads and parses a JSON file, resolving to undefined instead of throwing if it does not exist.
+ */
+export const readJsonIfExists = async <T>(path: string): Promise<T | undefined> => {
+    const data = await readFileIfExists(path)
+
+    return data === undefined ? undefined : JSON.parse(data.toString("utf8"))
+}
@@ -0,0 +1,102 @@
+import { BigNumber, BigNumberish, ContractTransaction, Overrides } from "ethers"
+import type { BusinessCard } from "../typechain-types"
+import { MINT_PRICE, REQUEST_TIMEOUT, UPDATE_PRICE } from "./constants"
+import { BusinessCardError, businessCardErrors, withDecodedErrors } from "./errors"
+import { CardProperties, assertValidCardData } from "./validation"
+
+/**
+ * High-level client for the Business Card smart contract.
+ */
+export class BusinessCardClient {
+    /**
+     * @param contract Business Card smart contract, connected to the signer sending the transactions.
+     */
+    constructor(readonly contract: BusinessCard) {}
+
+    /**
+     * Mints a new Business Card, paying `MINT_PRICE`.
+     */
+    async mint(cardName: string, cardProperties: CardProperties, overrides: Overrides = {}): Promise<ContractTransaction> {
+        await assertValidCardData(this.contract, cardName, cardProperties)
+
+        return this.withDecodedErrors(() => this.contract.getCard(cardName, cardProperties, { ...overrides, value: MINT_PRICE }))
+    }
+
+    /**
+     * Updates the name and/or properties of a Business Card, paying `UPDATE_PRICE`. An empty name keeps the current one.
+     */
+    async update(
+        cardId: BigNumberish,
+        newCardName: string,
+        newCardProperties: CardProperties,
+        overrides: Overrides = {}
+    ): Promise<ContractTransaction> {
+        await assertValidCardData(this.contract, newCardName, newCardProperties, true)
+        await this.assertNoPendingRequest(cardId)
+
+        return this.withDecodedErrors(() =>
+            this.contract.updateCardData(cardId, newCardName, newCardProperties, { ...overrides, value: UPDATE_PRICE })
+        )
+    }
+
+    /**
+     * Swaps the name, position and properties of two Business Cards, paying `UPDATE_PRICE`.
+     */
+    async swap(cardId1: BigNumberish, cardId2: BigNumberish, overrides: Overrides = {}): Promise<ContractTransaction> {
+        await this.assertNoPendingRequest(cardId1)
+        await this.assertNoPendingRequest(cardId2)
+
+        return this.withDecodedErrors(() => this.contract.swapCardData(cardId1, cardId2, { ...overrides, value: UPDATE_PRICE }))
+    }
+
+    /**
+     * Cancels a request the oracle did not process within `REQUEST_TIMEOUT`, crediting the oracle fee to the owner of the Business Card,
+     * who withdraws it with `withdrawPayments`.
+     */
+    async cancelRequest(cardId: BigNumberish, overrides: Overrides = {}): Promise<ContractTransaction> {
+        const requestTimestamp = await this.contract.requestTimestamps(cardId)
+
+        if (requestTimestamp.isZero()) {
+            throw new BusinessCardError("RequestNotInPendingList", [])
+        }
+
+        const { timestamp } = await this.contract.provider.getBlock("latest")
+
+        if (requestTimestamp.add(REQUEST_TIMEOUT).gt(timestamp)) {
+            throw new BusinessCardError("RequestNotTimedOut", [])
+        }
+
+        return this.withDecodedErrors(() => this.contract.cancelRequest(cardId, overrides))
+    }
+
+    /**
+     * Withdraws the oracle fees of the cancelled requests credited to the signer.
+     */
+    async withdrawPayments(overrides: Overrides = {}): Promise<ContractTransaction> {
+        return this.withDecodedErrors(() => this.contract.withdrawPayments(overrides))
+    }
+
+    async getPayments(payee: string): Promise<BigNumber> {
+        return this.contract.payments(payee)
+    }
+
+    async isNameReserved(name: string): Promise<boolean> {
+        return this.contract.isNameReserved(name)
+    }
+
+    async getCardStats(cardId: BigNumberish): Promise<{ name: string, genes: BigNumber }> {
+        const { name, genes } = await this.withDecodedErrors(() => this.contract.getCardStats(cardId))
+
+        return { name, genes }
+    }
+
+    private async assertNoPendingRequest(cardId: BigNumberish): Promise<void> {
+        if (await this.contract.requests(cardId)) {
+            throw new BusinessCardError("RequestBeingProcessed", [])
+        }
+    }
+
+    private withDecodedErrors<T>(fn: () => Promise<T>): Promise<T> {
+        return withDecodedErrors([businessCardErrors(this.contract.interface)], fn)
+    }
+}
@@ -0,0 +1,128 @@
+import { BigNumber, BigNumberish } from "ethers"
+import { CardTraits, GENES_DIGITS, Trait, decodeTraits, getVariantIndex, splitGenes } from "../metadata"
+import { PRECISION } from "./constants"
+
+// Mirrors `contracts/libs/CardMaestro.sol`
+
+export const BASE_SCORE = 25
+export const BATEMAN_PHONE_NUMBER = "(212) 555-6342"
+
+/**
+ * Points scored by every variant of a trait, in the order of `TRAIT_VARIANTS`. Damaging traits score negative points.
+ */
+export const TRAIT_POINTS: { [trait in Trait]: number[] } = {
+    background: [1, 2, 3, 4, 6],
+    paperType: [1, 2, 3, 5],
+    paperColor: [1, 3, 4, 5, 6],
+    font: [1, 2, 3, 5, 6],
+    address: [0, 2, 3, 5],
+    cranberryJuice: [0, -3, -6],
+    shadowType: [0, 1, 2, 3],
+    watermark: [0, 3, 5],
+    footprint: [0, -4],
+    defaced: [0, -3, -8],
+    lettering: [0, 3, 4],
+    goldEdges: [0, 4],
+    washed: [0, -4]
+}
+
+export type BatemanRule = {
+    name: string
+    points: number
+    applies: (traits: CardTraits) => boolean
+}
+
+/**
+ * Bonuses for the Business Cards compared in the boardroom scene, and for Patrick Bateman's phone number.
+ */
+export const BATEMAN_RULES: BatemanRule[] = [
+    {
+        name: "Bone paper with Silian Rail lettering",
+        points: 10,
+        applies: ({ paperColor, font }) => paperColor === "Bone" && font === "Silian Rail"
+    },
+    {
+        name: "Eggshell with Romalian type",
+        points: 8,
+        applies: ({ paperColor, font }) => paperColor === "Eggshell" && font === "Romalian"
+    },
+    {
+        name: "Raised lettering, pale nimbus",
+        points: 8,
+        applies: ({ paperColor, lettering }) => paperColor === "Pale Nimbus" && lettering === "Raised"
+    },
+    {
+        name: "Subtle off-white coloring, tasteful thickness and a watermark",
+        points: 12,
+        applies: ({ paperColor, paperType, watermark }) => paperColor === "Off-White" && paperType === "Heavy Stock" && watermark !== "None"
+    },
+    {
+        name: "Patrick Bateman's phone number",
+        points: 10,
+        applies: ({ phoneNumber }) => phoneNumber === BATEMAN_PHONE_NUMBER
+    }
+]
+
+/**
+ * Score of a Business Card, with the points every trait and Bateman rule contributed to it.
+ */
+export type CardScore = {
+    traits: CardTraits
+    traitPoints: { [trait in Trait]: number }
+    bonuses: { name: string, points: number }[]
+    score: number
+}
+
+export type Matchup = {
+    a: CardScore
+    b: CardScore
+    /** Chance that card A wins against card B, to 6 significant figures. */
+    chanceA: BigNumber
+    /** Chance that card B wins against card A, `PRECISION - chanceA`. */
+    chanceB: BigNumber
+}
+
+/**
+ * Computes the score of a Business Card the way `CardMaestro.getScore` does, which only reads the lowest `GENES_DIGITS`
+ * digits of the genes.
+ */
+export const getCardScore = (genes: BigNumberish): CardScore => {
+    const digits = BigNumber.from(genes).mod(BigNumber.from(10).pow(GENES_DIGITS))
+    const values = splitGenes(digits)
+    const traits = decodeTraits(digits)
+
+    const traitPoints = Object.fromEntries(
+        (Object.keys(TRAIT_POINTS) as Trait[]).map((trait) => [trait, TRAIT_POINTS[trait][getVariantIndex(trait, values[trait])]])
+    ) as { [trait in Trait]: number }
+
+    const bonuses = BATEMAN_RULES
+        .filter(({ applies }) => applies(traits))
+        .map(({ name, points }) => ({ name, points }))
+
+    const score = [...Object.values(traitPoints), ...bonuses.map(({ points }) => points)]
+        .reduce((total, points) => total + points, BASE_SCORE)
+
+    return { traits, traitPoints, bonuses, score }
+}
+
+/**
+ * Computes the chance that card A has against card B the way `CardMaestro.getWinningChanceAgainst` does.
+ */
+export const getWinningChanceAgainst = (genesA: BigNumberish, genesB: BigNumberish): BigNumber =>
+    getMatchup(genesA, genesB).chanceA
+
+/**
+ * Computes the chances of two Business Cards against each other, along with the breakdown of their scores.
+ */
+export const getMatchup = (genesA: BigNumberish, genesB: BigNumberish): Matchup => {
+    const a = getCardScore(genesA)
+    const b = getCardScore(genesB)
+
+    // Only the chance of the weaker card gets rounded down, so that both chances always sum to PRECISION
+    const total = a.score + b.score
+    const chanceA = a.score <= b.score
+        ? BigNumber.from(a.score).mul(PRECISION).div(total)
+        : BigNumber.from(PRECISION).sub(BigNumber.from(b.score).mul(PRECISION).div(total))
+
+    return { a, b, chanceA, chanceB: BigNumber.from(PRECISION).sub(chanceA) }
+}
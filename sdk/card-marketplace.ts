@@ -0,0 +1,425 @@
+import { BigNumber, BigNumberish, ContractTransaction, Overrides, constants } from "ethers"
+import { BusinessCard, CardMarketplace, DorsiaClubToken, DorsiaClubToken__factory } from "../typechain-types"
+import type { CardListingStructOutput } from "../typechain-types/contracts/CardMarketplace"
+import { generateSalt } from "./commitments"
+import { ORACLE_FEE, UPDATE_PRICE } from "./constants"
+import { CardMarketplaceError, businessCardErrors, cardMarketplaceErrors, withDecodedErrors } from "./errors"
+import { BuyOrder, SellOrder, SignedOrder, TypedDataSigner, getOrderDomain, signBuyOrder, signSellOrder } from "./orders"
+import {
+    CardProperties,
+    assertValidAuction,
+    assertValidBundle,
+    assertValidCardData,
+    assertValidListingPrice,
+    assertValidOfferAmount,
+    assertValidPriceDecay,
+    assertValidReservedBuyer
+} from "./validation"
+
+/**
+ * Currencies listings can be settled in, mirrors the `Currency` enum of `contracts/libs/Structs.sol`.
+ */
+export enum Currency {
+    ETH,
+    DCT
+}
+
+/**
+ * High-level client for the Card Marketplace smart contract.
+ */
+export class CardMarketplaceClient {
+    /**
+     * @param contract Card Marketplace smart contract, connected to the signer sending the transactions.
+     * @param businessCard Business Card smart contract, connected to the same signer.
+     */
+    constructor(readonly contract: CardMarketplace, readonly businessCard: BusinessCard) {}
+
+    /**
+     * Lists a Business Card, approving the marketplace to transfer it first if needed.
+     * @param price Price in the currency of the listing.
+     * @param currency Currency the listing is settled in.
+     */
+    async list(
+        cardId: BigNumberish,
+        price: BigNumberish,
+        currency: Currency = Currency.ETH,
+        overrides: Overrides = {}
+    ): Promise<ContractTransaction> {
+        assertValidListingPrice(price)
+
+        if (!(await this.isApproved(cardId))) {
+            await (await this.withDecodedErrors(() => this.businessCard.approve(this.contract.address, cardId))).wait()
+        }
+
+        return this.withDecodedErrors(() => this.contract.createCardListingWithCurrency(cardId, price, currency, overrides))
+    }
+
+    /**
+     * Lists a Business Card at a price decaying linearly from `startPrice` to `floorPrice`, approving the marketplace
+     * to transfer it first if needed.
+     * @param duration Time, in seconds, over which the price decays.
+     */
+    async listDutch(
+        cardId: BigNumberish,
+        startPrice: BigNumberish,
+        floorPrice: BigNumberish,
+        duration: number,
+        overrides: Overrides = {}
+    ): Promise<ContractTransaction> {
+        assertValidPriceDecay(startPrice, floorPrice, duration)
+
+        if (!(await this.isApproved(cardId))) {
+            await (await this.withDecodedErrors(() => this.businessCard.approve(this.contract.address, cardId))).wait()
+        }
+
+        return this.withDecodedErrors(() => this.contract.createDutchCardListing(cardId, startPrice, floorPrice, duration, overrides))
+    }
+
+    /**
+     * Lists a Business Card that only `reservedBuyer` can buy, approving the marketplace to transfer it first if needed.
+     * Private listings are left out of the active listings of the marketplace.
+     * @param price Price in the currency of the listing.
+     */
+    async listPrivate(
+        cardId: BigNumberish,
+        price: BigNumberish,
+        reservedBuyer: string,
+        currency: Currency = Currency.ETH,
+        overrides: Overrides = {}
+    ): Promise<ContractTransaction> {
+        assertValidListingPrice(price)
+        assertValidReservedBuyer(reservedBuyer)
+
+        if (!(await this.isApproved(cardId))) {
+            await (await this.withDecodedErrors(() => this.businessCard.approve(this.contract.address, cardId))).wait()
+        }
+
+        return this.withDecodedErrors(() => this.contract.createPrivateCardListing(cardId, price, currency, reservedBuyer, overrides))
+    }
+
+    /**
+     * Lists several Business Cards as a single bundle listing, approving the marketplace to transfer each of them
+     * first if needed.
+     * @param price Price of the whole bundle, in the currency of the listing.
+     */
+    async listBundle(
+        cardIds: BigNumberish[],
+        price: BigNumberish,
+        currency: Currency = Currency.ETH,
+        overrides: Overrides = {}
+    ): Promise<ContractTransaction> {
+        assertValidBundle(cardIds, price)
+
+        for (const cardId of cardIds) {
+            if (!(await this.isApproved(cardId))) {
+                await (await this.withDecodedErrors(() => this.businessCard.approve(this.contract.address, cardId))).wait()
+            }
+        }
+
+        return this.withDecodedErrors(() => this.contract.createBundleListing(cardIds, price, currency, overrides))
+    }
+
+    async cancel(itemId: BigNumberish, overrides: Overrides = {}): Promise<ContractTransaction> {
+        return this.withDecodedErrors(() => this.contract.cancelCardListing(itemId, overrides))
+    }
+
+    /**
+     * Updates the price of an active listing, turning Dutch listings into fixed price listings.
+     */
+    async updatePrice(itemId: BigNumberish, newPrice: BigNumberish, overrides: Overrides = {}): Promise<ContractTransaction> {
+        assertValidListingPrice(newPrice)
+
+        return this.withDecodedErrors(() => this.contract.updateListingPrice(itemId, newPrice, overrides))
+    }
+
+    /**
+     * @param expiresAt Timestamp, in seconds, from which the listing can no longer be bought, zero so that it never expires.
+     */
+    async setExpiry(itemId: BigNumberish, expiresAt: number, overrides: Overrides = {}): Promise<ContractTransaction> {
+        return this.withDecodedErrors(() => this.contract.setListingExpiry(itemId, expiresAt, overrides))
+    }
+
+    /**
+     * Returns the Business Cards of an expired listing to its seller, which anyone can do.
+     */
+    async closeExpired(itemId: BigNumberish, overrides: Overrides = {}): Promise<ContractTransaction> {
+        return this.withDecodedErrors(() => this.contract.closeExpiredListing(itemId, overrides))
+    }
+
+    /**
+     * Buys a listed Business Card, paying its current price. The price of Dutch listings can only decrease until the
+     * transaction is mined, the marketplace refunds the difference. Listings settled in DCT are paid with an allowance,
+     * which gets raised to the price first if needed.
+     */
+    async buy(itemId: BigNumberish, overrides: Overrides = {}): Promise<ContractTransaction> {
+        const value = await this.prepareListingPayment(itemId)
+
+        return this.withDecodedErrors(() => this.contract.buyListedCard(itemId, { ...overrides, value }))
+    }
+
+    /**
+     * Buys a listed Business Card and updates its data, paying its listing price plus `ORACLE_FEE` and `UPDATE_PRICE`.
+     * Listings settled in DCT are paid with an allowance, which gets raised to the price first if needed.
+     */
+    async buyAndUpdate(
+        itemId: BigNumberish,
+        newCardName: string,
+        newCardProperties: CardProperties,
+        overrides: Overrides = {}
+    ): Promise<ContractTransaction> {
+        await assertValidCardData(this.businessCard, newCardName, newCardProperties, true)
+
+        const price = await this.prepareListingPayment(itemId)
+
+        return this.withDecodedErrors(() =>
+            this.contract.buyAndUpdateListedCard(itemId, newCardName, newCardProperties, {
+                ...overrides,
+                value: price.add(ORACLE_FEE).add(UPDATE_PRICE)
+            })
+        )
+    }
+
+    /**
+     * Makes an offer for a Business Card, escrowing `amount` until the offer is accepted or withdrawn.
+     * @param expiresAt Timestamp, in seconds, from which the offer can no longer be accepted.
+     */
+    async makeOffer(cardId: BigNumberish, amount: BigNumberish, expiresAt: number, overrides: Overrides = {}): Promise<ContractTransaction> {
+        assertValidOfferAmount(amount)
+
+        return this.withDecodedErrors(() => this.contract.makeOffer(cardId, expiresAt, { ...overrides, value: amount }))
+    }
+
+    async withdrawOffer(offerId: BigNumberish, overrides: Overrides = {}): Promise<ContractTransaction> {
+        return this.withDecodedErrors(() => this.contract.withdrawOffer(offerId, overrides))
+    }
+
+    /**
+     * Accepts an offer, approving the marketplace to transfer the Business Card first if it is not listed.
+     */
+    async acceptOffer(offerId: BigNumberish, overrides: Overrides = {}): Promise<ContractTransaction> {
+        const { cardId, expiresAt } = await this.withDecodedErrors(() => this.contract.getOffer(offerId))
+        const { timestamp } = await this.contract.provider.getBlock("latest")
+
+        if (expiresAt.lte(timestamp)) {
+            throw new CardMarketplaceError("OfferHasExpired", [])
+        }
+
+        const owner = await this.businessCard.ownerOf(cardId)
+
+        if (owner !== this.contract.address && !(await this.isApproved(cardId))) {
+            await (await this.withDecodedErrors(() => this.businessCard.approve(this.contract.address, cardId))).wait()
+        }
+
+        return this.withDecodedErrors(() => this.contract.acceptOffer(offerId, overrides))
+    }
+
+    /**
+     * Puts a Business Card up for auction, approving the marketplace to transfer it first if needed.
+     * @param duration Time, in seconds, during which bids are accepted.
+     */
+    async createAuction(
+        cardId: BigNumberish,
+        reservePrice: BigNumberish,
+        minBidIncrement: BigNumberish,
+        duration: number,
+        overrides: Overrides = {}
+    ): Promise<ContractTransaction> {
+        assertValidAuction(reservePrice, minBidIncrement, duration)
+
+        if (!(await this.isApproved(cardId))) {
+            await (await this.withDecodedErrors(() => this.businessCard.approve(this.contract.address, cardId))).wait()
+        }
+
+        return this.withDecodedErrors(() => this.contract.createAuction(cardId, reservePrice, minBidIncrement, duration, overrides))
+    }
+
+    /**
+     * Bids in an auction, throwing before sending the transaction when the bid is below `getMinimumBid`.
+     */
+    async bid(auctionId: BigNumberish, amount: BigNumberish, overrides: Overrides = {}): Promise<ContractTransaction> {
+        if (BigNumber.from(amount).lt(await this.getMinimumBid(auctionId))) {
+            throw new CardMarketplaceError("BidTooLow", [])
+        }
+
+        return this.withDecodedErrors(() => this.contract.bid(auctionId, { ...overrides, value: amount }))
+    }
+
+    async settleAuction(auctionId: BigNumberish, overrides: Overrides = {}): Promise<ContractTransaction> {
+        return this.withDecodedErrors(() => this.contract.settleAuction(auctionId, overrides))
+    }
+
+    /**
+     * Signs a sell order off-chain, approving the marketplace to transfer the Business Card first if needed. The card
+     * stays with the seller until the order is filled.
+     * @param expiresAt Timestamp, in seconds, from which the order can no longer be filled.
+     */
+    async signSellOrder(cardId: BigNumberish, price: BigNumberish, expiresAt: number): Promise<SignedOrder<SellOrder>> {
+        assertValidListingPrice(price)
+
+        if (!(await this.isApproved(cardId))) {
+            await (await this.withDecodedErrors(() => this.businessCard.approve(this.contract.address, cardId))).wait()
+        }
+
+        const seller = await this.contract.signer.getAddress()
+        const order = { seller, cardId, price, expiresAt, nonce: await this.contract.nonces(seller), salt: generateSalt() }
+
+        return signSellOrder(this.contract.signer as TypedDataSigner, await getOrderDomain(this.contract), order)
+    }
+
+    /**
+     * Signs a buy order off-chain, which is paid from the deposit of the signer when accepted, see `deposit`.
+     * @param expiresAt Timestamp, in seconds, from which the order can no longer be accepted.
+     */
+    async signBuyOrder(cardId: BigNumberish, price: BigNumberish, expiresAt: number): Promise<SignedOrder<BuyOrder>> {
+        assertValidOfferAmount(price)
+
+        const buyer = await this.contract.signer.getAddress()
+        const order = { buyer, cardId, price, expiresAt, nonce: await this.contract.nonces(buyer), salt: generateSalt() }
+
+        return signBuyOrder(this.contract.signer as TypedDataSigner, await getOrderDomain(this.contract), order)
+    }
+
+    /**
+     * Fills a signed sell order, paying its price.
+     */
+    async fillSellOrder({ order, signature }: SignedOrder<SellOrder>, overrides: Overrides = {}): Promise<ContractTransaction> {
+        return this.withDecodedErrors(() => this.contract.fillSellOrder(order, signature, { ...overrides, value: order.price }))
+    }
+
+    /**
+     * Accepts a signed buy order, approving the marketplace to transfer the Business Card first if needed.
+     */
+    async acceptBuyOrder({ order, signature }: SignedOrder<BuyOrder>, overrides: Overrides = {}): Promise<ContractTransaction> {
+        if ((await this.contract.deposits(order.buyer)).lt(order.price)) {
+            throw new CardMarketplaceError("DepositTooLow", [])
+        }
+
+        if (!(await this.isApproved(order.cardId))) {
+            await (await this.withDecodedErrors(() => this.businessCard.approve(this.contract.address, order.cardId))).wait()
+        }
+
+        return this.withDecodedErrors(() => this.contract.acceptBuyOrder(order, signature, overrides))
+    }
+
+    async cancelSellOrder(order: SellOrder, overrides: Overrides = {}): Promise<ContractTransaction> {
+        return this.withDecodedErrors(() => this.contract.cancelSellOrder(order, overrides))
+    }
+
+    async cancelBuyOrder(order: BuyOrder, overrides: Overrides = {}): Promise<ContractTransaction> {
+        return this.withDecodedErrors(() => this.contract.cancelBuyOrder(order, overrides))
+    }
+
+    /**
+     * Cancels every order the signer has signed so far by incrementing its nonce.
+     */
+    async cancelAllOrders(overrides: Overrides = {}): Promise<ContractTransaction> {
+        return this.withDecodedErrors(() => this.contract.cancelAllOrders(overrides))
+    }
+
+    /**
+     * Deposits `amount` to pay for the buy orders of the signer.
+     */
+    async deposit(amount: BigNumberish, overrides: Overrides = {}): Promise<ContractTransaction> {
+        return this.withDecodedErrors(() => this.contract.deposit({ ...overrides, value: amount }))
+    }
+
+    async withdrawDeposit(amount: BigNumberish, overrides: Overrides = {}): Promise<ContractTransaction> {
+        return this.withDecodedErrors(() => this.contract.withdrawDeposit(amount, overrides))
+    }
+
+    /**
+     * Withdraws the sale proceeds, royalties and outbid refunds credited to the signer.
+     */
+    async withdrawPayments(overrides: Overrides = {}): Promise<ContractTransaction> {
+        return this.withDecodedErrors(() => this.contract.withdrawPayments(overrides))
+    }
+
+    async getPayments(payee: string): Promise<BigNumber> {
+        return this.contract.payments(payee)
+    }
+
+    /**
+     * Approves the marketplace to transfer `amount` DCT from the signer, to pay for listings settled in DCT.
+     */
+    async approveDCT(amount: BigNumberish, overrides: Overrides = {}): Promise<ContractTransaction> {
+        const dct = await this.getDCT()
+
+        return this.withDecodedErrors(() => dct.approve(this.contract.address, amount, overrides))
+    }
+
+    /**
+     * Gets the lowest amount the next bid in an auction can be: its reserve price for the first bid, the highest bid
+     * plus the minimum increment afterwards.
+     */
+    async getMinimumBid(auctionId: BigNumberish): Promise<BigNumber> {
+        const { reservePrice, minBidIncrement, highestBidder, highestBid } =
+            await this.withDecodedErrors(() => this.contract.getAuction(auctionId))
+
+        return highestBidder === constants.AddressZero ? reservePrice : highestBid.add(minBidIncrement)
+    }
+
+    async getListing(itemId: BigNumberish): Promise<CardListingStructOutput> {
+        return this.withDecodedErrors(() => this.contract.getListing(itemId))
+    }
+
+    /**
+     * Gets the Business Cards of a listing, a single one unless it is a bundle listing.
+     */
+    async getListingCardIds(itemId: BigNumberish): Promise<BigNumber[]> {
+        return this.withDecodedErrors(() => this.contract.getListingCardIds(itemId))
+    }
+
+    /**
+     * Gets the current price of a listing, in its currency, which decays over time for Dutch listings.
+     */
+    async getListingPrice(itemId: BigNumberish): Promise<BigNumber> {
+        return this.withDecodedErrors(() => this.contract.getListingPrice(itemId))
+    }
+
+    /**
+     * Gets the amount of ETH buying a listing costs, none if it is settled in DCT.
+     */
+    async getETHPrice(itemId: BigNumberish): Promise<BigNumber> {
+        const [{ currency }, price] = await Promise.all([this.getListing(itemId), this.getListingPrice(itemId)])
+
+        return currency === Currency.DCT ? BigNumber.from(0) : price
+    }
+
+    /**
+     * Approves the marketplace to transfer the price of a listing settled in DCT, if the allowance of the signer does
+     * not cover it yet.
+     * @returns The amount of ETH buying the listing costs.
+     */
+    private async prepareListingPayment(itemId: BigNumberish): Promise<BigNumber> {
+        const [{ currency }, price] = await Promise.all([this.getListing(itemId), this.getListingPrice(itemId)])
+
+        if (currency !== Currency.DCT) return price
+
+        const dct = await this.getDCT()
+        const owner = await this.contract.signer.getAddress()
+
+        if ((await dct.allowance(owner, this.contract.address)).lt(price)) {
+            await (await this.approveDCT(price)).wait()
+        }
+
+        return BigNumber.from(0)
+    }
+
+    private async getDCT(): Promise<DorsiaClubToken> {
+        return DorsiaClubToken__factory.connect(await this.businessCard.DCT(), this.contract.signer)
+    }
+
+    private async isApproved(cardId: BigNumberish): Promise<boolean> {
+        const owner = await this.businessCard.ownerOf(cardId)
+
+        return (await this.businessCard.getApproved(cardId)) === this.contract.address ||
+            this.businessCard.isApprovedForAll(owner, this.contract.address)
+    }
+
+    private withDecodedErrors<T>(fn: () => Promise<T>): Promise<T> {
+        return withDecodedErrors(
+            [cardMarketplaceErrors(this.contract.interface), businessCardErrors(this.businessCard.interface)],
+            fn
+        )
+    }
+}
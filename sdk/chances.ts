@@ -0,0 +1,81 @@
+import { BigNumber, BigNumberish } from "ethers"
+import { getWinningChanceAgainst } from "./card-maestro"
+import { PRECISION } from "./constants"
+
+// Mirrors `contracts/libs/WinningChances.sol`, see it for the model
+
+/**
+ * Computes the chance that card A has against card B, kept strictly between 0 and `PRECISION`.
+ */
+export const getChanceAgainst = (genesA: BigNumberish, genesB: BigNumberish): BigNumber => {
+    const chance = getWinningChanceAgainst(genesA, genesB)
+
+    if (chance.isZero()) return BigNumber.from(1)
+    if (chance.gte(PRECISION)) return BigNumber.from(PRECISION - 1)
+
+    return chance
+}
+
+/**
+ * Weights cards the way `MeetingRoom.revealCard` does when they get revealed in the given order: each weight is the
+ * product of the chances of the card against every other one.
+ */
+export const computeWinningWeights = (genes: BigNumberish[]): BigNumber[] => {
+    const weights: BigNumber[] = []
+
+    genes.forEach((cardGenes, i) => {
+        weights.push(BigNumber.from(1))
+
+        for (let j = 0; j < i; j++) {
+            const chanceAgainst = getChanceAgainst(cardGenes, genes[j])
+
+            weights[j] = weights[j].mul(BigNumber.from(PRECISION).sub(chanceAgainst))
+            weights[i] = weights[i].mul(chanceAgainst)
+        }
+    })
+
+    return weights
+}
+
+/**
+ * Normalises weights into probabilities summing to exactly `PRECISION`, by rounding down the cumulative weights.
+ */
+export const toWinningProbabilities = (weights: BigNumberish[]): BigNumber[] => {
+    const scale = weights.reduce<BigNumber>((sum, weight) => sum.add(weight), BigNumber.from(0))
+
+    let cumulativeWeight = BigNumber.from(0)
+    let cumulativeProbability = BigNumber.from(0)
+
+    return weights.map((weight) => {
+        cumulativeWeight = cumulativeWeight.add(weight)
+
+        const nextCumulativeProbability = cumulativeWeight.mul(PRECISION).div(scale)
+        const probability = nextCumulativeProbability.sub(cumulativeProbability)
+
+        cumulativeProbability = nextCumulativeProbability
+
+        return probability
+    })
+}
+
+/**
+ * Computes the probability each card has of winning a meeting, in the order the cards get revealed.
+ */
+export const computeWinningProbabilities = (genes: BigNumberish[]): BigNumber[] =>
+    toWinningProbabilities(computeWinningWeights(genes))
+
+/**
+ * Picks the index of the card a random number below `PRECISION` falls on, each card covering as many numbers as its
+ * probability.
+ */
+export const pickWinningCard = (probabilities: BigNumberish[], randomNumber: BigNumberish): number => {
+    let cumulativeProbability = BigNumber.from(0)
+
+    for (let i = 0; i < probabilities.length - 1; i++) {
+        cumulativeProbability = cumulativeProbability.add(probabilities[i])
+
+        if (cumulativeProbability.gt(randomNumber)) return i
+    }
+
+    return probabilities.length - 1
+}
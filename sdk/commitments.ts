@@ -0,0 +1,80 @@
+import { promises as fs } from "fs"
+import { dirname } from "path"
+import { BigNumber, BigNumberish, utils } from "ethers"
+import { readJsonIfExists } from "../oracle/utils"
+import type { MeetingStructOutput } from "../typechain-types/contracts/MeetingRoom"
+
+/**
+ * A card committed to a Meeting Room, with everything needed to reveal it later.
+ */
+export type CardCommitment = {
+    /** Address of the Meeting Room smart contract. */
+    meetingRoom: string
+    /** Address of the player that committed the card. */
+    player: string
+    /** ID of the Meeting Room, undefined until the transaction creating or joining it gets mined. */
+    roomId?: string
+    cardId: string
+    salt: string
+    commitment: string
+    revealed: boolean
+}
+
+/**
+ * Generates a cryptographically random 256 bit salt.
+ */
+export const generateSalt = (): BigNumber => BigNumber.from(utils.randomBytes(32))
+
+/**
+ * Computes a card commitment the way `MeetingRoom.revealCard` checks it: `uint256(keccak256(abi.encodePacked(cardId, salt)))`.
+ */
+export const computeCardCommitment = (cardId: BigNumberish, salt: BigNumberish): BigNumber =>
+    BigNumber.from(utils.solidityKeccak256(["uint256", "uint256"], [cardId, salt]))
+
+/**
+ * Whether a committed card can be revealed: only after `meetingStart`, once no one can join the meeting anymore,
+ * and before `meetingEnd`, when the winner can be drawn.
+ */
+export type RevealStatus = "waiting" | "due" | "expired" | "revealed"
+
+export const getRevealStatus = (
+    commitment: CardCommitment,
+    meeting: Pick<MeetingStructOutput, "meetingStart" | "meetingEnd" | "cardIds">,
+    timestamp: number
+): RevealStatus => {
+    if (commitment.revealed || meeting.cardIds.some((cardId) => cardId.eq(commitment.cardId))) return "revealed"
+    if (meeting.meetingEnd.lte(timestamp)) return "expired"
+    if (meeting.meetingStart.gte(timestamp)) return "waiting"
+
+    return "due"
+}
+
+/**
+ * Persists card commitments locally so that players can reveal them later.
+ */
+export interface CommitmentStore {
+    save(commitment: CardCommitment): Promise<void>
+    list(): Promise<CardCommitment[]>
+}
+
+const isSameCommitment = (a: CardCommitment, b: CardCommitment): boolean =>
+    a.meetingRoom.toLowerCase() === b.meetingRoom.toLowerCase() && a.commitment === b.commitment
+
+/**
+ * Keeps the commitments in a JSON file. Salts are stored in plain text, so the file must be kept private until the reveal.
+ */
+export class FileCommitmentStore implements CommitmentStore {
+    constructor(readonly path: string) {}
+
+    async save(commitment: CardCommitment): Promise<void> {
+        const commitments = (await this.list()).filter((stored) => !isSameCommitment(stored, commitment))
+
+        await fs.mkdir(dirname(this.path), { recursive: true })
+        await fs.writeFile(`${this.path}.tmp`, JSON.stringify([...commitments, commitment], null, 4), { mode: 0o600 })
+        await fs.rename(`${this.path}.tmp`, this.path)
+    }
+
+    async list(): Promise<CardCommitment[]> {
+        return (await readJsonIfExists<CardCommitment[]>(this.path)) ?? []
+    }
+}
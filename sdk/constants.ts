@@ -0,0 +1,45 @@
+import { utils } from "ethers"
+
+// Mirrors `contracts/libs/Constants.sol`, which the smart contracts do not expose
+
+export const MAX_SUPPLY = 2000
+export const MINT_PRICE = utils.parseEther("0.01")
+export const UPDATE_PRICE = utils.parseEther("0.002")
+export const ORACLE_FEE = utils.parseEther("0.0005")
+/** Time, in seconds, after which a pending request can be cancelled. */
+export const REQUEST_TIMEOUT = 24 * 60 * 60
+/** Maximum royalty, in basis points. */
+export const MAX_ROYALTY = 1000
+
+export const MAX_DCT_SUPPLY = 2125556342
+export const DCT_AIRDROP = 212555
+export const DCT_AIRDROP_SUPPLY = DCT_AIRDROP * MAX_SUPPLY
+
+export const MIN_LISTING_PRICE = utils.parseEther("0.001")
+/** Maximum protocol fee, in basis points. */
+export const MAX_PROTOCOL_FEE = 500
+/** Durations, in seconds, an auction can last. */
+export const MIN_AUCTION_DURATION = 60 * 60
+export const MAX_AUCTION_DURATION = 30 * 24 * 60 * 60
+/** Time, in seconds, by which late bids extend an auction. */
+export const AUCTION_EXTENSION = 10 * 60
+export const MAX_BUNDLE_SIZE = 20
+/** Maximum number of listings returned by the unpaginated listing views. */
+export const MAX_UNPAGINATED_LISTINGS = 100
+
+export const MAXIMUM_MEETING_PARTICIPANTS = 10
+export const MINIMUM_TIME_TO_MEETING_START = 1
+export const MAXIMUM_TIME_TO_MEETING_START = 10
+export const MINIMUM_MEETING_DURATION = 1
+export const MAXIMUM_MEETING_DURATION = 10
+/** Time, in seconds, after which a random word that was not provided can be requested again. */
+export const RANDOMNESS_TIMEOUT = 60 * 60
+export const PRECISION = 1e6
+
+// Length caps checked by `BusinessCard._updateTokenURI`
+export const MAX_PROPERTY_LENGTHS = {
+    twitterAccount: 15,
+    telegramAccount: 32,
+    githubAccount: 39,
+    website: 50
+} as const
@@ -0,0 +1,104 @@
+import { BigNumber, BigNumberish, utils } from "ethers"
+import type { BusinessCard, MeetingRoom } from "../typechain-types"
+import { computeWinningWeights, pickWinningCard, toWinningProbabilities } from "./chances"
+import { PRECISION } from "./constants"
+
+/**
+ * Every input of the draw of a meeting, recovered from the events of the Meeting Room smart contract.
+ */
+export type MeetingDraw = {
+    roomId: string
+    /** Revealed cards, in the order they were revealed. */
+    cardIds: string[]
+    /** Addresses that revealed each card. */
+    revealers: string[]
+    salts: string[]
+    /** Weights of the revealed cards, see `computeWinningWeights`. */
+    winningChances: string[]
+    winningProbabilities: string[]
+    entropy: string
+    /** Random word from the randomness coordinator, "0" if the meeting was drawn from the revealed salts only. */
+    randomWord: string
+    randomNumber: string
+    /** Card drawn by replaying the draw, whose revealer won the meeting. */
+    winningCardId: string
+    winner: string
+    blockNumber: number
+    transactionHash: string
+    /**
+     * Whether the logged entropy and random number match the ones recomputed from the revealed salts, and the logged
+     * winner is the address that revealed the card drawn by the replay.
+     */
+    valid: boolean
+}
+
+/**
+ * Mixes a revealed salt into the entropy of a meeting the way `MeetingRoom.revealCard` does:
+ * `uint256(keccak256(abi.encodePacked(entropy, salt)))`.
+ */
+export const accumulateEntropy = (entropy: BigNumberish, salt: BigNumberish): BigNumber =>
+    BigNumber.from(utils.solidityKeccak256(["uint256", "uint256"], [entropy, salt]))
+
+/**
+ * Computes the entropy of a meeting from the salts of its revealed cards, in the order they were revealed.
+ */
+export const computeEntropy = (salts: BigNumberish[]): BigNumber =>
+    salts.reduce<BigNumber>((entropy, salt) => accumulateEntropy(entropy, salt), BigNumber.from(0))
+
+/**
+ * Computes the number a meeting is drawn with the way `MeetingRoom._drawWinner` does.
+ */
+export const computeDrawNumber = (roomId: BigNumberish, entropy: BigNumberish, randomWord: BigNumberish): BigNumber =>
+    BigNumber.from(utils.solidityKeccak256(["uint256", "uint256", "uint256"], [roomId, entropy, randomWord])).mod(PRECISION)
+
+/**
+ * Recovers the draw of a meeting from its `CardRevealed`, `DrawSeeded` and `WinnerDrawn` events and replays it, returning
+ * undefined while the winner was not drawn. The winning chances are rebuilt from the genes of the revealed cards, which
+ * are fixed when the cards get minted, rather than read from the meeting.
+ */
+export const auditMeetingDraw = async (
+    meetingRoom: MeetingRoom,
+    businessCard: BusinessCard,
+    roomId: BigNumberish,
+    fromBlock = 0,
+    toBlock: number | string = "latest"
+): Promise<MeetingDraw | undefined> => {
+    const [reveals, seeds, winners] = await Promise.all([
+        meetingRoom.queryFilter(meetingRoom.filters.CardRevealed(roomId), fromBlock, toBlock),
+        meetingRoom.queryFilter(meetingRoom.filters.DrawSeeded(roomId), fromBlock, toBlock),
+        meetingRoom.queryFilter(meetingRoom.filters.WinnerDrawn(roomId), fromBlock, toBlock)
+    ])
+
+    if (seeds.length === 0 || winners.length === 0) return undefined
+
+    const [{ args: seed }] = seeds
+    const [{ args: { winner }, blockNumber, transactionHash }] = winners
+
+    const sorted = reveals.sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex)
+    const salts = sorted.map(({ args }) => args.salt)
+    const genes = await Promise.all(sorted.map(({ args }) => businessCard.getCardGenes(args.cardId)))
+
+    const entropy = computeEntropy(salts)
+    const randomNumber = computeDrawNumber(roomId, entropy, seed.randomWord)
+    const winningChances = computeWinningWeights(genes)
+    const winningProbabilities = toWinningProbabilities(winningChances)
+    const winningCard = pickWinningCard(winningProbabilities, randomNumber)
+    const revealer = sorted[winningCard].args.revealer
+
+    return {
+        roomId: roomId.toString(),
+        cardIds: sorted.map(({ args }) => args.cardId.toString()),
+        revealers: sorted.map(({ args }) => args.revealer),
+        salts: salts.map((salt) => salt.toString()),
+        winningChances: winningChances.map((chance) => chance.toString()),
+        winningProbabilities: winningProbabilities.map((probability) => probability.toString()),
+        entropy: seed.entropy.toString(),
+        randomWord: seed.randomWord.toString(),
+        randomNumber: seed.randomNumber.toString(),
+        winningCardId: sorted[winningCard].args.cardId.toString(),
+        winner,
+        blockNumber,
+        transactionHash,
+        valid: entropy.eq(seed.entropy) && randomNumber.eq(seed.randomNumber) && winner === revealer
+    }
+}
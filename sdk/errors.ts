@@ -0,0 +1,207 @@
+import { utils } from "ethers"
+
+export type BusinessCardErrorName =
+    | "SaleNotActive"
+    | "SaleHasEnded"
+    | "PriceTooLow"
+    | "NameNotValid"
+    | "NameIsTaken"
+    | "PositionNotValid"
+    | "PropertiesNotValid"
+    | "NonValidCharacters"
+    | "CallerMustBeOwnerOrApproved"
+    | "RequestBeingProcessed"
+    | "OracleIsNotDefined"
+    | "UpdatePriceMustCoverOracleFee"
+    | "CallerMustBeOracle"
+    | "RequestNotInPendingList"
+    | "RequestNotTimedOut"
+    | "ValueTransferFailed"
+    | "CardDoesNotExist"
+    | "RoyaltyTooHigh"
+    | "NoPaymentsToWithdraw"
+    | "PaymentWithdrawalFailed"
+
+export type CardMarketplaceErrorName =
+    | "MarketplaceIsPaused"
+    | "PriceTooLow"
+    | "ListingDoesNotExist"
+    | "ListingWasCancelled"
+    | "ListingWasFilled"
+    | "CallerIsNotTheSeller"
+    | "ValueTransferFailed"
+    | "CurrencyNotValid"
+    | "ProtocolFeeTooHigh"
+    | "TreasuryNotValid"
+    | "CardWasNotListed"
+    | "PriceDecayNotValid"
+    | "ListingExpiryNotValid"
+    | "ListingHasExpired"
+    | "ListingHasNotExpired"
+    | "BundleSizeNotValid"
+    | "ListingIsABundle"
+    | "ReservedBuyerNotValid"
+    | "CallerIsNotTheReservedBuyer"
+    | "OfferDoesNotExist"
+    | "OfferWasAccepted"
+    | "OfferWasWithdrawn"
+    | "OfferHasExpired"
+    | "OfferExpirationNotValid"
+    | "CallerIsNotTheBidder"
+    | "CallerIsNotTheCardOwner"
+    | "CallerIsTheCardOwner"
+    | "AuctionDoesNotExist"
+    | "AuctionDurationNotValid"
+    | "BidIncrementNotValid"
+    | "BidTooLow"
+    | "AuctionHasEnded"
+    | "AuctionHasNotEnded"
+    | "AuctionWasSettled"
+    | "OrderHasExpired"
+    | "OrderWasFilled"
+    | "OrderWasCancelled"
+    | "OrderNonceNotValid"
+    | "SignatureNotValid"
+    | "CallerIsNotTheSigner"
+    | "DepositTooLow"
+    | "NoPaymentsToWithdraw"
+    | "PaymentWithdrawalFailed"
+
+export type MeetingRoomErrorName =
+    | "InvalidBetLimits"
+    | "InvalidBetAmount"
+    | "InvalidTimeToMeetingStart"
+    | "InvalidMeetingDuration"
+    | "MeetingOngoing"
+    | "MeetingFull"
+    | "MeetingFinished"
+    | "MeetingNotStarted"
+    | "MeetingHasEnded"
+    | "WinnerBeingDrawn"
+    | "CallerIsNotTheCoordinator"
+    | "RandomnessRequestNotValid"
+    | "CardCommitmentDoesNotMatch"
+    | "CardAlreadyRevealed"
+    | "RevealedCardDoesNotMatch"
+    | "CallerDoesNotOwnCard"
+    | "NoPaymentsToWithdraw"
+    | "PaymentWithdrawalFailed"
+
+/**
+ * A custom error the smart contracts reverted with.
+ */
+export class ContractError<T extends string = string> extends Error {
+    constructor(readonly contractName: string, readonly errorName: T, readonly args: utils.Result, readonly cause?: unknown) {
+        super(`${contractName} reverted with ${errorName}`)
+        this.name = "ContractError"
+    }
+}
+
+export class BusinessCardError extends ContractError<BusinessCardErrorName> {
+    constructor(errorName: BusinessCardErrorName, args: utils.Result, cause?: unknown) {
+        super("BusinessCard", errorName, args, cause)
+        this.name = "BusinessCardError"
+    }
+}
+
+export class CardMarketplaceError extends ContractError<CardMarketplaceErrorName> {
+    constructor(errorName: CardMarketplaceErrorName, args: utils.Result, cause?: unknown) {
+        super("CardMarketplace", errorName, args, cause)
+        this.name = "CardMarketplaceError"
+    }
+}
+
+export class MeetingRoomError extends ContractError<MeetingRoomErrorName> {
+    constructor(errorName: MeetingRoomErrorName, args: utils.Result, cause?: unknown) {
+        super("MeetingRoom", errorName, args, cause)
+        this.name = "MeetingRoomError"
+    }
+}
+
+/**
+ * Thrown before sending a transaction, when its inputs would make the smart contracts revert.
+ */
+export class ValidationError extends Error {
+    constructor(readonly field: string, message: string) {
+        super(message)
+        this.name = "ValidationError"
+    }
+}
+
+export type ErrorDecoder = {
+    contractInterface: utils.Interface
+    create: (errorName: string, args: utils.Result, cause: unknown) => ContractError
+}
+
+export const businessCardErrors = (contractInterface: utils.Interface): ErrorDecoder => ({
+    contractInterface,
+    create: (errorName, args, cause) => new BusinessCardError(errorName as BusinessCardErrorName, args, cause)
+})
+
+export const cardMarketplaceErrors = (contractInterface: utils.Interface): ErrorDecoder => ({
+    contractInterface,
+    create: (errorName, args, cause) => new CardMarketplaceError(errorName as CardMarketplaceErrorName, args, cause)
+})
+
+export const meetingRoomErrors = (contractInterface: utils.Interface): ErrorDecoder => ({
+    contractInterface,
+    create: (errorName, args, cause) => new MeetingRoomError(errorName as MeetingRoomErrorName, args, cause)
+})
+
+/**
+ * Shape of the errors thrown by ethers and the JSON-RPC providers, which nest the error they wrap under `error`.
+ */
+type NestedError = { data?: unknown, error?: unknown }
+
+const isNestedError = (error: unknown): error is NestedError => typeof error === "object" && error !== null
+
+/**
+ * Finds the revert data within the nested errors thrown by ethers and the different JSON-RPC providers.
+ */
+export const getRevertData = (error: unknown): string | undefined => {
+    for (let current = error, depth = 0; isNestedError(current) && depth < 5; depth++) {
+        const data = isNestedError(current.data) ? current.data.data : current.data
+
+        if (typeof data === "string" && utils.isHexString(data) && data.length >= 10) {
+            return data
+        }
+
+        current = current.error
+    }
+
+    return undefined
+}
+
+/**
+ * Decodes the custom error a call reverted with, trying every decoder in order since reverts bubble up through
+ * contract calls (e.g. `CardMarketplace.buyAndUpdateListedCard` reverting with `BusinessCard.NameIsTaken`).
+ * Errors that cannot be decoded are returned as is.
+ */
+export const decodeContractError = (error: unknown, decoders: ErrorDecoder[]): unknown => {
+    const data = getRevertData(error)
+
+    if (!data) return error
+
+    for (const { contractInterface, create } of decoders) {
+        try {
+            const { name, args } = contractInterface.parseError(data)
+
+            return create(name, args, error)
+        } catch {
+            continue
+        }
+    }
+
+    return error
+}
+
+/**
+ * Runs `fn`, rethrowing its errors decoded. See `decodeContractError`.
+ */
+export const withDecodedErrors = async <T>(decoders: ErrorDecoder[], fn: () => Promise<T>): Promise<T> => {
+    try {
+        return await fn()
+    } catch (error) {
+        throw decodeContractError(error, decoders)
+    }
+}
@@ -0,0 +1,14 @@
+export * from "./business-card"
+export * from "./card-maestro"
+export * from "./card-marketplace"
+export * from "./chances"
+export * from "./commitments"
+export * from "./constants"
+export * from "./draws"
+export * from "./errors"
+export * from "./meeting-room"
+export * from "./names"
+export * from "./orders"
+export * from "./requests"
+export * from "./string-utils"
+export * from "./validation"
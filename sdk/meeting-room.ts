@@ -0,0 +1,182 @@
+import { BigNumber, BigNumberish, ContractReceipt, ContractTransaction, Overrides } from "ethers"
+import type { BusinessCard, MeetingRoom } from "../typechain-types"
+import type { MeetingStructOutput } from "../typechain-types/contracts/MeetingRoom"
+import { CardCommitment, CommitmentStore, computeCardCommitment, generateSalt } from "./commitments"
+import { MAXIMUM_MEETING_PARTICIPANTS } from "./constants"
+import { MeetingRoomError, businessCardErrors, meetingRoomErrors, withDecodedErrors } from "./errors"
+import { assertValidMeeting } from "./validation"
+
+/**
+ * High-level client for the Meeting Room smart contract.
+ */
+export class MeetingRoomClient {
+    /**
+     * @param contract Meeting Room smart contract, connected to the signer sending the transactions.
+     * @param businessCard Business Card smart contract, used to decode the errors bubbling up from it.
+     * @param commitments Store where the salts of the cards committed with `createWithCard` and `joinWithCard` are kept.
+     */
+    constructor(readonly contract: MeetingRoom, readonly businessCard: BusinessCard, readonly commitments?: CommitmentStore) {}
+
+    /**
+     * Creates a new Meeting Room, betting `betAmount`.
+     * @param timeToMeetingStart Time, in minutes, until the meeting starts.
+     * @param meetingDuration Duration, in minutes, of the meeting.
+     */
+    async create(
+        cardCommitment: BigNumberish,
+        timeToMeetingStart: number,
+        meetingDuration: number,
+        betAmount: BigNumberish,
+        overrides: Overrides = {}
+    ): Promise<ContractTransaction> {
+        assertValidMeeting(timeToMeetingStart, meetingDuration, betAmount)
+
+        return this.withDecodedErrors(() =>
+            this.contract.createMeetingRoom(cardCommitment, timeToMeetingStart, meetingDuration, { ...overrides, value: betAmount })
+        )
+    }
+
+    /**
+     * Joins a Meeting Room, betting the same amount as its creator.
+     */
+    async join(roomId: BigNumberish, cardCommitment: BigNumberish, overrides: Overrides = {}): Promise<ContractTransaction> {
+        const meeting = await this.getMeeting(roomId)
+
+        if (meeting.participants.gte(MAXIMUM_MEETING_PARTICIPANTS)) {
+            throw new MeetingRoomError("MeetingFull", [])
+        }
+
+        return this.withDecodedErrors(() =>
+            this.contract.joinMeetingRoom(roomId, cardCommitment, { ...overrides, value: meeting.betAmount })
+        )
+    }
+
+    async reveal(
+        roomId: BigNumberish,
+        cardCommitment: BigNumberish,
+        cardId: BigNumberish,
+        salt: BigNumberish,
+        overrides: Overrides = {}
+    ): Promise<ContractTransaction> {
+        return this.withDecodedErrors(() => this.contract.revealCard(roomId, cardCommitment, cardId, salt, overrides))
+    }
+
+    /**
+     * Creates a new Meeting Room committing `cardId` with a random salt. The commitment is persisted before sending the
+     * transaction, so the card can be revealed even if the process stops before the room ID is known, see `recoverRoomId`.
+     */
+    async createWithCard(
+        cardId: BigNumberish,
+        timeToMeetingStart: number,
+        meetingDuration: number,
+        betAmount: BigNumberish,
+        overrides: Overrides = {}
+    ): Promise<CardCommitment> {
+        const commitment = await this.commit(cardId)
+
+        const receipt = await (await this.create(commitment.commitment, timeToMeetingStart, meetingDuration, betAmount, overrides)).wait()
+        const event = receipt.events?.find(({ event }) => event === "MeetingRoomCreated")
+
+        return this.saveCommitment({ ...commitment, roomId: event?.args?.roomId.toString() })
+    }
+
+    /**
+     * Joins a Meeting Room committing `cardId` with a random salt, which is persisted before sending the transaction.
+     * The room ID is only persisted once the room is joined, so that a failed join leaves no commitment to reveal.
+     */
+    async joinWithCard(roomId: BigNumberish, cardId: BigNumberish, overrides: Overrides = {}): Promise<CardCommitment> {
+        const commitment = await this.commit(cardId)
+
+        await (await this.join(roomId, commitment.commitment, overrides)).wait()
+
+        return this.saveCommitment({ ...commitment, roomId: roomId.toString() })
+    }
+
+    /**
+     * Looks up the ID of the Meeting Room a persisted commitment was created or joined with, from the `MeetingRoomCreated`
+     * and `MeetingRoomJoined` events of its player, and persists it. Returns the commitment unchanged if its room ID is
+     * already known or no room was created or joined with it.
+     * @param fromBlock Block from which to look for the events.
+     */
+    async recoverRoomId(commitment: CardCommitment, fromBlock = 0): Promise<CardCommitment> {
+        if (commitment.roomId !== undefined) return commitment
+
+        const isPlayer = (address: string) => address.toLowerCase() === commitment.player.toLowerCase()
+
+        const [created, joined] = await Promise.all([
+            this.contract.queryFilter(this.contract.filters.MeetingRoomCreated(), fromBlock),
+            this.contract.queryFilter(this.contract.filters.MeetingRoomJoined(), fromBlock)
+        ])
+        const event =
+            created.find(({ args }) => args.cardCommitment.eq(commitment.commitment) && isPlayer(args.chairman)) ??
+            joined.find(({ args }) => args.cardCommitment.eq(commitment.commitment) && isPlayer(args.participant))
+
+        return event ? this.saveCommitment({ ...commitment, roomId: event.args.roomId.toString() }) : commitment
+    }
+
+    /**
+     * Reveals a persisted commitment and marks it as revealed, recovering its room ID first if it is unknown.
+     */
+    async revealCommitment(commitment: CardCommitment, overrides: Overrides = {}): Promise<ContractReceipt> {
+        const { roomId, cardId, salt } = await this.recoverRoomId(commitment)
+
+        if (roomId === undefined) {
+            throw new Error(`The Meeting Room of commitment ${commitment.commitment} is unknown`)
+        }
+
+        const receipt = await (await this.reveal(roomId, commitment.commitment, cardId, salt, overrides)).wait()
+
+        await this.saveCommitment({ ...commitment, roomId, revealed: true })
+
+        return receipt
+    }
+
+    async finish(roomId: BigNumberish, overrides: Overrides = {}): Promise<ContractTransaction> {
+        return this.withDecodedErrors(() => this.contract.finishMeeting(roomId, overrides))
+    }
+
+    /**
+     * Withdraws the prizes of the meetings the signer won.
+     */
+    async withdrawPayments(overrides: Overrides = {}): Promise<ContractTransaction> {
+        return this.withDecodedErrors(() => this.contract.withdrawPayments(overrides))
+    }
+
+    async getPayments(payee: string): Promise<BigNumber> {
+        return this.contract.payments(payee)
+    }
+
+    async getMeeting(roomId: BigNumberish): Promise<MeetingStructOutput> {
+        return this.contract.getMeetingRoom(roomId)
+    }
+
+    private async commit(cardId: BigNumberish): Promise<CardCommitment> {
+        const salt = generateSalt()
+
+        return this.saveCommitment({
+            meetingRoom: this.contract.address,
+            player: await this.contract.signer.getAddress(),
+            cardId: cardId.toString(),
+            salt: salt.toString(),
+            commitment: computeCardCommitment(cardId, salt).toString(),
+            revealed: false
+        })
+    }
+
+    private async saveCommitment(commitment: CardCommitment): Promise<CardCommitment> {
+        if (!this.commitments) {
+            throw new Error("A commitment store is required to manage card commitments")
+        }
+
+        await this.commitments.save(commitment)
+
+        return commitment
+    }
+
+    private withDecodedErrors<T>(fn: () => Promise<T>): Promise<T> {
+        return withDecodedErrors(
+            [meetingRoomErrors(this.contract.interface), businessCardErrors(this.businessCard.interface)],
+            fn
+        )
+    }
+}
@@ -0,0 +1,169 @@
+import { BigNumber } from "ethers"
+import type { BusinessCard } from "../typechain-types"
+import type { BusinessCardErrorName } from "./errors"
+import { MAX_NAME_CHARACTERS, getNameError, toLower } from "./string-utils"
+
+export type NameAvailability = {
+    name: string
+    /** Error `getCard` would revert with because of the name format, if any. */
+    error?: BusinessCardErrorName
+    reserved: boolean
+    available: boolean
+}
+
+/**
+ * Reserved names, rebuilt from the request events of the Business Card smart contract.
+ */
+export type ReservedNameIndex = {
+    /** Reserved names, lowercased like the smart contract stores them. */
+    reservedNames: Set<string>
+    /** Current name of every Business Card, by card ID. */
+    cardNames: Map<string, string>
+}
+
+export type NameDivergence = {
+    cardId: string
+    /** Name according to the rebuilt index, undefined if the card is missing from it. */
+    indexedName?: string
+    /** Name according to `getCardStats`. */
+    onChainName: string
+    /** Whether `isNameReserved` returns true for the indexed name. */
+    reserved: boolean
+}
+
+/**
+ * Checks whether each of the given names could be used to mint a Business Card.
+ */
+export const checkNames = async (businessCard: BusinessCard, names: string[]): Promise<NameAvailability[]> =>
+    Promise.all(names.map(async (name) => {
+        const error = getNameError(name)
+        const reserved = error ? false : await businessCard.isNameReserved(name)
+
+        return { name, error, reserved, available: !error && !reserved }
+    }))
+
+const NAME_SUFFIXES = ["Jr.", "II", "III", "IV", "Sr.", "Esq."]
+
+/**
+ * Generates valid variants of a name, in order of preference: with a suffix, with an initial, and numbered.
+ */
+export const getNameVariants = (name: string): string[] => {
+    const words = name.trim().split(/ +/)
+    const lastWord = words[words.length - 1]
+
+    const variants = [
+        ...NAME_SUFFIXES.map((suffix) => `${words.join(" ")} ${suffix}`),
+        ...(words.length > 1 ? [`${words[0][0]}. ${words.slice(1).join(" ")}`] : []),
+        ...Array.from({ length: 9 }, (_, i) => `${words.join(" ")} ${i + 2}`),
+        ...Array.from({ length: 9 }, (_, i) => `${words.slice(0, -1).concat(lastWord.slice(0, MAX_NAME_CHARACTERS - 2)).join(" ")} ${i + 2}`)
+    ]
+
+    const seen = new Set<string>()
+
+    return variants.filter((variant) => {
+        if (getNameError(variant) || seen.has(toLower(variant))) return false
+
+        seen.add(toLower(variant))
+        return true
+    })
+}
+
+/**
+ * Suggests available variants of a name that is taken.
+ * @param count Maximum number of suggestions.
+ */
+export const suggestNames = async (businessCard: BusinessCard, name: string, count = 3): Promise<string[]> => {
+    const availability = await checkNames(businessCard, getNameVariants(name))
+
+    return availability.filter(({ available }) => available).slice(0, count).map(({ name }) => name)
+}
+
+/**
+ * Rebuilds the reserved names, which the smart contract keeps in a private mapping, by replaying its requests:
+ * every `CardDataUpdateRequest` with a name releases the previous name of the card and reserves the new one, while
+ * every `CardDataSwapRequest` swaps the names of both cards.
+ */
+export const rebuildReservedNames = async (
+    businessCard: BusinessCard,
+    fromBlock = 0,
+    toBlock: number | string = "latest"
+): Promise<ReservedNameIndex> => {
+    const [updates, swaps] = await Promise.all([
+        businessCard.queryFilter(businessCard.filters.CardDataUpdateRequest(), fromBlock, toBlock),
+        businessCard.queryFilter(businessCard.filters.CardDataSwapRequest(), fromBlock, toBlock)
+    ])
+
+    const events = [...updates, ...swaps].sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex)
+
+    const reservedNames = new Set<string>()
+    const cardNames = new Map<string, string>()
+
+    for (const event of events) {
+        if (event.event === "CardDataUpdateRequest") {
+            const { cardId, cardName } = event.args as { cardId: BigNumber, cardName: string }
+
+            // Updates without a name keep the current one
+            if (cardName.length === 0) continue
+
+            const previousName = cardNames.get(cardId.toString())
+            if (previousName !== undefined) {
+                reservedNames.delete(toLower(previousName))
+            }
+
+            reservedNames.add(toLower(cardName))
+            cardNames.set(cardId.toString(), cardName)
+        } else {
+            const { cardId1, cardId2 } = event.args as { cardId1: BigNumber, cardId2: BigNumber }
+
+            const name1 = cardNames.get(cardId1.toString())
+            const name2 = cardNames.get(cardId2.toString())
+
+            if (name2 !== undefined) cardNames.set(cardId1.toString(), name2)
+            if (name1 !== undefined) cardNames.set(cardId2.toString(), name1)
+        }
+    }
+
+    return { reservedNames, cardNames }
+}
+
+/** Number of cards `findNameDivergences` checks at once, each costing three calls to the provider. */
+const DIVERGENCE_BATCH_SIZE = 20
+
+/**
+ * Compares a rebuilt index against `getCardStats` and `isNameReserved` for every minted Business Card.
+ * @param batchSize Number of cards checked at once, to bound the calls in flight to the provider.
+ * @returns The cards whose indexed name does not match the on-chain state.
+ */
+export const findNameDivergences = async (
+    businessCard: BusinessCard,
+    index: ReservedNameIndex,
+    batchSize = DIVERGENCE_BATCH_SIZE
+): Promise<NameDivergence[]> => {
+    if (!Number.isInteger(batchSize) || batchSize < 1) {
+        throw new Error(`Invalid batch size ${batchSize}`)
+    }
+
+    const totalSupply = (await businessCard.totalSupply()).toNumber()
+
+    const findDivergence = async (i: number): Promise<NameDivergence | undefined> => {
+        const cardId = (await businessCard.tokenByIndex(i)).toString()
+
+        const indexedName = index.cardNames.get(cardId)
+        const onChainName = (await businessCard.getCardStats(cardId)).name
+        const reserved = indexedName !== undefined && await businessCard.isNameReserved(indexedName)
+
+        return indexedName === onChainName && reserved ? undefined : { cardId, indexedName, onChainName, reserved }
+    }
+
+    const divergences: NameDivergence[] = []
+
+    for (let start = 0; start < totalSupply; start += batchSize) {
+        const batch = Array.from({ length: Math.min(batchSize, totalSupply - start) }, (_, i) => findDivergence(start + i))
+
+        for (const divergence of await Promise.all(batch)) {
+            if (divergence) divergences.push(divergence)
+        }
+    }
+
+    return divergences
+}
@@ -0,0 +1,117 @@
+import { BigNumberish, Signer, TypedDataDomain, TypedDataField, utils } from "ethers"
+import type { CardMarketplace } from "../typechain-types"
+
+/**
+ * A sell order signed off-chain by the owner of a Business Card, filled on-chain by `CardMarketplace.fillSellOrder`.
+ */
+export type SellOrder = {
+    seller: string
+    cardId: BigNumberish
+    price: BigNumberish
+    /** Timestamp, in seconds, from which the order can no longer be filled. */
+    expiresAt: BigNumberish
+    /** Nonce of the seller when signing, orders with a previous nonce are cancelled by `cancelAllOrders`. */
+    nonce: BigNumberish
+    salt: BigNumberish
+}
+
+/**
+ * A buy order signed off-chain by a bidder, accepted on-chain by `CardMarketplace.acceptBuyOrder` and paid from the
+ * deposit of the bidder.
+ */
+export type BuyOrder = {
+    buyer: string
+    cardId: BigNumberish
+    price: BigNumberish
+    /** Timestamp, in seconds, from which the order can no longer be accepted. */
+    expiresAt: BigNumberish
+    /** Nonce of the buyer when signing, orders with a previous nonce are cancelled by `cancelAllOrders`. */
+    nonce: BigNumberish
+    salt: BigNumberish
+}
+
+export type SignedOrder<T extends SellOrder | BuyOrder> = {
+    order: T
+    signature: string
+}
+
+/**
+ * Signers able to sign EIP-712 typed data, which every ethers v5 signer backed by a private key or a JSON-RPC node is.
+ */
+export type TypedDataSigner = Signer & {
+    _signTypedData(domain: TypedDataDomain, types: Record<string, TypedDataField[]>, value: Record<string, any>): Promise<string>
+}
+
+// Must match the type hashes of `CardMarketplace`
+export const SELL_ORDER_TYPES: Record<string, TypedDataField[]> = {
+    SellOrder: [
+        { name: "seller", type: "address" },
+        { name: "cardId", type: "uint256" },
+        { name: "price", type: "uint256" },
+        { name: "expiresAt", type: "uint256" },
+        { name: "nonce", type: "uint256" },
+        { name: "salt", type: "uint256" }
+    ]
+}
+
+export const BUY_ORDER_TYPES: Record<string, TypedDataField[]> = {
+    BuyOrder: [
+        { name: "buyer", type: "address" },
+        { name: "cardId", type: "uint256" },
+        { name: "price", type: "uint256" },
+        { name: "expiresAt", type: "uint256" },
+        { name: "nonce", type: "uint256" },
+        { name: "salt", type: "uint256" }
+    ]
+}
+
+/**
+ * Gets the EIP-712 domain of a Card Marketplace deployment, orders signed for one deployment are not valid on any other.
+ */
+export const getOrderDomain = async (cardMarketplace: CardMarketplace): Promise<TypedDataDomain> => ({
+    name: "CardMarketplace",
+    version: "1",
+    chainId: (await cardMarketplace.provider.getNetwork()).chainId,
+    verifyingContract: cardMarketplace.address
+})
+
+/**
+ * Computes the hash of a sell order the way `CardMarketplace.hashSellOrder` does, which is the one emitted in its events.
+ */
+export const hashSellOrder = (domain: TypedDataDomain, order: SellOrder): string =>
+    utils._TypedDataEncoder.hash(domain, SELL_ORDER_TYPES, order)
+
+/**
+ * Computes the hash of a buy order the way `CardMarketplace.hashBuyOrder` does, which is the one emitted in its events.
+ */
+export const hashBuyOrder = (domain: TypedDataDomain, order: BuyOrder): string =>
+    utils._TypedDataEncoder.hash(domain, BUY_ORDER_TYPES, order)
+
+export const signSellOrder = async (signer: TypedDataSigner, domain: TypedDataDomain, order: SellOrder): Promise<SignedOrder<SellOrder>> =>
+    ({ order, signature: await signer._signTypedData(domain, SELL_ORDER_TYPES, order) })
+
+export const signBuyOrder = async (signer: TypedDataSigner, domain: TypedDataDomain, order: BuyOrder): Promise<SignedOrder<BuyOrder>> =>
+    ({ order, signature: await signer._signTypedData(domain, BUY_ORDER_TYPES, order) })
+
+const recoversTo = (recover: () => string, address: string): boolean => {
+    try {
+        return recover().toLowerCase() === address.toLowerCase()
+    } catch {
+        // Malformed signature
+        return false
+    }
+}
+
+/**
+ * Whether a sell order was signed by its seller. Only ECDSA signatures are checked, the marketplace also accepts
+ * EIP-1271 signatures from smart contract sellers.
+ */
+export const verifySellOrder = (domain: TypedDataDomain, { order, signature }: SignedOrder<SellOrder>): boolean =>
+    recoversTo(() => utils.verifyTypedData(domain, SELL_ORDER_TYPES, order, signature), order.seller)
+
+/**
+ * Whether a buy order was signed by its buyer. Only ECDSA signatures are checked, the marketplace also accepts
+ * EIP-1271 signatures from smart contract buyers.
+ */
+export const verifyBuyOrder = (domain: TypedDataDomain, { order, signature }: SignedOrder<BuyOrder>): boolean =>
+    recoversTo(() => utils.verifyTypedData(domain, BUY_ORDER_TYPES, order, signature), order.buyer)
@@ -0,0 +1,82 @@
+import { BigNumber } from "ethers"
+import type { BusinessCard } from "../typechain-types"
+import { REQUEST_TIMEOUT } from "./constants"
+
+export type PendingRequest = {
+    cardId: string
+    kind: "update" | "swap"
+    blockNumber: number
+    transactionHash: string
+    /** Timestamp of the block the request was made at. */
+    requestedAt: number
+    /** Timestamp from which the owner of the Business Card can cancel the request. */
+    cancellableAt: number
+}
+
+/**
+ * Finds the requests that are still pending by replaying the events of the Business Card smart contract: every
+ * `CardDataUpdateRequest` and `CardDataSwapRequest` is pending until a `CardURIUpdated` or `RequestCancelled` event
+ * for the same card.
+ */
+export const findPendingRequests = async (
+    businessCard: BusinessCard,
+    fromBlock = 0,
+    toBlock: number | string = "latest"
+): Promise<PendingRequest[]> => {
+    const [updates, swaps, callbacks, cancellations] = await Promise.all([
+        businessCard.queryFilter(businessCard.filters.CardDataUpdateRequest(), fromBlock, toBlock),
+        businessCard.queryFilter(businessCard.filters.CardDataSwapRequest(), fromBlock, toBlock),
+        businessCard.queryFilter(businessCard.filters.CardURIUpdated(), fromBlock, toBlock),
+        businessCard.queryFilter(businessCard.filters.RequestCancelled(), fromBlock, toBlock)
+    ])
+
+    const events = [...updates, ...swaps, ...callbacks, ...cancellations]
+        .sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex)
+
+    const pending = new Map<string, Pick<PendingRequest, "kind" | "blockNumber" | "transactionHash">>()
+
+    for (const { event, args, blockNumber, transactionHash } of events) {
+        const { cardId, cardId1, cardId2 } = args as { cardId?: BigNumber, cardId1?: BigNumber, cardId2?: BigNumber }
+
+        if (event === "CardDataUpdateRequest") {
+            pending.set(cardId!.toString(), { kind: "update", blockNumber, transactionHash })
+        } else if (event === "CardDataSwapRequest") {
+            pending.set(cardId1!.toString(), { kind: "swap", blockNumber, transactionHash })
+            pending.set(cardId2!.toString(), { kind: "swap", blockNumber, transactionHash })
+        } else {
+            pending.delete(cardId!.toString())
+        }
+    }
+
+    const timestamps = new Map<number, number>()
+
+    for (const { blockNumber } of pending.values()) {
+        if (!timestamps.has(blockNumber)) {
+            timestamps.set(blockNumber, (await businessCard.provider.getBlock(blockNumber)).timestamp)
+        }
+    }
+
+    return [...pending].map(([cardId, request]) => ({
+        cardId,
+        ...request,
+        requestedAt: timestamps.get(request.blockNumber)!,
+        cancellableAt: timestamps.get(request.blockNumber)! + REQUEST_TIMEOUT
+    }))
+}
+
+/**
+ * @param maxPendingTime Time, in seconds, after which a pending request is considered stuck.
+ * @param blockTag Block the requests are looked up at.
+ * @returns The pending requests made more than `maxPendingTime` before the `blockTag` block.
+ */
+export const findStuckRequests = async (
+    businessCard: BusinessCard,
+    fromBlock = 0,
+    maxPendingTime = REQUEST_TIMEOUT,
+    blockTag: number | string = "latest"
+): Promise<PendingRequest[]> => {
+    const { number, timestamp } = await businessCard.provider.getBlock(blockTag)
+
+    return (await findPendingRequests(businessCard, fromBlock, number))
+        .filter(({ requestedAt }) => requestedAt + maxPendingTime <= timestamp)
+}
@@ -0,0 +1,102 @@
+import { utils } from "ethers"
+import { MAX_PROPERTY_LENGTHS } from "./constants"
+import type { BusinessCardErrorName } from "./errors"
+import type { CardProperties } from "./validation"
+
+// Mirrors `contracts/libs/Utils.sol`, working on the UTF-8 bytes of the strings just like the smart contracts do
+
+export const MAX_NAME_CHARACTERS = 22
+export const MAX_POSITION_CHARACTERS = 32
+
+const SPACE = 0x20
+
+/**
+ * Outcome of `StringUtils.validateName` and `StringUtils.validatePosition`: they either return true, return false
+ * or revert with `NonValidCharacters`.
+ */
+export type StringValidation = "valid" | "invalid" | "NonValidCharacters"
+
+/**
+ * Mirrors `StringUtils.validateStringBytes`: whether the string only contains 0x20-0x3F, A-Z and a-z, with no continuous spaces.
+ */
+export const validateStringBytes = (stringBytes: Uint8Array): boolean => {
+    let lastChar = stringBytes[0]
+
+    for (const char of stringBytes) {
+        if (char === SPACE && lastChar === SPACE) return false
+
+        if (
+            !(char >= 0x20 && char <= 0x3F) &&
+            !(char >= 0x41 && char <= 0x5A) &&
+            !(char >= 0x61 && char <= 0x7A)
+        ) return false
+
+        lastChar = char
+    }
+
+    return true
+}
+
+const validateString = (value: string, maxCharacters: number): StringValidation => {
+    const stringBytes = utils.toUtf8Bytes(value)
+
+    if (
+        stringBytes.length === 0 || stringBytes.length > maxCharacters ||
+        stringBytes[0] === SPACE || stringBytes[stringBytes.length - 1] === SPACE
+    ) return "invalid"
+
+    return validateStringBytes(stringBytes) ? "valid" : "NonValidCharacters"
+}
+
+/**
+ * Mirrors `StringUtils.validateName`.
+ */
+export const validateName = (name: string): StringValidation => validateString(name, MAX_NAME_CHARACTERS)
+
+/**
+ * Mirrors `StringUtils.validatePosition`.
+ */
+export const validatePosition = (position: string): StringValidation => validateString(position, MAX_POSITION_CHARACTERS)
+
+/**
+ * Mirrors `StringUtils.toLower`, which only folds A-Z. This is the key reserved names are stored under.
+ */
+export const toLower = (value: string): string => utils.toUtf8String(
+    utils.toUtf8Bytes(value).map((char) => char >= 0x41 && char <= 0x5A ? char + 32 : char)
+)
+
+/**
+ * Returns the error `getCard` or `updateCardData` revert with for the given name, if any. Names are optional
+ * when updating. Whether the name is taken is checked right after this.
+ */
+export const getNameError = (cardName: string, isUpdate = false): BusinessCardErrorName | undefined => {
+    if (isUpdate && cardName.length === 0) return undefined
+
+    const validation = validateName(cardName)
+
+    if (validation === "invalid") return "NameNotValid"
+    if (validation === "NonValidCharacters") return "NonValidCharacters"
+
+    return undefined
+}
+
+/**
+ * Returns the error `getCard` or `updateCardData` revert with for the given position and properties, if any.
+ * Positions are optional when updating.
+ */
+export const getPropertiesError = (cardProperties: CardProperties, isUpdate = false): BusinessCardErrorName | undefined => {
+    if (!isUpdate || cardProperties.position.length !== 0) {
+        const validation = validatePosition(cardProperties.position)
+
+        if (validation === "invalid") return "PositionNotValid"
+        if (validation === "NonValidCharacters") return "NonValidCharacters"
+    }
+
+    for (const [property, maxLength] of Object.entries(MAX_PROPERTY_LENGTHS)) {
+        if (utils.toUtf8Bytes(cardProperties[property as keyof typeof MAX_PROPERTY_LENGTHS]).length > maxLength) {
+            return "PropertiesNotValid"
+        }
+    }
+
+    return undefined
+}
@@ -0,0 +1,124 @@
+import { BigNumber, BigNumberish, constants } from "ethers"
+import type { BusinessCard } from "../typechain-types"
+import {
+    MAX_AUCTION_DURATION,
+    MAX_BUNDLE_SIZE,
+    MAXIMUM_MEETING_DURATION,
+    MAXIMUM_TIME_TO_MEETING_START,
+    MIN_AUCTION_DURATION,
+    MIN_LISTING_PRICE,
+    MINIMUM_MEETING_DURATION,
+    MINIMUM_TIME_TO_MEETING_START
+} from "./constants"
+import { BusinessCardError, ValidationError } from "./errors"
+import { getNameError, getPropertiesError } from "./string-utils"
+
+export type CardProperties = {
+    position: string
+    twitterAccount: string
+    telegramAccount: string
+    githubAccount: string
+    website: string
+}
+
+/**
+ * Throws the same error `getCard` or `updateCardData` would revert with for the given card data, checking in the same order.
+ * @param isUpdate Whether the card data is for `updateCardData`, where the name and position are optional.
+ */
+export const assertValidCardData = async (
+    businessCard: BusinessCard,
+    cardName: string,
+    cardProperties: CardProperties,
+    isUpdate = false
+): Promise<void> => {
+    const nameError = getNameError(cardName, isUpdate)
+    if (nameError) {
+        throw new BusinessCardError(nameError, [])
+    }
+
+    if (cardName.length > 0 && await businessCard.isNameReserved(cardName)) {
+        throw new BusinessCardError("NameIsTaken", [])
+    }
+
+    const propertiesError = getPropertiesError(cardProperties, isUpdate)
+    if (propertiesError) {
+        throw new BusinessCardError(propertiesError, [])
+    }
+}
+
+export const assertValidListingPrice = (price: BigNumberish): void => {
+    if (BigNumber.from(price).lt(MIN_LISTING_PRICE)) {
+        throw new ValidationError("price", `Listing price cannot be lower than ${MIN_LISTING_PRICE} wei`)
+    }
+}
+
+export const assertValidPriceDecay = (startPrice: BigNumberish, floorPrice: BigNumberish, duration: number): void => {
+    assertValidListingPrice(floorPrice)
+
+    if (BigNumber.from(floorPrice).gte(startPrice)) {
+        throw new ValidationError("floorPrice", "Floor price must be lower than the start price")
+    }
+
+    if (duration <= 0) {
+        throw new ValidationError("duration", "Price decay duration must be positive")
+    }
+}
+
+export const assertValidReservedBuyer = (reservedBuyer: string): void => {
+    if (reservedBuyer === constants.AddressZero) {
+        throw new ValidationError("reservedBuyer", "Reserved buyer cannot be the zero address")
+    }
+}
+
+export const assertValidBundle = (cardIds: BigNumberish[], price: BigNumberish): void => {
+    assertValidListingPrice(price)
+
+    if (cardIds.length < 2 || cardIds.length > MAX_BUNDLE_SIZE) {
+        throw new ValidationError("cardIds", `Bundles must have between 2 and ${MAX_BUNDLE_SIZE} Business Cards`)
+    }
+
+    if (new Set(cardIds.map((cardId) => BigNumber.from(cardId).toString())).size < cardIds.length) {
+        throw new ValidationError("cardIds", "Bundles cannot have the same Business Card twice")
+    }
+}
+
+export const assertValidOfferAmount = (amount: BigNumberish): void => {
+    if (BigNumber.from(amount).lt(MIN_LISTING_PRICE)) {
+        throw new ValidationError("amount", `Offer amount cannot be lower than ${MIN_LISTING_PRICE} wei`)
+    }
+}
+
+export const assertValidAuction = (reservePrice: BigNumberish, minBidIncrement: BigNumberish, duration: number): void => {
+    assertValidListingPrice(reservePrice)
+
+    if (BigNumber.from(minBidIncrement).isZero()) {
+        throw new ValidationError("minBidIncrement", "Minimum bid increment cannot be zero")
+    }
+
+    if (duration < MIN_AUCTION_DURATION || duration > MAX_AUCTION_DURATION) {
+        throw new ValidationError(
+            "duration",
+            `Auction duration must be between ${MIN_AUCTION_DURATION} and ${MAX_AUCTION_DURATION} seconds`
+        )
+    }
+}
+
+export const assertValidMeeting = (timeToMeetingStart: number, meetingDuration: number, betAmount: BigNumberish): void => {
+    if (BigNumber.from(betAmount).isZero()) {
+        throw new ValidationError("betAmount", "Bet amount cannot be zero")
+    }
+
+    if (timeToMeetingStart < MINIMUM_TIME_TO_MEETING_START || timeToMeetingStart > MAXIMUM_TIME_TO_MEETING_START) {
+        throw new ValidationError(
+            "timeToMeetingStart",
+            `Time to meeting start must be between ${MINIMUM_TIME_TO_MEETING_START} and ${MAXIMUM_TIME_TO_MEETING_START} minutes`
+        )
+    }
+
+    if (meetingDuration < MINIMUM_MEETING_DURATION || meetingDuration > MAXIMUM_MEETING_DURATION) {
+        throw new ValidationError(
+            "meetingDuration",
+            `Meeting duration must be between ${MINIMUM_MEETING_DURATION} and ${MAXIMUM_MEETING_DURATION} minutes`
+        )
+    }
+}
@@ -0,0 +1,47 @@
+import { task } from "hardhat/config"
+import type { BusinessCard } from "../typechain-types"
+import { CardScore, PRECISION, getMatchup } from "../sdk"
+import { TRAIT_NAMES, Trait } from "../metadata"
+
+const formatScore = (cardId: string, { traits, traitPoints, bonuses, score }: CardScore): string[] => [
+    `Card #${cardId}: ${score} points`,
+    ...(Object.keys(traitPoints) as Trait[]).map((trait) =>
+        `    ${TRAIT_NAMES[trait]}: ${traits[trait]} (${traitPoints[trait] >= 0 ? "+" : ""}${traitPoints[trait]})`
+    ),
+    `    ${TRAIT_NAMES.phoneNumber}: ${traits.phoneNumber}`,
+    ...bonuses.map(({ name, points }) => `    Bonus, ${name}: +${points}`)
+]
+
+task("cardmaestro:matchup", "Breaks down the chances two Business Cards have against each other")
+    .addParam<string>("businessCardAddress", "Address for the Business Card smart contract.")
+    .addParam<string>("cardIdA", "ID of the first Business Card.")
+    .addParam<string>("cardIdB", "ID of the second Business Card.")
+    .addOptionalParam<boolean>("logs", "Print logs")
+    .setAction(
+        async (
+            {
+                businessCardAddress,
+                cardIdA,
+                cardIdB,
+                logs
+            },
+            { ethers }
+        ): Promise<any> => {
+            const businessCard = await ethers.getContractAt("BusinessCard", businessCardAddress) as BusinessCard
+
+            const matchup = getMatchup(await businessCard.getCardGenes(cardIdA), await businessCard.getCardGenes(cardIdB))
+
+            if (logs) {
+                const percentage = (chance: typeof matchup.chanceA) => `${(chance.toNumber() * 100 / PRECISION).toFixed(4)}%`
+
+                console.log([
+                    ...formatScore(cardIdA, matchup.a),
+                    ...formatScore(cardIdB, matchup.b),
+                    `Card #${cardIdA} wins ${percentage(matchup.chanceA)} of the time against card #${cardIdB}`,
+                    `Card #${cardIdB} wins ${percentage(matchup.chanceB)} of the time against card #${cardIdA}`
+                ].join("\n"))
+            }
+
+            return matchup
+        }
+    )
@@ -0,0 +1,76 @@
+import { task, types } from "hardhat/config"
+import type { BusinessCard, CardMarketplace, DorsiaClubToken } from "../typechain-types"
+import { checkDeployment, getManifestPath, loadManifest } from "../deployment"
+
+task("check:deployment", "Checks the invariants of the deployment recorded in the manifest of the network")
+    .addOptionalParam<string>("manifestDir", "Directory where the deployment manifest of each network is kept.", "deployments")
+    .addOptionalParam<boolean>("expectSaleStarted", "Expected state of the Business Card sale", true, types.boolean)
+    .addOptionalParam<boolean>("expectMarketplaceActive", "Expected state of the Card Marketplace", true, types.boolean)
+    .addOptionalParam<string>("minOracleBalance", "Minimum balance, in ether, the oracle needs to send the callbacks.", "0.01")
+    .addOptionalParam<number>("maxPendingTime", "Time, in seconds, after which a pending request is considered stuck.", 3600, types.int)
+    .addOptionalParam<boolean>("logs", "Print the outcome of each check on top of the JSON report")
+    .setAction(
+        async (
+            {
+                manifestDir,
+                expectSaleStarted,
+                expectMarketplaceActive,
+                minOracleBalance,
+                maxPendingTime,
+                logs
+            },
+            { ethers, network }
+        ): Promise<any> => {
+            const manifestPath = getManifestPath(manifestDir, network.name)
+            const manifest = await loadManifest(manifestPath)
+            const { chainId } = await ethers.provider.getNetwork()
+
+            if (!manifest) {
+                throw new Error(`There is no deployment manifest at ${manifestPath}`)
+            }
+
+            if (manifest.chainId !== chainId) {
+                throw new Error(`The deployment manifest at ${manifestPath} is for chain ${manifest.chainId}, not ${chainId}`)
+            }
+
+            const { BusinessCard, CardMarketplace, DorsiaClubToken } = manifest.contracts
+
+            if (!BusinessCard || !CardMarketplace || !DorsiaClubToken) {
+                throw new Error(`The deployment manifest at ${manifestPath} is incomplete`)
+            }
+
+            const report = await checkDeployment(
+                {
+                    businessCard: await ethers.getContractAt("BusinessCard", BusinessCard.address) as BusinessCard,
+                    cardMarketplace: await ethers.getContractAt("CardMarketplace", CardMarketplace.address) as CardMarketplace,
+                    dct: await ethers.getContractAt("DorsiaClubToken", DorsiaClubToken.address) as DorsiaClubToken
+                },
+                {
+                    fromBlock: BusinessCard.blockNumber,
+                    expectSaleStarted,
+                    expectMarketplaceActive,
+                    minOracleBalance: ethers.utils.parseEther(minOracleBalance),
+                    maxPendingTime
+                }
+            )
+
+            const result = { network: network.name, chainId, ...report }
+
+            // The JSON report is the only thing printed to stdout, so that it can be piped to other tools
+            console.log(JSON.stringify(result, null, 4))
+
+            if (logs) {
+                for (const { name, ok, details } of report.checks) {
+                    console.error(`${ok ? "OK  " : "FAIL"} ${name}${ok ? "" : `: ${JSON.stringify(details)}`}`)
+                }
+
+                console.error(`${network.name} deployment ${report.ok ? "passed" : "failed"} its checks at block ${report.blockNumber}`)
+            }
+
+            if (!report.ok) {
+                process.exitCode = 1
+            }
+
+            return result
+        }
+    )
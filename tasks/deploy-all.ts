@@ -0,0 +1,130 @@
+import { Contract } from "ethers"
+import { task } from "hardhat/config"
+import type { BusinessCard, CardMarketplace, MeetingRoom } from "../typechain-types"
+import { DeployedContractName, DeploymentManifest, getManifestPath, loadManifest, saveManifest } from "../deployment"
+
+task("deploy:all", "Deploys and wires together the Business Card, Card Marketplace and Meeting Room smart contracts")
+    .addParam<string>("baseUri", "Base URI for all Business Cards.")
+    .addParam<string>("defaultUri", "Default URI for unminted/unprocessed Business Cards.")
+    .addParam<string>("oracleAddress", "Initial address for the oracle.")
+    .addOptionalParam<string>("randomnessCoordinatorAddress", "Coordinator the Meeting Room requests random words from.")
+    .addOptionalParam<string>("manifestDir", "Directory where the deployment manifest of each network is kept.", "deployments")
+    .addOptionalParam<boolean>("logs", "Print logs")
+    .setAction(
+        async (
+            {
+                baseUri,
+                defaultUri,
+                oracleAddress,
+                randomnessCoordinatorAddress,
+                manifestDir,
+                logs
+            },
+            { ethers, network }
+        ): Promise<any> => {
+            const manifestPath = getManifestPath(manifestDir, network.name)
+            const { chainId } = await ethers.provider.getNetwork()
+
+            const storedManifest = await loadManifest(manifestPath)
+            const manifest: DeploymentManifest = storedManifest?.chainId === chainId
+                ? storedManifest
+                : { network: network.name, chainId, contracts: {} }
+
+            const deployed: DeployedContractName[] = []
+
+            // Reuses the contract from the manifest if it is still on-chain and was deployed with the same arguments
+            const deploy = async (name: DeployedContractName, constructorArgs: string[]): Promise<Contract> => {
+                const previous = manifest.contracts[name]
+
+                if (
+                    previous &&
+                    JSON.stringify(previous.constructorArgs) === JSON.stringify(constructorArgs) &&
+                    await ethers.provider.getCode(previous.address) !== "0x"
+                ) {
+                    if (logs) {
+                        console.log(`Reusing ${name} deployed to: `, previous.address)
+                    }
+
+                    return ethers.getContractAt(name, previous.address)
+                }
+
+                const contract = await (await ethers.getContractFactory(name)).deploy(...constructorArgs)
+                const { transactionHash, blockNumber } = await contract.deployTransaction.wait()
+
+                manifest.contracts[name] = { address: contract.address, transactionHash, blockNumber, constructorArgs }
+                deployed.push(name)
+
+                await saveManifest(manifestPath, manifest)
+
+                if (logs) {
+                    console.log(`${name} smart contract deployed to: `, contract.address)
+                }
+
+                return contract
+            }
+
+            const businessCard = await deploy("BusinessCard", [baseUri, defaultUri, oracleAddress]) as BusinessCard
+
+            // The DCT is deployed by the Business Card constructor
+            if (deployed.includes("BusinessCard") || !manifest.contracts.DorsiaClubToken) {
+                manifest.contracts.DorsiaClubToken = {
+                    ...manifest.contracts.BusinessCard!,
+                    address: await businessCard.DCT(),
+                    constructorArgs: []
+                }
+
+                await saveManifest(manifestPath, manifest)
+            }
+
+            const cardMarketplace = await deploy("CardMarketplace", [businessCard.address]) as CardMarketplace
+            const meetingRoom = await deploy("MeetingRoom", [businessCard.address]) as MeetingRoom
+
+            if (await businessCard.marketplaceAddress() !== cardMarketplace.address) {
+                await (await businessCard.setMarketplace(cardMarketplace.address)).wait()
+
+                if (logs) {
+                    console.log("Card Marketplace connected to Business Card smart contract")
+                }
+            }
+
+            if (
+                randomnessCoordinatorAddress &&
+                await meetingRoom.randomnessCoordinator() !== ethers.utils.getAddress(randomnessCoordinatorAddress)
+            ) {
+                await (await meetingRoom.setRandomnessCoordinator(randomnessCoordinatorAddress)).wait()
+
+                if (logs) {
+                    console.log("Randomness coordinator connected to Meeting Room smart contract")
+                }
+            }
+
+            if (!(await businessCard.saleStarted())) {
+                await (await businessCard.startSale()).wait()
+
+                if (logs) {
+                    console.log("Sale of Business Cards started")
+                }
+            }
+
+            if (!(await cardMarketplace.marketplaceActive())) {
+                await (await cardMarketplace.startMarketplace()).wait()
+
+                if (logs) {
+                    console.log("Card Marketplace started")
+                }
+            }
+
+            if (logs) {
+                console.log("Deployment manifest written to: ", manifestPath)
+            }
+
+            return {
+                businessCardAddress: businessCard.address,
+                dctAddress: manifest.contracts.DorsiaClubToken!.address,
+                cardMarketplaceAddress: cardMarketplace.address,
+                meetingRoomAddress: meetingRoom.address,
+                manifestPath,
+                deployed
+            }
+        }
+    )
@@ -2,11 +2,13 @@ import { task, types } from "hardhat/config"
 
 task("deploy:meeting-room", "Deploys the Meeting Room smart contract")
     .addParam<string>("businessCardAddress", "Address for the Business Card smart contract.")
+    .addOptionalParam<string>("randomnessCoordinatorAddress", "Coordinator the Meeting Room requests random words from.")
     .addOptionalParam<boolean>("logs", "Print logs")
     .setAction(
         async (
             {
                 businessCardAddress,
+                randomnessCoordinatorAddress,
                 logs
             },
             { ethers }
@@ -17,6 +19,10 @@ task("deploy:meeting-room", "Deploys the Meeting Room smart contract")
             
             await meetingRoom.deployed()
 
+            if (randomnessCoordinatorAddress) {
+                await (await meetingRoom.setRandomnessCoordinator(randomnessCoordinatorAddress)).wait()
+            }
+
             if (logs) {
                 console.log("MeetingRoom smart contract deployed to: ", meetingRoom.address)
             }
@@ -0,0 +1,68 @@
+import { task, types } from "hardhat/config"
+import type { BusinessCard, CardMarketplace, MeetingRoom } from "../typechain-types"
+import { EventIndexer, IndexerDatabase } from "../indexer"
+
+task("indexer:start", "Indexes the Business Card, Card Marketplace and Meeting Room events into a local SQLite database")
+    .addParam<string>("businessCardAddress", "Address for the Business Card smart contract.")
+    .addOptionalParam<string>("cardMarketplaceAddress", "Address for the Card Marketplace smart contract.")
+    .addOptionalParam<string>("meetingRoomAddress", "Address for the Meeting Room smart contract.")
+    .addOptionalParam<string>("databasePath", "File where the SQLite database gets persisted.", "indexer-data/events.sqlite")
+    .addOptionalParam<number>("startBlock", "Block to start indexing from when there is no checkpoint.", 0, types.int)
+    .addOptionalParam<number>("confirmations", "Blocks an event must be buried under before being indexed.", 0, types.int)
+    .addOptionalParam<number>("pollInterval", "Time, in milliseconds, between polls for new blocks.", 4000, types.int)
+    .addOptionalParam<boolean>("once", "Indexes up to the latest block and exits", false, types.boolean)
+    .addOptionalParam<boolean>("logs", "Print logs")
+    .setAction(
+        async (
+            {
+                businessCardAddress,
+                cardMarketplaceAddress,
+                meetingRoomAddress,
+                databasePath,
+                startBlock,
+                confirmations,
+                pollInterval,
+                once,
+                logs
+            },
+            { ethers }
+        ): Promise<any> => {
+            const db = await IndexerDatabase.open(databasePath)
+
+            const indexer = new EventIndexer(
+                {
+                    businessCard: await ethers.getContractAt("BusinessCard", businessCardAddress) as BusinessCard,
+                    cardMarketplace: cardMarketplaceAddress
+                        ? await ethers.getContractAt("CardMarketplace", cardMarketplaceAddress) as CardMarketplace
+                        : undefined,
+                    meetingRoom: meetingRoomAddress
+                        ? await ethers.getContractAt("MeetingRoom", meetingRoomAddress) as MeetingRoom
+                        : undefined
+                },
+                db,
+                { startBlock, confirmations, pollInterval, logs }
+            )
+
+            try {
+                if (once) {
+                    const indexed = await indexer.poll()
+
+                    if (logs) {
+                        console.log(`Indexed ${indexed} events up to block ${db.getCheckpoint()}`)
+                    }
+
+                    return { indexed, checkpoint: db.getCheckpoint() }
+                }
+
+                if (logs) {
+                    console.log(`Indexer writing to ${databasePath}`)
+                }
+
+                process.once("SIGINT", () => indexer.stop())
+
+                await indexer.start()
+            } finally {
+                db.close()
+            }
+        }
+    )
@@ -0,0 +1,134 @@
+import { task, types } from "hardhat/config"
+import type { BusinessCard, MeetingRoom } from "../typechain-types"
+import { FileCommitmentStore, MeetingRoomClient, auditMeetingDraw, getRevealStatus } from "../sdk"
+import { sleep } from "../oracle/utils"
+
+task("meeting:reveal", "Reveals the cards committed to Meeting Rooms once their meetings have started")
+    .addParam<string>("meetingRoomAddress", "Address for the Meeting Room smart contract.")
+    .addParam<string>("businessCardAddress", "Address for the Business Card smart contract.")
+    .addOptionalParam<string>("commitmentsPath", "File where the card commitments are persisted.", "meeting-room-data/commitments.json")
+    .addOptionalParam<number>("pollInterval", "Time, in milliseconds, between checks for meetings that have started.", 15000, types.int)
+    .addOptionalParam<boolean>("watch", "Keeps running until no commitment is waiting for its meeting to start", false, types.boolean)
+    .addOptionalParam<boolean>("logs", "Print logs")
+    .setAction(
+        async (
+            {
+                meetingRoomAddress,
+                businessCardAddress,
+                commitmentsPath,
+                pollInterval,
+                watch,
+                logs
+            },
+            { ethers }
+        ): Promise<any> => {
+            const meetingRoom = await ethers.getContractAt("MeetingRoom", meetingRoomAddress) as MeetingRoom
+            const businessCard = await ethers.getContractAt("BusinessCard", businessCardAddress) as BusinessCard
+            const store = new FileCommitmentStore(commitmentsPath)
+            const signers = await ethers.getSigners()
+
+            const revealed: string[] = []
+
+            for (;;) {
+                const { timestamp } = await ethers.provider.getBlock("latest")
+                const waiting: string[] = []
+                const expired: string[] = []
+                const failed: { commitment: string, error: string }[] = []
+
+                for (const stored of await store.list()) {
+                    const signer = signers.find(({ address }) => address.toLowerCase() === stored.player.toLowerCase())
+
+                    if (
+                        stored.revealed ||
+                        !signer ||
+                        stored.meetingRoom.toLowerCase() !== meetingRoom.address.toLowerCase()
+                    ) continue
+
+                    const client = new MeetingRoomClient(meetingRoom.connect(signer), businessCard, store)
+
+                    // A commitment that cannot be revealed is reported without holding back the reveal of the others
+                    try {
+                        // The room ID is unknown if the process creating or joining the room stopped before its receipt arrived
+                        const commitment = await client.recoverRoomId(stored)
+
+                        if (commitment.roomId === undefined) continue
+
+                        const status = getRevealStatus(commitment, await client.getMeeting(commitment.roomId), timestamp)
+
+                        if (status === "due") {
+                            await client.revealCommitment(commitment)
+                            revealed.push(commitment.roomId)
+
+                            if (logs) {
+                                console.log(`Revealed card #${commitment.cardId} in Meeting Room #${commitment.roomId} as ${signer.address}`)
+                            }
+                        } else if (status === "expired") {
+                            expired.push(commitment.roomId)
+
+                            if (logs) {
+                                console.warn(`Meeting Room #${commitment.roomId} ended before card #${commitment.cardId} could be revealed`)
+                            }
+                        } else if (status === "waiting") {
+                            waiting.push(commitment.roomId)
+                        } else {
+                            // Revealed without going through the store
+                            await store.save({ ...commitment, revealed: true })
+                        }
+                    } catch (error) {
+                        failed.push({ commitment: stored.commitment, error: (error as Error).message })
+
+                        if (logs) {
+                            console.error(`Could not reveal card #${stored.cardId} committed as ${stored.commitment}: ${(error as Error).message}`)
+                        }
+                    }
+                }
+
+                if (!watch || waiting.length === 0) {
+                    return { revealed, expired, waiting, failed }
+                }
+
+                if (logs) {
+                    console.log(`Waiting for Meeting Rooms ${waiting.map((roomId) => `#${roomId}`).join(", ")} to start`)
+                }
+
+                await sleep(pollInterval)
+            }
+        }
+    )
+
+task("meeting:audit", "Replays the draw of a Meeting Room from the events of the Meeting Room smart contract")
+    .addParam<string>("meetingRoomAddress", "Address for the Meeting Room smart contract.")
+    .addParam<string>("businessCardAddress", "Address for the Business Card smart contract.")
+    .addParam<string>("roomId", "ID of the Meeting Room.")
+    .addOptionalParam<number>("fromBlock", "Block from which to look for the events of the meeting.", 0, types.int)
+    .addOptionalParam<boolean>("logs", "Print logs")
+    .setAction(
+        async (
+            {
+                meetingRoomAddress,
+                businessCardAddress,
+                roomId,
+                fromBlock,
+                logs
+            },
+            { ethers }
+        ): Promise<any> => {
+            const meetingRoom = await ethers.getContractAt("MeetingRoom", meetingRoomAddress) as MeetingRoom
+            const businessCard = await ethers.getContractAt("BusinessCard", businessCardAddress) as BusinessCard
+            const draw = await auditMeetingDraw(meetingRoom, businessCard, roomId, fromBlock)
+
+            if (!draw) {
+                throw new Error(`The winner of Meeting Room #${roomId} was not drawn yet`)
+            }
+
+            if (logs) {
+                console.log(JSON.stringify(draw, null, 4))
+            }
+
+            if (!draw.valid) {
+                process.exitCode = 1
+            }
+
+            return draw
+        }
+    )
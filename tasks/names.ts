@@ -0,0 +1,79 @@
+import { task, types } from "hardhat/config"
+import type { BusinessCard } from "../typechain-types"
+import { checkNames, findNameDivergences, rebuildReservedNames, suggestNames } from "../sdk"
+
+task("names:check", "Checks whether Business Card names are available and suggests variants for those that are not")
+    .addParam<string>("businessCardAddress", "Address for the Business Card smart contract.")
+    .addParam<string>("names", "Comma separated list of candidate names.")
+    .addOptionalParam<number>("suggestions", "Number of available variants to suggest for each unavailable name.", 3, types.int)
+    .addOptionalParam<boolean>("logs", "Print logs")
+    .setAction(
+        async (
+            {
+                businessCardAddress,
+                names,
+                suggestions,
+                logs
+            },
+            { ethers }
+        ): Promise<any> => {
+            const businessCard = await ethers.getContractAt("BusinessCard", businessCardAddress) as BusinessCard
+
+            const results = await Promise.all((await checkNames(businessCard, names.split(","))).map(async (availability) => ({
+                ...availability,
+                suggestions: availability.available ? [] : await suggestNames(businessCard, availability.name, suggestions)
+            })))
+
+            if (logs) {
+                for (const { name, error, available, suggestions } of results) {
+                    const status = available ? "available" : error ? `not valid (${error})` : "taken"
+
+                    console.log(`${name}: ${status}${suggestions.length > 0 ? `, try: ${suggestions.join(", ")}` : ""}`)
+                }
+            }
+
+            return results
+        }
+    )
+
+task("names:reserved", "Rebuilds the reserved Business Card names from the request events and checks them against the contract")
+    .addParam<string>("businessCardAddress", "Address for the Business Card smart contract.")
+    .addOptionalParam<number>("fromBlock", "Block the Business Card smart contract was deployed at.", 0, types.int)
+    .addOptionalParam<boolean>("logs", "Print logs")
+    .setAction(
+        async (
+            {
+                businessCardAddress,
+                fromBlock,
+                logs
+            },
+            { ethers }
+        ): Promise<any> => {
+            const businessCard = await ethers.getContractAt("BusinessCard", businessCardAddress) as BusinessCard
+
+            const index = await rebuildReservedNames(businessCard, fromBlock)
+            const divergences = await findNameDivergences(businessCard, index)
+
+            if (logs) {
+                console.log(`${index.reservedNames.size} reserved names:`)
+
+                for (const [cardId, name] of index.cardNames) {
+                    console.log(`    #${cardId}: ${name}`)
+                }
+
+                for (const { cardId, indexedName, onChainName } of divergences) {
+                    console.warn(`Divergence for #${cardId}: indexed as ${indexedName ?? "<missing>"}, on-chain as ${onChainName}`)
+                }
+            }
+
+            if (divergences.length > 0) {
+                process.exitCode = 1
+            }
+
+            return {
+                reservedNames: [...index.reservedNames],
+                cardNames: Object.fromEntries(index.cardNames),
+                divergences
+            }
+        }
+    )
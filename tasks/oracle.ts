@@ -0,0 +1,64 @@
+import { task, types } from "hardhat/config"
+import type { BusinessCard } from "../typechain-types"
+import { CardOracle, FileStateStore, FileSystemStore } from "../oracle"
+
+task("oracle:start", "Runs the Business Card oracle, answering update and swap requests")
+    .addParam<string>("businessCardAddress", "Address for the Business Card smart contract.")
+    .addOptionalParam<string>("storeDir", "Directory where the rendered metadata gets stored.", "oracle-data/store")
+    .addOptionalParam<string>("statePath", "File where the oracle cursor gets persisted.", "oracle-data/state.json")
+    .addOptionalParam<number>("startBlock", "Block to start scanning from when there is no persisted cursor.", 0, types.int)
+    .addOptionalParam<number>("confirmations", "Blocks a request must be buried under before being processed.", 0, types.int)
+    .addOptionalParam<number>("pollInterval", "Time, in milliseconds, between polls for new requests.", 4000, types.int)
+    .addOptionalParam<number>("retries", "Number of times a failing write or transaction is retried.", 3, types.int)
+    .addOptionalParam<boolean>("once", "Processes the pending requests and exits", false, types.boolean)
+    .addOptionalParam<boolean>("logs", "Print logs")
+    .setAction(
+        async (
+            {
+                businessCardAddress,
+                storeDir,
+                statePath,
+                startBlock,
+                confirmations,
+                pollInterval,
+                retries,
+                once,
+                logs
+            },
+            { ethers }
+        ): Promise<any> => {
+            const businessCard = await ethers.getContractAt("BusinessCard", businessCardAddress) as BusinessCard
+
+            const oracleAddress = await businessCard.oracleAddress()
+            const oracleSigner = (await ethers.getSigners()).find((signer) => signer.address === oracleAddress)
+
+            if (!oracleSigner) {
+                throw new Error(`The oracle account ${oracleAddress} is not available on this network`)
+            }
+
+            const oracle = new CardOracle(
+                businessCard.connect(oracleSigner),
+                new FileSystemStore(storeDir),
+                new FileStateStore(statePath),
+                { startBlock, confirmations, pollInterval, retries, logs }
+            )
+
+            if (once) {
+                const processed = await oracle.poll()
+
+                if (logs) {
+                    console.log(`Processed ${processed} requests`)
+                }
+
+                return { processed }
+            }
+
+            if (logs) {
+                console.log(`Oracle listening for requests to ${businessCardAddress} as ${oracleAddress}`)
+            }
+
+            process.once("SIGINT", () => oracle.stop())
+
+            await oracle.start()
+        }
+    )
@@ -0,0 +1,37 @@
+import { task, types } from "hardhat/config"
+import type { BusinessCard } from "../typechain-types"
+import { REQUEST_TIMEOUT, findStuckRequests } from "../sdk"
+
+task("requests:stuck", "Lists the Business Card requests the oracle has not answered in time")
+    .addParam<string>("businessCardAddress", "Address for the Business Card smart contract.")
+    .addOptionalParam<number>("fromBlock", "Block the Business Card smart contract was deployed at.", 0, types.int)
+    .addOptionalParam<number>("maxPendingTime", "Time, in seconds, after which a pending request is considered stuck.", REQUEST_TIMEOUT, types.int)
+    .addOptionalParam<boolean>("logs", "Print logs")
+    .setAction(
+        async (
+            {
+                businessCardAddress,
+                fromBlock,
+                maxPendingTime,
+                logs
+            },
+            { ethers }
+        ): Promise<any> => {
+            const businessCard = await ethers.getContractAt("BusinessCard", businessCardAddress) as BusinessCard
+
+            const stuckRequests = await findStuckRequests(businessCard, fromBlock, maxPendingTime)
+
+            if (logs) {
+                console.log(`${stuckRequests.length} stuck requests`)
+
+                for (const { cardId, kind, requestedAt, cancellableAt, transactionHash } of stuckRequests) {
+                    console.log(
+                        `    #${cardId}: ${kind} requested at ${new Date(requestedAt * 1000).toISOString()} in ${transactionHash},` +
+                        ` cancellable from ${new Date(cancellableAt * 1000).toISOString()}`
+                    )
+                }
+            }
+
+            return stuckRequests
+        }
+    )
@@ -1,6 +1,7 @@
+import { time } from "@nomicfoundation/hardhat-network-helpers";
 import { expect } from "chai";
 import { Signer, constants } from "ethers"
-import { run } from "hardhat";
+import { ethers, run } from "hardhat";
 import { describe } from "mocha";
 import {
     DCT_AIRDROP,
@@ -8,16 +9,19 @@ import {
     MAX_DCT_SUPPLY,
     MAX_NAME_CHARACTERS,
     MAX_POSITION_CHARACTERS,
+    MAX_ROYALTY,
     MAX_SUPPLY,
     MINT_PRICE,
     ORACLE_FEE,
+    REQUEST_TIMEOUT,
     UPDATE_PRICE
 } from "./utils";
 import {
     BusinessCard,
     DorsiaClubToken,
     BusinessCard__factory,
-    DorsiaClubToken__factory
+    DorsiaClubToken__factory,
+    RejectingReceiverMock
 } from "../typechain-types";
 
 describe("BusinessCard smart contract", () => {
@@ -367,8 +371,11 @@ describe("BusinessCard smart contract", () => {
                     expect(event.cardProperties.slice(0, 5)).to.deep.equal(Object.values(firstToken.cardProperties))
                 })
 
-                it("funds the server oracle", async () => {
-                    expect(tx).to.changeEtherBalance(oracleAddress, ORACLE_FEE)
+                it("holds the oracle fee until the server oracle answers", async () => {
+                    await expect(tx).to.changeEtherBalance(oracleAddress, 0)
+
+                    expect(await businessCard.escrowedOracleFees())
+                        .to.be.equal(ORACLE_FEE)
                 })
                 
                 it("generates a request associated with its cardId", async () => {
@@ -579,8 +586,11 @@ describe("BusinessCard smart contract", () => {
                         .to.be.equal(true)
                 })
 
-                it("funds the server oracle", async () => {
-                    expect(tx).to.changeEtherBalance(oracleAddress, ORACLE_FEE)
+                it("holds the oracle fee until the server oracle answers", async () => {
+                    await expect(tx).to.changeEtherBalance(oracleAddress, 0)
+
+                    expect(await businessCard.escrowedOracleFees())
+                        .to.be.equal(ORACLE_FEE)
                 })
 
                 it("generates a request associated with its cardId", async () => {
@@ -697,6 +707,13 @@ describe("BusinessCard smart contract", () => {
                         .to.be.equal(true)
                 })
 
+                it("holds a single oracle fee until the server oracle answers", async () => {
+                    await expect(tx).to.changeEtherBalance(oracleAddress, 0)
+
+                    expect(await businessCard.escrowedOracleFees())
+                        .to.be.equal(ORACLE_FEE)
+                })
+
                 it("generates two request associated with their cardIds", async () => {
                     expect(await businessCard.requests(1))
                         .to.be.equal(true)
@@ -867,6 +884,14 @@ describe("BusinessCard smart contract", () => {
                     .to.emit(businessCard, "CardURIUpdated")
                     .withArgs(1, baseUri + cardURI)
             })
+
+            it("pays the oracle fee to the server oracle", async () => {
+                await expect(tx)
+                    .to.changeEtherBalances([oracleAddress, businessCard.address], [ORACLE_FEE, ORACLE_FEE.mul(-1)])
+
+                expect(await businessCard.escrowedOracleFees())
+                    .to.be.equal(0)
+            })
         })
     })
 
@@ -944,6 +969,253 @@ describe("BusinessCard smart contract", () => {
                     .to.emit(businessCard, "CardURIUpdated")
                     .withArgs(2, baseUri + altCardURI)
             })
+
+            it("pays the single oracle fee to the server oracle", async () => {
+                await expect(tx)
+                    .to.changeEtherBalances([oracleAddress, businessCard.address], [ORACLE_FEE, ORACLE_FEE.mul(-1)])
+            })
+        })
+    })
+
+    describe("cancelRequest", () => {
+        let requestTimestamp: number;
+
+        beforeEach(async () => {
+            await businessCard.connect(signers[0]).startSale()
+
+            await businessCard.getCard(firstToken.cardName, firstToken.cardProperties, { value: MINT_PRICE })
+
+            requestTimestamp = (await businessCard.requestTimestamps(1)).toNumber()
+        })
+
+        context("when the caller is not owner or approved", () => {
+            it("reverts", async () => {
+                await time.increase(REQUEST_TIMEOUT)
+
+                await expect(
+                    businessCard.connect(signers[2]).cancelRequest(1)
+                ).to.be.revertedWithCustomError(
+                    businessCard,
+                    "CallerMustBeOwnerOrApproved"
+                )
+            })
+        })
+
+        context("when the cardId is not in the pending request list", () => {
+            it("reverts", async () => {
+                await businessCard.connect(signers[9]).updateCallback(1, cardURI)
+                await time.increase(REQUEST_TIMEOUT)
+
+                await expect(
+                    businessCard.cancelRequest(1)
+                ).to.be.revertedWithCustomError(
+                    businessCard,
+                    "RequestNotInPendingList"
+                )
+            })
+        })
+
+        context(`when less than ${REQUEST_TIMEOUT} seconds have passed since the request`, () => {
+            it("reverts", async () => {
+                await time.setNextBlockTimestamp(requestTimestamp + REQUEST_TIMEOUT - 1)
+
+                await expect(
+                    businessCard.cancelRequest(1)
+                ).to.be.revertedWithCustomError(
+                    businessCard,
+                    "RequestNotTimedOut"
+                )
+            })
+        })
+
+        context(`when exactly ${REQUEST_TIMEOUT} seconds have passed since the request`, () => {
+            let tx: any;
+
+            beforeEach(async () => {
+                await time.setNextBlockTimestamp(requestTimestamp + REQUEST_TIMEOUT)
+
+                tx = await businessCard.cancelRequest(1)
+            })
+
+            it("removes the pending request for this cardId", async () => {
+                expect(await businessCard.requests(1))
+                    .to.be.equal(false)
+
+                expect(await businessCard.requestTimestamps(1))
+                    .to.be.equal(0)
+            })
+
+            it(`credits the ${ORACLE_FEE} wei oracle fee to the owner of the Business Card`, async () => {
+                await expect(tx).to.changeEtherBalance(minter, 0)
+
+                expect(await businessCard.payments(minter))
+                    .to.be.equal(ORACLE_FEE)
+                expect(await businessCard.escrowedOracleFees())
+                    .to.be.equal(0)
+            })
+
+            it("lets the owner of the Business Card withdraw the oracle fee", async () => {
+                await expect(
+                    businessCard.withdrawPayments()
+                ).to.changeEtherBalances([minter, businessCard.address], [ORACLE_FEE, ORACLE_FEE.mul(-1)])
+            })
+
+            it("emits a RequestCancelled event", async () => {
+                await expect(tx)
+                    .to.emit(businessCard, "RequestCancelled")
+                    .withArgs(1, ORACLE_FEE)
+            })
+
+            it("allows updating the Business Card again", async () => {
+                await expect(
+                    businessCard.updateCardData(1, '', cardProperties, { value: UPDATE_PRICE })
+                ).to.emit(businessCard, "CardDataUpdateRequest")
+            })
+
+            it("prevents the oracle from answering the cancelled request", async () => {
+                await expect(
+                    businessCard.connect(signers[9]).updateCallback(1, cardURI)
+                ).to.be.revertedWithCustomError(
+                    businessCard,
+                    "RequestNotInPendingList"
+                )
+            })
+        })
+
+        context("when the caller is an approved operator", () => {
+            it("credits the oracle fee to the owner of the Business Card", async () => {
+                await businessCard.approve(accounts[2], 1)
+                await time.increase(REQUEST_TIMEOUT)
+
+                await businessCard.connect(signers[2]).cancelRequest(1)
+
+                expect(await businessCard.payments(minter))
+                    .to.be.equal(ORACLE_FEE)
+                expect(await businessCard.payments(accounts[2]))
+                    .to.be.equal(0)
+            })
+        })
+
+        context("when the Business Card changed hands since the request", () => {
+            it("credits the oracle fee to its current owner", async () => {
+                await businessCard.transferFrom(minter, accounts[2], 1)
+                await time.increase(REQUEST_TIMEOUT)
+
+                await businessCard.connect(signers[2]).cancelRequest(1)
+
+                expect(await businessCard.payments(accounts[2]))
+                    .to.be.equal(ORACLE_FEE)
+                expect(await businessCard.payments(minter))
+                    .to.be.equal(0)
+            })
+        })
+
+        context("when the Business Card is held by a contract rejecting ETH", () => {
+            it("still cancels the request, crediting the oracle fee to the contract", async () => {
+                const RejectingReceiverMockFactory = await ethers.getContractFactory("RejectingReceiverMock")
+                const receiver = await RejectingReceiverMockFactory.deploy() as RejectingReceiverMock
+
+                await businessCard.transferFrom(minter, receiver.address, 1)
+                await time.increase(REQUEST_TIMEOUT)
+
+                await expect(
+                    receiver.execute(businessCard.address, businessCard.interface.encodeFunctionData("cancelRequest", [1]))
+                ).to.emit(businessCard, "RequestCancelled").withArgs(1, ORACLE_FEE)
+
+                expect(await businessCard.requests(1))
+                    .to.be.equal(false)
+                expect(await businessCard.payments(receiver.address))
+                    .to.be.equal(ORACLE_FEE)
+            })
+        })
+
+        context("when the request is a swap", () => {
+            beforeEach(async () => {
+                await businessCard.connect(signers[9]).updateCallback(1, cardURI)
+
+                await businessCard.getCard(secondToken.cardName, secondToken.cardProperties, { value: MINT_PRICE })
+                await businessCard.connect(signers[9]).updateCallback(2, cardURI)
+
+                await businessCard.swapCardData(1, 2, { value: UPDATE_PRICE })
+                await time.increase(REQUEST_TIMEOUT)
+            })
+
+            it("refunds the oracle fee only once", async () => {
+                await expect(businessCard.cancelRequest(1))
+                    .to.emit(businessCard, "RequestCancelled")
+                    .withArgs(1, ORACLE_FEE)
+
+                await expect(businessCard.cancelRequest(2))
+                    .to.emit(businessCard, "RequestCancelled")
+                    .withArgs(2, 0)
+            })
+        })
+    })
+
+    describe("resetRequest", () => {
+        beforeEach(async () => {
+            await businessCard.connect(signers[0]).startSale()
+
+            await businessCard.getCard(firstToken.cardName, firstToken.cardProperties, { value: MINT_PRICE })
+        })
+
+        context("when being called by someone other than the contract owner", () => {
+            it("reverts", async () => {
+                await expect(
+                    businessCard.resetRequest(1)
+                ).to.be.revertedWith(
+                    "Ownable: caller is not the owner"
+                )
+            })
+        })
+
+        context("when the cardId is not in the pending request list", () => {
+            it("reverts", async () => {
+                await businessCard.connect(signers[9]).updateCallback(1, cardURI)
+
+                await expect(
+                    businessCard.connect(signers[0]).resetRequest(1)
+                ).to.be.revertedWithCustomError(
+                    businessCard,
+                    "RequestNotInPendingList"
+                )
+            })
+        })
+
+        context("after a successful call", () => {
+            let tx: any;
+
+            beforeEach(async () => {
+                tx = await businessCard.connect(signers[0]).resetRequest(1)
+            })
+
+            it("removes the pending request without waiting for the timeout", async () => {
+                expect(await businessCard.requests(1))
+                    .to.be.equal(false)
+            })
+
+            it("emits a RequestCancelled event with the refund", async () => {
+                await expect(tx)
+                    .to.emit(businessCard, "RequestCancelled")
+                    .withArgs(1, ORACLE_FEE)
+            })
+
+            it("credits the oracle fee to the owner of the Business Card", async () => {
+                expect(await businessCard.payments(minter))
+                    .to.be.equal(ORACLE_FEE)
+                expect(await businessCard.escrowedOracleFees())
+                    .to.be.equal(0)
+            })
+
+            it("keeps the oracle fee out of the reach of devWorksHard", async () => {
+                await expect(
+                    businessCard.connect(signers[0]).devWorksHard()
+                ).to.changeEtherBalance(owner, MINT_PRICE.sub(ORACLE_FEE))
+
+                await expect(
+                    businessCard.withdrawPayments()
+                ).to.changeEtherBalance(minter, ORACLE_FEE)
+            })
         })
     })
 
@@ -1001,6 +1273,56 @@ describe("BusinessCard smart contract", () => {
         })
     })
 
+    describe("setRoyalty", () => {
+        context("when being called by someone other than the contract owner", () => {
+            it("reverts", async () => {
+                await expect(
+                    businessCard.setRoyalty(accounts[8], MAX_ROYALTY)
+                ).to.be.revertedWith(
+                    "Ownable: caller is not the owner"
+                )
+            })
+        })
+
+        context("when the royalty is above the maximum", () => {
+            it("reverts", async () => {
+                await expect(
+                    businessCard.connect(signers[0]).setRoyalty(accounts[8], MAX_ROYALTY + 1)
+                ).to.be.revertedWithCustomError(
+                    businessCard,
+                    "RoyaltyTooHigh"
+                )
+            })
+        })
+
+        context("after a successful call", () => {
+            beforeEach(async () => {
+                await businessCard.connect(signers[0]).setRoyalty(accounts[8], MAX_ROYALTY)
+            })
+
+            it("returns the royalty for every Business Card", async () => {
+                expect(await businessCard.royaltyInfo(1, MINT_PRICE))
+                    .to.deep.equal([accounts[8], MINT_PRICE.mul(MAX_ROYALTY).div(10000)])
+            })
+
+            it("stops charging royalties when the receiver is the zero address", async () => {
+                await businessCard.connect(signers[0]).setRoyalty(constants.AddressZero, MAX_ROYALTY)
+
+                expect(await businessCard.royaltyInfo(1, MINT_PRICE))
+                    .to.deep.equal([constants.AddressZero, 0])
+            })
+        })
+    })
+
+    describe("supportsInterface", () => {
+        it("supports ERC-721, ERC-721 Enumerable and ERC-2981", async () => {
+            for (const interfaceId of ['0x80ac58cd', '0x780e9d63', '0x2a55205a']) {
+                expect(await businessCard.supportsInterface(interfaceId))
+                    .to.be.true
+            }
+        })
+    })
+
     describe("setBaseURI", () => {
         beforeEach(async () => {
             await businessCard.connect(signers[0]).startSale()
@@ -1052,8 +1374,11 @@ describe("BusinessCard smart contract", () => {
                 tx = await businessCard.connect(signers[0]).devWorksHard()
             })
 
-            it("sends the contract balance to the msg.sender", async () => {
-                expect(tx).to.changeEtherBalance(owner, MINT_PRICE.sub(ORACLE_FEE))
+            it("sends the contract balance to the msg.sender, leaving the escrowed oracle fee", async () => {
+                await expect(tx).to.changeEtherBalance(owner, MINT_PRICE.sub(ORACLE_FEE))
+
+                expect(await businessCard.provider.getBalance(businessCard.address))
+                    .to.be.equal(ORACLE_FEE)
             })
         })
     })
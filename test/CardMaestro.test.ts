@@ -1,58 +1,181 @@
-import { time, mine } from "@nomicfoundation/hardhat-network-helpers";
 import { expect } from "chai";
-import { Signer } from "ethers"
+import { BigNumber, Signer } from "ethers"
+import fc from "fast-check"
 import { ethers, run } from "hardhat";
 import { describe } from "mocha";
 import {
-    MeetingRoom,
-    MeetingRoom__factory
+    BusinessCard,
+    BusinessCard__factory,
+    CardMaestroMock
 } from "../typechain-types";
+import {
+    BASE_SCORE,
+    getCardScore,
+    getMatchup,
+    getWinningChanceAgainst
+} from "../sdk";
+import { GENE_SEGMENTS, GeneSegment } from "../metadata";
+import { MINT_PRICE, PRECISION } from "./utils";
 
 describe("CardMaestro smart contract library", () => {
-    let cardMaestro;
-    
-    let meetingRoom: MeetingRoom;
+    let cardMaestro: CardMaestroMock;
 
     let signers: Signer[];
     let accounts: string[];
 
-    // Example cardName and cardProperties
-    const firstToken = ['Patrick BATEMAN', ['Vice President', '', '', '', '']];
-    const secondToken = ['Paul ALLEN', ['Vice President', '', '', '', '']];
-    const thirdToken = ['David VAN PATTEN', ['Vice President', '', '', '',  '']];
-    const fourthToken = ['Timothy BRYCE', ['Vice President', '', '', '']];
+    const genesArbitrary = fc.bigUintN(100)
+        .map((genes) => BigNumber.from(genes % (BigInt(10) ** BigInt(30))))
 
-    // URI parameters
-    const baseUri = 'https://gateway.pinata.cloud/ipfs/Qm';
-    const defaultUri = 'bFp3rybuvZ7j9e4xB6WLedu8gvLcjbVqUrGUEugQWz9u';
+    // Builds genes from the given segment values, every other segment being zero
+    const craftGenes = (values: { [segment in GeneSegment]?: number }) => BigNumber.from(
+        Object.entries(GENE_SEGMENTS)
+            .map(([segment, [start, end]]) => String(values[segment as GeneSegment] ?? 0).padStart(end - start, '0'))
+            .join('')
+    )
 
-    // Filler value, would be dynamically generated by the server oracle
-    const tokenURI = 'Ur63bgQq3VWW9XsVviDGAFwYEZVs9AFWsTd56T9xCQmf'
+    // White Helvetica card on an office desk, with no other trait
+    const plainGenes = craftGenes({})
 
     before(async () => {
         signers = await run("accounts")
         accounts = await Promise.all(signers.map((signer: Signer) => signer.getAddress()));
 
-        const CardMaestroFactory = await ethers.getContractFactory("CardMaestro")
+        const CardMaestroMockFactory = await ethers.getContractFactory("CardMaestroMock")
+        cardMaestro = await CardMaestroMockFactory.deploy() as CardMaestroMock
+    })
 
-        const cardMaestro = await CardMaestroFactory.deploy()
-        
+    describe("getScore", () => {
+        it("matches the off-chain port", async () => {
+            await fc.assert(fc.asyncProperty(genesArbitrary, async (genes) => {
+                expect(getCardScore(genes).score).to.be.equal(await cardMaestro.getScore(genes))
+            }), { numRuns: 100 })
+        })
 
-        // define a couple cards
-    })
+        it("scores a card without any trait from BASE_SCORE", async () => {
+            expect(await cardMaestro.getScore(plainGenes)).to.be.equal(BASE_SCORE + 4)
+        })
+
+        it("lowers the score of damaged cards without ever reaching zero", async () => {
+            const damagedGenes = craftGenes({ cranberryJuice: 99, footprint: 95, defaced: 99, washed: 95 })
 
-    beforeEach(async () => {
+            expect(await cardMaestro.getScore(damagedGenes)).to.be.equal(BASE_SCORE + 4 - 22)
+            expect(getCardScore(damagedGenes).traitPoints).to.deep.include({
+                cranberryJuice: -6,
+                footprint: -4,
+                defaced: -8,
+                washed: -4
+            })
+        })
 
+        it("is always positive", () => {
+            fc.assert(fc.property(genesArbitrary, (genes) => {
+                expect(getCardScore(genes).score).to.be.gt(0)
+            }), { numRuns: 1000 })
+        })
+
+        it("gives a bonus to the Business Cards of the boardroom scene", async () => {
+            const batemanCards = [
+                { genes: craftGenes({ paperColor: 95, font: 95 }), bonus: "Bone paper with Silian Rail lettering", points: 10 },
+                { genes: craftGenes({ paperColor: 70, font: 80 }), bonus: "Eggshell with Romalian type", points: 8 },
+                { genes: craftGenes({ paperColor: 80, lettering: 60 }), bonus: "Raised lettering, pale nimbus", points: 8 },
+                {
+                    genes: craftGenes({ paperColor: 40, paperType: 90, watermark: 75 }),
+                    bonus: "Subtle off-white coloring, tasteful thickness and a watermark",
+                    points: 12
+                },
+                { genes: craftGenes({ phoneNumber: 6342 }), bonus: "Patrick Bateman's phone number", points: 10 }
+            ]
+
+            for (const { genes, bonus, points } of batemanCards) {
+                const { traitPoints, bonuses, score } = getCardScore(genes)
+                const traitScore = Object.values(traitPoints).reduce((total, value) => total + value, BASE_SCORE)
+
+                expect(bonuses).to.deep.equal([{ name: bonus, points }])
+                expect(await cardMaestro.getScore(genes)).to.be.equal(traitScore + points).and.to.be.equal(score)
+            }
+        })
+
+        it("only reads the lowest 30 digits of the genes", async () => {
+            const genes = craftGenes({ paperColor: 95, font: 95 })
+            const paddedGenes = BigNumber.from(10).pow(30).mul(7).add(genes)
+
+            expect(await cardMaestro.getScore(paddedGenes)).to.be.equal(await cardMaestro.getScore(genes))
+            expect(getCardScore(paddedGenes)).to.deep.equal(getCardScore(genes))
+        })
     })
 
     describe("getWinningChanceAgainst", () => {
-        it("do be working", () => {
+        it("matches the off-chain port", async () => {
+            await fc.assert(fc.asyncProperty(genesArbitrary, genesArbitrary, async (genesA, genesB) => {
+                expect(getWinningChanceAgainst(genesA, genesB))
+                    .to.be.equal(await cardMaestro.getWinningChanceAgainst(genesA, genesB))
+            }), { numRuns: 100 })
+        })
 
+        it("sums to PRECISION with the chance of the other card", () => {
+            fc.assert(fc.property(genesArbitrary, genesArbitrary, (genesA, genesB) => {
+                expect(getWinningChanceAgainst(genesA, genesB).add(getWinningChanceAgainst(genesB, genesA)))
+                    .to.be.equal(PRECISION)
+            }), { numRuns: 1000 })
         })
 
-        it("do not be working", () => {
-            expect(true).to.be.equal(false)
+        it("gives even chances to equally scored cards", async () => {
+            const genes = craftGenes({ background: 95, goldEdges: 90 })
+
+            expect(await cardMaestro.getWinningChanceAgainst(genes, genes)).to.be.equal(PRECISION / 2)
+            expect(await cardMaestro.getWinningChanceAgainst(plainGenes, craftGenes({ background: 10 })))
+                .to.be.equal(PRECISION / 2)
+        })
+
+        it("favours the card with the higher score", async () => {
+            const batemanGenes = craftGenes({ paperColor: 95, font: 95, phoneNumber: 6342 })
+
+            // 59 points against 29
+            expect(await cardMaestro.getWinningChanceAgainst(batemanGenes, plainGenes))
+                .to.be.equal(PRECISION - Math.floor(29 * PRECISION / 88))
+            expect(await cardMaestro.getWinningChanceAgainst(plainGenes, batemanGenes))
+                .to.be.equal(Math.floor(29 * PRECISION / 88))
         })
     })
 
-})
\ No newline at end of file
+    describe("cardmaestro:matchup", () => {
+        let businessCard: BusinessCard;
+
+        // Example cardProperties
+        const cardProperties = {
+            position: 'Vice President',
+            twitterAccount: 'twitterAccount',
+            telegramAccount: 'telegramAccount',
+            githubAccount: 'githubAccount',
+            website: 'website.com'
+        }
+
+        before(async () => {
+            const { businessCardAddress } = await run("deploy:business-card", {
+                baseUri: '',
+                defaultUri: '',
+                oracleAddress: accounts[9],
+                deployMarketplace: false
+            })
+
+            businessCard = BusinessCard__factory.connect(businessCardAddress, signers[1])
+
+            await businessCard.connect(signers[1]).getCard('Patrick BATEMAN', cardProperties, { value: MINT_PRICE })
+            await businessCard.connect(signers[2]).getCard('Paul ALLEN', cardProperties, { value: MINT_PRICE })
+        })
+
+        it("breaks down the matchup between two Business Cards", async () => {
+            const matchup = await run("cardmaestro:matchup", {
+                businessCardAddress: businessCard.address,
+                cardIdA: '1',
+                cardIdB: '2'
+            })
+
+            expect(matchup).to.deep.equal(getMatchup(await businessCard.getCardGenes(1), await businessCard.getCardGenes(2)))
+            expect(matchup.chanceA).to.be.equal(
+                await cardMaestro.getWinningChanceAgainst(await businessCard.getCardGenes(1), await businessCard.getCardGenes(2))
+            )
+            expect(matchup.chanceA.add(matchup.chanceB)).to.be.equal(PRECISION)
+        })
+    })
+})
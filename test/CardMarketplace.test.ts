@@ -1,14 +1,37 @@
+import { setBalance, time } from "@nomicfoundation/hardhat-network-helpers";
 import { expect } from "chai";
-import { Signer, constants } from "ethers"
-import { run } from "hardhat";
+import { BigNumber, Signer, TypedDataDomain, constants, utils } from "ethers"
+import { ethers, run } from "hardhat";
 import { describe } from "mocha";
 import {
     BusinessCard,
     BusinessCard__factory,
     CardMarketplace,
     CardMarketplace__factory,
+    CardRelisterMock,
+    RejectingReceiverMock,
+    DorsiaClubToken,
+    DorsiaClubToken__factory,
 } from "../typechain-types";
+import {
+    BuyOrder,
+    Currency,
+    SellOrder,
+    TypedDataSigner,
+    getOrderDomain,
+    hashBuyOrder,
+    hashSellOrder,
+    signBuyOrder,
+    signSellOrder
+} from "../sdk";
 import { 
+    AUCTION_EXTENSION,
+    MAX_AUCTION_DURATION,
+    MAX_BUNDLE_SIZE,
+    MAX_PROTOCOL_FEE,
+    MAX_ROYALTY,
+    MAX_UNPAGINATED_LISTINGS,
+    MIN_AUCTION_DURATION,
     MIN_LISTING_PRICE,
     MINT_PRICE,
     ORACLE_FEE,
@@ -55,6 +78,15 @@ describe("CardMarketplace smart contract", () => {
     // Filler values, would be dynamically generated by the server oracle
     const cardURI = 'Ur63bgQq3VWW9XsVviDGAFwYEZVs9AFWsTd56T9xCQmf'
 
+    // Time, in seconds, offers stay open for
+    const OFFER_DURATION = 60 * 60;
+    // Minimum amount by which auction bids must be raised
+    const BID_INCREMENT = utils.parseEther("0.0001");
+    // Time, in seconds, over which the price of Dutch listings decays
+    const DECAY_DURATION = 24 * 60 * 60;
+    // Time, in seconds, listings with an expiry stay open for
+    const LISTING_DURATION = 60 * 60;
+
     before(async () => {
         signers = await run("accounts")
         accounts = await Promise.all(signers.map((signer: Signer) => signer.getAddress()))
@@ -168,7 +200,7 @@ describe("CardMarketplace smart contract", () => {
                 it("emits a CardListingCreated", async () => {
                     await expect(tx)
                         .to.emit(cardMarketplace, "CardListingCreated")
-                        .withArgs(1, 1, minter, MIN_LISTING_PRICE)
+                        .withArgs(1, 1, minter, MIN_LISTING_PRICE, Currency.ETH)
                 })
             })
         })
@@ -360,7 +392,15 @@ describe("CardMarketplace smart contract", () => {
             it("emits a CardListingFilled event", async () => {
                 await expect(tx)
                     .to.emit(cardMarketplace, "CardListingFilled")
-                    .withArgs(1, 1, minter, buyer, MIN_LISTING_PRICE)
+                    .withArgs(1, 1, minter, buyer, MIN_LISTING_PRICE, Currency.ETH)
+            })
+        })
+
+        context("when the value sent exceeds the listing price", () => {
+            it("refunds the excess to the buyer", async () => {
+                await expect(
+                    cardMarketplace.connect(signers[2]).buyListedCard(1, { value: MIN_LISTING_PRICE.mul(2) })
+                ).to.changeEtherBalances([buyer, cardMarketplace.address], [MIN_LISTING_PRICE.mul(-1), MIN_LISTING_PRICE])
             })
         })
     })
@@ -480,7 +520,7 @@ describe("CardMarketplace smart contract", () => {
             it("emits a CardListingFilled event", async () => {
                 await expect(tx)
                     .to.emit(cardMarketplace, "CardListingFilled")
-                    .withArgs(1, 1, minter, buyer, MIN_LISTING_PRICE)
+                    .withArgs(1, 1, minter, buyer, MIN_LISTING_PRICE, Currency.ETH)
             })
 
             it("updates the Business Card", async () => {
@@ -493,109 +533,2773 @@ describe("CardMarketplace smart contract", () => {
         })
     })
 
-    describe("getMarketListings", () => {
+    describe("listings settled in DCT", () => {
+        // DCT listings are priced in DCT, with the same 18 decimals as ETH
+        const DCT_PRICE = utils.parseEther("100");
+
+        let dct: DorsiaClubToken;
+
         beforeEach(async () => {
-            await businessCard.getCard(firstToken.cardName, firstToken.cardProperties, { value: MINT_PRICE })
-            await businessCard.getCard(secondToken.cardName, secondToken.cardProperties, { value: MINT_PRICE })
-            await businessCard.getCard(thirdToken.cardName, thirdToken.cardProperties, { value: MINT_PRICE })
-            await businessCard.getCard("SNEED", thirdToken.cardProperties, { value: MINT_PRICE })
+            dct = DorsiaClubToken__factory.connect(await businessCard.DCT(), signers[2])
 
+            await businessCard.getCard(firstToken.cardName, firstToken.cardProperties, { value: MINT_PRICE })
+            await businessCard.connect(signers[9]).updateCallback(1, cardURI)
             await businessCard.approve(cardMarketplace.address, 1)
-            await businessCard.approve(cardMarketplace.address, 2)
-            await businessCard.approve(cardMarketplace.address, 3)
-            await businessCard.approve(cardMarketplace.address, 4)
 
-            await cardMarketplace.createCardListing(1, MIN_LISTING_PRICE)
-            await cardMarketplace.createCardListing(2, MIN_LISTING_PRICE)
-            await cardMarketplace.createCardListing(3, MIN_LISTING_PRICE)
-            await cardMarketplace.createCardListing(4, MIN_LISTING_PRICE)
+            // The buyer gets DCT from the airdrop of the minter
+            await dct.connect(signers[1]).transfer(buyer, DCT_PRICE.mul(2))
+        })
 
-            await cardMarketplace.cancelCardListing(2)
-            await cardMarketplace.connect(signers[2]).buyListedCard(3, { value: MIN_LISTING_PRICE })
+        context("after a successful listing", () => {
+            let tx: any;
+
+            beforeEach(async () => {
+                tx = await cardMarketplace.createCardListingWithCurrency(1, DCT_PRICE, Currency.DCT)
+            })
+
+            it("records the currency of the listing", async () => {
+                expect(await cardMarketplace.getListing(1))
+                    .to.deep.equal([1, minter, constants.AddressZero, DCT_PRICE, false, false, Currency.DCT])
+                expect(await cardMarketplace.getMarketListings())
+                    .to.deep.equal([[1, minter, constants.AddressZero, DCT_PRICE, false, false, Currency.DCT]])
+            })
+
+            it("emits a CardListingCreated event with the currency", async () => {
+                await expect(tx)
+                    .to.emit(cardMarketplace, "CardListingCreated")
+                    .withArgs(1, 1, minter, DCT_PRICE, Currency.DCT)
+            })
         })
 
-        it("returns a list of active listings", async () => {
-            expect(await cardMarketplace.getMarketListings())
-                .to.deep.equal([
-                    [1, minter, constants.AddressZero, MIN_LISTING_PRICE, false, false],
-                    [4, minter, constants.AddressZero, MIN_LISTING_PRICE, false, false]
-                ])
+        context("when the buyer has not approved the marketplace", () => {
+            it("reverts", async () => {
+                await cardMarketplace.createCardListingWithCurrency(1, DCT_PRICE, Currency.DCT)
+
+                await expect(
+                    cardMarketplace.connect(signers[2]).buyListedCard(1)
+                ).to.be.revertedWith(
+                    "ERC20: insufficient allowance"
+                )
+            })
+        })
+
+        context("after a successful purchase", () => {
+            let tx: any;
+
+            beforeEach(async () => {
+                await cardMarketplace.createCardListingWithCurrency(1, DCT_PRICE, Currency.DCT)
+                await dct.approve(cardMarketplace.address, DCT_PRICE)
+
+                tx = await cardMarketplace.connect(signers[2]).buyListedCard(1, { value: MIN_LISTING_PRICE })
+            })
+
+            it("pulls the price in DCT from the buyer and sends it to the seller", async () => {
+                await expect(tx).to.changeTokenBalances(dct, [buyer, minter, cardMarketplace.address], [DCT_PRICE.mul(-1), DCT_PRICE, 0])
+            })
+
+            it("refunds the msg.value", async () => {
+                await expect(tx).to.changeEtherBalances([buyer, cardMarketplace.address], [0, 0])
+            })
+
+            it("transfers the Business Card to the buyer", async () => {
+                expect(await businessCard.ownerOf(1))
+                    .to.be.equal(buyer)
+            })
+
+            it("emits a CardListingFilled event with the currency", async () => {
+                await expect(tx)
+                    .to.emit(cardMarketplace, "CardListingFilled")
+                    .withArgs(1, 1, minter, buyer, DCT_PRICE, Currency.DCT)
+            })
+        })
+
+        it("pays the royalty and the protocol fee in DCT", async () => {
+            await businessCard.connect(signers[0]).setRoyalty(accounts[8], MAX_ROYALTY)
+            await cardMarketplace.connect(signers[0]).setProtocolFee(MAX_PROTOCOL_FEE)
+            await cardMarketplace.connect(signers[0]).setTreasury(accounts[7])
+
+            const royalty = DCT_PRICE.mul(MAX_ROYALTY).div(10000)
+            const fee = DCT_PRICE.mul(MAX_PROTOCOL_FEE).div(10000)
+
+            await cardMarketplace.createCardListingWithCurrency(1, DCT_PRICE, Currency.DCT)
+            await dct.approve(cardMarketplace.address, DCT_PRICE)
+
+            const tx = await cardMarketplace.connect(signers[2]).buyListedCard(1)
+
+            await expect(tx).to.changeTokenBalances(
+                dct,
+                [minter, accounts[8], cardMarketplace.address],
+                [DCT_PRICE.sub(royalty).sub(fee), royalty, fee]
+            )
+            await expect(tx)
+                .to.emit(cardMarketplace, "RoyaltyPaid")
+                .withArgs(1, accounts[8], royalty, Currency.DCT)
+            await expect(tx)
+                .to.emit(cardMarketplace, "ProtocolFeeCharged")
+                .withArgs(1, fee, Currency.DCT)
+
+            expect(await cardMarketplace.accruedDCTFees())
+                .to.be.equal(fee)
+            expect(await cardMarketplace.accruedFees())
+                .to.be.equal(0)
+
+            const withdrawTx = await cardMarketplace.connect(signers[0]).withdraw()
+
+            await expect(withdrawTx).to.changeTokenBalance(dct, accounts[7], fee)
+            await expect(withdrawTx)
+                .to.emit(cardMarketplace, "FeesWithdrawn")
+                .withArgs(accounts[7], 0, fee)
+        })
+
+        it("charges the oracle fee and the update price in ETH when buying and updating", async () => {
+            await cardMarketplace.createCardListingWithCurrency(1, DCT_PRICE, Currency.DCT)
+            await dct.approve(cardMarketplace.address, DCT_PRICE)
+
+            const tx = await cardMarketplace.connect(signers[2]).buyAndUpdateListedCard(1, secondToken.cardName, secondToken.cardProperties, {
+                value: ORACLE_FEE.add(UPDATE_PRICE)
+            })
+
+            await expect(tx).to.changeEtherBalance(buyer, ORACLE_FEE.add(UPDATE_PRICE).mul(-1))
+            await expect(tx).to.changeTokenBalance(dct, minter, DCT_PRICE)
+        })
+
+        describe("buyListedCardWithPermit", () => {
+            const signPermit = async (value: BigNumber, deadline: number) => utils.splitSignature(
+                await (signers[2] as TypedDataSigner)._signTypedData(
+                    {
+                        name: "Dorsia Club Token",
+                        version: "1",
+                        chainId: (await dct.provider.getNetwork()).chainId,
+                        verifyingContract: dct.address
+                    },
+                    {
+                        Permit: [
+                            { name: "owner", type: "address" },
+                            { name: "spender", type: "address" },
+                            { name: "value", type: "uint256" },
+                            { name: "nonce", type: "uint256" },
+                            { name: "deadline", type: "uint256" }
+                        ]
+                    },
+                    { owner: buyer, spender: cardMarketplace.address, value, nonce: await dct.nonces(buyer), deadline }
+                )
+            )
+
+            context("when the listing is settled in ETH", () => {
+                it("reverts", async () => {
+                    await cardMarketplace.createCardListing(1, MIN_LISTING_PRICE)
+
+                    const deadline = (await time.latest()) + 60
+                    const { v, r, s } = await signPermit(MIN_LISTING_PRICE, deadline)
+
+                    await expect(
+                        cardMarketplace.connect(signers[2]).buyListedCardWithPermit(1, deadline, v, r, s)
+                    ).to.be.revertedWithCustomError(
+                        cardMarketplace,
+                        "CurrencyNotValid"
+                    )
+                })
+            })
+
+            it("buys the listing without a prior approval", async () => {
+                await cardMarketplace.createCardListingWithCurrency(1, DCT_PRICE, Currency.DCT)
+
+                const deadline = (await time.latest()) + 60
+                const { v, r, s } = await signPermit(DCT_PRICE, deadline)
+
+                const tx = await cardMarketplace.connect(signers[2]).buyListedCardWithPermit(1, deadline, v, r, s)
+
+                await expect(tx).to.changeTokenBalances(dct, [buyer, minter], [DCT_PRICE.mul(-1), DCT_PRICE])
+                expect(await businessCard.ownerOf(1))
+                    .to.be.equal(buyer)
+            })
+
+            it("still buys the listing when the permit was already used", async () => {
+                await cardMarketplace.createCardListingWithCurrency(1, DCT_PRICE, Currency.DCT)
+
+                const deadline = (await time.latest()) + 60
+                const { v, r, s } = await signPermit(DCT_PRICE, deadline)
+
+                // Someone front-runs the purchase with the permit
+                await dct.connect(signers[3]).permit(buyer, cardMarketplace.address, DCT_PRICE, deadline, v, r, s)
+
+                await cardMarketplace.connect(signers[2]).buyListedCardWithPermit(1, deadline, v, r, s)
+
+                expect(await businessCard.ownerOf(1))
+                    .to.be.equal(buyer)
+            })
         })
     })
-    
-    describe("getMarketListingsByAddress", () => {
+
+    describe("updateListingPrice", () => {
         beforeEach(async () => {
-            // SELLER 
             await businessCard.getCard(firstToken.cardName, firstToken.cardProperties, { value: MINT_PRICE })
             await businessCard.approve(cardMarketplace.address, 1)
+
             await cardMarketplace.createCardListing(1, MIN_LISTING_PRICE)
+        })
 
-            await businessCard.getCard(secondToken.cardName, secondToken.cardProperties, { value: MINT_PRICE })
-            await businessCard.approve(cardMarketplace.address, 2)
-            await cardMarketplace.createCardListing(2, MIN_LISTING_PRICE)
+        context("when the market listing does not exist", () => {
+            it("reverts", async () => {
+                await expect(
+                    cardMarketplace.updateListingPrice(2, MIN_LISTING_PRICE)
+                ).to.be.revertedWithCustomError(
+                    cardMarketplace,
+                    "ListingDoesNotExist"
+                )
+            })
+        })
 
-            // BUYER
-            await businessCard.getCard(thirdToken.cardName, thirdToken.cardProperties, { value: MINT_PRICE })
-            await businessCard.approve(cardMarketplace.address, 3)
-            await cardMarketplace.createCardListing(3, MIN_LISTING_PRICE)
+        context("when the market listing was filled", () => {
+            it("reverts", async () => {
+                await cardMarketplace.connect(signers[2]).buyListedCard(1, { value: MIN_LISTING_PRICE })
 
-            await cardMarketplace.connect(signers[2]).buyListedCard(3, { value: MIN_LISTING_PRICE })
+                await expect(
+                    cardMarketplace.updateListingPrice(1, MIN_LISTING_PRICE)
+                ).to.be.revertedWithCustomError(
+                    cardMarketplace,
+                    "ListingWasFilled"
+                )
+            })
+        })
 
-            await businessCard.getCard("SNEED", firstToken.cardProperties, { value: MINT_PRICE })
-            await businessCard.approve(cardMarketplace.address, 4)
-            await cardMarketplace.createCardListing(4, MIN_LISTING_PRICE)
+        context("when the msg.sender is not the listing creator", () => {
+            it("reverts", async () => {
+                await expect(
+                    cardMarketplace.connect(signers[2]).updateListingPrice(1, MIN_LISTING_PRICE.mul(2))
+                ).to.be.revertedWithCustomError(
+                    cardMarketplace,
+                    "CallerIsNotTheSeller"
+                )
+            })
+        })
 
-            await cardMarketplace.connect(signers[2]).buyListedCard(4, { value: MIN_LISTING_PRICE })
+        context("when the new price is below the minimum", () => {
+            it("reverts", async () => {
+                await expect(
+                    cardMarketplace.updateListingPrice(1, MIN_LISTING_PRICE.sub(1))
+                ).to.be.revertedWithCustomError(
+                    cardMarketplace,
+                    "PriceTooLow"
+                )
+            })
         })
 
-        it("returns the latest listings for an address as a seller", async () => {
-            expect((await cardMarketplace.getMarketListingsByAddress(minter, true)).slice(0,6))
-                .to.deep.equal([
-                    [1, minter, constants.AddressZero, MIN_LISTING_PRICE, false, false],
-                    [2, minter, constants.AddressZero, MIN_LISTING_PRICE, false, false],
-                    [3, minter, buyer, MIN_LISTING_PRICE, true, false],
-                    [4, minter, buyer, MIN_LISTING_PRICE, true, false]
-                ])
+        context("after a successful call", () => {
+            let tx: any;
+
+            beforeEach(async () => {
+                tx = await cardMarketplace.updateListingPrice(1, MIN_LISTING_PRICE.mul(2))
+            })
+
+            it("updates the price of the listing in place", async () => {
+                expect(await cardMarketplace.getLatestListingByCard(1))
+                    .to.deep.equal([1, minter, constants.AddressZero, MIN_LISTING_PRICE.mul(2), false, false, Currency.ETH])
+
+                expect(await cardMarketplace.totalListings())
+                    .to.be.equal(1)
+            })
+
+            it("emits a CardListingPriceUpdated event", async () => {
+                await expect(tx)
+                    .to.emit(cardMarketplace, "CardListingPriceUpdated")
+                    .withArgs(1, 1, MIN_LISTING_PRICE, MIN_LISTING_PRICE.mul(2))
+            })
+
+            it("sells the Business Card at the new price", async () => {
+                await expect(
+                    cardMarketplace.connect(signers[2]).buyListedCard(1, { value: MIN_LISTING_PRICE })
+                ).to.be.revertedWithCustomError(
+                    cardMarketplace,
+                    "PriceTooLow"
+                )
+
+                await cardMarketplace.connect(signers[2]).buyListedCard(1, { value: MIN_LISTING_PRICE.mul(2) })
+
+                expect(await cardMarketplace.payments(minter))
+                    .to.be.equal(MIN_LISTING_PRICE.mul(2))
+            })
         })
 
-        it("returns the latest listing for an address as a buyer", async () => {
-            expect((await cardMarketplace.getMarketListingsByAddress(buyer, false)).slice(0,6))
-                .to.deep.equal([
-                    [3, minter, buyer, MIN_LISTING_PRICE, true, false],
-                    [4, minter, buyer, MIN_LISTING_PRICE, true, false]
-                ])
+        context("when the listing is a Dutch listing", () => {
+            it("stops the price decay", async () => {
+                await businessCard.getCard(secondToken.cardName, secondToken.cardProperties, { value: MINT_PRICE })
+                await businessCard.approve(cardMarketplace.address, 2)
+                await cardMarketplace.createDutchCardListing(2, MIN_LISTING_PRICE.mul(3), MIN_LISTING_PRICE, DECAY_DURATION)
+
+                await cardMarketplace.updateListingPrice(2, MIN_LISTING_PRICE.mul(2))
+                await time.increase(DECAY_DURATION)
+
+                expect(await cardMarketplace.getListingPrice(2))
+                    .to.be.equal(MIN_LISTING_PRICE.mul(2))
+            })
         })
     })
 
-    describe("getLatestListingByCard", () => {
+    describe("setListingExpiry", () => {
+        let expiresAt: number;
+
         beforeEach(async () => {
-            // Listed-cancelled-listed card
             await businessCard.getCard(firstToken.cardName, firstToken.cardProperties, { value: MINT_PRICE })
             await businessCard.approve(cardMarketplace.address, 1)
 
             await cardMarketplace.createCardListing(1, MIN_LISTING_PRICE)
-            await cardMarketplace.cancelCardListing(1)
-            
-            await businessCard.approve(cardMarketplace.address, 1)
-            await cardMarketplace.createCardListing(1, MIN_LISTING_PRICE.add(1))
+            expiresAt = (await time.latest()) + LISTING_DURATION
+        })
 
-            // Listed-bought-listed card
-            await businessCard.getCard(secondToken.cardName, secondToken.cardProperties, { value: MINT_PRICE })
-            await businessCard.approve(cardMarketplace.address, 2)
+        context("when the market listing was cancelled", () => {
+            it("reverts", async () => {
+                await cardMarketplace.cancelCardListing(1)
 
-            await cardMarketplace.createCardListing(2, MIN_LISTING_PRICE)
-            await cardMarketplace.connect(signers[2]).buyListedCard(3, { value: MIN_LISTING_PRICE })
-            
-            await businessCard.connect(signers[2]).approve(cardMarketplace.address, 2)
-            await cardMarketplace.connect(signers[2]).createCardListing(2, MIN_LISTING_PRICE)
+                await expect(
+                    cardMarketplace.setListingExpiry(1, expiresAt)
+                ).to.be.revertedWithCustomError(
+                    cardMarketplace,
+                    "ListingWasCancelled"
+                )
+            })
         })
 
-        it("returns the latest listing in the marketplace for a Business Card", async () => {
-            expect(await cardMarketplace.getLatestListingByCard(1))
-                .to.deep.equal([1, minter, constants.AddressZero, MIN_LISTING_PRICE.add(1), false, false])
-                
-            expect(await cardMarketplace.getLatestListingByCard(2))
-                .to.deep.equal([2, buyer, constants.AddressZero, MIN_LISTING_PRICE, false, false])
+        context("when the msg.sender is not the listing creator", () => {
+            it("reverts", async () => {
+                await expect(
+                    cardMarketplace.connect(signers[2]).setListingExpiry(1, expiresAt)
+                ).to.be.revertedWithCustomError(
+                    cardMarketplace,
+                    "CallerIsNotTheSeller"
+                )
+            })
+        })
+
+        context("when the expiry is not in the future", () => {
+            it("reverts", async () => {
+                const timestamp = await time.latest()
+                await time.setNextBlockTimestamp(timestamp + 1)
+
+                await expect(
+                    cardMarketplace.setListingExpiry(1, timestamp + 1)
+                ).to.be.revertedWithCustomError(
+                    cardMarketplace,
+                    "ListingExpiryNotValid"
+                )
+            })
+        })
+
+        context("after a successful call", () => {
+            let tx: any;
+
+            beforeEach(async () => {
+                tx = await cardMarketplace.setListingExpiry(1, expiresAt)
+            })
+
+            it("sets the expiry of the listing", async () => {
+                expect(await cardMarketplace.listingExpiries(1))
+                    .to.be.equal(expiresAt)
+            })
+
+            it("emits a CardListingExpirySet event", async () => {
+                await expect(tx)
+                    .to.emit(cardMarketplace, "CardListingExpirySet")
+                    .withArgs(1, 1, expiresAt)
+            })
+
+            it("prevents the listing from being bought once expired", async () => {
+                await time.setNextBlockTimestamp(expiresAt)
+
+                await expect(
+                    cardMarketplace.connect(signers[2]).buyListedCard(1, { value: MIN_LISTING_PRICE })
+                ).to.be.revertedWithCustomError(
+                    cardMarketplace,
+                    "ListingHasExpired"
+                )
+            })
+
+            it("can be removed", async () => {
+                await cardMarketplace.setListingExpiry(1, 0)
+                await time.increaseTo(expiresAt)
+
+                await cardMarketplace.connect(signers[2]).buyListedCard(1, { value: MIN_LISTING_PRICE })
+            })
+        })
+    })
+
+    describe("closeExpiredListing", () => {
+        let expiresAt: number;
+
+        beforeEach(async () => {
+            await businessCard.getCard(firstToken.cardName, firstToken.cardProperties, { value: MINT_PRICE })
+            await businessCard.approve(cardMarketplace.address, 1)
+
+            await cardMarketplace.createCardListing(1, MIN_LISTING_PRICE)
+            expiresAt = (await time.latest()) + LISTING_DURATION
+            await cardMarketplace.setListingExpiry(1, expiresAt)
+        })
+
+        context("when the market listing does not exist", () => {
+            it("reverts", async () => {
+                await expect(
+                    cardMarketplace.closeExpiredListing(2)
+                ).to.be.revertedWithCustomError(
+                    cardMarketplace,
+                    "ListingDoesNotExist"
+                )
+            })
+        })
+
+        context("when the market listing has not expired", () => {
+            it("reverts", async () => {
+                await time.setNextBlockTimestamp(expiresAt - 1)
+
+                await expect(
+                    cardMarketplace.connect(signers[2]).closeExpiredListing(1)
+                ).to.be.revertedWithCustomError(
+                    cardMarketplace,
+                    "ListingHasNotExpired"
+                )
+            })
+        })
+
+        context("after a successful call", () => {
+            let tx: any;
+
+            beforeEach(async () => {
+                await time.increaseTo(expiresAt)
+
+                // Anyone can close an expired listing
+                tx = await cardMarketplace.connect(signers[2]).closeExpiredListing(1)
+            })
+
+            it("updates the corresponding listing", async () => {
+                expect(await cardMarketplace.getLatestListingByCard(1))
+                    .to.deep.equal([1, minter, minter, MIN_LISTING_PRICE, false, true, Currency.ETH])
+            })
+
+            it("increases the number of cancelled listings", async () => {
+                expect(await cardMarketplace.cancelledListings())
+                    .to.be.equal(1)
+            })
+
+            it("transfers the Business Card back to the seller", async () => {
+                expect(await businessCard.ownerOf(1))
+                    .to.be.equal(minter)
+            })
+
+            it("emits a CardListingExpired event", async () => {
+                await expect(tx)
+                    .to.emit(cardMarketplace, "CardListingExpired")
+                    .withArgs(1, 1)
+            })
+        })
+    })
+
+    describe("createDutchCardListing", () => {
+        const START_PRICE = MIN_LISTING_PRICE.mul(11);
+
+        beforeEach(async () => {
+            await businessCard.getCard(firstToken.cardName, firstToken.cardProperties, { value: MINT_PRICE })
+            await businessCard.approve(cardMarketplace.address, 1)
+        })
+
+        context("when the floor price is below the minimum", () => {
+            it("reverts", async () => {
+                await expect(
+                    cardMarketplace.createDutchCardListing(1, START_PRICE, MIN_LISTING_PRICE.sub(1), DECAY_DURATION)
+                ).to.be.revertedWithCustomError(
+                    cardMarketplace,
+                    "PriceTooLow"
+                )
+            })
+        })
+
+        context("when the price does not decay", () => {
+            it("reverts", async () => {
+                await expect(
+                    cardMarketplace.createDutchCardListing(1, MIN_LISTING_PRICE, MIN_LISTING_PRICE, DECAY_DURATION)
+                ).to.be.revertedWithCustomError(
+                    cardMarketplace,
+                    "PriceDecayNotValid"
+                )
+
+                await expect(
+                    cardMarketplace.createDutchCardListing(1, START_PRICE, MIN_LISTING_PRICE, 0)
+                ).to.be.revertedWithCustomError(
+                    cardMarketplace,
+                    "PriceDecayNotValid"
+                )
+            })
+        })
+
+        context("after a successful listing", () => {
+            let tx: any;
+            let startTime: number;
+
+            beforeEach(async () => {
+                tx = await cardMarketplace.createDutchCardListing(1, START_PRICE, MIN_LISTING_PRICE, DECAY_DURATION)
+                startTime = await time.latest()
+            })
+
+            it("creates the corresponding listing at the start price", async () => {
+                expect(await cardMarketplace.getLatestListingByCard(1))
+                    .to.deep.equal([1, minter, constants.AddressZero, START_PRICE, false, false, Currency.ETH])
+            })
+
+            it("emits a CardListingCreated and a DutchCardListingCreated event", async () => {
+                await expect(tx)
+                    .to.emit(cardMarketplace, "CardListingCreated")
+                    .withArgs(1, 1, minter, START_PRICE, Currency.ETH)
+                    .and.to.emit(cardMarketplace, "DutchCardListingCreated")
+                    .withArgs(1, START_PRICE, MIN_LISTING_PRICE, DECAY_DURATION)
+            })
+
+            it("decays the price linearly down to the floor price", async () => {
+                expect(await cardMarketplace.getListingPrice(1))
+                    .to.be.equal(START_PRICE)
+
+                await time.increaseTo(startTime + DECAY_DURATION / 4)
+                expect(await cardMarketplace.getListingPrice(1))
+                    .to.be.equal(MIN_LISTING_PRICE.mul(85).div(10))
+
+                await time.increaseTo(startTime + DECAY_DURATION)
+                expect(await cardMarketplace.getListingPrice(1))
+                    .to.be.equal(MIN_LISTING_PRICE)
+
+                await time.increase(DECAY_DURATION)
+                expect(await cardMarketplace.getListingPrice(1))
+                    .to.be.equal(MIN_LISTING_PRICE)
+            })
+
+            it("sells the Business Card at the decayed price, refunding the excess", async () => {
+                const price = MIN_LISTING_PRICE.mul(6)
+                await time.setNextBlockTimestamp(startTime + DECAY_DURATION / 2)
+
+                const buyTx = await cardMarketplace.connect(signers[2]).buyListedCard(1, { value: START_PRICE })
+
+                await expect(buyTx).to.changeEtherBalances([buyer, cardMarketplace.address], [price.mul(-1), price])
+                await expect(buyTx)
+                    .to.emit(cardMarketplace, "PaymentCredited")
+                    .withArgs(minter, price)
+                await expect(buyTx)
+                    .to.emit(cardMarketplace, "CardListingFilled")
+                    .withArgs(1, 1, minter, buyer, price, Currency.ETH)
+            })
+
+            it("reverts when the value sent is below the decayed price", async () => {
+                await time.setNextBlockTimestamp(startTime + DECAY_DURATION / 2)
+
+                await expect(
+                    cardMarketplace.connect(signers[2]).buyListedCard(1, { value: MIN_LISTING_PRICE.mul(6).sub(1) })
+                ).to.be.revertedWithCustomError(
+                    cardMarketplace,
+                    "PriceTooLow"
+                )
+            })
+
+            it("sells and updates the Business Card at the decayed price plus the update costs", async () => {
+                const cost = MIN_LISTING_PRICE.add(ORACLE_FEE).add(UPDATE_PRICE)
+                await businessCard.connect(signers[9]).updateCallback(1, cardURI)
+                await time.setNextBlockTimestamp(startTime + DECAY_DURATION)
+
+                await expect(
+                    cardMarketplace.connect(signers[2]).buyAndUpdateListedCard(1, secondToken.cardName, secondToken.cardProperties, { value: START_PRICE })
+                ).to.changeEtherBalance(buyer, cost.mul(-1))
+
+                expect(await cardMarketplace.payments(minter))
+                    .to.be.equal(MIN_LISTING_PRICE)
+            })
+        })
+    })
+
+    describe("createPrivateCardListing", () => {
+        beforeEach(async () => {
+            await businessCard.getCard(firstToken.cardName, firstToken.cardProperties, { value: MINT_PRICE })
+            await businessCard.connect(signers[9]).updateCallback(1, cardURI)
+            await businessCard.approve(cardMarketplace.address, 1)
+        })
+
+        context("when the reserved buyer is the zero address", () => {
+            it("reverts", async () => {
+                await expect(
+                    cardMarketplace.createPrivateCardListing(1, MIN_LISTING_PRICE, Currency.ETH, constants.AddressZero)
+                ).to.be.revertedWithCustomError(
+                    cardMarketplace,
+                    "ReservedBuyerNotValid"
+                )
+            })
+        })
+
+        context("when the reserved buyer is the seller", () => {
+            it("reverts", async () => {
+                await expect(
+                    cardMarketplace.createPrivateCardListing(1, MIN_LISTING_PRICE, Currency.ETH, minter)
+                ).to.be.revertedWithCustomError(
+                    cardMarketplace,
+                    "ReservedBuyerNotValid"
+                )
+            })
+        })
+
+        context("after a successful call", () => {
+            let tx: any;
+
+            beforeEach(async () => {
+                tx = await cardMarketplace.createPrivateCardListing(1, MIN_LISTING_PRICE, Currency.ETH, buyer)
+            })
+
+            it("records the reserved buyer as the buyer of the listing", async () => {
+                expect(await cardMarketplace.getListing(1))
+                    .to.deep.equal([1, minter, buyer, MIN_LISTING_PRICE, false, false, Currency.ETH])
+            })
+
+            it("leaves the listing out of the active listings", async () => {
+                expect(await cardMarketplace.getMarketListings())
+                    .to.be.empty
+                expect((await cardMarketplace.getActiveListings(0, 10)).total)
+                    .to.be.equal(0)
+            })
+
+            it("still indexes the listing by seller and by card", async () => {
+                expect((await cardMarketplace.getListingsBySeller(minter, 0, 10)).itemIds)
+                    .to.deep.equal([1])
+                expect((await cardMarketplace.getLatestListingByCard(1)).buyer)
+                    .to.be.equal(buyer)
+            })
+
+            it("emits a CardListingCreated event and a PrivateCardListingCreated event", async () => {
+                await expect(tx)
+                    .to.emit(cardMarketplace, "CardListingCreated")
+                    .withArgs(1, 1, minter, MIN_LISTING_PRICE, Currency.ETH)
+                await expect(tx)
+                    .to.emit(cardMarketplace, "PrivateCardListingCreated")
+                    .withArgs(1, buyer)
+            })
+        })
+
+        context("when someone else than the reserved buyer buys the listing", () => {
+            beforeEach(async () => {
+                await cardMarketplace.createPrivateCardListing(1, MIN_LISTING_PRICE, Currency.ETH, buyer)
+            })
+
+            it("reverts", async () => {
+                await expect(
+                    cardMarketplace.connect(signers[3]).buyListedCard(1, { value: MIN_LISTING_PRICE })
+                ).to.be.revertedWithCustomError(
+                    cardMarketplace,
+                    "CallerIsNotTheReservedBuyer"
+                )
+            })
+
+            it("reverts when buying and updating", async () => {
+                await expect(
+                    cardMarketplace.connect(signers[3]).buyAndUpdateListedCard(1, secondToken.cardName, secondToken.cardProperties, {
+                        value: MIN_LISTING_PRICE.add(ORACLE_FEE).add(UPDATE_PRICE)
+                    })
+                ).to.be.revertedWithCustomError(
+                    cardMarketplace,
+                    "CallerIsNotTheReservedBuyer"
+                )
+            })
+        })
+
+        context("when the reserved buyer buys the listing", () => {
+            let tx: any;
+
+            beforeEach(async () => {
+                await cardMarketplace.createPrivateCardListing(1, MIN_LISTING_PRICE, Currency.ETH, buyer)
+
+                tx = await cardMarketplace.connect(signers[2]).buyListedCard(1, { value: MIN_LISTING_PRICE })
+            })
+
+            it("transfers the Business Card to the reserved buyer", async () => {
+                expect(await businessCard.ownerOf(1))
+                    .to.be.equal(buyer)
+            })
+
+            it("fills the listing", async () => {
+                expect(await cardMarketplace.getListing(1))
+                    .to.deep.equal([1, minter, buyer, MIN_LISTING_PRICE, true, false, Currency.ETH])
+                await expect(tx)
+                    .to.emit(cardMarketplace, "CardListingFilled")
+                    .withArgs(1, 1, minter, buyer, MIN_LISTING_PRICE, Currency.ETH)
+            })
+        })
+
+        it("lets the reserved buyer buy and update the listing", async () => {
+            await cardMarketplace.createPrivateCardListing(1, MIN_LISTING_PRICE, Currency.ETH, buyer)
+
+            await cardMarketplace.connect(signers[2]).buyAndUpdateListedCard(1, secondToken.cardName, secondToken.cardProperties, {
+                value: MIN_LISTING_PRICE.add(ORACLE_FEE).add(UPDATE_PRICE)
+            })
+
+            expect(await businessCard.ownerOf(1))
+                .to.be.equal(buyer)
+        })
+
+        it("lets the seller cancel the listing", async () => {
+            await cardMarketplace.createPrivateCardListing(1, MIN_LISTING_PRICE, Currency.ETH, buyer)
+            await cardMarketplace.cancelCardListing(1)
+
+            expect(await cardMarketplace.getListing(1))
+                .to.deep.equal([1, minter, minter, MIN_LISTING_PRICE, false, true, Currency.ETH])
+            expect(await businessCard.ownerOf(1))
+                .to.be.equal(minter)
+        })
+    })
+
+    describe("createBundleListing", () => {
+        beforeEach(async () => {
+            await businessCard.getCard(firstToken.cardName, firstToken.cardProperties, { value: MINT_PRICE })
+            await businessCard.getCard(secondToken.cardName, secondToken.cardProperties, { value: MINT_PRICE })
+            await businessCard.getCard(thirdToken.cardName, thirdToken.cardProperties, { value: MINT_PRICE })
+            await businessCard.setApprovalForAll(cardMarketplace.address, true)
+        })
+
+        context("when the marketplace is not active", () => {
+            it("reverts", async () => {
+                await cardMarketplace.connect(signers[0]).pauseMarketplace()
+
+                await expect(
+                    cardMarketplace.createBundleListing([1, 2], MIN_LISTING_PRICE, Currency.ETH)
+                ).to.be.revertedWithCustomError(
+                    cardMarketplace,
+                    "MarketplaceIsPaused"
+                )
+            })
+        })
+
+        context("when the bundle has less than two Business Cards", () => {
+            it("reverts", async () => {
+                await expect(
+                    cardMarketplace.createBundleListing([1], MIN_LISTING_PRICE, Currency.ETH)
+                ).to.be.revertedWithCustomError(
+                    cardMarketplace,
+                    "BundleSizeNotValid"
+                )
+            })
+        })
+
+        context(`when the bundle has more than ${MAX_BUNDLE_SIZE} Business Cards`, () => {
+            it("reverts", async () => {
+                await expect(
+                    cardMarketplace.createBundleListing(Array(MAX_BUNDLE_SIZE + 1).fill(1), MIN_LISTING_PRICE, Currency.ETH)
+                ).to.be.revertedWithCustomError(
+                    cardMarketplace,
+                    "BundleSizeNotValid"
+                )
+            })
+        })
+
+        context("when the bundle has the same Business Card twice", () => {
+            it("reverts", async () => {
+                await expect(
+                    cardMarketplace.createBundleListing([1, 2, 1], MIN_LISTING_PRICE, Currency.ETH)
+                ).to.be.revertedWith(
+                    "ERC721: transfer from incorrect owner"
+                )
+            })
+        })
+
+        context("when the msg.sender does not own every Business Card", () => {
+            it("reverts", async () => {
+                await businessCard.transferFrom(minter, buyer, 3)
+
+                await expect(
+                    cardMarketplace.createBundleListing([1, 2, 3], MIN_LISTING_PRICE, Currency.ETH)
+                ).to.be.revertedWith(
+                    "ERC721: caller is not token owner or approved"
+                )
+            })
+        })
+
+        context("after a successful call", () => {
+            let tx: any;
+
+            beforeEach(async () => {
+                tx = await cardMarketplace.createBundleListing([1, 2, 3], MIN_LISTING_PRICE, Currency.ETH)
+            })
+
+            it("creates a single listing for the first Business Card", async () => {
+                expect(await cardMarketplace.getListing(1))
+                    .to.deep.equal([1, minter, constants.AddressZero, MIN_LISTING_PRICE, false, false, Currency.ETH])
+                expect(await cardMarketplace.totalListings())
+                    .to.be.equal(1)
+            })
+
+            it("records every Business Card of the bundle", async () => {
+                expect(await cardMarketplace.getListingCardIds(1))
+                    .to.deep.equal([1, 2, 3])
+            })
+
+            it("escrows every Business Card of the bundle", async () => {
+                for (const cardId of [1, 2, 3]) {
+                    expect(await businessCard.ownerOf(cardId))
+                        .to.be.equal(cardMarketplace.address)
+                }
+            })
+
+            it("finds the bundle listing from any of its Business Cards", async () => {
+                expect(await cardMarketplace.getLatestListingByCard(3))
+                    .to.deep.equal([1, minter, constants.AddressZero, MIN_LISTING_PRICE, false, false, Currency.ETH])
+                expect((await cardMarketplace.getListingsByCard(2, 0, 10)).itemIds)
+                    .to.deep.equal([1])
+            })
+
+            it("emits a CardListingCreated event and a CardBundled event for every Business Card", async () => {
+                await expect(tx)
+                    .to.emit(cardMarketplace, "CardListingCreated")
+                    .withArgs(1, 1, minter, MIN_LISTING_PRICE, Currency.ETH)
+
+                for (const cardId of [1, 2, 3]) {
+                    await expect(tx)
+                        .to.emit(cardMarketplace, "CardBundled")
+                        .withArgs(1, cardId)
+                }
+            })
+        })
+
+        context("when the bundle listing gets bought", () => {
+            let tx: any;
+
+            beforeEach(async () => {
+                await cardMarketplace.createBundleListing([1, 2, 3], MIN_LISTING_PRICE, Currency.ETH)
+
+                tx = await cardMarketplace.connect(signers[2]).buyListedCard(1, { value: MIN_LISTING_PRICE })
+            })
+
+            it("transfers every Business Card of the bundle to the buyer", async () => {
+                for (const cardId of [1, 2, 3]) {
+                    expect(await businessCard.ownerOf(cardId))
+                        .to.be.equal(buyer)
+                }
+            })
+
+            it("credits the price of the whole bundle to the seller", async () => {
+                await expect(tx).to.changeEtherBalance(buyer, MIN_LISTING_PRICE.mul(-1))
+
+                expect(await cardMarketplace.payments(minter))
+                    .to.be.equal(MIN_LISTING_PRICE)
+            })
+
+            it("emits a single CardListingFilled event", async () => {
+                await expect(tx)
+                    .to.emit(cardMarketplace, "CardListingFilled")
+                    .withArgs(1, 1, minter, buyer, MIN_LISTING_PRICE, Currency.ETH)
+            })
+        })
+
+        context("when the bundle listing gets cancelled", () => {
+            it("returns every Business Card of the bundle to the seller", async () => {
+                await cardMarketplace.createBundleListing([1, 2, 3], MIN_LISTING_PRICE, Currency.ETH)
+                await cardMarketplace.cancelCardListing(1)
+
+                for (const cardId of [1, 2, 3]) {
+                    expect(await businessCard.ownerOf(cardId))
+                        .to.be.equal(minter)
+                }
+            })
+        })
+
+        context("when the bundle listing expires", () => {
+            it("returns every Business Card of the bundle to the seller", async () => {
+                await cardMarketplace.createBundleListing([1, 2, 3], MIN_LISTING_PRICE, Currency.ETH)
+                await cardMarketplace.setListingExpiry(1, (await time.latest()) + LISTING_DURATION)
+
+                await time.increase(LISTING_DURATION)
+                await cardMarketplace.connect(signers[3]).closeExpiredListing(1)
+
+                for (const cardId of [1, 2, 3]) {
+                    expect(await businessCard.ownerOf(cardId))
+                        .to.be.equal(minter)
+                }
+            })
+        })
+
+        context("when the bundle listing gets bought and updated", () => {
+            it("reverts", async () => {
+                await cardMarketplace.createBundleListing([1, 2, 3], MIN_LISTING_PRICE, Currency.ETH)
+
+                await expect(
+                    cardMarketplace.connect(signers[2]).buyAndUpdateListedCard(1, 'Timothy BRYCE', cardProperties, {
+                        value: MIN_LISTING_PRICE.add(ORACLE_FEE).add(UPDATE_PRICE)
+                    })
+                ).to.be.revertedWithCustomError(
+                    cardMarketplace,
+                    "ListingIsABundle"
+                )
+            })
+        })
+
+        context("when the seller accepts an offer for a Business Card of the bundle", () => {
+            let tx: any;
+
+            beforeEach(async () => {
+                await cardMarketplace.createBundleListing([1, 2, 3], MIN_LISTING_PRICE, Currency.ETH)
+                await cardMarketplace.connect(signers[2]).makeOffer(2, (await time.latest()) + OFFER_DURATION, { value: MIN_LISTING_PRICE })
+
+                tx = await cardMarketplace.acceptOffer(1)
+            })
+
+            it("transfers that Business Card to the bidder and the others back to the seller", async () => {
+                expect(await businessCard.ownerOf(1)).to.be.equal(minter)
+                expect(await businessCard.ownerOf(2)).to.be.equal(buyer)
+                expect(await businessCard.ownerOf(3)).to.be.equal(minter)
+            })
+
+            it("cancels the bundle listing", async () => {
+                await expect(tx)
+                    .to.emit(cardMarketplace, "CardListingCancelled")
+                    .withArgs(1, 1)
+                expect(await cardMarketplace.getActiveListings(0, 10))
+                    .to.deep.equal([[], [], 0])
+            })
+        })
+    })
+
+    describe("getListingCardIds", () => {
+        context("when the listing does not exist", () => {
+            it("reverts", async () => {
+                await expect(
+                    cardMarketplace.getListingCardIds(1)
+                ).to.be.revertedWithCustomError(
+                    cardMarketplace,
+                    "ListingDoesNotExist"
+                )
+            })
+        })
+
+        it("returns the single Business Card of listings that are not bundles", async () => {
+            await businessCard.getCard(firstToken.cardName, firstToken.cardProperties, { value: MINT_PRICE })
+            await businessCard.approve(cardMarketplace.address, 1)
+            await cardMarketplace.createCardListing(1, MIN_LISTING_PRICE)
+
+            expect(await cardMarketplace.getListingCardIds(1))
+                .to.deep.equal([1])
+        })
+    })
+
+    describe("getListingPrice", () => {
+        context("when the market listing does not exist", () => {
+            it("reverts", async () => {
+                await expect(
+                    cardMarketplace.getListingPrice(1)
+                ).to.be.revertedWithCustomError(
+                    cardMarketplace,
+                    "ListingDoesNotExist"
+                )
+            })
+        })
+
+        it("returns the price of a fixed price listing", async () => {
+            await businessCard.getCard(firstToken.cardName, firstToken.cardProperties, { value: MINT_PRICE })
+            await businessCard.approve(cardMarketplace.address, 1)
+            await cardMarketplace.createCardListing(1, MIN_LISTING_PRICE)
+
+            await time.increase(DECAY_DURATION)
+
+            expect(await cardMarketplace.getListingPrice(1))
+                .to.be.equal(MIN_LISTING_PRICE)
+        })
+    })
+
+    describe("makeOffer", () => {
+        let expiresAt: number;
+
+        beforeEach(async () => {
+            await businessCard.getCard(firstToken.cardName, firstToken.cardProperties, { value: MINT_PRICE })
+
+            expiresAt = (await time.latest()) + OFFER_DURATION
+        })
+
+        context("when the marketplace is not active", () => {
+            it("reverts", async () => {
+                await cardMarketplace.connect(signers[0]).pauseMarketplace()
+
+                await expect(
+                    cardMarketplace.connect(signers[2]).makeOffer(1, expiresAt, { value: MIN_LISTING_PRICE })
+                ).to.be.revertedWithCustomError(
+                    cardMarketplace,
+                    "MarketplaceIsPaused"
+                )
+            })
+        })
+
+        context("when the offer amount is below the minimum", () => {
+            it("reverts", async () => {
+                await expect(
+                    cardMarketplace.connect(signers[2]).makeOffer(1, expiresAt, { value: MIN_LISTING_PRICE.sub(1) })
+                ).to.be.revertedWithCustomError(
+                    cardMarketplace,
+                    "PriceTooLow"
+                )
+            })
+        })
+
+        context("when the offer expires before being made", () => {
+            it("reverts", async () => {
+                const timestamp = await time.latest()
+                await time.setNextBlockTimestamp(timestamp + 1)
+
+                await expect(
+                    cardMarketplace.connect(signers[2]).makeOffer(1, timestamp + 1, { value: MIN_LISTING_PRICE })
+                ).to.be.revertedWithCustomError(
+                    cardMarketplace,
+                    "OfferExpirationNotValid"
+                )
+            })
+        })
+
+        context("when the Business Card does not exist", () => {
+            it("reverts", async () => {
+                await expect(
+                    cardMarketplace.connect(signers[2]).makeOffer(2, expiresAt, { value: MIN_LISTING_PRICE })
+                ).to.be.revertedWith(
+                    "ERC721: invalid token ID"
+                )
+            })
+        })
+
+        context("when the caller owns the Business Card", () => {
+            it("reverts", async () => {
+                await expect(
+                    cardMarketplace.makeOffer(1, expiresAt, { value: MIN_LISTING_PRICE })
+                ).to.be.revertedWithCustomError(
+                    cardMarketplace,
+                    "CallerIsTheCardOwner"
+                )
+            })
+        })
+
+        context("when the caller is the seller of the listed Business Card", () => {
+            beforeEach(async () => {
+                await businessCard.approve(cardMarketplace.address, 1)
+                await cardMarketplace.createCardListing(1, MIN_LISTING_PRICE)
+            })
+
+            it("reverts", async () => {
+                await expect(
+                    cardMarketplace.makeOffer(1, expiresAt, { value: MIN_LISTING_PRICE })
+                ).to.be.revertedWithCustomError(
+                    cardMarketplace,
+                    "CallerIsTheCardOwner"
+                )
+            })
+
+            it("accepts offers from the seller once the Business Card is sold", async () => {
+                await cardMarketplace.connect(signers[2]).buyListedCard(1, { value: MIN_LISTING_PRICE })
+
+                await expect(
+                    cardMarketplace.makeOffer(1, expiresAt, { value: MIN_LISTING_PRICE })
+                ).to.emit(cardMarketplace, "CardOfferCreated")
+            })
+        })
+
+        context("after a successful call", () => {
+            let tx: any;
+
+            beforeEach(async () => {
+                tx = await cardMarketplace.connect(signers[2]).makeOffer(1, expiresAt, { value: MIN_LISTING_PRICE })
+            })
+
+            it("creates the corresponding offer", async () => {
+                expect(await cardMarketplace.getOffer(1))
+                    .to.deep.equal([1, 1, buyer, MIN_LISTING_PRICE, expiresAt, false, false])
+            })
+
+            it("escrows the offer amount", async () => {
+                await expect(tx).to.changeEtherBalances([buyer, cardMarketplace.address], [MIN_LISTING_PRICE.mul(-1), MIN_LISTING_PRICE])
+
+                expect(await cardMarketplace.escrowedAmount())
+                    .to.be.equal(MIN_LISTING_PRICE)
+            })
+
+            it("emits a CardOfferCreated event", async () => {
+                await expect(tx)
+                    .to.emit(cardMarketplace, "CardOfferCreated")
+                    .withArgs(1, 1, buyer, MIN_LISTING_PRICE, expiresAt)
+            })
+        })
+    })
+
+    describe("withdrawOffer", () => {
+        let expiresAt: number;
+
+        beforeEach(async () => {
+            await businessCard.getCard(firstToken.cardName, firstToken.cardProperties, { value: MINT_PRICE })
+
+            expiresAt = (await time.latest()) + OFFER_DURATION
+            await cardMarketplace.connect(signers[2]).makeOffer(1, expiresAt, { value: MIN_LISTING_PRICE })
+        })
+
+        context("when the offer does not exist", () => {
+            it("reverts", async () => {
+                await expect(
+                    cardMarketplace.connect(signers[2]).withdrawOffer(2)
+                ).to.be.revertedWithCustomError(
+                    cardMarketplace,
+                    "OfferDoesNotExist"
+                )
+            })
+        })
+
+        context("when the msg.sender is not the bidder", () => {
+            it("reverts", async () => {
+                await expect(
+                    cardMarketplace.withdrawOffer(1)
+                ).to.be.revertedWithCustomError(
+                    cardMarketplace,
+                    "CallerIsNotTheBidder"
+                )
+            })
+        })
+
+        context("when the offer was accepted", () => {
+            it("reverts", async () => {
+                await businessCard.approve(cardMarketplace.address, 1)
+                await cardMarketplace.acceptOffer(1)
+
+                await expect(
+                    cardMarketplace.connect(signers[2]).withdrawOffer(1)
+                ).to.be.revertedWithCustomError(
+                    cardMarketplace,
+                    "OfferWasAccepted"
+                )
+            })
+        })
+
+        context("when the offer was already withdrawn", () => {
+            it("reverts", async () => {
+                await cardMarketplace.connect(signers[2]).withdrawOffer(1)
+
+                await expect(
+                    cardMarketplace.connect(signers[2]).withdrawOffer(1)
+                ).to.be.revertedWithCustomError(
+                    cardMarketplace,
+                    "OfferWasWithdrawn"
+                )
+            })
+        })
+
+        context("when the offer has expired", () => {
+            it("refunds the bidder", async () => {
+                await time.increaseTo(expiresAt)
+
+                await expect(
+                    cardMarketplace.connect(signers[2]).withdrawOffer(1)
+                ).to.changeEtherBalance(buyer, MIN_LISTING_PRICE)
+            })
+        })
+
+        context("after a successful call", () => {
+            let tx: any;
+
+            beforeEach(async () => {
+                tx = await cardMarketplace.connect(signers[2]).withdrawOffer(1)
+            })
+
+            it("updates the corresponding offer", async () => {
+                expect(await cardMarketplace.getOffer(1))
+                    .to.deep.equal([1, 1, buyer, MIN_LISTING_PRICE, expiresAt, false, true])
+            })
+
+            it("refunds the bidder", async () => {
+                await expect(tx).to.changeEtherBalances([buyer, cardMarketplace.address], [MIN_LISTING_PRICE, MIN_LISTING_PRICE.mul(-1)])
+
+                expect(await cardMarketplace.escrowedAmount())
+                    .to.be.equal(0)
+            })
+
+            it("emits a CardOfferWithdrawn event", async () => {
+                await expect(tx)
+                    .to.emit(cardMarketplace, "CardOfferWithdrawn")
+                    .withArgs(1, 1)
+            })
+        })
+    })
+
+    describe("acceptOffer", () => {
+        let expiresAt: number;
+
+        beforeEach(async () => {
+            await businessCard.getCard(firstToken.cardName, firstToken.cardProperties, { value: MINT_PRICE })
+
+            expiresAt = (await time.latest()) + OFFER_DURATION
+            await cardMarketplace.connect(signers[2]).makeOffer(1, expiresAt, { value: MIN_LISTING_PRICE })
+        })
+
+        context("when the offer does not exist", () => {
+            it("reverts", async () => {
+                await expect(
+                    cardMarketplace.acceptOffer(2)
+                ).to.be.revertedWithCustomError(
+                    cardMarketplace,
+                    "OfferDoesNotExist"
+                )
+            })
+        })
+
+        context("when the offer was withdrawn", () => {
+            it("reverts", async () => {
+                await cardMarketplace.connect(signers[2]).withdrawOffer(1)
+
+                await expect(
+                    cardMarketplace.acceptOffer(1)
+                ).to.be.revertedWithCustomError(
+                    cardMarketplace,
+                    "OfferWasWithdrawn"
+                )
+            })
+        })
+
+        context("when the offer has expired", () => {
+            it("reverts", async () => {
+                await time.setNextBlockTimestamp(expiresAt)
+
+                await expect(
+                    cardMarketplace.acceptOffer(1)
+                ).to.be.revertedWithCustomError(
+                    cardMarketplace,
+                    "OfferHasExpired"
+                )
+            })
+        })
+
+        context("when the marketplace is paused", () => {
+            it("reverts", async () => {
+                await cardMarketplace.connect(signers[0]).pauseMarketplace()
+
+                await expect(
+                    cardMarketplace.acceptOffer(1)
+                ).to.be.revertedWithCustomError(
+                    cardMarketplace,
+                    "MarketplaceIsPaused"
+                )
+            })
+        })
+
+        context("when the msg.sender does not own the card", () => {
+            it("reverts", async () => {
+                await expect(
+                    cardMarketplace.connect(signers[3]).acceptOffer(1)
+                ).to.be.revertedWithCustomError(
+                    cardMarketplace,
+                    "CallerIsNotTheCardOwner"
+                )
+            })
+        })
+
+        context("when the card has not been approved for spending", () => {
+            it("reverts", async () => {
+                await expect(
+                    cardMarketplace.acceptOffer(1)
+                ).to.be.revertedWith(
+                    "ERC721: caller is not token owner or approved"
+                )
+            })
+        })
+
+        context("after a successful call", () => {
+            let tx: any;
+
+            beforeEach(async () => {
+                await businessCard.approve(cardMarketplace.address, 1)
+
+                tx = await cardMarketplace.acceptOffer(1)
+            })
+
+            it("updates the corresponding offer", async () => {
+                expect(await cardMarketplace.getOffer(1))
+                    .to.deep.equal([1, 1, buyer, MIN_LISTING_PRICE, expiresAt, true, false])
+            })
+
+            it("credits the offer amount to the owner", async () => {
+                expect(await cardMarketplace.payments(minter))
+                    .to.be.equal(MIN_LISTING_PRICE)
+                expect(await cardMarketplace.escrowedAmount())
+                    .to.be.equal(0)
+            })
+
+            it("transfers the Business Card to the bidder", async () => {
+                expect(await businessCard.ownerOf(1))
+                    .to.be.equal(buyer)
+            })
+
+            it("emits a CardOfferAccepted event", async () => {
+                await expect(tx)
+                    .to.emit(cardMarketplace, "CardOfferAccepted")
+                    .withArgs(1, 1, minter, buyer, MIN_LISTING_PRICE)
+            })
+        })
+
+        context("when the card is listed", () => {
+            beforeEach(async () => {
+                await businessCard.approve(cardMarketplace.address, 1)
+                await cardMarketplace.createCardListing(1, MIN_LISTING_PRICE.mul(2))
+            })
+
+            it("reverts when the msg.sender is not the seller", async () => {
+                await expect(
+                    cardMarketplace.connect(signers[3]).acceptOffer(1)
+                ).to.be.revertedWithCustomError(
+                    cardMarketplace,
+                    "CallerIsNotTheCardOwner"
+                )
+            })
+
+            it("cancels the listing and transfers the Business Card to the bidder", async () => {
+                await expect(cardMarketplace.acceptOffer(1))
+                    .to.emit(cardMarketplace, "CardListingCancelled")
+                    .withArgs(1, 1)
+
+                expect(await cardMarketplace.getLatestListingByCard(1))
+                    .to.deep.equal([1, minter, minter, MIN_LISTING_PRICE.mul(2), false, true, Currency.ETH])
+
+                expect(await cardMarketplace.cancelledListings())
+                    .to.be.equal(1)
+
+                expect(await businessCard.ownerOf(1))
+                    .to.be.equal(buyer)
+            })
+        })
+
+        context("when the card is auctioned", () => {
+            it("reverts", async () => {
+                // The card was listed by the msg.sender before
+                await businessCard.approve(cardMarketplace.address, 1)
+                await cardMarketplace.createCardListing(1, MIN_LISTING_PRICE)
+                await cardMarketplace.cancelCardListing(1)
+
+                await businessCard.approve(cardMarketplace.address, 1)
+                await cardMarketplace.createAuction(1, MIN_LISTING_PRICE, BID_INCREMENT, MIN_AUCTION_DURATION)
+
+                await expect(
+                    cardMarketplace.acceptOffer(1)
+                ).to.be.revertedWithCustomError(
+                    cardMarketplace,
+                    "CallerIsNotTheCardOwner"
+                )
+            })
+        })
+    })
+
+    describe("createAuction", () => {
+        beforeEach(async () => {
+            await businessCard.getCard(firstToken.cardName, firstToken.cardProperties, { value: MINT_PRICE })
+            await businessCard.approve(cardMarketplace.address, 1)
+        })
+
+        context("when the marketplace is not active", () => {
+            it("reverts", async () => {
+                await cardMarketplace.connect(signers[0]).pauseMarketplace()
+
+                await expect(
+                    cardMarketplace.createAuction(1, MIN_LISTING_PRICE, BID_INCREMENT, MIN_AUCTION_DURATION)
+                ).to.be.revertedWithCustomError(
+                    cardMarketplace,
+                    "MarketplaceIsPaused"
+                )
+            })
+        })
+
+        context("when the reserve price is below the minimum", () => {
+            it("reverts", async () => {
+                await expect(
+                    cardMarketplace.createAuction(1, MIN_LISTING_PRICE.sub(1), BID_INCREMENT, MIN_AUCTION_DURATION)
+                ).to.be.revertedWithCustomError(
+                    cardMarketplace,
+                    "PriceTooLow"
+                )
+            })
+        })
+
+        context("when the minimum bid increment is zero", () => {
+            it("reverts", async () => {
+                await expect(
+                    cardMarketplace.createAuction(1, MIN_LISTING_PRICE, 0, MIN_AUCTION_DURATION)
+                ).to.be.revertedWithCustomError(
+                    cardMarketplace,
+                    "BidIncrementNotValid"
+                )
+            })
+        })
+
+        context("when the duration is out of bounds", () => {
+            it("reverts", async () => {
+                await expect(
+                    cardMarketplace.createAuction(1, MIN_LISTING_PRICE, BID_INCREMENT, MIN_AUCTION_DURATION - 1)
+                ).to.be.revertedWithCustomError(
+                    cardMarketplace,
+                    "AuctionDurationNotValid"
+                )
+
+                await expect(
+                    cardMarketplace.createAuction(1, MIN_LISTING_PRICE, BID_INCREMENT, MAX_AUCTION_DURATION + 1)
+                ).to.be.revertedWithCustomError(
+                    cardMarketplace,
+                    "AuctionDurationNotValid"
+                )
+            })
+        })
+
+        context("when the msg.sender does not own the card", () => {
+            it("reverts", async () => {
+                await expect(
+                    cardMarketplace.connect(signers[2]).createAuction(1, MIN_LISTING_PRICE, BID_INCREMENT, MIN_AUCTION_DURATION)
+                ).to.be.revertedWith(
+                    "ERC721: transfer from incorrect owner"
+                )
+            })
+        })
+
+        context("after a successful call", () => {
+            let tx: any;
+            let endTime: number;
+
+            beforeEach(async () => {
+                tx = await cardMarketplace.createAuction(1, MIN_LISTING_PRICE, BID_INCREMENT, MIN_AUCTION_DURATION)
+                endTime = (await time.latest()) + MIN_AUCTION_DURATION
+            })
+
+            it("creates the corresponding auction", async () => {
+                expect(await cardMarketplace.getAuction(1))
+                    .to.deep.equal([1, 1, minter, MIN_LISTING_PRICE, BID_INCREMENT, endTime, constants.AddressZero, 0, false])
+            })
+
+            it("transfers the token to the marketplace", async () => {
+                expect(await businessCard.ownerOf(1))
+                    .to.be.equal(cardMarketplace.address)
+            })
+
+            it("emits a CardAuctionCreated event", async () => {
+                await expect(tx)
+                    .to.emit(cardMarketplace, "CardAuctionCreated")
+                    .withArgs(1, 1, minter, MIN_LISTING_PRICE, BID_INCREMENT, endTime)
+            })
+        })
+    })
+
+    describe("bid", () => {
+        let endTime: number;
+
+        beforeEach(async () => {
+            await businessCard.getCard(firstToken.cardName, firstToken.cardProperties, { value: MINT_PRICE })
+            await businessCard.approve(cardMarketplace.address, 1)
+
+            await cardMarketplace.createAuction(1, MIN_LISTING_PRICE, BID_INCREMENT, MIN_AUCTION_DURATION)
+            endTime = (await time.latest()) + MIN_AUCTION_DURATION
+        })
+
+        context("when the auction does not exist", () => {
+            it("reverts", async () => {
+                await expect(
+                    cardMarketplace.connect(signers[2]).bid(2, { value: MIN_LISTING_PRICE })
+                ).to.be.revertedWithCustomError(
+                    cardMarketplace,
+                    "AuctionDoesNotExist"
+                )
+            })
+        })
+
+        context("when the marketplace is paused", () => {
+            it("reverts", async () => {
+                await cardMarketplace.connect(signers[0]).pauseMarketplace()
+
+                await expect(
+                    cardMarketplace.connect(signers[2]).bid(1, { value: MIN_LISTING_PRICE })
+                ).to.be.revertedWithCustomError(
+                    cardMarketplace,
+                    "MarketplaceIsPaused"
+                )
+            })
+        })
+
+        context("when the auction has ended", () => {
+            it("reverts", async () => {
+                await time.setNextBlockTimestamp(endTime)
+
+                await expect(
+                    cardMarketplace.connect(signers[2]).bid(1, { value: MIN_LISTING_PRICE })
+                ).to.be.revertedWithCustomError(
+                    cardMarketplace,
+                    "AuctionHasEnded"
+                )
+            })
+        })
+
+        context("when the first bid is below the reserve price", () => {
+            it("reverts", async () => {
+                await expect(
+                    cardMarketplace.connect(signers[2]).bid(1, { value: MIN_LISTING_PRICE.sub(1) })
+                ).to.be.revertedWithCustomError(
+                    cardMarketplace,
+                    "BidTooLow"
+                )
+            })
+        })
+
+        context("when a following bid does not exceed the highest bid by the minimum increment", () => {
+            it("reverts", async () => {
+                await cardMarketplace.connect(signers[2]).bid(1, { value: MIN_LISTING_PRICE })
+
+                await expect(
+                    cardMarketplace.connect(signers[3]).bid(1, { value: MIN_LISTING_PRICE.add(BID_INCREMENT).sub(1) })
+                ).to.be.revertedWithCustomError(
+                    cardMarketplace,
+                    "BidTooLow"
+                )
+            })
+        })
+
+        context("after a successful call", () => {
+            let tx: any;
+
+            beforeEach(async () => {
+                tx = await cardMarketplace.connect(signers[2]).bid(1, { value: MIN_LISTING_PRICE })
+            })
+
+            it("updates the highest bid", async () => {
+                expect((await cardMarketplace.getAuction(1)).slice(6))
+                    .to.deep.equal([buyer, MIN_LISTING_PRICE, false])
+            })
+
+            it("escrows the bid", async () => {
+                await expect(tx).to.changeEtherBalances([buyer, cardMarketplace.address], [MIN_LISTING_PRICE.mul(-1), MIN_LISTING_PRICE])
+
+                expect(await cardMarketplace.escrowedAmount())
+                    .to.be.equal(MIN_LISTING_PRICE)
+            })
+
+            it("emits a CardAuctionBid event", async () => {
+                await expect(tx)
+                    .to.emit(cardMarketplace, "CardAuctionBid")
+                    .withArgs(1, 1, buyer, MIN_LISTING_PRICE, endTime)
+            })
+
+            it("credits the bid back to the bidder once outbid", async () => {
+                const highestBid = MIN_LISTING_PRICE.add(BID_INCREMENT)
+
+                await expect(
+                    cardMarketplace.connect(signers[3]).bid(1, { value: highestBid })
+                ).to.changeEtherBalances(
+                    [accounts[3], cardMarketplace.address],
+                    [highestBid.mul(-1), highestBid]
+                )
+
+                expect(await cardMarketplace.payments(buyer))
+                    .to.be.equal(MIN_LISTING_PRICE)
+                expect(await cardMarketplace.escrowedAmount())
+                    .to.be.equal(highestBid)
+            })
+        })
+
+        context("when the highest bidder rejects ETH", () => {
+            let receiver: RejectingReceiverMock;
+
+            beforeEach(async () => {
+                const RejectingReceiverMockFactory = await ethers.getContractFactory("RejectingReceiverMock")
+                receiver = await RejectingReceiverMockFactory.deploy() as RejectingReceiverMock
+
+                await receiver.execute(
+                    cardMarketplace.address,
+                    cardMarketplace.interface.encodeFunctionData("bid", [1]),
+                    { value: MIN_LISTING_PRICE }
+                )
+            })
+
+            it("does not prevent it from being outbid", async () => {
+                await cardMarketplace.connect(signers[3]).bid(1, { value: MIN_LISTING_PRICE.add(BID_INCREMENT) })
+
+                expect((await cardMarketplace.getAuction(1)).highestBidder)
+                    .to.be.equal(accounts[3])
+                expect(await cardMarketplace.payments(receiver.address))
+                    .to.be.equal(MIN_LISTING_PRICE)
+            })
+
+            it("lets it withdraw its bid once it accepts ETH", async () => {
+                await cardMarketplace.connect(signers[3]).bid(1, { value: MIN_LISTING_PRICE.add(BID_INCREMENT) })
+                await receiver.setAccepting(true)
+
+                await expect(
+                    receiver.execute(cardMarketplace.address, cardMarketplace.interface.encodeFunctionData("withdrawPayments"))
+                ).to.changeEtherBalances(
+                    [receiver.address, cardMarketplace.address],
+                    [MIN_LISTING_PRICE, MIN_LISTING_PRICE.mul(-1)]
+                )
+                expect(await cardMarketplace.totalPayments())
+                    .to.be.equal(0)
+            })
+        })
+
+        context(`when the bid is placed within ${AUCTION_EXTENSION} seconds of the end`, () => {
+            it("extends the auction", async () => {
+                await time.setNextBlockTimestamp(endTime - AUCTION_EXTENSION)
+                await cardMarketplace.connect(signers[2]).bid(1, { value: MIN_LISTING_PRICE })
+
+                expect((await cardMarketplace.getAuction(1)).endTime)
+                    .to.be.equal(endTime)
+
+                await time.setNextBlockTimestamp(endTime - 1)
+
+                await expect(
+                    cardMarketplace.connect(signers[3]).bid(1, { value: MIN_LISTING_PRICE.add(BID_INCREMENT) })
+                ).to.emit(cardMarketplace, "CardAuctionBid")
+                    .withArgs(1, 1, accounts[3], MIN_LISTING_PRICE.add(BID_INCREMENT), endTime - 1 + AUCTION_EXTENSION)
+            })
+        })
+    })
+
+    describe("settleAuction", () => {
+        let endTime: number;
+
+        beforeEach(async () => {
+            await businessCard.getCard(firstToken.cardName, firstToken.cardProperties, { value: MINT_PRICE })
+            await businessCard.approve(cardMarketplace.address, 1)
+
+            await cardMarketplace.createAuction(1, MIN_LISTING_PRICE, BID_INCREMENT, MIN_AUCTION_DURATION)
+            endTime = (await time.latest()) + MIN_AUCTION_DURATION
+        })
+
+        context("when the auction does not exist", () => {
+            it("reverts", async () => {
+                await expect(
+                    cardMarketplace.settleAuction(2)
+                ).to.be.revertedWithCustomError(
+                    cardMarketplace,
+                    "AuctionDoesNotExist"
+                )
+            })
+        })
+
+        context("when the auction has not ended", () => {
+            it("reverts", async () => {
+                await time.setNextBlockTimestamp(endTime - 1)
+
+                await expect(
+                    cardMarketplace.settleAuction(1)
+                ).to.be.revertedWithCustomError(
+                    cardMarketplace,
+                    "AuctionHasNotEnded"
+                )
+            })
+        })
+
+        context("when the auction was already settled", () => {
+            it("reverts", async () => {
+                await time.increaseTo(endTime)
+                await cardMarketplace.settleAuction(1)
+
+                await expect(
+                    cardMarketplace.settleAuction(1)
+                ).to.be.revertedWithCustomError(
+                    cardMarketplace,
+                    "AuctionWasSettled"
+                )
+            })
+        })
+
+        context("when there were no bids", () => {
+            it("transfers the Business Card back to the seller", async () => {
+                await time.increaseTo(endTime)
+
+                await expect(cardMarketplace.connect(signers[3]).settleAuction(1))
+                    .to.emit(cardMarketplace, "CardAuctionSettled")
+                    .withArgs(1, 1, minter, constants.AddressZero, 0)
+
+                expect(await businessCard.ownerOf(1))
+                    .to.be.equal(minter)
+            })
+        })
+
+        context("after a successful call", () => {
+            let tx: any;
+
+            beforeEach(async () => {
+                await cardMarketplace.connect(signers[2]).bid(1, { value: MIN_LISTING_PRICE })
+                await time.increaseTo(endTime)
+
+                // Anyone can settle the auction
+                tx = await cardMarketplace.connect(signers[3]).settleAuction(1)
+            })
+
+            it("updates the corresponding auction", async () => {
+                expect((await cardMarketplace.getAuction(1)).isSettled)
+                    .to.be.true
+            })
+
+            it("credits the highest bid to the seller", async () => {
+                expect(await cardMarketplace.payments(minter))
+                    .to.be.equal(MIN_LISTING_PRICE)
+                expect(await cardMarketplace.escrowedAmount())
+                    .to.be.equal(0)
+            })
+
+            it("transfers the Business Card to the highest bidder", async () => {
+                expect(await businessCard.ownerOf(1))
+                    .to.be.equal(buyer)
+            })
+
+            it("emits a CardAuctionSettled event", async () => {
+                await expect(tx)
+                    .to.emit(cardMarketplace, "CardAuctionSettled")
+                    .withArgs(1, 1, minter, buyer, MIN_LISTING_PRICE)
+            })
+        })
+
+        context("when the marketplace is paused", () => {
+            it("still settles the auction", async () => {
+                await cardMarketplace.connect(signers[2]).bid(1, { value: MIN_LISTING_PRICE })
+                await cardMarketplace.connect(signers[0]).pauseMarketplace()
+                await time.increaseTo(endTime)
+
+                await cardMarketplace.settleAuction(1)
+
+                expect(await businessCard.ownerOf(1))
+                    .to.be.equal(buyer)
+            })
+        })
+    })
+
+    describe("fillSellOrder", () => {
+        let domain: TypedDataDomain;
+        let order: SellOrder;
+        let signature: string;
+
+        beforeEach(async () => {
+            await businessCard.getCard(firstToken.cardName, firstToken.cardProperties, { value: MINT_PRICE })
+            await businessCard.approve(cardMarketplace.address, 1)
+
+            domain = await getOrderDomain(cardMarketplace)
+            order = { seller: minter, cardId: 1, price: MIN_LISTING_PRICE, expiresAt: (await time.latest()) + OFFER_DURATION, nonce: 0, salt: 1 }
+            signature = (await signSellOrder(signers[1] as TypedDataSigner, domain, order)).signature
+        })
+
+        it("leaves the Business Card with the seller until the order is filled", async () => {
+            expect(await businessCard.ownerOf(1))
+                .to.be.equal(minter)
+        })
+
+        it("hashes the order like the SDK", async () => {
+            expect(await cardMarketplace.hashSellOrder(order))
+                .to.be.equal(hashSellOrder(domain, order))
+        })
+
+        context("when the signature is not the seller's", () => {
+            it("reverts", async () => {
+                const { signature } = await signSellOrder(signers[2] as TypedDataSigner, domain, order)
+
+                await expect(
+                    cardMarketplace.connect(signers[2]).fillSellOrder(order, signature, { value: MIN_LISTING_PRICE })
+                ).to.be.revertedWithCustomError(
+                    cardMarketplace,
+                    "SignatureNotValid"
+                )
+            })
+        })
+
+        context("when the order was tampered with", () => {
+            it("reverts", async () => {
+                await expect(
+                    cardMarketplace.connect(signers[2]).fillSellOrder({ ...order, price: MIN_LISTING_PRICE.mul(2) }, signature, { value: MIN_LISTING_PRICE.mul(2) })
+                ).to.be.revertedWithCustomError(
+                    cardMarketplace,
+                    "SignatureNotValid"
+                )
+            })
+        })
+
+        context("when the order has expired", () => {
+            it("reverts", async () => {
+                await time.setNextBlockTimestamp(order.expiresAt as number)
+
+                await expect(
+                    cardMarketplace.connect(signers[2]).fillSellOrder(order, signature, { value: MIN_LISTING_PRICE })
+                ).to.be.revertedWithCustomError(
+                    cardMarketplace,
+                    "OrderHasExpired"
+                )
+            })
+        })
+
+        context("when the marketplace is paused", () => {
+            it("reverts", async () => {
+                await cardMarketplace.connect(signers[0]).pauseMarketplace()
+
+                await expect(
+                    cardMarketplace.connect(signers[2]).fillSellOrder(order, signature, { value: MIN_LISTING_PRICE })
+                ).to.be.revertedWithCustomError(
+                    cardMarketplace,
+                    "MarketplaceIsPaused"
+                )
+            })
+        })
+
+        context("when the msg.value is below the price", () => {
+            it("reverts", async () => {
+                await expect(
+                    cardMarketplace.connect(signers[2]).fillSellOrder(order, signature, { value: MIN_LISTING_PRICE.sub(1) })
+                ).to.be.revertedWithCustomError(
+                    cardMarketplace,
+                    "PriceTooLow"
+                )
+            })
+        })
+
+        context("when the seller no longer owns the card", () => {
+            it("reverts", async () => {
+                await businessCard.transferFrom(minter, accounts[3], 1)
+
+                await expect(
+                    cardMarketplace.connect(signers[2]).fillSellOrder(order, signature, { value: MIN_LISTING_PRICE })
+                ).to.be.revertedWith(
+                    "ERC721: caller is not token owner or approved"
+                )
+            })
+        })
+
+        context("after a successful call", () => {
+            let tx: any;
+
+            beforeEach(async () => {
+                tx = await cardMarketplace.connect(signers[2]).fillSellOrder(order, signature, { value: MIN_LISTING_PRICE.mul(2) })
+            })
+
+            it("transfers the Business Card from the seller to the buyer", async () => {
+                expect(await businessCard.ownerOf(1))
+                    .to.be.equal(buyer)
+            })
+
+            it("credits the seller and refunds the excess msg.value", async () => {
+                await expect(tx).to.changeEtherBalances(
+                    [buyer, cardMarketplace.address],
+                    [MIN_LISTING_PRICE.mul(-1), MIN_LISTING_PRICE]
+                )
+
+                expect(await cardMarketplace.payments(minter))
+                    .to.be.equal(MIN_LISTING_PRICE)
+            })
+
+            it("emits a SignedOrderFilled event", async () => {
+                await expect(tx)
+                    .to.emit(cardMarketplace, "SignedOrderFilled")
+                    .withArgs(hashSellOrder(domain, order), 1, minter, buyer, MIN_LISTING_PRICE)
+            })
+
+            it("cannot be filled again", async () => {
+                expect(await cardMarketplace.filledOrders(hashSellOrder(domain, order)))
+                    .to.be.true
+
+                await expect(
+                    cardMarketplace.connect(signers[2]).fillSellOrder(order, signature, { value: MIN_LISTING_PRICE })
+                ).to.be.revertedWithCustomError(
+                    cardMarketplace,
+                    "OrderWasFilled"
+                )
+            })
+        })
+    })
+
+    describe("acceptBuyOrder", () => {
+        let domain: TypedDataDomain;
+        let order: BuyOrder;
+        let signature: string;
+
+        beforeEach(async () => {
+            await businessCard.getCard(firstToken.cardName, firstToken.cardProperties, { value: MINT_PRICE })
+
+            domain = await getOrderDomain(cardMarketplace)
+            order = { buyer, cardId: 1, price: MIN_LISTING_PRICE, expiresAt: (await time.latest()) + OFFER_DURATION, nonce: 0, salt: 1 }
+            signature = (await signBuyOrder(signers[2] as TypedDataSigner, domain, order)).signature
+
+            await cardMarketplace.connect(signers[2]).deposit({ value: MIN_LISTING_PRICE })
+        })
+
+        context("when the deposit of the buyer does not cover the price", () => {
+            it("reverts", async () => {
+                await cardMarketplace.connect(signers[2]).withdrawDeposit(1)
+
+                await expect(
+                    cardMarketplace.acceptBuyOrder(order, signature)
+                ).to.be.revertedWithCustomError(
+                    cardMarketplace,
+                    "DepositTooLow"
+                )
+            })
+        })
+
+        context("when the msg.sender does not own the card", () => {
+            it("reverts", async () => {
+                await expect(
+                    cardMarketplace.connect(signers[3]).acceptBuyOrder(order, signature)
+                ).to.be.revertedWithCustomError(
+                    cardMarketplace,
+                    "CallerIsNotTheCardOwner"
+                )
+            })
+        })
+
+        context("when the card has not been approved for spending", () => {
+            it("reverts", async () => {
+                await expect(
+                    cardMarketplace.acceptBuyOrder(order, signature)
+                ).to.be.revertedWith(
+                    "ERC721: caller is not token owner or approved"
+                )
+            })
+        })
+
+        context("after a successful call", () => {
+            let tx: any;
+
+            beforeEach(async () => {
+                await businessCard.setApprovalForAll(cardMarketplace.address, true)
+                tx = await cardMarketplace.acceptBuyOrder(order, signature)
+            })
+
+            it("transfers the Business Card to the buyer", async () => {
+                expect(await businessCard.ownerOf(1))
+                    .to.be.equal(buyer)
+            })
+
+            it("credits the msg.sender from the deposit of the buyer", async () => {
+                expect(await cardMarketplace.payments(minter))
+                    .to.be.equal(MIN_LISTING_PRICE)
+                expect(await cardMarketplace.deposits(buyer))
+                    .to.be.equal(0)
+                expect(await cardMarketplace.escrowedAmount())
+                    .to.be.equal(0)
+            })
+
+            it("emits a SignedOrderFilled event", async () => {
+                await expect(tx)
+                    .to.emit(cardMarketplace, "SignedOrderFilled")
+                    .withArgs(hashBuyOrder(domain, order), 1, minter, buyer, MIN_LISTING_PRICE)
+            })
+        })
+    })
+
+    describe("cancelSellOrder and cancelBuyOrder", () => {
+        let domain: TypedDataDomain;
+        let order: SellOrder;
+        let signature: string;
+
+        beforeEach(async () => {
+            await businessCard.getCard(firstToken.cardName, firstToken.cardProperties, { value: MINT_PRICE })
+            await businessCard.approve(cardMarketplace.address, 1)
+
+            domain = await getOrderDomain(cardMarketplace)
+            order = { seller: minter, cardId: 1, price: MIN_LISTING_PRICE, expiresAt: (await time.latest()) + OFFER_DURATION, nonce: 0, salt: 1 }
+            signature = (await signSellOrder(signers[1] as TypedDataSigner, domain, order)).signature
+        })
+
+        context("when the msg.sender did not sign the order", () => {
+            it("reverts", async () => {
+                await expect(
+                    cardMarketplace.connect(signers[2]).cancelSellOrder(order)
+                ).to.be.revertedWithCustomError(
+                    cardMarketplace,
+                    "CallerIsNotTheSigner"
+                )
+
+                await expect(
+                    cardMarketplace.cancelBuyOrder({ ...order, buyer })
+                ).to.be.revertedWithCustomError(
+                    cardMarketplace,
+                    "CallerIsNotTheSigner"
+                )
+            })
+        })
+
+        context("when the order was filled", () => {
+            it("reverts", async () => {
+                await cardMarketplace.connect(signers[2]).fillSellOrder(order, signature, { value: MIN_LISTING_PRICE })
+
+                await expect(
+                    cardMarketplace.cancelSellOrder(order)
+                ).to.be.revertedWithCustomError(
+                    cardMarketplace,
+                    "OrderWasFilled"
+                )
+            })
+        })
+
+        context("after a successful call", () => {
+            let tx: any;
+
+            beforeEach(async () => {
+                tx = await cardMarketplace.cancelSellOrder(order)
+            })
+
+            it("emits a SignedOrderCancelled event", async () => {
+                await expect(tx)
+                    .to.emit(cardMarketplace, "SignedOrderCancelled")
+                    .withArgs(hashSellOrder(domain, order), minter)
+            })
+
+            it("prevents the order from being filled", async () => {
+                await expect(
+                    cardMarketplace.connect(signers[2]).fillSellOrder(order, signature, { value: MIN_LISTING_PRICE })
+                ).to.be.revertedWithCustomError(
+                    cardMarketplace,
+                    "OrderWasCancelled"
+                )
+            })
+        })
+
+        it("cancels buy orders", async () => {
+            const buyOrder = { buyer, cardId: 1, price: MIN_LISTING_PRICE, expiresAt: order.expiresAt, nonce: 0, salt: 1 }
+            const { signature } = await signBuyOrder(signers[2] as TypedDataSigner, domain, buyOrder)
+            await cardMarketplace.connect(signers[2]).deposit({ value: MIN_LISTING_PRICE })
+
+            await expect(cardMarketplace.connect(signers[2]).cancelBuyOrder(buyOrder))
+                .to.emit(cardMarketplace, "SignedOrderCancelled")
+                .withArgs(hashBuyOrder(domain, buyOrder), buyer)
+
+            await expect(
+                cardMarketplace.acceptBuyOrder(buyOrder, signature)
+            ).to.be.revertedWithCustomError(
+                cardMarketplace,
+                "OrderWasCancelled"
+            )
+        })
+    })
+
+    describe("cancelAllOrders", () => {
+        it("invalidates every order signed with the previous nonce", async () => {
+            await businessCard.getCard(firstToken.cardName, firstToken.cardProperties, { value: MINT_PRICE })
+            await businessCard.approve(cardMarketplace.address, 1)
+
+            const domain = await getOrderDomain(cardMarketplace)
+            const order = { seller: minter, cardId: 1, price: MIN_LISTING_PRICE, expiresAt: (await time.latest()) + OFFER_DURATION, nonce: 0, salt: 1 }
+            const { signature } = await signSellOrder(signers[1] as TypedDataSigner, domain, order)
+
+            await expect(cardMarketplace.cancelAllOrders())
+                .to.emit(cardMarketplace, "NonceIncremented")
+                .withArgs(minter, 1)
+
+            await expect(
+                cardMarketplace.connect(signers[2]).fillSellOrder(order, signature, { value: MIN_LISTING_PRICE })
+            ).to.be.revertedWithCustomError(
+                cardMarketplace,
+                "OrderNonceNotValid"
+            )
+
+            // Orders signed with the new nonce can be filled
+            const newOrder = { ...order, nonce: 1 }
+            const { signature: newSignature } = await signSellOrder(signers[1] as TypedDataSigner, domain, newOrder)
+
+            await cardMarketplace.connect(signers[2]).fillSellOrder(newOrder, newSignature, { value: MIN_LISTING_PRICE })
+
+            expect(await businessCard.ownerOf(1))
+                .to.be.equal(buyer)
+        })
+    })
+
+    describe("deposit and withdrawDeposit", () => {
+        context("when the marketplace is paused", () => {
+            it("reverts the deposit but not the withdrawal", async () => {
+                await cardMarketplace.connect(signers[2]).deposit({ value: MIN_LISTING_PRICE })
+                await cardMarketplace.connect(signers[0]).pauseMarketplace()
+
+                await expect(
+                    cardMarketplace.connect(signers[2]).deposit({ value: MIN_LISTING_PRICE })
+                ).to.be.revertedWithCustomError(
+                    cardMarketplace,
+                    "MarketplaceIsPaused"
+                )
+
+                await expect(
+                    cardMarketplace.connect(signers[2]).withdrawDeposit(MIN_LISTING_PRICE)
+                ).to.changeEtherBalance(buyer, MIN_LISTING_PRICE)
+            })
+        })
+
+        context("when withdrawing more than the deposit", () => {
+            it("reverts", async () => {
+                await cardMarketplace.connect(signers[2]).deposit({ value: MIN_LISTING_PRICE })
+
+                await expect(
+                    cardMarketplace.connect(signers[2]).withdrawDeposit(MIN_LISTING_PRICE.add(1))
+                ).to.be.revertedWithCustomError(
+                    cardMarketplace,
+                    "DepositTooLow"
+                )
+            })
+        })
+
+        it("escrows the deposits and emits the corresponding events", async () => {
+            await expect(cardMarketplace.connect(signers[2]).deposit({ value: MIN_LISTING_PRICE }))
+                .to.emit(cardMarketplace, "Deposited")
+                .withArgs(buyer, MIN_LISTING_PRICE)
+
+            expect(await cardMarketplace.deposits(buyer))
+                .to.be.equal(MIN_LISTING_PRICE)
+            expect(await cardMarketplace.escrowedAmount())
+                .to.be.equal(MIN_LISTING_PRICE)
+
+            await expect(cardMarketplace.connect(signers[2]).withdrawDeposit(MIN_LISTING_PRICE))
+                .to.emit(cardMarketplace, "DepositWithdrawn")
+                .withArgs(buyer, MIN_LISTING_PRICE)
+
+            expect(await cardMarketplace.escrowedAmount())
+                .to.be.equal(0)
+        })
+    })
+
+    describe("getOffersByCard and getOffersByBidder", () => {
+        let expiresAt: number;
+
+        beforeEach(async () => {
+            await businessCard.getCard(firstToken.cardName, firstToken.cardProperties, { value: MINT_PRICE })
+            await businessCard.getCard(secondToken.cardName, secondToken.cardProperties, { value: MINT_PRICE })
+
+            expiresAt = (await time.latest()) + OFFER_DURATION
+
+            await cardMarketplace.connect(signers[2]).makeOffer(1, expiresAt, { value: MIN_LISTING_PRICE })
+            await cardMarketplace.connect(signers[3]).makeOffer(1, expiresAt, { value: MIN_LISTING_PRICE.add(1) })
+            await cardMarketplace.connect(signers[2]).makeOffer(2, expiresAt, { value: MIN_LISTING_PRICE.add(2) })
+
+            await cardMarketplace.connect(signers[2]).withdrawOffer(1)
+        })
+
+        it("returns the offers made for a Business Card", async () => {
+            expect(await cardMarketplace.getOffersByCard(1))
+                .to.deep.equal([
+                    [1, 1, buyer, MIN_LISTING_PRICE, expiresAt, false, true],
+                    [2, 1, accounts[3], MIN_LISTING_PRICE.add(1), expiresAt, false, false]
+                ])
+        })
+
+        it("returns the offers made by an address", async () => {
+            expect(await cardMarketplace.getOffersByBidder(buyer))
+                .to.deep.equal([
+                    [1, 1, buyer, MIN_LISTING_PRICE, expiresAt, false, true],
+                    [3, 2, buyer, MIN_LISTING_PRICE.add(2), expiresAt, false, false]
+                ])
+        })
+    })
+
+    describe("royalties", () => {
+        const ROYALTY = 250;
+        const royaltyOf = (price: BigNumber) => price.mul(ROYALTY).div(10000);
+
+        let receiver: string;
+
+        const expectPayments = async (sellerAmount: BigNumber, royalty: BigNumber) => {
+            expect(await cardMarketplace.payments(minter))
+                .to.be.equal(sellerAmount)
+            expect(await cardMarketplace.payments(receiver))
+                .to.be.equal(royalty)
+        }
+
+        beforeEach(async () => {
+            receiver = accounts[8]
+
+            await businessCard.connect(signers[0]).setRoyalty(receiver, ROYALTY)
+            await businessCard.getCard(firstToken.cardName, firstToken.cardProperties, { value: MINT_PRICE })
+            await businessCard.approve(cardMarketplace.address, 1)
+        })
+
+        it("splits the price of a listing between the seller and the royalty receiver", async () => {
+            await cardMarketplace.createCardListing(1, MIN_LISTING_PRICE)
+
+            const tx = await cardMarketplace.connect(signers[2]).buyListedCard(1, { value: MIN_LISTING_PRICE })
+
+            await expectPayments(MIN_LISTING_PRICE.sub(royaltyOf(MIN_LISTING_PRICE)), royaltyOf(MIN_LISTING_PRICE))
+            await expect(tx)
+                .to.emit(cardMarketplace, "RoyaltyPaid")
+                .withArgs(1, receiver, royaltyOf(MIN_LISTING_PRICE), Currency.ETH)
+        })
+
+        it("rounds the royalty down, leaving the remainder to the seller", async () => {
+            // 250 basis points of this price is not a whole number of wei
+            const price = MIN_LISTING_PRICE.add(39)
+            await cardMarketplace.createCardListing(1, price)
+
+            expect(royaltyOf(price).mul(10000)).to.be.lessThan(price.mul(ROYALTY))
+
+            await cardMarketplace.connect(signers[2]).buyListedCard(1, { value: price })
+
+            await expectPayments(price.sub(royaltyOf(price)), royaltyOf(price))
+        })
+
+        it("does not pay a royalty when it is zero", async () => {
+            await businessCard.connect(signers[0]).setRoyalty(receiver, 0)
+            await cardMarketplace.createCardListing(1, MIN_LISTING_PRICE)
+
+            const tx = await cardMarketplace.connect(signers[2]).buyListedCard(1, { value: MIN_LISTING_PRICE })
+
+            await expectPayments(MIN_LISTING_PRICE, BigNumber.from(0))
+            await expect(tx).not.to.emit(cardMarketplace, "RoyaltyPaid")
+        })
+
+        it("pays the whole price to a seller that is the royalty receiver", async () => {
+            await businessCard.connect(signers[0]).setRoyalty(minter, ROYALTY)
+            await cardMarketplace.createCardListing(1, MIN_LISTING_PRICE)
+
+            await cardMarketplace.connect(signers[2]).buyListedCard(1, { value: MIN_LISTING_PRICE })
+
+            expect(await cardMarketplace.payments(minter))
+                .to.be.equal(MIN_LISTING_PRICE)
+        })
+
+        it("charges the royalty on the listing price when buying and updating", async () => {
+            await businessCard.connect(signers[9]).updateCallback(1, cardURI)
+            await cardMarketplace.createCardListing(1, MIN_LISTING_PRICE)
+
+            await cardMarketplace.connect(signers[2]).buyAndUpdateListedCard(1, secondToken.cardName, secondToken.cardProperties, {
+                value: MIN_LISTING_PRICE.add(ORACLE_FEE).add(UPDATE_PRICE)
+            })
+
+            await expectPayments(MIN_LISTING_PRICE.sub(royaltyOf(MIN_LISTING_PRICE)), royaltyOf(MIN_LISTING_PRICE))
+        })
+
+        it("charges the royalty on accepted offers", async () => {
+            await cardMarketplace.connect(signers[2]).makeOffer(1, (await time.latest()) + OFFER_DURATION, { value: MIN_LISTING_PRICE })
+
+            await cardMarketplace.acceptOffer(1)
+
+            await expectPayments(MIN_LISTING_PRICE.sub(royaltyOf(MIN_LISTING_PRICE)), royaltyOf(MIN_LISTING_PRICE))
+        })
+
+        it("charges the royalty on settled auctions", async () => {
+            await cardMarketplace.createAuction(1, MIN_LISTING_PRICE, BID_INCREMENT, MIN_AUCTION_DURATION)
+            await cardMarketplace.connect(signers[2]).bid(1, { value: MIN_LISTING_PRICE })
+            await time.increase(MIN_AUCTION_DURATION)
+
+            await cardMarketplace.settleAuction(1)
+
+            await expectPayments(MIN_LISTING_PRICE.sub(royaltyOf(MIN_LISTING_PRICE)), royaltyOf(MIN_LISTING_PRICE))
+        })
+    })
+
+    describe("setProtocolFee", () => {
+        context("when being called by someone other than the contract owner", () => {
+            it("reverts", async () => {
+                await expect(
+                    cardMarketplace.setProtocolFee(MAX_PROTOCOL_FEE)
+                ).to.be.revertedWith(
+                    "Ownable: caller is not the owner"
+                )
+            })
+        })
+
+        context("when the fee is above the maximum", () => {
+            it("reverts", async () => {
+                await expect(
+                    cardMarketplace.connect(signers[0]).setProtocolFee(MAX_PROTOCOL_FEE + 1)
+                ).to.be.revertedWithCustomError(
+                    cardMarketplace,
+                    "ProtocolFeeTooHigh"
+                )
+            })
+        })
+
+        context("after a successful call", () => {
+            const fee = MIN_LISTING_PRICE.mul(MAX_PROTOCOL_FEE).div(10000);
+
+            beforeEach(async () => {
+                await cardMarketplace.connect(signers[0]).setProtocolFee(MAX_PROTOCOL_FEE)
+
+                await businessCard.getCard(firstToken.cardName, firstToken.cardProperties, { value: MINT_PRICE })
+                await businessCard.approve(cardMarketplace.address, 1)
+                await cardMarketplace.createCardListing(1, MIN_LISTING_PRICE)
+            })
+
+            it("charges the fee to the seller on every sale", async () => {
+                const tx = await cardMarketplace.connect(signers[2]).buyListedCard(1, { value: MIN_LISTING_PRICE })
+
+                expect(await cardMarketplace.payments(minter))
+                    .to.be.equal(MIN_LISTING_PRICE.sub(fee))
+                await expect(tx)
+                    .to.emit(cardMarketplace, "ProtocolFeeCharged")
+                    .withArgs(1, fee, Currency.ETH)
+
+                expect(await cardMarketplace.accruedFees())
+                    .to.be.equal(fee)
+            })
+
+            it("charges the fee on top of the royalty", async () => {
+                await businessCard.connect(signers[0]).setRoyalty(accounts[8], MAX_ROYALTY)
+                const royalty = MIN_LISTING_PRICE.mul(MAX_ROYALTY).div(10000)
+
+                await cardMarketplace.connect(signers[2]).buyListedCard(1, { value: MIN_LISTING_PRICE })
+
+                expect(await cardMarketplace.payments(minter))
+                    .to.be.equal(MIN_LISTING_PRICE.sub(royalty).sub(fee))
+                expect(await cardMarketplace.payments(accounts[8]))
+                    .to.be.equal(royalty)
+                expect(await cardMarketplace.accruedFees())
+                    .to.be.equal(fee)
+            })
+        })
+    })
+
+    describe("setTreasury", () => {
+        context("when being called by someone other than the contract owner", () => {
+            it("reverts", async () => {
+                await expect(
+                    cardMarketplace.setTreasury(accounts[7])
+                ).to.be.revertedWith(
+                    "Ownable: caller is not the owner"
+                )
+            })
+        })
+
+        context("when the treasury is the zero address", () => {
+            it("reverts", async () => {
+                await expect(
+                    cardMarketplace.connect(signers[0]).setTreasury(constants.AddressZero)
+                ).to.be.revertedWithCustomError(
+                    cardMarketplace,
+                    "TreasuryNotValid"
+                )
+            })
+        })
+
+        it("starts as the contract owner", async () => {
+            expect(await cardMarketplace.treasury())
+                .to.be.equal(accounts[0])
+        })
+
+        it("sets the treasury to the newly provided value", async () => {
+            await cardMarketplace.connect(signers[0]).setTreasury(accounts[7])
+
+            expect(await cardMarketplace.treasury())
+                .to.be.equal(accounts[7])
+        })
+    })
+
+    describe("withdrawPayments", () => {
+        let receiver: RejectingReceiverMock;
+
+        beforeEach(async () => {
+            const RejectingReceiverMockFactory = await ethers.getContractFactory("RejectingReceiverMock")
+            receiver = await RejectingReceiverMockFactory.deploy() as RejectingReceiverMock
+
+            // The seller of card #1 is a contract rejecting ETH
+            await businessCard.getCard(firstToken.cardName, firstToken.cardProperties, { value: MINT_PRICE })
+            await businessCard.transferFrom(minter, receiver.address, 1)
+
+            await receiver.execute(
+                businessCard.address,
+                businessCard.interface.encodeFunctionData("setApprovalForAll", [cardMarketplace.address, true])
+            )
+            await receiver.execute(
+                cardMarketplace.address,
+                cardMarketplace.interface.encodeFunctionData("createCardListing", [1, MIN_LISTING_PRICE])
+            )
+        })
+
+        context("when the caller was not credited any payment", () => {
+            it("reverts", async () => {
+                await expect(
+                    cardMarketplace.withdrawPayments()
+                ).to.be.revertedWithCustomError(
+                    cardMarketplace,
+                    "NoPaymentsToWithdraw"
+                )
+            })
+        })
+
+        context("when the payee rejects ETH", () => {
+            it("does not prevent the sale", async () => {
+                const tx = await cardMarketplace.connect(signers[2]).buyListedCard(1, { value: MIN_LISTING_PRICE })
+
+                await expect(tx)
+                    .to.emit(cardMarketplace, "PaymentCredited")
+                    .withArgs(receiver.address, MIN_LISTING_PRICE)
+
+                expect(await businessCard.ownerOf(1))
+                    .to.be.equal(buyer)
+                expect(await cardMarketplace.payments(receiver.address))
+                    .to.be.equal(MIN_LISTING_PRICE)
+            })
+
+            it("reverts the withdrawal", async () => {
+                await cardMarketplace.connect(signers[2]).buyListedCard(1, { value: MIN_LISTING_PRICE })
+
+                await expect(
+                    receiver.execute(cardMarketplace.address, cardMarketplace.interface.encodeFunctionData("withdrawPayments"))
+                ).to.be.revertedWithCustomError(
+                    cardMarketplace,
+                    "PaymentWithdrawalFailed"
+                )
+            })
+        })
+
+        context("after a successful call", () => {
+            let tx: any;
+
+            beforeEach(async () => {
+                await cardMarketplace.connect(signers[2]).buyListedCard(1, { value: MIN_LISTING_PRICE })
+                await receiver.setAccepting(true)
+
+                tx = await receiver.execute(cardMarketplace.address, cardMarketplace.interface.encodeFunctionData("withdrawPayments"))
+            })
+
+            it("sends the credited payments to the payee", async () => {
+                await expect(tx).to.changeEtherBalances(
+                    [receiver.address, cardMarketplace.address],
+                    [MIN_LISTING_PRICE, MIN_LISTING_PRICE.mul(-1)]
+                )
+            })
+
+            it("clears the credited payments", async () => {
+                expect(await cardMarketplace.payments(receiver.address))
+                    .to.be.equal(0)
+                expect(await cardMarketplace.totalPayments())
+                    .to.be.equal(0)
+            })
+
+            it("emits a PaymentWithdrawn event", async () => {
+                await expect(tx)
+                    .to.emit(cardMarketplace, "PaymentWithdrawn")
+                    .withArgs(receiver.address, MIN_LISTING_PRICE)
+            })
+        })
+    })
+
+    describe("withdraw", () => {
+        const treasury = () => accounts[7];
+        const fee = MIN_LISTING_PRICE.mul(MAX_PROTOCOL_FEE).div(10000);
+
+        beforeEach(async () => {
+            await cardMarketplace.connect(signers[0]).setProtocolFee(MAX_PROTOCOL_FEE)
+            await cardMarketplace.connect(signers[0]).setTreasury(treasury())
+
+            await businessCard.getCard(firstToken.cardName, firstToken.cardProperties, { value: MINT_PRICE })
+            await businessCard.getCard(secondToken.cardName, secondToken.cardProperties, { value: MINT_PRICE })
+            await businessCard.getCard(thirdToken.cardName, thirdToken.cardProperties, { value: MINT_PRICE })
+            await businessCard.setApprovalForAll(cardMarketplace.address, true)
+
+            // Card #1 gets sold, card #2 auctioned and card #3 gets an offer
+            await cardMarketplace.createCardListing(1, MIN_LISTING_PRICE)
+            await cardMarketplace.connect(signers[2]).buyListedCard(1, { value: MIN_LISTING_PRICE })
+
+            await cardMarketplace.createAuction(2, MIN_LISTING_PRICE, BID_INCREMENT, MIN_AUCTION_DURATION)
+            await cardMarketplace.connect(signers[2]).bid(1, { value: MIN_LISTING_PRICE })
+
+            await cardMarketplace.connect(signers[3]).makeOffer(3, (await time.latest()) + OFFER_DURATION, { value: MIN_LISTING_PRICE.mul(2) })
+        })
+
+        context("when being called by someone other than the contract owner", () => {
+            it("reverts", async () => {
+                await expect(
+                    cardMarketplace.withdraw()
+                ).to.be.revertedWith(
+                    "Ownable: caller is not the owner"
+                )
+            })
+        })
+
+        context("after a successful call", () => {
+            let tx: any;
+
+            beforeEach(async () => {
+                tx = await cardMarketplace.connect(signers[0]).withdraw()
+            })
+
+            it("sends the accrued fees to the treasury", async () => {
+                await expect(tx).to.changeEtherBalances([treasury(), accounts[0], cardMarketplace.address], [fee, 0, fee.mul(-1)])
+                await expect(tx)
+                    .to.emit(cardMarketplace, "FeesWithdrawn")
+                    .withArgs(treasury(), fee, 0)
+
+                expect(await cardMarketplace.accruedFees())
+                    .to.be.equal(0)
+            })
+
+            it("does not send anything when called again", async () => {
+                await expect(
+                    cardMarketplace.connect(signers[0]).withdraw()
+                ).to.changeEtherBalance(cardMarketplace.address, 0)
+            })
+        })
+
+        it("never touches the escrowed offers and bids nor the credited payments", async () => {
+            // Funds sent to the marketplace outside of any sale are not fees either
+            const balance = await businessCard.provider.getBalance(cardMarketplace.address)
+            await setBalance(cardMarketplace.address, balance.add(MIN_LISTING_PRICE))
+
+            const escrowed = await cardMarketplace.escrowedAmount()
+            expect(escrowed).to.be.equal(MIN_LISTING_PRICE.mul(3))
+
+            const credited = await cardMarketplace.totalPayments()
+            expect(credited).to.be.equal(MIN_LISTING_PRICE.sub(fee))
+
+            await cardMarketplace.connect(signers[0]).withdraw()
+            await cardMarketplace.connect(signers[0]).withdraw()
+
+            expect(await businessCard.provider.getBalance(cardMarketplace.address))
+                .to.be.equal(escrowed.add(credited).add(MIN_LISTING_PRICE))
+
+            // Every escrowed amount and credited payment can still be paid out
+            await expect(
+                cardMarketplace.connect(signers[3]).withdrawOffer(1)
+            ).to.changeEtherBalance(accounts[3], MIN_LISTING_PRICE.mul(2))
+
+            await time.increase(MIN_AUCTION_DURATION)
+            await cardMarketplace.settleAuction(1)
+
+            await cardMarketplace.connect(signers[0]).withdraw()
+
+            await expect(
+                cardMarketplace.withdrawPayments()
+            ).to.changeEtherBalance(minter, MIN_LISTING_PRICE.sub(fee).mul(2))
+
+            expect(await cardMarketplace.escrowedAmount())
+                .to.be.equal(0)
+            expect(await cardMarketplace.totalPayments())
+                .to.be.equal(0)
+            expect(await businessCard.provider.getBalance(cardMarketplace.address))
+                .to.be.equal(MIN_LISTING_PRICE)
+        })
+    })
+
+    describe("getMarketListings", () => {
+        beforeEach(async () => {
+            await businessCard.getCard(firstToken.cardName, firstToken.cardProperties, { value: MINT_PRICE })
+            await businessCard.getCard(secondToken.cardName, secondToken.cardProperties, { value: MINT_PRICE })
+            await businessCard.getCard(thirdToken.cardName, thirdToken.cardProperties, { value: MINT_PRICE })
+            await businessCard.getCard("SNEED", thirdToken.cardProperties, { value: MINT_PRICE })
+
+            await businessCard.approve(cardMarketplace.address, 1)
+            await businessCard.approve(cardMarketplace.address, 2)
+            await businessCard.approve(cardMarketplace.address, 3)
+            await businessCard.approve(cardMarketplace.address, 4)
+
+            await cardMarketplace.createCardListing(1, MIN_LISTING_PRICE)
+            await cardMarketplace.createCardListing(2, MIN_LISTING_PRICE)
+            await cardMarketplace.createCardListing(3, MIN_LISTING_PRICE)
+            await cardMarketplace.createCardListing(4, MIN_LISTING_PRICE)
+
+            await cardMarketplace.cancelCardListing(2)
+            await cardMarketplace.connect(signers[2]).buyListedCard(3, { value: MIN_LISTING_PRICE })
+        })
+
+        it("returns a list of active listings", async () => {
+            expect(await cardMarketplace.getMarketListings())
+                .to.deep.equal([
+                    [1, minter, constants.AddressZero, MIN_LISTING_PRICE, false, false, Currency.ETH],
+                    [4, minter, constants.AddressZero, MIN_LISTING_PRICE, false, false, Currency.ETH]
+                ])
+        })
+    })
+    
+    describe("getMarketListingsByAddress", () => {
+        beforeEach(async () => {
+            // SELLER 
+            await businessCard.getCard(firstToken.cardName, firstToken.cardProperties, { value: MINT_PRICE })
+            await businessCard.approve(cardMarketplace.address, 1)
+            await cardMarketplace.createCardListing(1, MIN_LISTING_PRICE)
+
+            await businessCard.getCard(secondToken.cardName, secondToken.cardProperties, { value: MINT_PRICE })
+            await businessCard.approve(cardMarketplace.address, 2)
+            await cardMarketplace.createCardListing(2, MIN_LISTING_PRICE)
+
+            // BUYER
+            await businessCard.getCard(thirdToken.cardName, thirdToken.cardProperties, { value: MINT_PRICE })
+            await businessCard.approve(cardMarketplace.address, 3)
+            await cardMarketplace.createCardListing(3, MIN_LISTING_PRICE)
+
+            await cardMarketplace.connect(signers[2]).buyListedCard(3, { value: MIN_LISTING_PRICE })
+
+            await businessCard.getCard("SNEED", firstToken.cardProperties, { value: MINT_PRICE })
+            await businessCard.approve(cardMarketplace.address, 4)
+            await cardMarketplace.createCardListing(4, MIN_LISTING_PRICE)
+
+            await cardMarketplace.connect(signers[2]).buyListedCard(4, { value: MIN_LISTING_PRICE })
+        })
+
+        it("returns the latest listings for an address as a seller", async () => {
+            expect((await cardMarketplace.getMarketListingsByAddress(minter, true)).slice(0,6))
+                .to.deep.equal([
+                    [1, minter, constants.AddressZero, MIN_LISTING_PRICE, false, false, Currency.ETH],
+                    [2, minter, constants.AddressZero, MIN_LISTING_PRICE, false, false, Currency.ETH],
+                    [3, minter, buyer, MIN_LISTING_PRICE, true, false, Currency.ETH],
+                    [4, minter, buyer, MIN_LISTING_PRICE, true, false, Currency.ETH]
+                ])
+        })
+
+        it("returns the latest listing for an address as a buyer", async () => {
+            expect((await cardMarketplace.getMarketListingsByAddress(buyer, false)).slice(0,6))
+                .to.deep.equal([
+                    [3, minter, buyer, MIN_LISTING_PRICE, true, false, Currency.ETH],
+                    [4, minter, buyer, MIN_LISTING_PRICE, true, false, Currency.ETH]
+                ])
+        })
+    })
+
+    describe("getLatestListingByCard", () => {
+        beforeEach(async () => {
+            // Listed-cancelled-listed card
+            await businessCard.getCard(firstToken.cardName, firstToken.cardProperties, { value: MINT_PRICE })
+            await businessCard.approve(cardMarketplace.address, 1)
+
+            await cardMarketplace.createCardListing(1, MIN_LISTING_PRICE)
+            await cardMarketplace.cancelCardListing(1)
+            
+            await businessCard.approve(cardMarketplace.address, 1)
+            await cardMarketplace.createCardListing(1, MIN_LISTING_PRICE.add(1))
+
+            // Listed-bought-listed card
+            await businessCard.getCard(secondToken.cardName, secondToken.cardProperties, { value: MINT_PRICE })
+            await businessCard.approve(cardMarketplace.address, 2)
+
+            await cardMarketplace.createCardListing(2, MIN_LISTING_PRICE)
+            await cardMarketplace.connect(signers[2]).buyListedCard(3, { value: MIN_LISTING_PRICE })
+            
+            await businessCard.connect(signers[2]).approve(cardMarketplace.address, 2)
+            await cardMarketplace.connect(signers[2]).createCardListing(2, MIN_LISTING_PRICE)
+        })
+
+        it("returns the latest listing in the marketplace for a Business Card", async () => {
+            expect(await cardMarketplace.getLatestListingByCard(1))
+                .to.deep.equal([1, minter, constants.AddressZero, MIN_LISTING_PRICE.add(1), false, false, Currency.ETH])
+                
+            expect(await cardMarketplace.getLatestListingByCard(2))
+                .to.deep.equal([2, buyer, constants.AddressZero, MIN_LISTING_PRICE, false, false, Currency.ETH])
+        })
+    })
+
+    describe("getActiveListings", () => {
+        beforeEach(async () => {
+            await businessCard.getCard(firstToken.cardName, firstToken.cardProperties, { value: MINT_PRICE })
+            await businessCard.getCard(secondToken.cardName, secondToken.cardProperties, { value: MINT_PRICE })
+            await businessCard.getCard(thirdToken.cardName, thirdToken.cardProperties, { value: MINT_PRICE })
+            await businessCard.setApprovalForAll(cardMarketplace.address, true)
+
+            await cardMarketplace.createCardListing(1, MIN_LISTING_PRICE)
+            await cardMarketplace.createCardListing(2, MIN_LISTING_PRICE)
+            await cardMarketplace.createCardListing(3, MIN_LISTING_PRICE)
+
+            await cardMarketplace.cancelCardListing(1)
+        })
+
+        it("returns a page of the active listings along with their IDs and total", async () => {
+            const [itemIds, cardListings, total] = await cardMarketplace.getActiveListings(0, 1)
+
+            expect(total).to.be.equal(2)
+            expect(itemIds).to.deep.equal([3])
+            expect(cardListings)
+                .to.deep.equal([[3, minter, constants.AddressZero, MIN_LISTING_PRICE, false, false, Currency.ETH]])
+
+            expect((await cardMarketplace.getActiveListings(1, 1)).itemIds)
+                .to.deep.equal([2])
+        })
+
+        it("returns a shorter last page and an empty page past the end", async () => {
+            expect((await cardMarketplace.getActiveListings(1, 10)).itemIds)
+                .to.deep.equal([2])
+
+            const { itemIds, cardListings, total } = await cardMarketplace.getActiveListings(2, 10)
+
+            expect(itemIds).to.be.empty
+            expect(cardListings).to.be.empty
+            expect(total).to.be.equal(2)
+        })
+    })
+
+    describe("getListingsBySeller, getListingsByBuyer and getListingsByCard", () => {
+        beforeEach(async () => {
+            await businessCard.getCard(firstToken.cardName, firstToken.cardProperties, { value: MINT_PRICE })
+            await businessCard.getCard(secondToken.cardName, secondToken.cardProperties, { value: MINT_PRICE })
+            await businessCard.setApprovalForAll(cardMarketplace.address, true)
+
+            await cardMarketplace.createCardListing(1, MIN_LISTING_PRICE)
+            await cardMarketplace.createCardListing(2, MIN_LISTING_PRICE)
+            await cardMarketplace.connect(signers[2]).buyListedCard(1, { value: MIN_LISTING_PRICE })
+
+            await businessCard.connect(signers[2]).approve(cardMarketplace.address, 1)
+            await cardMarketplace.connect(signers[2]).createCardListing(1, MIN_LISTING_PRICE.mul(2))
+            await cardMarketplace.connect(signers[2]).cancelCardListing(3)
+        })
+
+        it("returns the listings created by a seller", async () => {
+            const { itemIds, total } = await cardMarketplace.getListingsBySeller(minter, 0, 10)
+
+            expect(itemIds).to.deep.equal([1, 2])
+            expect(total).to.be.equal(2)
+        })
+
+        it("returns the listings closed by a buyer, including the ones it cancelled", async () => {
+            const { itemIds, cardListings, total } = await cardMarketplace.getListingsByBuyer(buyer, 0, 10)
+
+            expect(itemIds).to.deep.equal([1, 3])
+            expect(cardListings)
+                .to.deep.equal([
+                    [1, minter, buyer, MIN_LISTING_PRICE, true, false, Currency.ETH],
+                    [1, buyer, buyer, MIN_LISTING_PRICE.mul(2), false, true, Currency.ETH]
+                ])
+            expect(total).to.be.equal(2)
+        })
+
+        it("returns the listings of a Business Card", async () => {
+            const { itemIds, total } = await cardMarketplace.getListingsByCard(1, 1, 10)
+
+            expect(itemIds).to.deep.equal([3])
+            expect(total).to.be.equal(2)
+        })
+    })
+
+    describe("with thousands of listings", () => {
+        // Listings created by relisting the same Business Card, cancelling it every time
+        const HISTORY = 2000;
+        const RELISTINGS_PER_TRANSACTION = 50;
+
+        let relister: CardRelisterMock;
+        let activeListingsGas: BigNumber;
+
+        beforeEach(async function () {
+            this.timeout(HISTORY * 250)
+
+            const CardRelisterMockFactory = await ethers.getContractFactory("CardRelisterMock")
+            relister = await CardRelisterMockFactory.deploy() as CardRelisterMock
+
+            await businessCard.getCard(firstToken.cardName, firstToken.cardProperties, { value: MINT_PRICE })
+            await businessCard.getCard(secondToken.cardName, secondToken.cardProperties, { value: MINT_PRICE })
+            await businessCard.transferFrom(minter, relister.address, 1)
+
+            await businessCard.approve(cardMarketplace.address, 2)
+            await cardMarketplace.createCardListing(2, MIN_LISTING_PRICE)
+
+            activeListingsGas = await cardMarketplace.estimateGas.getActiveListings(0, 10)
+
+            for (let i = 0; i < HISTORY; i += RELISTINGS_PER_TRANSACTION) {
+                await relister.relist(cardMarketplace.address, businessCard.address, 1, MIN_LISTING_PRICE, RELISTINGS_PER_TRANSACTION, { gasLimit: 25000000 })
+            }
+        })
+
+        it("keeps the views bounded by the active listings and the page size", async () => {
+            const { itemIds, total } = await cardMarketplace.getActiveListings(0, 10)
+
+            expect(itemIds).to.deep.equal([1])
+            expect(total).to.be.equal(1)
+            expect(await cardMarketplace.totalListings())
+                .to.be.equal(HISTORY + 1)
+
+            expect(await cardMarketplace.estimateGas.getActiveListings(0, 10))
+                .to.be.equal(activeListingsGas)
+            expect(await cardMarketplace.estimateGas.getMarketListings())
+                .to.be.lt(100000)
+
+            // The unpaginated views stop at the first page of MAX_UNPAGINATED_LISTINGS listings
+            const listings = await cardMarketplace.getMarketListingsByAddress(relister.address, true)
+            expect(listings).to.have.lengthOf(MAX_UNPAGINATED_LISTINGS)
+                .and.to.deep.equal((await cardMarketplace.getListingsBySeller(relister.address, 0, MAX_UNPAGINATED_LISTINGS)).cardListings)
+            expect(await cardMarketplace.estimateGas.getMarketListingsByAddress(relister.address, true))
+                .to.be.lte(await cardMarketplace.estimateGas.getListingsBySeller(relister.address, 0, MAX_UNPAGINATED_LISTINGS))
+
+            // Pages cost the same wherever they are in the history, but for the calldata of their offset
+            expect(await cardMarketplace.estimateGas.getListingsBySeller(relister.address, HISTORY - 10, 10))
+                .to.be.closeTo(await cardMarketplace.estimateGas.getListingsBySeller(relister.address, 0, 10), 100)
+
+            const page = await cardMarketplace.getListingsBySeller(relister.address, HISTORY - 5, 10)
+            expect(page.itemIds).to.deep.equal([HISTORY - 3, HISTORY - 2, HISTORY - 1, HISTORY, HISTORY + 1])
+            expect(page.total).to.be.equal(HISTORY)
+
+            expect((await cardMarketplace.getListingsByCard(1, HISTORY - 1, 10)).itemIds)
+                .to.deep.equal([HISTORY + 1])
+            expect(await cardMarketplace.getLatestListingByCard(1))
+                .to.deep.equal([1, relister.address, relister.address, MIN_LISTING_PRICE, false, true, Currency.ETH])
         })
     })
 
@@ -0,0 +1,238 @@
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { expect } from "chai";
+import { Signer } from "ethers"
+import { promises as fs } from "fs"
+import { run } from "hardhat";
+import { describe } from "mocha";
+import { tmpdir } from "os"
+import { join } from "path"
+import {
+    BusinessCard,
+    BusinessCard__factory
+} from "../typechain-types";
+import { CardOracle, FileStateStore, FileSystemStore } from "../oracle";
+import { MINT_PRICE, REQUEST_TIMEOUT, UPDATE_PRICE } from "./utils";
+
+describe("CardOracle", () => {
+    let businessCard: BusinessCard;
+
+    let signers: Signer[];
+    let accounts: string[];
+
+    let dataDir: string;
+    let store: FileSystemStore;
+    let stateStore: FileStateStore;
+
+    // Example cardName and cardProperties
+    const cardProperties = {
+        position: 'Vice President',
+        twitterAccount: 'twitterAccount',
+        telegramAccount: 'telegramAccount',
+        githubAccount: 'githubAccount',
+        website: 'website.com'
+    }
+
+    const firstToken = {
+        cardName: 'Patrick BATEMAN',
+        cardProperties
+    };
+
+    const secondToken = {
+        cardName: 'Paul ALLEN',
+        cardProperties: { ...cardProperties, position: 'Associate' }
+    };
+
+    // URI parameters
+    const baseUri = 'https://gateway.pinata.cloud/ipfs/Qm';
+    const defaultUri = 'bFp3rybuvZ7j9e4xB6WLedu8gvLcjbVqUrGUEugQWz9u';
+
+    const newOracle = () => new CardOracle(businessCard.connect(signers[9]), store, stateStore, { retryDelay: 10 })
+
+    const getMetadata = async (cardId: number) => {
+        const cardURI = (await businessCard.tokenURI(cardId)).slice(baseUri.length)
+
+        return JSON.parse((await store.get(cardURI))!)
+    }
+
+    before(async () => {
+        signers = await run("accounts")
+        accounts = await Promise.all(signers.map((signer: Signer) => signer.getAddress()))
+    })
+
+    beforeEach(async () => {
+        const { businessCardAddress } = await run("deploy:business-card", {
+            baseUri,
+            defaultUri,
+            oracleAddress: accounts[9],
+            deployMarketplace: false
+        })
+
+        businessCard = BusinessCard__factory.connect(businessCardAddress, signers[1])
+
+        dataDir = await fs.mkdtemp(join(tmpdir(), "card-oracle-"))
+        store = new FileSystemStore(join(dataDir, "store"))
+        stateStore = new FileStateStore(join(dataDir, "state.json"))
+
+        await businessCard.getCard(firstToken.cardName, firstToken.cardProperties, { value: MINT_PRICE })
+        await businessCard.getCard(secondToken.cardName, secondToken.cardProperties, { value: MINT_PRICE })
+    })
+
+    afterEach(async () => {
+        await fs.rm(dataDir, { recursive: true, force: true })
+    })
+
+    describe("poll", () => {
+        context("when there are pending update requests", () => {
+            let processed: number;
+
+            beforeEach(async () => {
+                processed = await newOracle().poll()
+            })
+
+            it("answers every request", async () => {
+                expect(processed).to.be.equal(2)
+
+                expect(await businessCard.requests(1)).to.be.equal(false)
+                expect(await businessCard.requests(2)).to.be.equal(false)
+            })
+
+            it("publishes the rendered metadata to the store", async () => {
+                const metadata = await getMetadata(1)
+
+                expect(metadata.name).to.be.equal(firstToken.cardName)
+                expect(metadata.attributes).to.deep.include({ trait_type: "Position", value: cardProperties.position })
+            })
+
+            it("persists the cursor", async () => {
+                const state = await stateStore.load(0)
+
+                expect(state.fromBlock).to.be.equal(await businessCard.provider.getBlockNumber() - 1)
+                expect(state.lastEvent).to.be.equal(undefined)
+                expect(state.sentCallbacks).to.deep.equal({})
+            })
+        })
+
+        context("when restarted", () => {
+            it("does not process the same requests twice", async () => {
+                await newOracle().poll()
+
+                const nonce = await signers[9].getTransactionCount()
+
+                expect(await newOracle().poll()).to.be.equal(0)
+                expect(await signers[9].getTransactionCount()).to.be.equal(nonce)
+            })
+
+            it("resumes from a request that was interrupted mid-range", async () => {
+                await newOracle().poll()
+
+                // Rewind the cursor as if the oracle crashed after answering the first request only
+                const state = await stateStore.load(0)
+                const [firstRequest] = await businessCard.queryFilter(businessCard.filters.CardDataUpdateRequest())
+                await stateStore.save({
+                    ...state,
+                    fromBlock: firstRequest.blockNumber,
+                    lastEvent: { blockNumber: firstRequest.blockNumber, logIndex: firstRequest.logIndex }
+                })
+
+                const nonce = await signers[9].getTransactionCount()
+
+                // The second request was already answered on-chain so no new callback is sent
+                expect(await newOracle().poll()).to.be.equal(1)
+                expect(await signers[9].getTransactionCount()).to.be.equal(nonce)
+            })
+        })
+
+        context("when an update request keeps the previous name and position", () => {
+            it("renders the previous values", async () => {
+                await newOracle().poll()
+
+                await businessCard.updateCardData(
+                    1,
+                    '',
+                    { ...cardProperties, position: '', twitterAccount: 'newTwitter' },
+                    { value: UPDATE_PRICE }
+                )
+                await newOracle().poll()
+
+                const metadata = await getMetadata(1)
+
+                expect(metadata.name).to.be.equal(firstToken.cardName)
+                expect(metadata.attributes).to.deep.include({ trait_type: "Position", value: cardProperties.position })
+                expect(metadata.attributes).to.deep.include({ trait_type: "Twitter", value: 'newTwitter' })
+            })
+        })
+
+        context("when a request was cancelled and made again", () => {
+            it("only answers the latest request", async () => {
+                await time.increase(REQUEST_TIMEOUT)
+                await businessCard.cancelRequest(1)
+                await businessCard.updateCardData(1, '', { ...cardProperties, twitterAccount: 'newTwitter' }, { value: UPDATE_PRICE })
+
+                const nonce = await signers[9].getTransactionCount()
+
+                expect(await newOracle().poll()).to.be.equal(3)
+                expect(await signers[9].getTransactionCount()).to.be.equal(nonce + 2)
+
+                const metadata = await getMetadata(1)
+
+                expect(metadata.attributes).to.deep.include({ trait_type: "Twitter", value: 'newTwitter' })
+            })
+        })
+
+        context("when there is a pending swap request", () => {
+            beforeEach(async () => {
+                await newOracle().poll()
+
+                await businessCard.swapCardData(1, 2, { value: UPDATE_PRICE })
+                await newOracle().poll()
+            })
+
+            it("answers the request", async () => {
+                expect(await businessCard.requests(1)).to.be.equal(false)
+                expect(await businessCard.requests(2)).to.be.equal(false)
+            })
+
+            it("swaps the name, position and properties of both cards", async () => {
+                const firstMetadata = await getMetadata(1)
+                const secondMetadata = await getMetadata(2)
+
+                expect(firstMetadata.name).to.be.equal(secondToken.cardName)
+                expect(firstMetadata.attributes).to.deep.include({ trait_type: "Position", value: secondToken.cardProperties.position })
+
+                expect(secondMetadata.name).to.be.equal(firstToken.cardName)
+                expect(secondMetadata.attributes).to.deep.include({ trait_type: "Position", value: firstToken.cardProperties.position })
+            })
+        })
+    })
+
+    describe("stores", () => {
+        it("start from the given block when no state was persisted", async () => {
+            expect(await stateStore.load(42))
+                .to.deep.equal({ fromBlock: 42, sentCallbacks: {}, cards: {} })
+        })
+
+        it("return undefined for data that was never published", async () => {
+            expect(await store.get("missing"))
+                .to.be.equal(undefined)
+        })
+
+        it("rethrow the errors other than a missing file", async () => {
+            await expect(new FileStateStore(dataDir).load(0))
+                .to.be.rejectedWith("EISDIR")
+        })
+    })
+
+    describe("oracle:start task", () => {
+        it("processes the pending requests when run once", async () => {
+            const { processed } = await run("oracle:start", {
+                businessCardAddress: businessCard.address,
+                storeDir: join(dataDir, "store"),
+                statePath: join(dataDir, "state.json"),
+                once: true
+            })
+
+            expect(processed).to.be.equal(2)
+            expect(await businessCard.requests(1)).to.be.equal(false)
+        })
+    })
+})
@@ -0,0 +1,148 @@
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { expect } from "chai";
+import { Signer } from "ethers"
+import { promises as fs } from "fs"
+import { run } from "hardhat";
+import { describe } from "mocha";
+import { tmpdir } from "os"
+import { join } from "path"
+import {
+    BusinessCard,
+    BusinessCard__factory
+} from "../typechain-types";
+import { MINT_PRICE } from "./utils";
+
+describe("check:deployment task", () => {
+    let businessCard: BusinessCard;
+
+    let signers: Signer[];
+    let accounts: string[];
+    let manifestDir: string;
+
+    // Example cardProperties
+    const cardProperties = {
+        position: 'Vice President',
+        twitterAccount: 'twitterAccount',
+        telegramAccount: 'telegramAccount',
+        githubAccount: 'githubAccount',
+        website: 'website.com'
+    }
+
+    const checkDeployment = async (params = {}) => {
+        const report = await run("check:deployment", { manifestDir, ...params })
+        const exitCode = process.exitCode
+
+        process.exitCode = undefined
+
+        return { report, exitCode }
+    }
+
+    const failedChecks = (report: { checks: { name: string, ok: boolean }[] }) =>
+        report.checks.filter(({ ok }) => !ok).map(({ name }) => name)
+
+    before(async () => {
+        signers = await run("accounts")
+        accounts = await Promise.all(signers.map((signer: Signer) => signer.getAddress()))
+    })
+
+    beforeEach(async () => {
+        manifestDir = await fs.mkdtemp(join(tmpdir(), "deployments-"))
+
+        const { businessCardAddress } = await run("deploy:all", {
+            baseUri: '',
+            defaultUri: '',
+            oracleAddress: accounts[9],
+            manifestDir
+        })
+
+        businessCard = BusinessCard__factory.connect(businessCardAddress, signers[1])
+
+        await businessCard.getCard('Patrick BATEMAN', cardProperties, { value: MINT_PRICE })
+        await businessCard.connect(signers[2]).getCard('Paul ALLEN', cardProperties, { value: MINT_PRICE })
+        await businessCard.connect(signers[9]).updateCallback(1, '')
+        await businessCard.connect(signers[9]).updateCallback(2, '')
+    })
+
+    afterEach(async () => {
+        await fs.rm(manifestDir, { recursive: true, force: true })
+    })
+
+    it("reports a healthy deployment", async () => {
+        const { report, exitCode } = await checkDeployment()
+
+        expect(report).to.deep.include({ network: 'hardhat', chainId: 1337, ok: true })
+        expect(report.checks.map(({ name }: { name: string }) => name)).to.deep.equal([
+            'marketplaceAddress',
+            'oracleAddress',
+            'oracleBalance',
+            'saleStarted',
+            'marketplaceActive',
+            'dctAirdropBalance',
+            'pendingRequests'
+        ])
+        expect(exitCode).to.be.undefined
+    })
+
+    it("checks the DCT left for airdrops", async () => {
+        const { report } = await checkDeployment()
+
+        expect(report.checks.find(({ name }: { name: string }) => name === 'dctAirdropBalance').details).to.deep.include({
+            airdropped: (212_555n * 2n * 10n ** 18n).toString(),
+            mintedCards: 2
+        })
+    })
+
+    it("fails when the sale is not in the expected state", async () => {
+        await businessCard.connect(signers[0]).pauseSale()
+
+        const { report, exitCode } = await checkDeployment()
+
+        expect(report.ok).to.be.false
+        expect(failedChecks(report)).to.deep.equal(['saleStarted'])
+        expect(exitCode).to.be.equal(1)
+
+        expect((await checkDeployment({ expectSaleStarted: false })).report.ok).to.be.true
+    })
+
+    it("fails when the oracle is underfunded", async () => {
+        const { report } = await checkDeployment({ minOracleBalance: '1000000' })
+
+        expect(failedChecks(report)).to.deep.equal(['oracleBalance'])
+    })
+
+    it("fails when a request has been pending for too long", async () => {
+        const tx = await businessCard.connect(signers[3]).getCard('David VAN PATTEN', cardProperties, { value: MINT_PRICE })
+
+        expect((await checkDeployment()).report.ok).to.be.true
+
+        await time.increase(3601)
+
+        const { report } = await checkDeployment()
+        const { details } = report.checks.find(({ name }: { name: string }) => name === 'pendingRequests')
+
+        expect(failedChecks(report)).to.deep.equal(['pendingRequests'])
+        expect(details.stuckRequests).to.have.lengthOf(1)
+        expect(details.stuckRequests[0]).to.deep.include({ cardId: '3', transactionHash: tx.hash })
+    })
+
+    it("prints the JSON report even without logs", async () => {
+        const printed: string[] = []
+        const log = console.log
+
+        console.log = (message: string) => { printed.push(message) }
+
+        try {
+            const { report } = await checkDeployment()
+
+            expect(printed).to.have.lengthOf(1)
+            expect(JSON.parse(printed[0])).to.deep.include({ network: 'hardhat', chainId: 1337, ok: report.ok })
+        } finally {
+            console.log = log
+        }
+    })
+
+    it("requires a manifest for the network", async () => {
+        await expect(run("check:deployment", { manifestDir: join(manifestDir, 'missing') }))
+            .to.be.rejectedWith("There is no deployment manifest")
+    })
+})
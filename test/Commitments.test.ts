@@ -0,0 +1,259 @@
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { expect } from "chai";
+import { Signer, utils } from "ethers"
+import { promises as fs } from "fs"
+import { run } from "hardhat";
+import { describe } from "mocha";
+import { tmpdir } from "os"
+import { join } from "path"
+import {
+    BusinessCard,
+    BusinessCard__factory,
+    MeetingRoom,
+    MeetingRoom__factory
+} from "../typechain-types";
+import {
+    FileCommitmentStore,
+    MeetingRoomClient,
+    computeCardCommitment,
+    generateSalt,
+    getRevealStatus
+} from "../sdk";
+import {
+    MINIMUM_MEETING_DURATION,
+    MINIMUM_TIME_TO_MEETING_START,
+    MINT_PRICE,
+    createCardCommitment
+} from "./utils";
+
+describe("Card commitments", () => {
+    let businessCard: BusinessCard;
+    let meetingRoom: MeetingRoom;
+    let store: FileCommitmentStore;
+
+    let signers: Signer[];
+    let accounts: string[];
+    let dataDir: string;
+
+    // Example cardProperties
+    const cardProperties = {
+        position: 'Vice President',
+        twitterAccount: 'twitterAccount',
+        telegramAccount: 'telegramAccount',
+        githubAccount: 'githubAccount',
+        website: 'website.com'
+    }
+
+    const betAmount = utils.parseEther("0.01");
+
+    const meetingRoomClient = (signer: Signer) => new MeetingRoomClient(meetingRoom.connect(signer), businessCard, store)
+
+    // Client whose process stops once the transaction creating a Meeting Room is sent, before its receipt arrives
+    const stoppingMeetingRoomClient = (signer: Signer) => {
+        const client = meetingRoomClient(signer)
+
+        client.create = async (...args) => {
+            await MeetingRoomClient.prototype.create.apply(client, args)
+
+            throw new Error("Process stopped")
+        }
+
+        return client
+    }
+
+    const reveal = (watch = false) => run("meeting:reveal", {
+        meetingRoomAddress: meetingRoom.address,
+        businessCardAddress: businessCard.address,
+        commitmentsPath: store.path,
+        pollInterval: 10,
+        watch
+    })
+
+    before(async () => {
+        signers = await run("accounts")
+        accounts = await Promise.all(signers.map((signer: Signer) => signer.getAddress()))
+
+        const { businessCardAddress } = await run("deploy:business-card", {
+            baseUri: '',
+            defaultUri: '',
+            oracleAddress: accounts[9],
+            deployMarketplace: false
+        })
+
+        businessCard = BusinessCard__factory.connect(businessCardAddress, signers[1])
+
+        await businessCard.connect(signers[1]).getCard('Patrick BATEMAN', cardProperties, { value: MINT_PRICE })
+        await businessCard.connect(signers[2]).getCard('Paul ALLEN', cardProperties, { value: MINT_PRICE })
+    })
+
+    beforeEach(async () => {
+        const { meetingRoomAddress } = await run("deploy:meeting-room", { businessCardAddress: businessCard.address })
+
+        meetingRoom = MeetingRoom__factory.connect(meetingRoomAddress, signers[1])
+
+        dataDir = await fs.mkdtemp(join(tmpdir(), "commitments-"))
+        store = new FileCommitmentStore(join(dataDir, "commitments.json"))
+    })
+
+    afterEach(async () => {
+        await fs.rm(dataDir, { recursive: true, force: true })
+    })
+
+    describe("computeCardCommitment", () => {
+        it("matches the commitment checked by revealCard", async () => {
+            const salt = generateSalt()
+            const commitment = computeCardCommitment(1, salt)
+
+            await meetingRoom.createMeetingRoom(commitment, MINIMUM_TIME_TO_MEETING_START, MINIMUM_MEETING_DURATION, { value: betAmount })
+            await time.increase(MINIMUM_TIME_TO_MEETING_START * 60)
+
+            await expect(meetingRoom.revealCard(1, commitment, 1, salt))
+                .to.emit(meetingRoom, "CardRevealed")
+                .withArgs(1, commitment, 1, salt, accounts[1])
+        })
+
+        it("matches the test helper", () => {
+            expect(computeCardCommitment(1, 350).toHexString()).to.be.equal(createCardCommitment(1, 350))
+        })
+    })
+
+    describe("generateSalt", () => {
+        it("generates distinct 256 bit salts", () => {
+            const salts = new Set(Array.from({ length: 16 }, () => generateSalt().toString()))
+
+            expect(salts.size).to.be.equal(16)
+        })
+    })
+
+    describe("MeetingRoomClient", () => {
+        it("persists the commitments with their room ID", async () => {
+            const created = await meetingRoomClient(signers[1]).createWithCard(1, MINIMUM_TIME_TO_MEETING_START, MINIMUM_MEETING_DURATION, betAmount)
+            const joined = await meetingRoomClient(signers[2]).joinWithCard(1, 2)
+
+            expect(created.roomId).to.be.equal('1')
+            expect(await new FileCommitmentStore(store.path).list()).to.deep.equal([created, joined])
+            expect(await meetingRoom.cardCommitments(1, accounts[2])).to.be.equal(joined.commitment)
+        })
+
+        it("recovers the room ID of a commitment whose receipt never arrived", async () => {
+            await expect(
+                stoppingMeetingRoomClient(signers[1]).createWithCard(1, MINIMUM_TIME_TO_MEETING_START, MINIMUM_MEETING_DURATION, betAmount)
+            ).to.be.rejectedWith("Process stopped")
+
+            const [stored] = await store.list()
+            expect(stored.roomId).to.be.undefined
+
+            const recovered = await meetingRoomClient(signers[1]).recoverRoomId(stored)
+
+            expect(recovered).to.deep.equal({ ...stored, roomId: '1' })
+            expect(await store.list()).to.deep.equal([recovered])
+        })
+
+        it("leaves the room ID unknown when no Meeting Room was created with the commitment", async () => {
+            await meetingRoomClient(signers[1]).createWithCard(1, MINIMUM_TIME_TO_MEETING_START, MINIMUM_MEETING_DURATION, betAmount)
+
+            const [created] = await store.list()
+            const stored = { ...created, roomId: undefined }
+
+            // Another player committing the same card with the same salt
+            expect((await meetingRoomClient(signers[2]).recoverRoomId({ ...stored, player: accounts[2] })).roomId)
+                .to.be.undefined
+            expect((await meetingRoomClient(signers[1]).recoverRoomId({ ...stored, commitment: computeCardCommitment(1, generateSalt()).toString() })).roomId)
+                .to.be.undefined
+        })
+
+        it("requires a commitment store", async () => {
+            await expect(
+                new MeetingRoomClient(meetingRoom, businessCard).createWithCard(1, MINIMUM_TIME_TO_MEETING_START, MINIMUM_MEETING_DURATION, betAmount)
+            ).to.be.rejectedWith("A commitment store is required")
+        })
+    })
+
+    describe("getRevealStatus", () => {
+        it("only makes a commitment due between the start and the end of the meeting", async () => {
+            const commitment = await meetingRoomClient(signers[1]).createWithCard(1, MINIMUM_TIME_TO_MEETING_START, MINIMUM_MEETING_DURATION, betAmount)
+            const meeting = await meetingRoom.getMeetingRoom(1)
+
+            expect(getRevealStatus(commitment, meeting, meeting.meetingStart.toNumber())).to.be.equal("waiting")
+            expect(getRevealStatus(commitment, meeting, meeting.meetingStart.toNumber() + 1)).to.be.equal("due")
+            expect(getRevealStatus(commitment, meeting, meeting.meetingEnd.toNumber())).to.be.equal("expired")
+            expect(getRevealStatus({ ...commitment, revealed: true }, meeting, meeting.meetingStart.toNumber() + 1)).to.be.equal("revealed")
+        })
+    })
+
+    describe("meeting:reveal task", () => {
+        beforeEach(async () => {
+            await meetingRoomClient(signers[1]).createWithCard(1, MINIMUM_TIME_TO_MEETING_START, MINIMUM_MEETING_DURATION, betAmount)
+            await meetingRoomClient(signers[2]).joinWithCard(1, 2)
+        })
+
+        it("does not reveal before the meeting starts", async () => {
+            expect(await reveal()).to.deep.equal({ revealed: [], expired: [], waiting: ['1', '1'], failed: [] })
+            expect((await meetingRoom.getMeetingRoom(1)).cardIds).to.be.empty
+        })
+
+        it("reveals every card once the meeting starts", async () => {
+            await time.increaseTo((await meetingRoom.getMeetingRoom(1)).meetingStart.add(1))
+
+            expect(await reveal()).to.deep.equal({ revealed: ['1', '1'], expired: [], waiting: [], failed: [] })
+            expect((await meetingRoom.getMeetingRoom(1)).cardIds.map(Number)).to.deep.equal([1, 2])
+            expect((await store.list()).every(({ revealed }) => revealed)).to.be.true
+        })
+
+        it("waits for the meeting to start when watching", async () => {
+            const meetingStart = (await meetingRoom.getMeetingRoom(1)).meetingStart
+
+            setTimeout(() => time.increaseTo(meetingStart.add(1)), 50)
+
+            expect((await reveal(true)).revealed).to.deep.equal(['1', '1'])
+        })
+
+        it("reveals the commitments whose room ID was not persisted", async () => {
+            await expect(
+                stoppingMeetingRoomClient(signers[1]).createWithCard(1, MINIMUM_TIME_TO_MEETING_START, MINIMUM_MEETING_DURATION, betAmount)
+            ).to.be.rejectedWith("Process stopped")
+
+            await time.increaseTo((await meetingRoom.getMeetingRoom(2)).meetingStart.add(1))
+
+            expect(await reveal()).to.deep.equal({ revealed: ['1', '1', '2'], expired: [], waiting: [], failed: [] })
+            expect((await meetingRoom.getMeetingRoom(2)).cardIds.map(Number)).to.deep.equal([1])
+            expect((await store.list()).map(({ roomId }) => roomId)).to.deep.equal(['1', '1', '2'])
+        })
+
+        it("leaves out the commitments whose join failed", async () => {
+            await time.increaseTo((await meetingRoom.getMeetingRoom(1)).meetingStart.add(1))
+
+            await expect(
+                meetingRoomClient(signers[3]).joinWithCard(1, 3)
+            ).to.be.rejectedWith("MeetingOngoing")
+
+            const [failed] = (await store.list()).filter(({ player }) => player === accounts[3])
+            expect(failed.roomId).to.be.undefined
+
+            expect(await reveal()).to.deep.equal({ revealed: ['1', '1'], expired: [], waiting: [], failed: [] })
+            expect((await meetingRoom.getMeetingRoom(1)).cardIds.map(Number)).to.deep.equal([1, 2])
+        })
+
+        it("reports the commitments that cannot be revealed and reveals the others", async () => {
+            // Commitment persisted with the room ID of a join that failed, before the room ID was only persisted once joined
+            const commitment = computeCardCommitment(3, 350).toString()
+            await store.save({ meetingRoom: meetingRoom.address, player: accounts[3], roomId: '1', cardId: '3', salt: '350', commitment, revealed: false })
+
+            await time.increaseTo((await meetingRoom.getMeetingRoom(1)).meetingStart.add(1))
+
+            const { revealed, failed } = await reveal()
+
+            expect(revealed).to.deep.equal(['1', '1'])
+            expect(failed).to.have.lengthOf(1)
+            expect(failed[0].commitment).to.be.equal(commitment)
+            expect(failed[0].error).to.include("CardCommitmentDoesNotMatch")
+            expect((await meetingRoom.getMeetingRoom(1)).cardIds.map(Number)).to.deep.equal([1, 2])
+        })
+
+        it("skips the meetings that have ended", async () => {
+            await time.increaseTo((await meetingRoom.getMeetingRoom(1)).meetingEnd)
+
+            expect(await reveal()).to.deep.equal({ revealed: [], expired: ['1', '1'], waiting: [], failed: [] })
+        })
+    })
+})
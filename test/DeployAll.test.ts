@@ -0,0 +1,97 @@
+import { expect } from "chai";
+import { Signer } from "ethers"
+import { promises as fs } from "fs"
+import { run } from "hardhat";
+import { describe } from "mocha";
+import { tmpdir } from "os"
+import { join } from "path"
+import {
+    BusinessCard__factory,
+    CardMarketplace__factory,
+    DorsiaClubToken__factory
+} from "../typechain-types";
+import { loadManifest, saveManifest } from "../deployment";
+
+describe("deploy:all task", () => {
+    let signers: Signer[];
+    let accounts: string[];
+    let manifestDir: string;
+
+    // URI parameters
+    const baseUri = 'https://gateway.pinata.cloud/ipfs/Qm';
+    const defaultUri = 'bFp3rybuvZ7j9e4xB6WLedu8gvLcjbVqUrGUEugQWz9u';
+
+    const deployAll = (oracleAddress = accounts[9]) => run("deploy:all", { baseUri, defaultUri, oracleAddress, manifestDir })
+
+    before(async () => {
+        signers = await run("accounts")
+        accounts = await Promise.all(signers.map((signer: Signer) => signer.getAddress()))
+    })
+
+    beforeEach(async () => {
+        manifestDir = await fs.mkdtemp(join(tmpdir(), "deployments-"))
+    })
+
+    afterEach(async () => {
+        await fs.rm(manifestDir, { recursive: true, force: true })
+    })
+
+    it("deploys and wires every contract", async () => {
+        const { businessCardAddress, dctAddress, cardMarketplaceAddress, deployed } = await deployAll()
+
+        const businessCard = BusinessCard__factory.connect(businessCardAddress, signers[0])
+        const cardMarketplace = CardMarketplace__factory.connect(cardMarketplaceAddress, signers[0])
+
+        expect(deployed).to.deep.equal(['BusinessCard', 'CardMarketplace', 'MeetingRoom'])
+        expect(await businessCard.marketplaceAddress()).to.be.equal(cardMarketplaceAddress)
+        expect(await businessCard.saleStarted()).to.be.true
+        expect(await businessCard.DCT()).to.be.equal(dctAddress)
+        expect(await cardMarketplace.marketplaceActive()).to.be.true
+        expect(await DorsiaClubToken__factory.connect(dctAddress, signers[0]).symbol()).to.be.equal('DCT')
+    })
+
+    it("writes a manifest for the network", async () => {
+        const { businessCardAddress, meetingRoomAddress, manifestPath } = await deployAll()
+
+        const manifest = await loadManifest(manifestPath)
+
+        expect(manifestPath).to.be.equal(join(manifestDir, 'hardhat.json'))
+        expect(manifest).to.deep.include({ network: 'hardhat', chainId: 1337 })
+        expect(manifest!.contracts.BusinessCard).to.deep.include({
+            address: businessCardAddress,
+            constructorArgs: [baseUri, defaultUri, accounts[9]]
+        })
+        expect(manifest!.contracts.DorsiaClubToken!.transactionHash).to.be.equal(manifest!.contracts.BusinessCard!.transactionHash)
+        expect(manifest!.contracts.MeetingRoom).to.deep.include({ address: meetingRoomAddress, constructorArgs: [businessCardAddress] })
+        expect(manifest!.contracts.MeetingRoom!.blockNumber).to.be.greaterThan(manifest!.contracts.BusinessCard!.blockNumber)
+    })
+
+    it("reuses the deployments from the manifest", async () => {
+        const first = await deployAll()
+        const second = await deployAll()
+
+        expect(second.deployed).to.be.empty
+        expect({ ...second, deployed: first.deployed }).to.deep.equal(first)
+    })
+
+    it("only deploys the contracts missing from the manifest", async () => {
+        const { businessCardAddress, manifestPath } = await deployAll()
+
+        const manifest = await loadManifest(manifestPath)
+        delete manifest!.contracts.CardMarketplace
+        await saveManifest(manifestPath, manifest!)
+
+        const { cardMarketplaceAddress, deployed } = await deployAll()
+
+        expect(deployed).to.deep.equal(['CardMarketplace'])
+        expect(await BusinessCard__factory.connect(businessCardAddress, signers[0]).marketplaceAddress()).to.be.equal(cardMarketplaceAddress)
+    })
+
+    it("redeploys the contracts whose constructor arguments changed", async () => {
+        const first = await deployAll()
+        const second = await deployAll(accounts[8])
+
+        expect(second.deployed).to.deep.equal(['BusinessCard', 'CardMarketplace', 'MeetingRoom'])
+        expect(second.dctAddress).to.not.be.equal(first.dctAddress)
+    })
+})
@@ -0,0 +1,197 @@
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { expect } from "chai";
+import { BigNumber, Signer, utils } from "ethers"
+import { ethers, run } from "hardhat";
+import { describe } from "mocha";
+import {
+    BusinessCard,
+    BusinessCard__factory,
+    MeetingRoom,
+    MeetingRoom__factory,
+    RandomnessCoordinatorMock
+} from "../typechain-types";
+import {
+    auditMeetingDraw,
+    computeDrawNumber,
+    computeEntropy,
+    computeWinningWeights
+} from "../sdk";
+import {
+    MINIMUM_MEETING_DURATION,
+    MINIMUM_TIME_TO_MEETING_START,
+    MINT_PRICE,
+    PRECISION,
+    createCardCommitment
+} from "./utils";
+
+describe("Meeting draws", () => {
+    let businessCard: BusinessCard;
+    let meetingRoom: MeetingRoom;
+
+    let signers: Signer[];
+    let accounts: string[];
+
+    // Example cardProperties
+    const cardProperties = {
+        position: 'Vice President',
+        twitterAccount: 'twitterAccount',
+        telegramAccount: 'telegramAccount',
+        githubAccount: 'githubAccount',
+        website: 'website.com'
+    }
+
+    const betAmount = utils.parseEther("0.01");
+    const salts = [350, 351];
+
+    // The chairman commits card #1 and the participant card #2
+    const startMeeting = async () => {
+        await meetingRoom.createMeetingRoom(createCardCommitment(1, salts[0]), MINIMUM_TIME_TO_MEETING_START, MINIMUM_MEETING_DURATION, { value: betAmount })
+        await meetingRoom.connect(signers[2]).joinMeetingRoom(1, createCardCommitment(2, salts[1]), { value: betAmount })
+
+        await time.increase(MINIMUM_TIME_TO_MEETING_START * 60)
+    }
+
+    before(async () => {
+        signers = await run("accounts")
+        accounts = await Promise.all(signers.map((signer: Signer) => signer.getAddress()))
+
+        const { businessCardAddress } = await run("deploy:business-card", {
+            baseUri: '',
+            defaultUri: '',
+            oracleAddress: accounts[9],
+            deployMarketplace: false
+        })
+
+        businessCard = BusinessCard__factory.connect(businessCardAddress, signers[1])
+
+        await businessCard.connect(signers[1]).getCard('Patrick BATEMAN', cardProperties, { value: MINT_PRICE })
+        await businessCard.connect(signers[2]).getCard('Paul ALLEN', cardProperties, { value: MINT_PRICE })
+    })
+
+    beforeEach(async () => {
+        const { meetingRoomAddress } = await run("deploy:meeting-room", { businessCardAddress: businessCard.address })
+
+        meetingRoom = MeetingRoom__factory.connect(meetingRoomAddress, signers[1])
+    })
+
+    describe("computeEntropy", () => {
+        it("matches the entropy accumulated by revealCard", async () => {
+            await startMeeting()
+
+            await meetingRoom.revealCard(1, createCardCommitment(1, salts[0]), 1, salts[0])
+            await meetingRoom.connect(signers[2]).revealCard(1, createCardCommitment(2, salts[1]), 2, salts[1])
+
+            expect((await meetingRoom.getMeetingRoom(1)).entropy).to.be.equal(computeEntropy(salts))
+            expect(computeEntropy(salts)).not.to.be.equal(computeEntropy([...salts].reverse()))
+        })
+
+        it("is zero when no card was revealed", () => {
+            expect(computeEntropy([])).to.be.equal(0)
+        })
+    })
+
+    describe("computeDrawNumber", () => {
+        it("is below PRECISION", () => {
+            for (let roomId = 1; roomId <= 16; roomId++) {
+                expect(computeDrawNumber(roomId, computeEntropy(salts), BigNumber.from(utils.randomBytes(32))))
+                    .to.be.lt(PRECISION)
+            }
+        })
+    })
+
+    describe("auditMeetingDraw", () => {
+        beforeEach(async () => {
+            // Only the chairman reveals their card
+            await startMeeting()
+            await meetingRoom.revealCard(1, createCardCommitment(1, salts[0]), 1, salts[0])
+            await time.increase(MINIMUM_MEETING_DURATION * 60)
+        })
+
+        it("returns undefined while the winner was not drawn", async () => {
+            expect(await auditMeetingDraw(meetingRoom, businessCard, 1)).to.be.undefined
+        })
+
+        it("replays a draw from the revealed salts", async () => {
+            const { blockNumber, transactionHash } = await (await meetingRoom.finishMeeting(1)).wait()
+            const entropy = computeEntropy([salts[0]])
+
+            expect(await auditMeetingDraw(meetingRoom, businessCard, 1)).to.deep.equal({
+                roomId: '1',
+                cardIds: ['1'],
+                revealers: [accounts[1]],
+                salts: [salts[0].toString()],
+                winningChances: ['1'],
+                winningProbabilities: [PRECISION.toString()],
+                entropy: entropy.toString(),
+                randomWord: '0',
+                randomNumber: computeDrawNumber(1, entropy, 0).toString(),
+                winningCardId: '1',
+                winner: accounts[1],
+                blockNumber,
+                transactionHash,
+                valid: true
+            })
+        })
+
+        it("replays a draw seeded by the randomness coordinator", async () => {
+            const RandomnessCoordinatorMockFactory = await ethers.getContractFactory("RandomnessCoordinatorMock")
+            const coordinator = await RandomnessCoordinatorMockFactory.deploy() as RandomnessCoordinatorMock
+            const randomWord = BigNumber.from(utils.randomBytes(32))
+
+            await meetingRoom.connect(signers[0]).setRandomnessCoordinator(coordinator.address)
+            await meetingRoom.finishMeeting(1)
+
+            expect(await auditMeetingDraw(meetingRoom, businessCard, 1)).to.be.undefined
+
+            await coordinator.fulfillRandomness(0, randomWord)
+
+            const draw = await auditMeetingDraw(meetingRoom, businessCard, 1)
+
+            expect(draw).to.deep.include({
+                randomWord: randomWord.toString(),
+                randomNumber: computeDrawNumber(1, computeEntropy([salts[0]]), randomWord).toString(),
+                winner: accounts[1],
+                valid: true
+            })
+        })
+
+        it("rebuilds the winning chances from the revealed cards and checks the winner revealed the drawn card", async () => {
+            // Both cards are revealed in a second meeting, then change hands before the draw
+            await meetingRoom.createMeetingRoom(createCardCommitment(1, salts[0]), MINIMUM_TIME_TO_MEETING_START, MINIMUM_MEETING_DURATION, { value: betAmount })
+            await meetingRoom.connect(signers[2]).joinMeetingRoom(2, createCardCommitment(2, salts[1]), { value: betAmount })
+            await time.increase(MINIMUM_TIME_TO_MEETING_START * 60)
+
+            await meetingRoom.revealCard(2, createCardCommitment(1, salts[0]), 1, salts[0])
+            await meetingRoom.connect(signers[2]).revealCard(2, createCardCommitment(2, salts[1]), 2, salts[1])
+
+            await businessCard.connect(signers[1]).transferFrom(accounts[1], accounts[3], 1)
+            await businessCard.connect(signers[2]).transferFrom(accounts[2], accounts[3], 2)
+
+            await time.increase(MINIMUM_MEETING_DURATION * 60)
+            await meetingRoom.finishMeeting(2)
+
+            const draw = await auditMeetingDraw(meetingRoom, businessCard, 2)
+            const genes = await Promise.all([1, 2].map((cardId) => businessCard.getCardGenes(cardId)))
+
+            await businessCard.connect(signers[3]).transferFrom(accounts[3], accounts[1], 1)
+            await businessCard.connect(signers[3]).transferFrom(accounts[3], accounts[2], 2)
+
+            expect(draw?.winningChances).to.deep.equal(computeWinningWeights(genes).map(String))
+            expect(draw?.winningChances).to.deep.equal((await meetingRoom.getMeetingRoom(2)).winningChances.map(String))
+            expect(draw?.revealers).to.deep.equal([accounts[1], accounts[2]])
+            expect(draw?.winner).to.be.equal(draw?.revealers[draw.cardIds.indexOf(draw.winningCardId)])
+            expect(draw?.valid).to.be.true
+        })
+
+        it("is available as the meeting:audit task", async () => {
+            await expect(
+                run("meeting:audit", { meetingRoomAddress: meetingRoom.address, businessCardAddress: businessCard.address, roomId: '1' })
+            ).to.be.rejectedWith("was not drawn yet")
+
+            await meetingRoom.finishMeeting(1)
+
+            expect(await run("meeting:audit", { meetingRoomAddress: meetingRoom.address, businessCardAddress: businessCard.address, roomId: '1' }))
+                .to.deep.equal(await auditMeetingDraw(meetingRoom, businessCard, 1))
+        })
+    })
+})
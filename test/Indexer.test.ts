@@ -0,0 +1,298 @@
+import { mine, takeSnapshot, time } from "@nomicfoundation/hardhat-network-helpers";
+import { expect } from "chai";
+import { BigNumber, Signer, constants, utils } from "ethers"
+import { promises as fs } from "fs"
+import { run } from "hardhat";
+import { describe } from "mocha";
+import { tmpdir } from "os"
+import { join } from "path"
+import {
+    BusinessCard,
+    BusinessCard__factory,
+    CardMarketplace,
+    CardMarketplace__factory,
+    MeetingRoom,
+    MeetingRoom__factory
+} from "../typechain-types";
+import { EventIndexer, IndexerDatabase } from "../indexer";
+import { Currency } from "../sdk";
+import {
+    MIN_LISTING_PRICE,
+    MINIMUM_MEETING_DURATION,
+    MINIMUM_TIME_TO_MEETING_START,
+    MINT_PRICE,
+    createCardCommitment
+} from "./utils";
+
+describe("Event indexer", () => {
+    let businessCard: BusinessCard;
+    let cardMarketplace: CardMarketplace;
+    let meetingRoom: MeetingRoom;
+
+    let signers: Signer[];
+    let accounts: string[];
+
+    // Example cardProperties
+    const cardProperties = {
+        position: 'Vice President',
+        twitterAccount: 'twitterAccount',
+        telegramAccount: 'telegramAccount',
+        githubAccount: 'githubAccount',
+        website: 'website.com'
+    }
+
+    // Filler value, would be dynamically generated by the server oracle
+    const cardURI = 'Ur63bgQq3VWW9XsVviDGAFwYEZVs9AFWsTd56T9xCQmf'
+
+    const betAmount = utils.parseEther("0.01");
+
+    const createIndexer = (db: IndexerDatabase) => new EventIndexer({ businessCard, cardMarketplace, meetingRoom }, db)
+
+    const list = async (signer: Signer, cardId: number) => {
+        await businessCard.connect(signer).approve(cardMarketplace.address, cardId)
+        await cardMarketplace.connect(signer).createCardListing(cardId, MIN_LISTING_PRICE)
+    }
+
+    before(async () => {
+        signers = await run("accounts")
+        accounts = await Promise.all(signers.map((signer: Signer) => signer.getAddress()))
+
+        const { businessCardAddress, cardMarketplaceAddress } = await run("deploy:business-card", {
+            baseUri: '',
+            defaultUri: '',
+            oracleAddress: accounts[9]
+        })
+        const { meetingRoomAddress } = await run("deploy:meeting-room", { businessCardAddress })
+
+        businessCard = BusinessCard__factory.connect(businessCardAddress, signers[1])
+        cardMarketplace = CardMarketplace__factory.connect(cardMarketplaceAddress, signers[1])
+        meetingRoom = MeetingRoom__factory.connect(meetingRoomAddress, signers[1])
+
+        await businessCard.connect(signers[1]).getCard('Patrick BATEMAN', cardProperties, { value: MINT_PRICE })
+        await businessCard.connect(signers[2]).getCard('Paul ALLEN', cardProperties, { value: MINT_PRICE })
+        await businessCard.connect(signers[3]).getCard('David VAN PATTEN', cardProperties, { value: MINT_PRICE })
+        await businessCard.connect(signers[9]).updateCallback(1, cardURI)
+
+        // Card #1 gets sold to accounts[2], who lists it again and cancels, then lists card #2
+        await list(signers[1], 1)
+        await cardMarketplace.connect(signers[2]).buyListedCard(1, { value: MIN_LISTING_PRICE })
+        await list(signers[2], 1)
+        await cardMarketplace.connect(signers[2]).cancelCardListing(2)
+        await list(signers[2], 2)
+
+        // Card #3 gets listed in DCT
+        await businessCard.connect(signers[3]).approve(cardMarketplace.address, 3)
+        await cardMarketplace.connect(signers[3]).createCardListingWithCurrency(3, MIN_LISTING_PRICE, Currency.DCT)
+
+        await meetingRoom.connect(signers[2]).createMeetingRoom(createCardCommitment(1, 350), MINIMUM_TIME_TO_MEETING_START, MINIMUM_MEETING_DURATION, { value: betAmount })
+        await meetingRoom.connect(signers[3]).joinMeetingRoom(1, createCardCommitment(3, 350), { value: betAmount })
+        await meetingRoom.connect(signers[1]).createMeetingRoom(createCardCommitment(1, 351), MINIMUM_TIME_TO_MEETING_START, MINIMUM_MEETING_DURATION, { value: betAmount })
+
+        await time.increaseTo((await meetingRoom.getMeetingRoom(1)).meetingStart.add(1))
+        await meetingRoom.connect(signers[2]).revealCard(1, createCardCommitment(1, 350), 1, 350)
+        await time.increaseTo((await meetingRoom.getMeetingRoom(1)).meetingEnd)
+        await meetingRoom.finishMeeting(1)
+    })
+
+    describe("queries", () => {
+        let db: IndexerDatabase;
+
+        before(async () => {
+            db = await IndexerDatabase.open()
+            await createIndexer(db).poll()
+        })
+
+        after(() => {
+            db.close()
+        })
+
+        it("indexes the listings with their status", () => {
+            expect(db.getListings().map(({ itemId, status }) => [itemId, status])).to.deep.equal([
+                ['1', 'filled'],
+                ['2', 'cancelled'],
+                ['3', 'active'],
+                ['4', 'active']
+            ])
+            expect(db.getListing('1')).to.deep.include({ cardId: '1', seller: accounts[1], buyer: accounts[2], price: MIN_LISTING_PRICE.toString(), currency: 'ETH' })
+            expect(db.getListing('4')).to.deep.include({ cardId: '3', seller: accounts[3], currency: 'DCT' })
+        })
+
+        it("filters the listings", () => {
+            expect(db.getListings({ seller: accounts[2].toLowerCase() }).map(({ itemId }) => itemId)).to.deep.equal(['2', '3'])
+            expect(db.getListings({ status: 'active' }).map(({ itemId }) => itemId)).to.deep.equal(['3', '4'])
+            expect(db.getListings({ buyer: accounts[2] }).map(({ itemId }) => itemId)).to.deep.equal(['1'])
+            expect(db.getListings({ offset: 1, limit: 1 }).map(({ itemId }) => itemId)).to.deep.equal(['2'])
+        })
+
+        it("finds the latest listing of a card like the contract", async () => {
+            const latest = await cardMarketplace.getLatestListingByCard(1)
+
+            expect(db.getLatestListingByCard('1')).to.deep.include({ itemId: '2', seller: latest.seller, status: 'cancelled' })
+            expect(db.getLatestListingByCard('3')).to.deep.include({ itemId: '4', status: 'active' })
+            expect(db.getLatestListingByCard('4')).to.be.undefined
+        })
+
+        it("tracks the ownership history", () => {
+            expect(db.getOwnershipHistory('1').map(({ from, to }) => [from, to])).to.deep.equal([
+                [constants.AddressZero, accounts[1]],
+                [accounts[1], cardMarketplace.address],
+                [cardMarketplace.address, accounts[2]],
+                [accounts[2], cardMarketplace.address],
+                [cardMarketplace.address, accounts[2]]
+            ])
+            expect(db.getOwner('2')).to.be.equal(cardMarketplace.address)
+            expect(db.getOwnershipHistory('1')[0].timestamp).to.be.a('number')
+        })
+
+        it("tracks the card URIs", () => {
+            expect(db.getCardURI('1')).to.be.equal(cardURI)
+            expect(db.getCardURI('2')).to.be.undefined
+        })
+
+        it("returns the meeting results", () => {
+            expect(db.getMeeting('1')).to.deep.include({
+                roomId: '1',
+                bet: betAmount.toString(),
+                participants: [
+                    { address: accounts[2], cardCommitment: BigNumber.from(createCardCommitment(1, 350)).toString(), cardId: '1' },
+                    { address: accounts[3], cardCommitment: BigNumber.from(createCardCommitment(3, 350)).toString() }
+                ],
+                winner: accounts[2]
+            })
+        })
+
+        it("filters the meetings", () => {
+            expect(db.getMeetings({ participant: accounts[3] }).map(({ roomId }) => roomId)).to.deep.equal(['1'])
+            expect(db.getMeetings({ finished: false }).map(({ roomId }) => roomId)).to.deep.equal(['2'])
+        })
+    })
+
+    describe("listing updates", () => {
+        it("tracks the price and expiry of the listings", async () => {
+            const expiresAt = (await time.latest()) + 60
+
+            await cardMarketplace.connect(signers[2]).updateListingPrice(3, MIN_LISTING_PRICE.mul(2))
+            await cardMarketplace.connect(signers[2]).setListingExpiry(3, expiresAt)
+
+            const db = await IndexerDatabase.open()
+            const indexer = createIndexer(db)
+            await indexer.poll()
+
+            expect(db.getListing('3')).to.deep.include({ price: MIN_LISTING_PRICE.mul(2).toString(), expiresAt, status: 'active' })
+
+            await time.increaseTo(expiresAt)
+            await cardMarketplace.connect(signers[4]).closeExpiredListing(3)
+            await indexer.poll()
+
+            expect(db.getListing('3')).to.deep.include({ status: 'expired' })
+            expect(db.getOwner('2')).to.be.equal(accounts[2])
+
+            db.close()
+        })
+    })
+
+    describe("bundles", () => {
+        it("finds the listings of the bundled cards", async () => {
+            // Card #2 went back to accounts[2] when its listing expired
+            await businessCard.connect(signers[2]).setApprovalForAll(cardMarketplace.address, true)
+            await cardMarketplace.connect(signers[2]).createBundleListing([1, 2], MIN_LISTING_PRICE, Currency.ETH)
+
+            const db = await IndexerDatabase.open()
+            await createIndexer(db).poll()
+
+            expect(db.getListing('5')).to.deep.include({ cardId: '1', cardIds: ['1', '2'], status: 'active' })
+            expect(db.getListing('3')).to.not.have.property('cardIds')
+            expect(db.getLatestListingByCard('2')).to.deep.include({ itemId: '5' })
+            expect(db.getListings({ cardId: '2' }).map(({ itemId }) => itemId)).to.deep.equal(['3', '5'])
+
+            db.close()
+        })
+    })
+
+    describe("private listings", () => {
+        it("indexes the reserved buyer of the listings", async () => {
+            await cardMarketplace.connect(signers[3]).cancelCardListing(4)
+            await businessCard.connect(signers[3]).approve(cardMarketplace.address, 3)
+            await cardMarketplace.connect(signers[3]).createPrivateCardListing(3, MIN_LISTING_PRICE, Currency.ETH, accounts[1])
+
+            const db = await IndexerDatabase.open()
+            await createIndexer(db).poll()
+
+            expect(db.getListing('6')).to.deep.include({ cardId: '3', reservedBuyer: accounts[1], status: 'active' })
+            expect(db.getListing('5')).to.not.have.property('reservedBuyer')
+
+            db.close()
+        })
+    })
+
+    describe("checkpoints", () => {
+        let dataDir: string;
+
+        beforeEach(async () => {
+            dataDir = await fs.mkdtemp(join(tmpdir(), "indexer-"))
+        })
+
+        afterEach(async () => {
+            await fs.rm(dataDir, { recursive: true, force: true })
+        })
+
+        it("resumes from the persisted checkpoint", async () => {
+            const path = join(dataDir, "events.sqlite")
+            const snapshot = await takeSnapshot()
+
+            let db = await IndexerDatabase.open(path)
+            const indexed = await createIndexer(db).poll()
+            db.close()
+
+            await businessCard.connect(signers[4]).getCard('Timothy BRYCE', cardProperties, { value: MINT_PRICE })
+
+            db = await IndexerDatabase.open(path)
+            expect(indexed).to.be.greaterThan(0)
+            expect(await createIndexer(db).poll()).to.be.equal(1)
+            expect(db.getOwner('4')).to.be.equal(accounts[4])
+            db.close()
+
+            await snapshot.restore()
+        })
+
+        it("is resumable through the task", async () => {
+            const databasePath = join(dataDir, "events.sqlite")
+            const params = {
+                businessCardAddress: businessCard.address,
+                cardMarketplaceAddress: cardMarketplace.address,
+                meetingRoomAddress: meetingRoom.address,
+                databasePath,
+                once: true
+            }
+
+            const { indexed, checkpoint } = await run("indexer:start", params)
+
+            expect(indexed).to.be.greaterThan(0)
+            expect(await run("indexer:start", params)).to.deep.equal({ indexed: 0, checkpoint })
+        })
+    })
+
+    describe("reorgs", () => {
+        it("rolls back the events of the dropped blocks", async () => {
+            const db = await IndexerDatabase.open()
+            const indexer = createIndexer(db)
+            const snapshot = await takeSnapshot()
+
+            await businessCard.connect(signers[4]).getCard('Timothy BRYCE', cardProperties, { value: MINT_PRICE })
+            await indexer.poll()
+            expect(db.getOwner('4')).to.be.equal(accounts[4])
+
+            // Replaces the block that minted card #4 with another one
+            await snapshot.restore()
+            await businessCard.connect(signers[5]).getCard('Luis CARRUTHERS', cardProperties, { value: MINT_PRICE })
+            await mine(2)
+
+            expect(await indexer.poll()).to.be.equal(1)
+            expect(db.getOwner('4')).to.be.equal(accounts[5])
+            expect(db.getCheckpoint()).to.be.equal(await businessCard.provider.getBlockNumber())
+
+            db.close()
+            await snapshot.restore()
+        })
+    })
+})
@@ -1,24 +1,30 @@
-import { time, mine } from "@nomicfoundation/hardhat-network-helpers";
+import { mine, setBalance, time } from "@nomicfoundation/hardhat-network-helpers";
 import { expect } from "chai";
-import { Signer, constants, utils } from "ethers"
-import { run } from "hardhat";
+import { BigNumber, Signer, constants, utils } from "ethers"
+import { ethers, run } from "hardhat";
 import { describe } from "mocha";
 import {
+    BusinessCard,
     BusinessCard__factory,
     MeetingRoom,
-    MeetingRoom__factory
+    MeetingRoom__factory,
+    RandomnessCoordinatorMock,
+    RejectingReceiverMock
 } from "../typechain-types";
+import { computeDrawNumber, computeEntropy } from "../sdk";
 import { 
     createCardCommitment,
     MAXIMUM_MEETING_DURATION,
     MAXIMUM_TIME_TO_MEETING_START,
     MINIMUM_MEETING_DURATION,
     MINIMUM_TIME_TO_MEETING_START,
-    MINT_PRICE
+    MINT_PRICE,
+    RANDOMNESS_TIMEOUT
 } from "./utils";
 
 describe("MeetingRoom smart contract", () => {
     let businessCardAddress: string;
+    let businessCard: BusinessCard;
     let MeetingRoom: MeetingRoom;
     
     let meetingRoom: MeetingRoom;
@@ -73,7 +79,7 @@ describe("MeetingRoom smart contract", () => {
             deployMarketplace: false
         }))
 
-        const businessCard = BusinessCard__factory.connect(businessCardAddress, signers[1])
+        businessCard = BusinessCard__factory.connect(businessCardAddress, signers[1])
 
         await businessCard.connect(signers[1]).getCard(firstToken.cardName, firstToken.cardProperties, { value: MINT_PRICE })
         await businessCard.connect(signers[2]).getCard(secondToken.cardName, secondToken.cardProperties, { value: MINT_PRICE })
@@ -168,8 +174,8 @@ describe("MeetingRoom smart contract", () => {
 
             it("defines the corresponding meeting room", async () => {
                 tx.a
-                expect((await meetingRoom.getMeetingRoom(1)).slice(0, 7))
-                    .to.deep.equal([meetingStart, meetingEnd, betAmount, 1, [], [], constants.AddressZero])
+                expect((await meetingRoom.getMeetingRoom(1)).slice(0, 8))
+                    .to.deep.equal([meetingStart, meetingEnd, betAmount, 1, [], [], [], constants.AddressZero])
             })
 
             it("emits a MeetingRoomCreated event", async () => {
@@ -225,20 +231,491 @@ describe("MeetingRoom smart contract", () => {
     })
 
     describe("revealCard", () => {
-        it("TODO", () => {
-            expect(true).to.be.equal(false)
+        beforeEach(async () => {
+            await meetingRoom.createMeetingRoom(firstToken.commitment, MINIMUM_TIME_TO_MEETING_START, MINIMUM_MEETING_DURATION, { value: betAmount })
+            await meetingRoom.connect(signers[2]).joinMeetingRoom(1, secondToken.commitment, { value: betAmount })
+        })
+
+        context("when the meeting has not started", () => {
+            it("reverts", async () => {
+                await expect(
+                    meetingRoom.revealCard(1, firstToken.commitment, 1, 350)
+                ).to.be.revertedWithCustomError(
+                    meetingRoom,
+                    "MeetingNotStarted"
+                )
+            })
+        })
+
+        context("when the meeting has ended", () => {
+            it("reverts", async () => {
+                await time.increase((MINIMUM_TIME_TO_MEETING_START + MINIMUM_MEETING_DURATION) * 60)
+
+                await expect(
+                    meetingRoom.revealCard(1, firstToken.commitment, 1, 350)
+                ).to.be.revertedWithCustomError(
+                    meetingRoom,
+                    "MeetingHasEnded"
+                )
+            })
+        })
+
+        context("when the revealed card does not match the commitment", () => {
+            it("reverts", async () => {
+                await time.increase(MINIMUM_TIME_TO_MEETING_START * 60)
+
+                await expect(
+                    meetingRoom.revealCard(1, firstToken.commitment, 1, 351)
+                ).to.be.revertedWithCustomError(
+                    meetingRoom,
+                    "RevealedCardDoesNotMatch"
+                )
+            })
+        })
+
+        context("after a successful call", () => {
+            let tx: any;
+
+            beforeEach(async () => {
+                await time.increase(MINIMUM_TIME_TO_MEETING_START * 60)
+
+                tx = await meetingRoom.revealCard(1, firstToken.commitment, 1, 350)
+            })
+
+            it("adds the card to the meeting", async () => {
+                const { cardIds } = await meetingRoom.getMeetingRoom(1)
+
+                expect(cardIds).to.deep.equal([BigNumber.from(1)])
+            })
+
+            it("mixes the salts into the entropy of the meeting in the order they were revealed", async () => {
+                await meetingRoom.connect(signers[2]).revealCard(1, secondToken.commitment, 2, 350)
+
+                const { entropy } = await meetingRoom.getMeetingRoom(1)
+
+                expect(entropy).to.be.equal(utils.solidityKeccak256(
+                    ["uint256", "uint256"],
+                    [utils.solidityKeccak256(["uint256", "uint256"], [0, 350]), 350]
+                ))
+            })
+
+            it("emits a CardRevealed event", async () => {
+                await expect(tx)
+                    .to.emit(meetingRoom, "CardRevealed")
+                    .withArgs(1, firstToken.commitment, 1, 350, accounts[1])
+            })
         })
     })
 
     describe("finishMeeting", () => {
-        it("TODO", () => {
-            expect(true).to.be.equal(false)
+        const prize = betAmount.mul(2);
+
+        beforeEach(async () => {
+            await meetingRoom.createMeetingRoom(firstToken.commitment, MINIMUM_TIME_TO_MEETING_START, MINIMUM_MEETING_DURATION, { value: betAmount })
+            await meetingRoom.connect(signers[2]).joinMeetingRoom(1, secondToken.commitment, { value: betAmount })
+
+            // Only the chairman reveals their card, and is thus the only possible winner
+            await time.increase(MINIMUM_TIME_TO_MEETING_START * 60)
+            await meetingRoom.revealCard(1, firstToken.commitment, 1, 350)
+        })
+
+        context("when the meeting is ongoing", () => {
+            it("reverts", async () => {
+                await expect(
+                    meetingRoom.finishMeeting(1)
+                ).to.be.revertedWithCustomError(
+                    meetingRoom,
+                    "MeetingOngoing"
+                )
+            })
+        })
+
+        context("after a successful call", () => {
+            let tx: any;
+
+            beforeEach(async () => {
+                await time.increase(MINIMUM_MEETING_DURATION * 60)
+
+                tx = await meetingRoom.connect(signers[2]).finishMeeting(1)
+            })
+
+            it("credits the staked funds to the winner", async () => {
+                await expect(tx).to.changeEtherBalance(accounts[1], 0)
+
+                expect(await meetingRoom.payments(accounts[1]))
+                    .to.be.equal(prize)
+                expect(await meetingRoom.totalPayments())
+                    .to.be.equal(prize)
+            })
+
+            it("lets the winner withdraw the staked funds", async () => {
+                await expect(
+                    meetingRoom.withdrawPayments()
+                ).to.changeEtherBalances([accounts[1], meetingRoom.address], [prize, prize.mul(-1)])
+
+                expect(await meetingRoom.payments(accounts[1]))
+                    .to.be.equal(0)
+            })
+
+            it("emits a PaymentCredited and a WinnerDrawn event", async () => {
+                await expect(tx)
+                    .to.emit(meetingRoom, "PaymentCredited")
+                    .withArgs(accounts[1], prize)
+                await expect(tx)
+                    .to.emit(meetingRoom, "WinnerDrawn")
+                    .withArgs(1, accounts[1])
+            })
+
+            it("draws the winner from the entropy of the revealed salts only", async () => {
+                const entropy = computeEntropy([350])
+
+                await expect(tx)
+                    .to.emit(meetingRoom, "DrawSeeded")
+                    .withArgs(1, entropy, 0, computeDrawNumber(1, entropy, 0))
+            })
+
+            it("cannot be called again", async () => {
+                await expect(
+                    meetingRoom.finishMeeting(1)
+                ).to.be.revertedWithCustomError(
+                    meetingRoom,
+                    "MeetingFinished"
+                )
+            })
+        })
+
+        context("with a randomness coordinator", () => {
+            const randomWord = BigNumber.from(utils.randomBytes(32));
+
+            let coordinator: RandomnessCoordinatorMock;
+
+            beforeEach(async () => {
+                const RandomnessCoordinatorMockFactory = await ethers.getContractFactory("RandomnessCoordinatorMock")
+                coordinator = await RandomnessCoordinatorMockFactory.deploy() as RandomnessCoordinatorMock
+
+                await meetingRoom.connect(signers[0]).setRandomnessCoordinator(coordinator.address)
+                await time.increase(MINIMUM_MEETING_DURATION * 60)
+            })
+
+            it("requests a random word before drawing the winner", async () => {
+                const tx = await meetingRoom.finishMeeting(1)
+
+                // The first request of the coordinator has ID zero
+                await expect(tx)
+                    .to.emit(meetingRoom, "RandomnessRequested")
+                    .withArgs(1, 0)
+                await expect(tx)
+                    .not.to.emit(meetingRoom, "WinnerDrawn")
+
+                const { winner, randomnessRequestId, randomnessPending, randomnessCoordinator } = await meetingRoom.getMeetingRoom(1)
+
+                expect(winner).to.be.equal(constants.AddressZero)
+                expect(randomnessRequestId).to.be.equal(0)
+                expect(randomnessPending).to.be.equal(true)
+                expect(randomnessCoordinator).to.be.equal(coordinator.address)
+
+                await expect(
+                    meetingRoom.finishMeeting(1)
+                ).to.be.revertedWithCustomError(
+                    meetingRoom,
+                    "WinnerBeingDrawn"
+                )
+            })
+
+            it("draws the winner from both the entropy and the random word", async () => {
+                await meetingRoom.finishMeeting(1)
+
+                const entropy = computeEntropy([350])
+                const tx = await coordinator.fulfillRandomness(0, randomWord)
+
+                await expect(tx)
+                    .to.emit(meetingRoom, "DrawSeeded")
+                    .withArgs(1, entropy, randomWord, computeDrawNumber(1, entropy, randomWord))
+                await expect(tx)
+                    .to.emit(meetingRoom, "WinnerDrawn")
+                    .withArgs(1, accounts[1])
+
+                expect(await meetingRoom.payments(accounts[1]))
+                    .to.be.equal(prize)
+            })
+
+            context("when the random word does not come from the coordinator", () => {
+                it("reverts", async () => {
+                    await meetingRoom.finishMeeting(1)
+
+                    await expect(
+                        meetingRoom.fulfillRandomness(0, randomWord)
+                    ).to.be.revertedWithCustomError(
+                        meetingRoom,
+                        "CallerIsNotTheCoordinator"
+                    )
+                })
+            })
+
+            context("when the request was already fulfilled", () => {
+                it("reverts", async () => {
+                    await meetingRoom.finishMeeting(1)
+                    await coordinator.fulfillRandomness(0, randomWord)
+
+                    await expect(
+                        coordinator.fulfillRandomness(0, randomWord)
+                    ).to.be.revertedWithCustomError(
+                        meetingRoom,
+                        "RandomnessRequestNotValid"
+                    )
+                })
+            })
+
+            context("when the coordinator never answers", () => {
+                let requestedAt: number;
+
+                beforeEach(async () => {
+                    await meetingRoom.finishMeeting(1)
+
+                    requestedAt = (await meetingRoom.getMeetingRoom(1)).randomnessRequestedAt.toNumber()
+                })
+
+                it(`cannot request a new random word before ${RANDOMNESS_TIMEOUT} seconds`, async () => {
+                    await time.setNextBlockTimestamp(requestedAt + RANDOMNESS_TIMEOUT - 1)
+
+                    await expect(
+                        meetingRoom.finishMeeting(1)
+                    ).to.be.revertedWithCustomError(
+                        meetingRoom,
+                        "WinnerBeingDrawn"
+                    )
+                })
+
+                it("requests a new random word once the request timed out, superseding the previous one", async () => {
+                    await time.setNextBlockTimestamp(requestedAt + RANDOMNESS_TIMEOUT)
+
+                    await expect(meetingRoom.finishMeeting(1))
+                        .to.emit(meetingRoom, "RandomnessRequested")
+                        .withArgs(1, 1)
+
+                    await expect(
+                        coordinator.fulfillRandomness(0, randomWord)
+                    ).to.be.revertedWithCustomError(
+                        meetingRoom,
+                        "RandomnessRequestNotValid"
+                    )
+                    await expect(coordinator.fulfillRandomness(1, randomWord))
+                        .to.emit(meetingRoom, "WinnerDrawn")
+                        .withArgs(1, accounts[1])
+                })
+
+                it("draws the winner from the entropy only once the coordinator is removed", async () => {
+                    await meetingRoom.connect(signers[0]).setRandomnessCoordinator(constants.AddressZero)
+                    await time.setNextBlockTimestamp(requestedAt + RANDOMNESS_TIMEOUT)
+
+                    const entropy = computeEntropy([350])
+
+                    await expect(meetingRoom.finishMeeting(1))
+                        .to.emit(meetingRoom, "DrawSeeded")
+                        .withArgs(1, entropy, 0, computeDrawNumber(1, entropy, 0))
+
+                    expect(await meetingRoom.payments(accounts[1]))
+                        .to.be.equal(prize)
+                    await expect(
+                        coordinator.fulfillRandomness(0, randomWord)
+                    ).to.be.revertedWithCustomError(
+                        meetingRoom,
+                        "RandomnessRequestNotValid"
+                    )
+                })
+            })
+
+            context("when the coordinator gets replaced", () => {
+                let newCoordinator: RandomnessCoordinatorMock;
+
+                beforeEach(async () => {
+                    const RandomnessCoordinatorMockFactory = await ethers.getContractFactory("RandomnessCoordinatorMock")
+                    newCoordinator = await RandomnessCoordinatorMockFactory.deploy() as RandomnessCoordinatorMock
+
+                    await meetingRoom.finishMeeting(1)
+                    await meetingRoom.connect(signers[0]).setRandomnessCoordinator(newCoordinator.address)
+                })
+
+                it("still accepts the random word of the previous coordinator", async () => {
+                    await expect(coordinator.fulfillRandomness(0, randomWord))
+                        .to.emit(meetingRoom, "WinnerDrawn")
+                        .withArgs(1, accounts[1])
+                })
+
+                it("requests a new random word from the new coordinator once the request timed out", async () => {
+                    await time.increase(RANDOMNESS_TIMEOUT)
+
+                    // Both coordinators number their requests from zero
+                    await expect(meetingRoom.finishMeeting(1))
+                        .to.emit(meetingRoom, "RandomnessRequested")
+                        .withArgs(1, 0)
+
+                    await expect(
+                        coordinator.fulfillRandomness(0, randomWord)
+                    ).to.be.revertedWithCustomError(
+                        meetingRoom,
+                        "RandomnessRequestNotValid"
+                    )
+                    await expect(newCoordinator.fulfillRandomness(0, randomWord))
+                        .to.emit(meetingRoom, "WinnerDrawn")
+                        .withArgs(1, accounts[1])
+                })
+            })
+        })
+
+        context("when the winning card changes hands after being revealed", () => {
+            beforeEach(async () => {
+                await businessCard.connect(signers[1]).transferFrom(accounts[1], accounts[4], 1)
+                await time.increase(MINIMUM_MEETING_DURATION * 60)
+            })
+
+            afterEach(async () => {
+                await businessCard.connect(signers[4]).transferFrom(accounts[4], accounts[1], 1)
+            })
+
+            it("credits the staked funds to the address that revealed the card", async () => {
+                await expect(meetingRoom.finishMeeting(1))
+                    .to.emit(meetingRoom, "WinnerDrawn")
+                    .withArgs(1, accounts[1])
+
+                expect(await meetingRoom.payments(accounts[1]))
+                    .to.be.equal(prize)
+                expect(await meetingRoom.payments(accounts[4]))
+                    .to.be.equal(0)
+            })
+        })
+
+        context("when the winner rejects ETH", () => {
+            let receiver: RejectingReceiverMock;
+
+            beforeEach(async () => {
+                const RejectingReceiverMockFactory = await ethers.getContractFactory("RejectingReceiverMock")
+                receiver = await RejectingReceiverMockFactory.deploy() as RejectingReceiverMock
+
+                // Card #3 is held by a contract rejecting ETH, which is the only one to reveal its card
+                await businessCard.connect(signers[3]).transferFrom(accounts[3], receiver.address, 3)
+
+                await receiver.execute(
+                    meetingRoom.address,
+                    meetingRoom.interface.encodeFunctionData("createMeetingRoom", [thirdToken.commitment, MINIMUM_TIME_TO_MEETING_START, MINIMUM_MEETING_DURATION]),
+                    { value: betAmount }
+                )
+
+                await time.increase(MINIMUM_TIME_TO_MEETING_START * 60)
+                await receiver.execute(
+                    meetingRoom.address,
+                    meetingRoom.interface.encodeFunctionData("revealCard", [2, thirdToken.commitment, 3, 350])
+                )
+                await time.increase(MINIMUM_MEETING_DURATION * 60)
+            })
+
+            afterEach(async () => {
+                await receiver.execute(
+                    businessCard.address,
+                    businessCard.interface.encodeFunctionData("transferFrom", [receiver.address, accounts[3], 3])
+                )
+            })
+
+            it("finishes the meeting anyway", async () => {
+                await expect(meetingRoom.finishMeeting(2))
+                    .to.emit(meetingRoom, "WinnerDrawn")
+                    .withArgs(2, receiver.address)
+
+                expect(await meetingRoom.payments(receiver.address))
+                    .to.be.equal(betAmount)
+            })
+        })
+    })
+
+    describe("setRandomnessCoordinator", () => {
+        context("when being called by someone other than the contract owner", () => {
+            it("reverts", async () => {
+                await expect(
+                    meetingRoom.setRandomnessCoordinator(accounts[8])
+                ).to.be.revertedWith(
+                    "Ownable: caller is not the owner"
+                )
+            })
+        })
+
+        context("after a successful call", () => {
+            it("sets the randomness coordinator", async () => {
+                await expect(meetingRoom.connect(signers[0]).setRandomnessCoordinator(accounts[8]))
+                    .to.emit(meetingRoom, "RandomnessCoordinatorSet")
+                    .withArgs(accounts[8])
+
+                expect(await meetingRoom.randomnessCoordinator())
+                    .to.be.equal(accounts[8])
+            })
         })
     })
 
     describe("withdraw", () => {
-        it("TODO", () => {
-            expect(true).to.be.equal(false)
+        const prize = betAmount.mul(2);
+
+        beforeEach(async () => {
+            await meetingRoom.createMeetingRoom(firstToken.commitment, MINIMUM_TIME_TO_MEETING_START, MINIMUM_MEETING_DURATION, { value: betAmount })
+            await meetingRoom.connect(signers[2]).joinMeetingRoom(1, secondToken.commitment, { value: betAmount })
+
+            await time.increase(MINIMUM_TIME_TO_MEETING_START * 60)
+            await meetingRoom.revealCard(1, firstToken.commitment, 1, 350)
+            await time.increase(MINIMUM_MEETING_DURATION * 60)
+            await meetingRoom.finishMeeting(1)
+        })
+
+        context("when being called by someone other than the contract owner", () => {
+            it("reverts", async () => {
+                await expect(
+                    meetingRoom.withdraw()
+                ).to.be.revertedWith(
+                    "Ownable: caller is not the owner"
+                )
+            })
+        })
+
+        context("after a successful call", () => {
+            it("keeps the prizes that were not withdrawn yet", async () => {
+                // Funds sent to the Meeting Room outside of any meeting are withdrawn
+                await setBalance(meetingRoom.address, prize.add(betAmount))
+
+                await expect(
+                    meetingRoom.connect(signers[0]).withdraw()
+                ).to.changeEtherBalance(accounts[0], betAmount)
+
+                await expect(
+                    meetingRoom.withdrawPayments()
+                ).to.changeEtherBalance(accounts[1], prize)
+            })
+        })
+
+        context("while a meeting is not finished", () => {
+            beforeEach(async () => {
+                await meetingRoom.connect(signers[2]).createMeetingRoom(secondToken.commitment, MINIMUM_TIME_TO_MEETING_START, MINIMUM_MEETING_DURATION, { value: betAmount })
+            })
+
+            it("keeps its stakes until the winner is drawn", async () => {
+                expect(await meetingRoom.lockedStakes())
+                    .to.be.equal(betAmount)
+
+                await expect(
+                    meetingRoom.connect(signers[0]).withdraw()
+                ).to.changeEtherBalance(accounts[0], 0)
+
+                await time.increase(MINIMUM_TIME_TO_MEETING_START * 60)
+                await meetingRoom.connect(signers[2]).revealCard(2, secondToken.commitment, 2, 350)
+                await time.increase(MINIMUM_MEETING_DURATION * 60)
+                await meetingRoom.finishMeeting(2)
+
+                expect(await meetingRoom.lockedStakes())
+                    .to.be.equal(0)
+
+                await expect(
+                    meetingRoom.withdrawPayments()
+                ).to.changeEtherBalance(accounts[1], prize)
+                await expect(
+                    meetingRoom.connect(signers[2]).withdrawPayments()
+                ).to.changeEtherBalance(accounts[2], betAmount)
+            })
         })
     })
 
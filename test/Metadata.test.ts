@@ -0,0 +1,159 @@
+import { expect } from "chai";
+import { BigNumber } from "ethers"
+import { mkdirSync, readFileSync, writeFileSync } from "fs"
+import { describe } from "mocha";
+import { join } from "path"
+import {
+    CardData,
+    TRAIT_VARIANTS,
+    decodeTraits,
+    escapeXml,
+    formatGenes,
+    getCardMetadata,
+    renderCardSvg,
+    renderMetadata,
+    splitGenes
+} from "../metadata";
+
+// Run with UPDATE_GOLDEN=true to regenerate the golden files after an intended rendering change
+const GOLDEN_DIR = join(__dirname, "golden")
+const UPDATE_GOLDEN = process.env.UPDATE_GOLDEN === "true"
+
+const expectGolden = (fileName: string, actual: string) => {
+    const path = join(GOLDEN_DIR, fileName)
+
+    if (UPDATE_GOLDEN) {
+        mkdirSync(GOLDEN_DIR, { recursive: true })
+        writeFileSync(path, actual)
+    }
+
+    expect(actual).to.be.equal(readFileSync(path, "utf8"))
+}
+
+describe("Card metadata", () => {
+    const patrickBateman: CardData = {
+        name: 'Patrick BATEMAN',
+        position: 'Vice President',
+        twitterAccount: 'twitterAccount',
+        telegramAccount: 'telegramAccount',
+        githubAccount: 'githubAccount',
+        website: 'website.com'
+    }
+
+    const paulAllen: CardData = {
+        name: 'Paul ALLEN & Co.',
+        position: '<Vice> "President"',
+        twitterAccount: '',
+        telegramAccount: '',
+        githubAccount: '',
+        website: ''
+    }
+
+    // Bone paper, Silian Rail font, raised lettering, gold edges
+    const batemanGenes = "092595989900459500006090009963"
+    // Every blemish
+    const ruinedGenes = "999999999999999999999999999999"
+
+    const image = 'https://gateway.pinata.cloud/ipfs/Qmimage'
+
+    describe("formatGenes", () => {
+        it("pads the genes with leading zeros to 30 digits", () => {
+            expect(formatGenes(12345)).to.be.equal("000000000000000000000000012345")
+            expect(formatGenes(BigNumber.from(ruinedGenes))).to.be.equal(ruinedGenes)
+        })
+
+        it("throws for genes longer than 30 digits", () => {
+            expect(() => formatGenes(BigNumber.from(10).pow(30))).to.throw(RangeError)
+        })
+    })
+
+    describe("splitGenes", () => {
+        it("splits the genes into their documented segments", () => {
+            expect(splitGenes("010203040506070809101112135678")).to.deep.equal({
+                background: 1,
+                paperType: 2,
+                paperColor: 3,
+                font: 4,
+                address: 5,
+                cranberryJuice: 6,
+                shadowType: 7,
+                watermark: 8,
+                footprint: 9,
+                defaced: 10,
+                lettering: 11,
+                goldEdges: 12,
+                washed: 13,
+                phoneNumber: 5678
+            })
+        })
+    })
+
+    describe("decodeTraits", () => {
+        it("maps every possible segment value to a variant", () => {
+            for (const variants of Object.values(TRAIT_VARIANTS)) {
+                expect(variants.reduce((sum, { weight }) => sum + weight, 0)).to.be.equal(100)
+            }
+        })
+
+        it("decodes the most common variants from zero genes", () => {
+            expect(decodeTraits(0)).to.deep.equal({
+                background: "Office Desk",
+                paperType: "Standard",
+                paperColor: "White",
+                font: "Helvetica",
+                address: "None",
+                cranberryJuice: "None",
+                shadowType: "None",
+                watermark: "None",
+                footprint: "None",
+                defaced: "None",
+                lettering: "Flat",
+                goldEdges: "None",
+                washed: "None",
+                phoneNumber: "(212) 555-0000"
+            })
+        })
+
+        it("decodes the rarest variants", () => {
+            const traits = decodeTraits(batemanGenes)
+
+            expect(traits.paperColor).to.be.equal("Bone")
+            expect(traits.font).to.be.equal("Silian Rail")
+            expect(traits.goldEdges).to.be.equal("Gold Edges")
+            expect(traits.phoneNumber).to.be.equal("(212) 555-9963")
+        })
+    })
+
+    describe("escapeXml", () => {
+        it("escapes every XML special character", () => {
+            expect(escapeXml(`<&>"'`)).to.be.equal("&lt;&amp;&gt;&quot;&apos;")
+        })
+    })
+
+    describe("getCardMetadata", () => {
+        it("leaves empty social handles out of the attributes", () => {
+            const { attributes } = getCardMetadata(2, ruinedGenes, paulAllen, image)
+
+            expect(attributes.map(({ trait_type }) => trait_type)).to.include("Position")
+            expect(attributes.map(({ trait_type }) => trait_type)).to.not.include("Twitter")
+        })
+    })
+
+    describe("golden files", () => {
+        const cases: [string, number, string, CardData][] = [
+            ["common", 1, "0", patrickBateman],
+            ["bateman", 2, batemanGenes, patrickBateman],
+            ["ruined", 3, ruinedGenes, paulAllen]
+        ]
+
+        for (const [fileName, cardId, genes, card] of cases) {
+            it(`renders the ${fileName} card metadata`, () => {
+                expectGolden(`${fileName}.json`, renderMetadata(cardId, genes, card, image))
+            })
+
+            it(`renders the ${fileName} card image`, () => {
+                expectGolden(`${fileName}.svg`, renderCardSvg(genes, card))
+            })
+        }
+    })
+})
@@ -0,0 +1,138 @@
+import { expect } from "chai";
+import { Signer } from "ethers"
+import { run } from "hardhat";
+import { describe } from "mocha";
+import {
+    BusinessCard,
+    BusinessCard__factory
+} from "../typechain-types";
+import {
+    checkNames,
+    findNameDivergences,
+    getNameVariants,
+    rebuildReservedNames,
+    suggestNames
+} from "../sdk";
+import { MINT_PRICE, UPDATE_PRICE } from "./utils";
+
+describe("Name reservation tooling", () => {
+    let businessCard: BusinessCard;
+
+    let signers: Signer[];
+    let accounts: string[];
+
+    // Example cardProperties
+    const cardProperties = {
+        position: 'Vice President',
+        twitterAccount: 'twitterAccount',
+        telegramAccount: 'telegramAccount',
+        githubAccount: 'githubAccount',
+        website: 'website.com'
+    }
+
+    before(async () => {
+        signers = await run("accounts")
+        accounts = await Promise.all(signers.map((signer: Signer) => signer.getAddress()))
+
+        const { businessCardAddress } = await run("deploy:business-card", {
+            baseUri: '',
+            defaultUri: '',
+            oracleAddress: accounts[9],
+            deployMarketplace: false
+        })
+
+        businessCard = BusinessCard__factory.connect(businessCardAddress, signers[1])
+        const oracle = businessCard.connect(signers[9])
+
+        await businessCard.getCard('Patrick BATEMAN', cardProperties, { value: MINT_PRICE })
+        await businessCard.getCard('Paul ALLEN', cardProperties, { value: MINT_PRICE })
+        await businessCard.getCard('David VAN PATTEN', cardProperties, { value: MINT_PRICE })
+        await oracle.updateCallback(1, '')
+        await oracle.updateCallback(2, '')
+        await oracle.updateCallback(3, '')
+
+        // Releases 'David VAN PATTEN'
+        await businessCard.updateCardData(3, 'Timothy BRYCE', cardProperties, { value: UPDATE_PRICE })
+        await oracle.updateCallback(3, '')
+
+        await businessCard.swapCardData(1, 2, { value: UPDATE_PRICE })
+        await oracle.swapCallback(1, 2, '', '')
+    })
+
+    describe("checkNames", () => {
+        it("checks the format and reservation of every name", async () => {
+            expect(await checkNames(businessCard, ['PATRICK bateman', 'David VAN PATTEN', ' Luis', 'Luis CARRUTHERS'])).to.deep.equal([
+                { name: 'PATRICK bateman', error: undefined, reserved: true, available: false },
+                { name: 'David VAN PATTEN', error: undefined, reserved: false, available: true },
+                { name: ' Luis', error: "NameNotValid", reserved: false, available: false },
+                { name: 'Luis CARRUTHERS', error: undefined, reserved: false, available: true }
+            ])
+        })
+    })
+
+    describe("suggestNames", () => {
+        it("suggests available variants", async () => {
+            expect(await suggestNames(businessCard, 'Paul ALLEN', 2)).to.deep.equal(['Paul ALLEN Jr.', 'Paul ALLEN II'])
+        })
+
+        it("only generates valid variants", () => {
+            const variants = getNameVariants('Christopher MONTGOMERY')
+
+            expect(variants).to.not.be.empty
+            for (const variant of variants) {
+                expect(Buffer.byteLength(variant)).to.be.at.most(22)
+            }
+        })
+    })
+
+    describe("rebuildReservedNames", () => {
+        it("replays mints, updates and swaps", async () => {
+            const { reservedNames, cardNames } = await rebuildReservedNames(businessCard)
+
+            expect([...reservedNames].sort()).to.deep.equal(['patrick bateman', 'paul allen', 'timothy bryce'])
+            expect(Object.fromEntries(cardNames)).to.deep.equal({
+                '1': 'Paul ALLEN',
+                '2': 'Patrick BATEMAN',
+                '3': 'Timothy BRYCE'
+            })
+        })
+    })
+
+    describe("findNameDivergences", () => {
+        it("finds no divergence for a complete index", async () => {
+            expect(await findNameDivergences(businessCard, await rebuildReservedNames(businessCard))).to.be.empty
+        })
+
+        it("flags the cards missing from an incomplete index", async () => {
+            const [swap] = await businessCard.queryFilter(businessCard.filters.CardDataSwapRequest())
+
+            const divergences = await findNameDivergences(businessCard, await rebuildReservedNames(businessCard, swap.blockNumber))
+
+            expect(divergences.map(({ cardId }) => cardId)).to.deep.equal(['1', '2', '3'])
+        })
+
+        it("checks the cards in batches", async () => {
+            const [swap] = await businessCard.queryFilter(businessCard.filters.CardDataSwapRequest())
+
+            const divergences = await findNameDivergences(businessCard, await rebuildReservedNames(businessCard, swap.blockNumber), 2)
+
+            expect(divergences.map(({ cardId }) => cardId)).to.deep.equal(['1', '2', '3'])
+        })
+    })
+
+    describe("names tasks", () => {
+        it("checks names and suggests variants", async () => {
+            const [result] = await run("names:check", { businessCardAddress: businessCard.address, names: 'Paul ALLEN', suggestions: 1 })
+
+            expect(result.available).to.be.equal(false)
+            expect(result.suggestions).to.deep.equal(['Paul ALLEN Jr.'])
+        })
+
+        it("rebuilds the reserved names", async () => {
+            const { reservedNames, divergences } = await run("names:reserved", { businessCardAddress: businessCard.address })
+
+            expect(reservedNames).to.have.lengthOf(3)
+            expect(divergences).to.be.empty
+        })
+    })
+})
@@ -0,0 +1,126 @@
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { expect } from "chai";
+import { Signer } from "ethers"
+import { run } from "hardhat";
+import { describe } from "mocha";
+import {
+    BusinessCard,
+    BusinessCard__factory
+} from "../typechain-types";
+import {
+    BusinessCardClient,
+    BusinessCardError,
+    findPendingRequests,
+    findStuckRequests
+} from "../sdk";
+import { MINT_PRICE, ORACLE_FEE, REQUEST_TIMEOUT, UPDATE_PRICE } from "./utils";
+
+describe("Stuck request tooling", () => {
+    let businessCard: BusinessCard;
+
+    let signers: Signer[];
+    let accounts: string[];
+
+    // Example cardProperties
+    const cardProperties = {
+        position: 'Vice President',
+        twitterAccount: 'twitterAccount',
+        telegramAccount: 'telegramAccount',
+        githubAccount: 'githubAccount',
+        website: 'website.com'
+    }
+
+    before(async () => {
+        signers = await run("accounts")
+        accounts = await Promise.all(signers.map((signer: Signer) => signer.getAddress()))
+    })
+
+    beforeEach(async () => {
+        const { businessCardAddress } = await run("deploy:business-card", {
+            baseUri: '',
+            defaultUri: '',
+            oracleAddress: accounts[9],
+            deployMarketplace: false
+        })
+
+        businessCard = BusinessCard__factory.connect(businessCardAddress, signers[1])
+        const oracle = businessCard.connect(signers[9])
+
+        await businessCard.getCard('Patrick BATEMAN', cardProperties, { value: MINT_PRICE })
+        await businessCard.getCard('Paul ALLEN', cardProperties, { value: MINT_PRICE })
+        await businessCard.getCard('David VAN PATTEN', cardProperties, { value: MINT_PRICE })
+        await oracle.updateCallback(1, '')
+        await oracle.updateCallback(2, '')
+
+        // Card #3 is left with its mint request, cards #1 and #2 with a swap request
+        await businessCard.swapCardData(1, 2, { value: UPDATE_PRICE })
+    })
+
+    describe("findPendingRequests", () => {
+        it("finds the requests without a matching CardURIUpdated", async () => {
+            const [swap] = await businessCard.queryFilter(businessCard.filters.CardDataSwapRequest())
+
+            const requests = await findPendingRequests(businessCard)
+
+            expect(requests.map(({ cardId, kind }) => [cardId, kind])).to.deep.equal([
+                ['3', 'update'],
+                ['1', 'swap'],
+                ['2', 'swap']
+            ])
+            expect(requests[1]).to.deep.include({ blockNumber: swap.blockNumber, transactionHash: swap.transactionHash })
+            expect(requests[1].cancellableAt).to.be.equal(requests[1].requestedAt + REQUEST_TIMEOUT)
+        })
+
+        it("ignores the cancelled requests", async () => {
+            await businessCard.connect(signers[0]).resetRequest(3)
+
+            expect((await findPendingRequests(businessCard)).map(({ cardId }) => cardId)).to.deep.equal(['1', '2'])
+        })
+    })
+
+    describe("findStuckRequests", () => {
+        it(`only returns the requests pending for more than ${REQUEST_TIMEOUT} seconds`, async () => {
+            expect(await findStuckRequests(businessCard)).to.be.empty
+
+            await time.increase(REQUEST_TIMEOUT)
+
+            expect(await findStuckRequests(businessCard)).to.have.lengthOf(3)
+        })
+
+        it("looks the requests up at the given block", async () => {
+            await time.increase(REQUEST_TIMEOUT)
+            const blockTag = await businessCard.provider.getBlockNumber()
+
+            await businessCard.connect(signers[0]).resetRequest(3)
+            await businessCard.getCard('Timothy PRICE', cardProperties, { value: MINT_PRICE })
+            await time.increase(REQUEST_TIMEOUT)
+
+            expect((await findStuckRequests(businessCard, 0, REQUEST_TIMEOUT, blockTag)).map(({ cardId }) => cardId))
+                .to.deep.equal(['3', '1', '2'])
+        })
+    })
+
+    describe("requests:stuck task", () => {
+        it("lists the stuck requests", async () => {
+            const stuckRequests = await run("requests:stuck", { businessCardAddress: businessCard.address, maxPendingTime: 0 })
+
+            expect(stuckRequests.map(({ cardId }: { cardId: string }) => cardId)).to.deep.equal(['3', '1', '2'])
+        })
+    })
+
+    describe("BusinessCardClient.cancelRequest", () => {
+        it("throws before sending the transaction when the request has not timed out", async () => {
+            await expect(
+                new BusinessCardClient(businessCard).cancelRequest(3)
+            ).to.be.rejectedWith(BusinessCardError, "RequestNotTimedOut")
+        })
+
+        it("cancels the request once it has timed out", async () => {
+            await time.increase(REQUEST_TIMEOUT)
+
+            await expect(new BusinessCardClient(businessCard).cancelRequest(3))
+                .to.emit(businessCard, "RequestCancelled")
+                .withArgs(3, ORACLE_FEE)
+        })
+    })
+})
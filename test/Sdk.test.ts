@@ -0,0 +1,459 @@
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { expect } from "chai";
+import { Signer, utils } from "ethers"
+import { run } from "hardhat";
+import { describe } from "mocha";
+import {
+    BusinessCard__factory,
+    CardMarketplace__factory,
+    DorsiaClubToken__factory,
+    MeetingRoom__factory
+} from "../typechain-types";
+import {
+    BusinessCardClient,
+    BusinessCardError,
+    CardMarketplaceClient,
+    CardMarketplaceError,
+    Currency,
+    MeetingRoomClient,
+    MeetingRoomError,
+    ValidationError,
+    getOrderDomain,
+    getRevertData,
+    verifySellOrder
+} from "../sdk";
+import {
+    MIN_AUCTION_DURATION,
+    MIN_LISTING_PRICE,
+    MINIMUM_MEETING_DURATION,
+    MINIMUM_TIME_TO_MEETING_START,
+    MINT_PRICE,
+    ORACLE_FEE,
+    UPDATE_PRICE,
+    createCardCommitment
+} from "./utils";
+
+describe("SDK", () => {
+    let businessCardAddress: string;
+    let cardMarketplaceAddress: string;
+    let meetingRoomAddress: string;
+
+    let signers: Signer[];
+    let accounts: string[];
+
+    // Example cardName and cardProperties
+    const cardProperties = {
+        position: 'Vice President',
+        twitterAccount: 'twitterAccount',
+        telegramAccount: 'telegramAccount',
+        githubAccount: 'githubAccount',
+        website: 'website.com'
+    }
+
+    const firstToken = {
+        cardName: 'Patrick BATEMAN',
+        cardProperties
+    };
+
+    const secondToken = {
+        cardName: 'Paul ALLEN',
+        cardProperties
+    };
+
+    // URI parameters
+    const baseUri = 'https://gateway.pinata.cloud/ipfs/Qm';
+    const defaultUri = 'bFp3rybuvZ7j9e4xB6WLedu8gvLcjbVqUrGUEugQWz9u';
+
+    // Filler value, would be dynamically generated by the server oracle
+    const cardURI = 'Ur63bgQq3VWW9XsVviDGAFwYEZVs9AFWsTd56T9xCQmf'
+
+    const businessCardClient = (signer: Signer) => new BusinessCardClient(BusinessCard__factory.connect(businessCardAddress, signer))
+
+    const cardMarketplaceClient = (signer: Signer) => new CardMarketplaceClient(
+        CardMarketplace__factory.connect(cardMarketplaceAddress, signer),
+        BusinessCard__factory.connect(businessCardAddress, signer)
+    )
+
+    const meetingRoomClient = (signer: Signer) => new MeetingRoomClient(
+        MeetingRoom__factory.connect(meetingRoomAddress, signer),
+        BusinessCard__factory.connect(businessCardAddress, signer)
+    )
+
+    before(async () => {
+        signers = await run("accounts")
+        accounts = await Promise.all(signers.map((signer: Signer) => signer.getAddress()))
+    })
+
+    beforeEach(async () => {
+        ({ businessCardAddress, cardMarketplaceAddress } = await run("deploy:business-card", {
+            baseUri,
+            defaultUri,
+            oracleAddress: accounts[9]
+        }));
+
+        ({ meetingRoomAddress } = await run("deploy:meeting-room", { businessCardAddress }))
+
+        await businessCardClient(signers[1]).mint(firstToken.cardName, firstToken.cardProperties)
+        await BusinessCard__factory.connect(businessCardAddress, signers[9]).updateCallback(1, cardURI)
+    })
+
+    describe("getRevertData", () => {
+        const revertData = utils.id("NameIsTaken()").slice(0, 10)
+
+        it("finds the revert data nested by the providers", () => {
+            expect(getRevertData({ data: revertData })).to.be.equal(revertData)
+            expect(getRevertData({ error: { data: { data: revertData } } })).to.be.equal(revertData)
+            expect(getRevertData({ error: { error: { data: revertData } } })).to.be.equal(revertData)
+        })
+
+        it("returns undefined for anything that is not a reverted call", () => {
+            expect(getRevertData(undefined)).to.be.undefined
+            expect(getRevertData("execution reverted")).to.be.undefined
+            expect(getRevertData(new Error("execution reverted"))).to.be.undefined
+            expect(getRevertData({ data: "0x", error: null })).to.be.undefined
+        })
+    })
+
+    describe("BusinessCardClient", () => {
+        context("when minting", () => {
+            it(`pays ${MINT_PRICE} wei`, async () => {
+                const tx = await businessCardClient(signers[2]).mint(secondToken.cardName, secondToken.cardProperties)
+
+                await expect(tx).to.changeEtherBalance(accounts[2], MINT_PRICE.mul(-1))
+            })
+
+            it("throws a BusinessCardError before sending the transaction when the name is taken", async () => {
+                await expect(
+                    businessCardClient(signers[2]).mint(firstToken.cardName.toUpperCase(), secondToken.cardProperties)
+                ).to.be.rejectedWith(BusinessCardError, "NameIsTaken")
+            })
+
+            it("throws a BusinessCardError before sending the transaction when the card data is not valid", async () => {
+                await expect(
+                    businessCardClient(signers[2]).mint(' Paul', secondToken.cardProperties)
+                ).to.be.rejectedWith(BusinessCardError, "NameNotValid")
+
+                await expect(
+                    businessCardClient(signers[2]).mint(secondToken.cardName, { ...cardProperties, twitterAccount: 'a'.repeat(16) })
+                ).to.be.rejectedWith(BusinessCardError, "PropertiesNotValid")
+            })
+
+            it("decodes the custom error the contract reverts with", async () => {
+                await BusinessCard__factory.connect(businessCardAddress, signers[0]).pauseSale()
+
+                await expect(
+                    businessCardClient(signers[2]).mint(secondToken.cardName, secondToken.cardProperties)
+                ).to.be.rejectedWith(BusinessCardError, "SaleNotActive")
+            })
+        })
+
+        context("when updating", () => {
+            it(`pays ${UPDATE_PRICE} wei`, async () => {
+                const tx = await businessCardClient(signers[1]).update(1, secondToken.cardName, cardProperties)
+
+                await expect(tx).to.changeEtherBalance(accounts[1], UPDATE_PRICE.mul(-1))
+            })
+
+            it("throws a BusinessCardError when a request is already being processed", async () => {
+                await businessCardClient(signers[1]).update(1, secondToken.cardName, cardProperties)
+
+                await expect(
+                    businessCardClient(signers[1]).update(1, '', cardProperties)
+                ).to.be.rejectedWith(BusinessCardError, "RequestBeingProcessed")
+            })
+        })
+
+        context("when swapping", () => {
+            it(`pays ${UPDATE_PRICE} wei`, async () => {
+                await businessCardClient(signers[1]).mint(secondToken.cardName, secondToken.cardProperties)
+                await BusinessCard__factory.connect(businessCardAddress, signers[9]).updateCallback(2, cardURI)
+
+                const tx = await businessCardClient(signers[1]).swap(1, 2)
+
+                await expect(tx).to.changeEtherBalance(accounts[1], UPDATE_PRICE.mul(-1))
+            })
+        })
+    })
+
+    describe("CardMarketplaceClient", () => {
+        it("throws a ValidationError when listing below the minimum price", async () => {
+            await expect(
+                cardMarketplaceClient(signers[1]).list(1, MIN_LISTING_PRICE.sub(1))
+            ).to.be.rejectedWith(ValidationError, "price")
+        })
+
+        it("approves the card before listing it", async () => {
+            await cardMarketplaceClient(signers[1]).list(1, MIN_LISTING_PRICE)
+
+            expect(await BusinessCard__factory.connect(businessCardAddress, signers[1]).ownerOf(1))
+                .to.be.equal(cardMarketplaceAddress)
+        })
+
+        it("approves every card before listing them as a bundle", async () => {
+            await businessCardClient(signers[1]).mint(secondToken.cardName, secondToken.cardProperties)
+
+            await cardMarketplaceClient(signers[1]).listBundle([1, 2], MIN_LISTING_PRICE)
+
+            expect(await cardMarketplaceClient(signers[1]).getListingCardIds(1))
+                .to.deep.equal([1, 2])
+        })
+
+        it("throws a ValidationError when bundling the same card twice", async () => {
+            await expect(
+                cardMarketplaceClient(signers[1]).listBundle([1, 1], MIN_LISTING_PRICE)
+            ).to.be.rejectedWith(ValidationError, "twice")
+        })
+
+        it("lists a card only the reserved buyer can buy", async () => {
+            await cardMarketplaceClient(signers[1]).listPrivate(1, MIN_LISTING_PRICE, accounts[2])
+
+            await expect(
+                cardMarketplaceClient(signers[3]).buy(1)
+            ).to.be.rejectedWith(CardMarketplaceError, "CallerIsNotTheReservedBuyer")
+
+            await cardMarketplaceClient(signers[2]).buy(1)
+
+            expect(await cardMarketplaceClient(signers[1]).getPayments(accounts[1])).to.be.equal(MIN_LISTING_PRICE)
+        })
+
+        it("buys a listing paying its price", async () => {
+            await cardMarketplaceClient(signers[1]).list(1, MIN_LISTING_PRICE)
+
+            const tx = await cardMarketplaceClient(signers[2]).buy(1)
+
+            await expect(tx).to.changeEtherBalance(accounts[2], MIN_LISTING_PRICE.mul(-1))
+            expect(await cardMarketplaceClient(signers[1]).getPayments(accounts[1])).to.be.equal(MIN_LISTING_PRICE)
+        })
+
+        it("withdraws the payments credited to the signer", async () => {
+            await cardMarketplaceClient(signers[1]).list(1, MIN_LISTING_PRICE)
+            await cardMarketplaceClient(signers[2]).buy(1)
+
+            await expect(
+                cardMarketplaceClient(signers[1]).withdrawPayments()
+            ).to.changeEtherBalance(accounts[1], MIN_LISTING_PRICE)
+            await expect(
+                cardMarketplaceClient(signers[1]).withdrawPayments()
+            ).to.be.rejectedWith(CardMarketplaceError, "NoPaymentsToWithdraw")
+        })
+
+        it("approves the price in DCT before buying a DCT listing", async () => {
+            const price = utils.parseEther("100")
+            const dct = DorsiaClubToken__factory.connect(await BusinessCard__factory.connect(businessCardAddress, signers[1]).DCT(), signers[1])
+
+            await dct.transfer(accounts[2], price)
+            await cardMarketplaceClient(signers[1]).list(1, price, Currency.DCT)
+
+            const tx = await cardMarketplaceClient(signers[2]).buy(1)
+
+            await expect(tx).to.changeEtherBalance(accounts[1], 0)
+            await expect(tx).to.changeTokenBalances(dct, [accounts[1], accounts[2]], [price, price.mul(-1)])
+        })
+
+        it("reads the ETH price of a DCT listing without approving anything", async () => {
+            const price = utils.parseEther("100")
+            const dct = DorsiaClubToken__factory.connect(await BusinessCard__factory.connect(businessCardAddress, signers[1]).DCT(), signers[1])
+
+            await cardMarketplaceClient(signers[1]).list(1, price, Currency.DCT)
+            const nonce = await signers[2].getTransactionCount()
+
+            expect(await cardMarketplaceClient(signers[2]).getETHPrice(1)).to.be.equal(0)
+            expect(await signers[2].getTransactionCount()).to.be.equal(nonce)
+            expect(await dct.allowance(accounts[2], cardMarketplaceAddress)).to.be.equal(0)
+        })
+
+        it("buys a DCT listing with the allowance approved beforehand", async () => {
+            const price = utils.parseEther("100")
+            const dct = DorsiaClubToken__factory.connect(await BusinessCard__factory.connect(businessCardAddress, signers[1]).DCT(), signers[1])
+
+            await dct.transfer(accounts[2], price)
+            await cardMarketplaceClient(signers[1]).list(1, price, Currency.DCT)
+            await cardMarketplaceClient(signers[2]).approveDCT(price)
+            const nonce = await signers[2].getTransactionCount()
+
+            await expect(
+                cardMarketplaceClient(signers[2]).buy(1)
+            ).to.changeTokenBalances(dct, [accounts[1], accounts[2]], [price, price.mul(-1)])
+            expect(await signers[2].getTransactionCount()).to.be.equal(nonce + 1)
+        })
+
+        it("buys and updates a listing paying its price plus the oracle fee and update price", async () => {
+            await cardMarketplaceClient(signers[1]).list(1, MIN_LISTING_PRICE)
+
+            const tx = await cardMarketplaceClient(signers[2]).buyAndUpdate(1, secondToken.cardName, cardProperties)
+
+            await expect(tx).to.changeEtherBalance(accounts[2], MIN_LISTING_PRICE.add(ORACLE_FEE).add(UPDATE_PRICE).mul(-1))
+        })
+
+        it("decodes the custom errors of the marketplace", async () => {
+            await cardMarketplaceClient(signers[1]).list(1, MIN_LISTING_PRICE)
+
+            await expect(
+                cardMarketplaceClient(signers[2]).cancel(1)
+            ).to.be.rejectedWith(CardMarketplaceError, "CallerIsNotTheSeller")
+        })
+
+        it("decodes the custom errors bubbling up from the Business Card contract", async () => {
+            // The card gets listed while its update request is still pending
+            await businessCardClient(signers[1]).update(1, '', cardProperties)
+            await cardMarketplaceClient(signers[1]).list(1, MIN_LISTING_PRICE)
+
+            await expect(
+                cardMarketplaceClient(signers[3]).buyAndUpdate(1, secondToken.cardName, cardProperties)
+            ).to.be.rejectedWith(BusinessCardError, "RequestBeingProcessed")
+        })
+
+        it("throws a ValidationError when offering below the minimum price", async () => {
+            await expect(
+                cardMarketplaceClient(signers[2]).makeOffer(1, MIN_LISTING_PRICE.sub(1), (await time.latest()) + 60)
+            ).to.be.rejectedWith(ValidationError, "amount")
+        })
+
+        it("approves the card before accepting an offer for it", async () => {
+            await cardMarketplaceClient(signers[2]).makeOffer(1, MIN_LISTING_PRICE, (await time.latest()) + 60)
+
+            await cardMarketplaceClient(signers[1]).acceptOffer(1)
+
+            expect(await cardMarketplaceClient(signers[1]).getPayments(accounts[1])).to.be.equal(MIN_LISTING_PRICE)
+            expect(await BusinessCard__factory.connect(businessCardAddress, signers[1]).ownerOf(1))
+                .to.be.equal(accounts[2])
+        })
+
+        it("throws before accepting an expired offer", async () => {
+            const expiresAt = (await time.latest()) + 60
+            await cardMarketplaceClient(signers[2]).makeOffer(1, MIN_LISTING_PRICE, expiresAt)
+            await time.increaseTo(expiresAt)
+
+            await expect(
+                cardMarketplaceClient(signers[1]).acceptOffer(1)
+            ).to.be.rejectedWith(CardMarketplaceError, "OfferHasExpired")
+        })
+
+        it("bids the minimum amount in an auction", async () => {
+            await cardMarketplaceClient(signers[1]).createAuction(1, MIN_LISTING_PRICE, 1, MIN_AUCTION_DURATION)
+            await cardMarketplaceClient(signers[2]).bid(1, MIN_LISTING_PRICE)
+
+            const minimumBid = await cardMarketplaceClient(signers[3]).getMinimumBid(1)
+
+            expect(minimumBid).to.be.equal(MIN_LISTING_PRICE.add(1))
+            await expect(
+                cardMarketplaceClient(signers[3]).bid(1, minimumBid.sub(1))
+            ).to.be.rejectedWith(CardMarketplaceError, "BidTooLow")
+            await cardMarketplaceClient(signers[3]).bid(1, minimumBid)
+
+            expect(await cardMarketplaceClient(signers[2]).getPayments(accounts[2])).to.be.equal(MIN_LISTING_PRICE)
+        })
+
+        it("buys a Dutch listing at its current price", async () => {
+            await cardMarketplaceClient(signers[1]).listDutch(1, MIN_LISTING_PRICE.mul(2), MIN_LISTING_PRICE, 60)
+            await time.increase(60)
+
+            const tx = await cardMarketplaceClient(signers[2]).buy(1)
+
+            await expect(tx).to.changeEtherBalance(accounts[2], MIN_LISTING_PRICE.mul(-1))
+            expect(await cardMarketplaceClient(signers[1]).getPayments(accounts[1])).to.be.equal(MIN_LISTING_PRICE)
+        })
+
+        it("updates the price of a listing in place", async () => {
+            await cardMarketplaceClient(signers[1]).list(1, MIN_LISTING_PRICE)
+            await cardMarketplaceClient(signers[1]).updatePrice(1, MIN_LISTING_PRICE.mul(2))
+
+            await expect(
+                cardMarketplaceClient(signers[1]).updatePrice(1, MIN_LISTING_PRICE.sub(1))
+            ).to.be.rejectedWith(ValidationError, "price")
+            expect(await cardMarketplaceClient(signers[2]).getListingPrice(1)).to.be.equal(MIN_LISTING_PRICE.mul(2))
+        })
+
+        it("signs sell orders that buyers can fill without the card leaving the seller", async () => {
+            const signedOrder = await cardMarketplaceClient(signers[1]).signSellOrder(1, MIN_LISTING_PRICE, (await time.latest()) + 60)
+            const domain = await getOrderDomain(CardMarketplace__factory.connect(cardMarketplaceAddress, signers[1]))
+
+            expect(verifySellOrder(domain, signedOrder)).to.be.true
+            expect(verifySellOrder(domain, { ...signedOrder, order: { ...signedOrder.order, price: 1 } })).to.be.false
+            expect(await BusinessCard__factory.connect(businessCardAddress, signers[1]).ownerOf(1))
+                .to.be.equal(accounts[1])
+
+            const tx = await cardMarketplaceClient(signers[2]).fillSellOrder(signedOrder)
+
+            await expect(tx).to.changeEtherBalance(accounts[2], MIN_LISTING_PRICE.mul(-1))
+            expect(await cardMarketplaceClient(signers[1]).getPayments(accounts[1])).to.be.equal(MIN_LISTING_PRICE)
+        })
+
+        it("accepts buy orders paid from the deposit of the buyer", async () => {
+            const signedOrder = await cardMarketplaceClient(signers[2]).signBuyOrder(1, MIN_LISTING_PRICE, (await time.latest()) + 60)
+
+            await expect(
+                cardMarketplaceClient(signers[1]).acceptBuyOrder(signedOrder)
+            ).to.be.rejectedWith(CardMarketplaceError, "DepositTooLow")
+
+            await cardMarketplaceClient(signers[2]).deposit(MIN_LISTING_PRICE)
+            await cardMarketplaceClient(signers[1]).acceptBuyOrder(signedOrder)
+
+            expect(await cardMarketplaceClient(signers[1]).getPayments(accounts[1])).to.be.equal(MIN_LISTING_PRICE)
+            expect(await BusinessCard__factory.connect(businessCardAddress, signers[1]).ownerOf(1))
+                .to.be.equal(accounts[2])
+        })
+
+        it("signs orders with the current nonce of the signer", async () => {
+            const expiresAt = (await time.latest()) + 60
+            const signedOrder = await cardMarketplaceClient(signers[1]).signSellOrder(1, MIN_LISTING_PRICE, expiresAt)
+
+            await cardMarketplaceClient(signers[1]).cancelAllOrders()
+
+            await expect(
+                cardMarketplaceClient(signers[2]).fillSellOrder(signedOrder)
+            ).to.be.rejectedWith(CardMarketplaceError, "OrderNonceNotValid")
+
+            const { order } = await cardMarketplaceClient(signers[1]).signSellOrder(1, MIN_LISTING_PRICE, expiresAt)
+            expect(order.nonce).to.be.equal(1)
+        })
+
+        it("throws when buying a listing that does not exist", async () => {
+            await expect(
+                cardMarketplaceClient(signers[2]).buy(1)
+            ).to.be.rejectedWith(CardMarketplaceError, "ListingDoesNotExist")
+        })
+    })
+
+    describe("MeetingRoomClient", () => {
+        const betAmount = MINT_PRICE;
+
+        it("throws a ValidationError when the meeting parameters are out of bounds", async () => {
+            await expect(
+                meetingRoomClient(signers[1]).create(createCardCommitment(1, 350), MINIMUM_TIME_TO_MEETING_START - 1, MINIMUM_MEETING_DURATION, betAmount)
+            ).to.be.rejectedWith(ValidationError, "Time to meeting start")
+        })
+
+        it("joins a meeting betting the same amount as its creator", async () => {
+            await meetingRoomClient(signers[1]).create(createCardCommitment(1, 350), MINIMUM_TIME_TO_MEETING_START, MINIMUM_MEETING_DURATION, betAmount)
+
+            const tx = await meetingRoomClient(signers[2]).join(1, createCardCommitment(2, 350))
+
+            await expect(tx).to.changeEtherBalance(accounts[2], betAmount.mul(-1))
+        })
+
+        it("decodes the custom errors of the meeting room", async () => {
+            await meetingRoomClient(signers[1]).create(createCardCommitment(1, 350), MINIMUM_TIME_TO_MEETING_START, MINIMUM_MEETING_DURATION, betAmount)
+
+            await time.increase(MINIMUM_TIME_TO_MEETING_START * 60 + 1)
+
+            await expect(
+                meetingRoomClient(signers[2]).join(1, createCardCommitment(2, 350))
+            ).to.be.rejectedWith(MeetingRoomError, "MeetingOngoing")
+        })
+
+        it("withdraws the prize of a won meeting", async () => {
+            await meetingRoomClient(signers[1]).create(createCardCommitment(1, 350), MINIMUM_TIME_TO_MEETING_START, MINIMUM_MEETING_DURATION, betAmount)
+
+            await time.increase(MINIMUM_TIME_TO_MEETING_START * 60)
+            await meetingRoomClient(signers[1]).reveal(1, createCardCommitment(1, 350), 1, 350)
+            await time.increase(MINIMUM_MEETING_DURATION * 60)
+            await meetingRoomClient(signers[2]).finish(1)
+
+            expect(await meetingRoomClient(signers[2]).getPayments(accounts[1])).to.be.equal(betAmount)
+            await expect(
+                meetingRoomClient(signers[1]).withdrawPayments()
+            ).to.changeEtherBalance(accounts[1], betAmount)
+        })
+    })
+})
@@ -0,0 +1,164 @@
+import { expect } from "chai";
+import { Signer, utils } from "ethers"
+import fc from "fast-check"
+import { ethers, run } from "hardhat";
+import { describe } from "mocha";
+import {
+    BusinessCard,
+    BusinessCard__factory,
+    StringUtilsMock
+} from "../typechain-types";
+import {
+    StringValidation,
+    getNameError,
+    getPropertiesError,
+    getRevertData,
+    toLower,
+    validateName,
+    validatePosition
+} from "../sdk";
+import { MINT_PRICE, UPDATE_PRICE } from "./utils";
+
+describe("StringUtils off-chain mirror", () => {
+    let stringUtils: StringUtilsMock;
+    let businessCard: BusinessCard;
+
+    let signers: Signer[];
+    let accounts: string[];
+
+    const cardProperties = {
+        position: 'Vice President',
+        twitterAccount: 'twitterAccount',
+        telegramAccount: 'telegramAccount',
+        githubAccount: 'githubAccount',
+        website: 'website.com'
+    }
+
+    const reservedName = 'Patrick BATEMAN'
+
+    // Characters around every boundary the validation checks, plus multi-byte ones
+    const edgeCharacter = fc.constantFrom(
+        ' ', ' ', ' ', 'a', 'z', 'A', 'Z', '0', '9', '?', '&', '"', '<',
+        '@', '[', '`', '{', '~', '\x1f', '\x7f', '\n', 'é', 'ÿ', '€', '😀'
+    )
+    const edgeString = (maxLength: number) => fc.oneof(
+        fc.stringOf(edgeCharacter, { maxLength }),
+        fc.string({ maxLength }),
+        fc.fullUnicodeString({ maxLength: maxLength / 2 })
+    )
+
+    const nameArbitrary = fc.oneof(
+        edgeString(26),
+        fc.constantFrom('', reservedName, reservedName.toUpperCase(), reservedName.toLowerCase(), 'Paul ALLEN')
+    )
+    const propertiesArbitrary = fc.record({
+        position: fc.oneof(edgeString(36), fc.constant('')),
+        twitterAccount: fc.string({ maxLength: 17 }),
+        telegramAccount: fc.string({ maxLength: 34 }),
+        githubAccount: fc.string({ maxLength: 41 }),
+        website: fc.string({ maxLength: 52 })
+    })
+
+    const getErrorName = (contract: { interface: utils.Interface }, error: unknown): string => {
+        const data = getRevertData(error)
+
+        if (!data) throw error
+
+        return contract.interface.parseError(data).name
+    }
+
+    const onChainValidation = async (contract: StringUtilsMock, validate: () => Promise<boolean>): Promise<StringValidation> => {
+        try {
+            return (await validate()) ? "valid" : "invalid"
+        } catch (error) {
+            return getErrorName(contract, error) as StringValidation
+        }
+    }
+
+    const onChainError = async (call: () => Promise<unknown>): Promise<string | undefined> => {
+        try {
+            await call()
+            return undefined
+        } catch (error) {
+            return getErrorName(businessCard, error)
+        }
+    }
+
+    const expectedCardDataError = (cardName: string, properties: typeof cardProperties, isUpdate: boolean) =>
+        getNameError(cardName, isUpdate) ??
+        (cardName.length > 0 && toLower(cardName) === toLower(reservedName) ? "NameIsTaken" : undefined) ??
+        getPropertiesError(properties, isUpdate)
+
+    before(async () => {
+        signers = await run("accounts")
+        accounts = await Promise.all(signers.map((signer: Signer) => signer.getAddress()))
+
+        const StringUtilsMockFactory = await ethers.getContractFactory("StringUtilsMock")
+        stringUtils = await StringUtilsMockFactory.deploy() as StringUtilsMock
+
+        const { businessCardAddress } = await run("deploy:business-card", {
+            baseUri: '',
+            defaultUri: '',
+            oracleAddress: accounts[9],
+            deployMarketplace: false
+        })
+
+        businessCard = BusinessCard__factory.connect(businessCardAddress, signers[1])
+
+        await businessCard.getCard(reservedName, cardProperties, { value: MINT_PRICE })
+        await businessCard.connect(signers[9]).updateCallback(1, '')
+    })
+
+    describe("validateName", () => {
+        it("matches StringUtils.validateName", async () => {
+            await fc.assert(fc.asyncProperty(edgeString(26), async (name) => {
+                expect(validateName(name)).to.be.equal(await onChainValidation(stringUtils, () => stringUtils.validateName(name)))
+            }), { numRuns: 300 })
+        })
+
+        it("rejects double spaces with NonValidCharacters", () => {
+            expect(validateName('Paul  ALLEN')).to.be.equal("NonValidCharacters")
+        })
+
+        it("rejects leading and trailing spaces as not valid", () => {
+            expect(validateName(' Paul ALLEN')).to.be.equal("invalid")
+            expect(validateName('Paul ALLEN ')).to.be.equal("invalid")
+        })
+    })
+
+    describe("validatePosition", () => {
+        it("matches StringUtils.validatePosition", async () => {
+            await fc.assert(fc.asyncProperty(edgeString(36), async (position) => {
+                expect(validatePosition(position)).to.be.equal(await onChainValidation(stringUtils, () => stringUtils.validatePosition(position)))
+            }), { numRuns: 300 })
+        })
+    })
+
+    describe("toLower", () => {
+        it("matches StringUtils.toLower", async () => {
+            await fc.assert(fc.asyncProperty(edgeString(26), async (value) => {
+                expect(toLower(value)).to.be.equal(await stringUtils.toLower(value))
+            }), { numRuns: 200 })
+        })
+
+        it("only folds A-Z", () => {
+            expect(toLower('ÉCOLE Paul')).to.be.equal('École paul')
+        })
+    })
+
+    describe("getNameError and getPropertiesError", () => {
+        it("predict the error getCard reverts with", async () => {
+            await fc.assert(fc.asyncProperty(nameArbitrary, propertiesArbitrary, async (cardName, properties) => {
+                expect(await onChainError(() => businessCard.callStatic.getCard(cardName, properties, { value: MINT_PRICE })))
+                    .to.be.equal(expectedCardDataError(cardName, properties, false))
+            }), { numRuns: 150 })
+        })
+
+        it("predict the error updateCardData reverts with", async () => {
+            await fc.assert(fc.asyncProperty(nameArbitrary, propertiesArbitrary, async (cardName, properties) => {
+                expect(await onChainError(() => businessCard.callStatic.updateCardData(1, cardName, properties, { value: UPDATE_PRICE })))
+                    .to.be.equal(expectedCardDataError(cardName, properties, true))
+            }), { numRuns: 150 })
+        })
+    })
+})
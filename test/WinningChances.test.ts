@@ -0,0 +1,239 @@
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { expect } from "chai";
+import { BigNumber, Signer, utils } from "ethers"
+import fc from "fast-check"
+import { ethers, run } from "hardhat";
+import { describe } from "mocha";
+import {
+    BusinessCard,
+    BusinessCard__factory,
+    MeetingRoom,
+    MeetingRoom__factory,
+    WinningChancesMock
+} from "../typechain-types";
+import {
+    computeDrawNumber,
+    computeEntropy,
+    computeWinningProbabilities,
+    computeWinningWeights,
+    getChanceAgainst,
+    pickWinningCard,
+    toWinningProbabilities
+} from "../sdk";
+import {
+    MAXIMUM_MEETING_PARTICIPANTS,
+    MINIMUM_MEETING_DURATION,
+    MINIMUM_TIME_TO_MEETING_START,
+    MINT_PRICE,
+    PRECISION,
+    createCardCommitment
+} from "./utils";
+
+describe("WinningChances off-chain mirror", () => {
+    let winningChances: WinningChancesMock;
+
+    let signers: Signer[];
+    let accounts: string[];
+
+    const genesArbitrary = fc.bigUintN(256).map((genes) => BigNumber.from(genes))
+    const meetingArbitrary = fc.array(genesArbitrary, { minLength: 1, maxLength: MAXIMUM_MEETING_PARTICIPANTS })
+
+    const sum = (values: BigNumber[]) => values.reduce((total, value) => total.add(value), BigNumber.from(0))
+
+    before(async () => {
+        signers = await run("accounts")
+        accounts = await Promise.all(signers.map((signer: Signer) => signer.getAddress()))
+
+        const WinningChancesMockFactory = await ethers.getContractFactory("WinningChancesMock")
+        winningChances = await WinningChancesMockFactory.deploy() as WinningChancesMock
+    })
+
+    describe("getChanceAgainst", () => {
+        it("matches WinningChances.getChanceAgainst", async () => {
+            await fc.assert(fc.asyncProperty(genesArbitrary, genesArbitrary, async (genesA, genesB) => {
+                expect(getChanceAgainst(genesA, genesB)).to.be.equal(await winningChances.getChanceAgainst(genesA, genesB))
+            }), { numRuns: 100 })
+        })
+
+        it("is strictly between 0 and PRECISION", () => {
+            fc.assert(fc.property(genesArbitrary, genesArbitrary, (genesA, genesB) => {
+                const chance = getChanceAgainst(genesA, genesB)
+
+                expect(chance).to.be.gt(0)
+                expect(chance).to.be.lt(PRECISION)
+            }), { numRuns: 1000 })
+        })
+    })
+
+    describe("computeWinningWeights", () => {
+        it("matches the weights of revealCard", async function () {
+            // Every run scores up to 45 pairs of cards on-chain
+            this.timeout(150000)
+
+            await fc.assert(fc.asyncProperty(meetingArbitrary, async (genes) => {
+                expect(computeWinningWeights(genes)).to.deep.equal(await winningChances.getWeights(genes))
+            }), { numRuns: 100 })
+        })
+
+        it("never weights a card zero nor above PRECISION ** 9", () => {
+            const bound = BigNumber.from(PRECISION).pow(MAXIMUM_MEETING_PARTICIPANTS - 1)
+
+            fc.assert(fc.property(meetingArbitrary, (genes) => {
+                for (const weight of computeWinningWeights(genes)) {
+                    expect(weight).to.be.gt(0)
+                    expect(weight).to.be.lt(bound)
+                }
+            }), { numRuns: 300 })
+        })
+    })
+
+    describe("computeWinningProbabilities", () => {
+        it("matches the probabilities of the WinningChances library", async function () {
+            // Every run scores up to 45 pairs of cards on-chain
+            this.timeout(150000)
+
+            await fc.assert(fc.asyncProperty(meetingArbitrary, async (genes) => {
+                expect(computeWinningProbabilities(genes)).to.deep.equal(await winningChances.getProbabilities(genes))
+            }), { numRuns: 100 })
+        })
+
+        it("sums to PRECISION", () => {
+            fc.assert(fc.property(meetingArbitrary, (genes) => {
+                expect(sum(computeWinningProbabilities(genes))).to.be.equal(PRECISION)
+            }), { numRuns: 1000 })
+        })
+
+        it("gives every card its chance to within one unit", () => {
+            fc.assert(fc.property(meetingArbitrary, (genes) => {
+                const weights = computeWinningWeights(genes)
+                const scale = sum(weights)
+
+                computeWinningProbabilities(genes).forEach((probability, i) => {
+                    const exact = weights[i].mul(PRECISION)
+
+                    // |probability - weight * PRECISION / scale| < 1
+                    expect(probability.sub(1).mul(scale)).to.be.lt(exact)
+                    expect(probability.add(1).mul(scale)).to.be.gt(exact)
+                })
+            }), { numRuns: 300 })
+        })
+
+        it("gives two cards complementary chances", () => {
+            fc.assert(fc.property(genesArbitrary, genesArbitrary, (genesA, genesB) => {
+                const chance = getChanceAgainst(genesB, genesA)
+
+                expect(computeWinningProbabilities([genesA, genesB])).to.deep.equal([BigNumber.from(PRECISION).sub(chance), chance])
+            }), { numRuns: 300 })
+        })
+    })
+
+    describe("toWinningProbabilities", () => {
+        it("matches WinningChances.toProbabilities for weights of any magnitude", async () => {
+            const weightArbitrary = fc.oneof(
+                fc.bigUintN(20),
+                fc.bigUintN(180),
+                fc.constantFrom(BigInt(1), BigInt(PRECISION - 1) ** BigInt(MAXIMUM_MEETING_PARTICIPANTS - 1))
+            ).map((weight) => BigNumber.from(weight))
+            const weightsArbitrary = fc.array(weightArbitrary, { minLength: 1, maxLength: MAXIMUM_MEETING_PARTICIPANTS })
+                .filter((weights) => weights.some((weight) => !weight.isZero()))
+
+            await fc.assert(fc.asyncProperty(weightsArbitrary, async (weights) => {
+                const probabilities = toWinningProbabilities(weights)
+
+                expect(probabilities).to.deep.equal(await winningChances.toProbabilities(weights))
+                expect(sum(probabilities)).to.be.equal(PRECISION)
+            }), { numRuns: 100 })
+        })
+    })
+
+    describe("pickWinningCard", () => {
+        it("matches WinningChances.pick", async () => {
+            const randomNumberArbitrary = fc.oneof(
+                fc.integer({ min: 0, max: PRECISION - 1 }),
+                fc.constantFrom(0, PRECISION - 1)
+            )
+
+            await fc.assert(fc.asyncProperty(meetingArbitrary, randomNumberArbitrary, async (genes, randomNumber) => {
+                const probabilities = computeWinningProbabilities(genes)
+
+                expect(pickWinningCard(probabilities, randomNumber)).to.be.equal(await winningChances.pick(probabilities, randomNumber))
+            }), { numRuns: 100 })
+        })
+
+        it("gives every card as many random numbers as its probability", () => {
+            const probabilities = [0, PRECISION / 4, 0, PRECISION / 2, PRECISION / 4]
+
+            expect(pickWinningCard(probabilities, 0)).to.be.equal(1)
+            expect(pickWinningCard(probabilities, PRECISION / 4 - 1)).to.be.equal(1)
+            expect(pickWinningCard(probabilities, PRECISION / 4)).to.be.equal(3)
+            expect(pickWinningCard(probabilities, PRECISION * 3 / 4)).to.be.equal(4)
+            expect(pickWinningCard(probabilities, PRECISION - 1)).to.be.equal(4)
+        })
+    })
+
+    describe("MeetingRoom", () => {
+        let businessCard: BusinessCard;
+        let meetingRoom: MeetingRoom;
+
+        const betAmount = utils.parseEther("0.01");
+        const salt = 350;
+
+        // Example cardProperties
+        const cardProperties = {
+            position: 'Vice President',
+            twitterAccount: 'twitterAccount',
+            telegramAccount: 'telegramAccount',
+            githubAccount: 'githubAccount',
+            website: 'website.com'
+        }
+
+        before(async () => {
+            const { businessCardAddress } = await run("deploy:business-card", {
+                baseUri: '',
+                defaultUri: '',
+                oracleAddress: accounts[9],
+                deployMarketplace: false
+            })
+
+            businessCard = BusinessCard__factory.connect(businessCardAddress, signers[1])
+
+            await businessCard.connect(signers[1]).getCard('Patrick BATEMAN', cardProperties, { value: MINT_PRICE })
+            await businessCard.connect(signers[2]).getCard('Paul ALLEN', cardProperties, { value: MINT_PRICE })
+            await businessCard.connect(signers[3]).getCard('David VAN PATTEN', cardProperties, { value: MINT_PRICE })
+
+            const { meetingRoomAddress } = await run("deploy:meeting-room", { businessCardAddress })
+
+            meetingRoom = MeetingRoom__factory.connect(meetingRoomAddress, signers[1])
+
+            // Every participant reveals their card, the last one first
+            await meetingRoom.createMeetingRoom(createCardCommitment(1, salt), MINIMUM_TIME_TO_MEETING_START, MINIMUM_MEETING_DURATION, { value: betAmount })
+            await meetingRoom.connect(signers[2]).joinMeetingRoom(1, createCardCommitment(2, salt), { value: betAmount })
+            await meetingRoom.connect(signers[3]).joinMeetingRoom(1, createCardCommitment(3, salt), { value: betAmount })
+
+            await time.increase(MINIMUM_TIME_TO_MEETING_START * 60)
+
+            await meetingRoom.connect(signers[3]).revealCard(1, createCardCommitment(3, salt), 3, salt)
+            await meetingRoom.connect(signers[1]).revealCard(1, createCardCommitment(1, salt), 1, salt)
+            await meetingRoom.connect(signers[2]).revealCard(1, createCardCommitment(2, salt), 2, salt)
+        })
+
+        it("weights the revealed cards like the reference implementation", async () => {
+            const genes = await Promise.all([3, 1, 2].map((cardId) => businessCard.getCardGenes(cardId)))
+
+            expect((await meetingRoom.getMeetingRoom(1)).winningChances).to.deep.equal(computeWinningWeights(genes))
+            expect(await meetingRoom.getWinningProbabilities(1)).to.deep.equal(computeWinningProbabilities(genes))
+            expect(sum(await meetingRoom.getWinningProbabilities(1))).to.be.equal(PRECISION)
+        })
+
+        it("draws the winner among several revealed cards", async () => {
+            await time.increase(MINIMUM_MEETING_DURATION * 60)
+
+            const randomNumber = computeDrawNumber(1, computeEntropy([salt, salt, salt]), 0)
+            const winningCard = [3, 1, 2][pickWinningCard(await meetingRoom.getWinningProbabilities(1), randomNumber)]
+
+            await expect(meetingRoom.finishMeeting(1))
+                .to.emit(meetingRoom, "WinnerDrawn")
+                .withArgs(1, await businessCard.ownerOf(winningCard))
+        })
+    })
+})
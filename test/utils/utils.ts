@@ -1,12 +1,8 @@
 import { utils } from "ethers"
 
 export const createCardCommitment = (cardId: number | string, salt: number | string): string  => {
-    return utils.keccak256(
-        utils.toUtf8Bytes(
-            utils.solidityPack(
-                ["uint256", "uint256"],
-                [cardId, salt]
-            )
-        )
+    return utils.solidityKeccak256(
+        ["uint256", "uint256"],
+        [cardId, salt]
     )
-}
\ No newline at end of file
+}